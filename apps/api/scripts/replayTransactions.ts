@@ -0,0 +1,232 @@
+// Offline replay of recorded gRPC transactions through the parser + OHLCV aggregator
+// (the same calls GrpcService makes, without its DB-backed candle persistence)
+//
+// Usage:
+//   npx tsx scripts/replayTransactions.ts <updates.jsonl> [options]
+//
+// Options:
+//   --speed <n|max>       Replay speed multiplier based on recorded block times (default: max)
+//   --timeframes <list>   Comma-separated timeframes to dump (default: 1m,5m,1h)
+//   --out <file>          Write resulting candles as JSON (default: stdout summary only)
+//   --expect <file>       Compare candles against a previous --out file, exit 1 on mismatch
+//   --sol-price <usd>     SOL/USD price for USD candles (default: each line's recorded solPriceUsd)
+//
+// Record input with GRPC_RECORD_FILE=updates.jsonl on a live API instance. Each line is a
+// SubscribeUpdate (only `transaction` updates are replayed). The SOL price is always pinned -
+// a live fetch would make USD candles differ between runs - so recordings without solPriceUsd
+// need --sol-price.
+
+import { createReadStream } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { createInterface } from "readline";
+import { deserializeUpdate } from "../src/grpc/recording";
+import { getUsdPerQuote } from "../src/grpc/pricing";
+import { parseTransaction } from "../src/parsers";
+import { OHLCVAggregator } from "../src/ohlcv/aggregator";
+import { Timeframe, TIMEFRAME_MS, OHLCV } from "../src/ohlcv/candle";
+import { solPriceService } from "../src/services/solPrice";
+
+interface ReplayOptions {
+  file: string;
+  speed: number; // 0 = as fast as possible
+  timeframes: Timeframe[];
+  out?: string;
+  expect?: string;
+  solPrice?: number;
+}
+
+interface ReplayResult {
+  transactions: number;
+  swaps: number;
+  pairs: Array<{
+    baseMint: string;
+    quoteMint: string;
+    candles: Record<string, Omit<OHLCV, "isClosed">[]>;
+    usdCandles: Record<string, Omit<OHLCV, "isClosed">[]>;
+  }>;
+}
+
+function parseArgs(argv: string[]): ReplayOptions {
+  const options: ReplayOptions = { file: "", speed: 0, timeframes: ["1m", "5m", "1h"] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    if (arg === "--speed") {
+      const value = next();
+      options.speed = value === "max" ? 0 : parseFloat(value);
+      if (isNaN(options.speed) || options.speed < 0) throw new Error(`Invalid speed: ${value}`);
+    } else if (arg === "--timeframes") {
+      options.timeframes = next().split(",") as Timeframe[];
+      for (const tf of options.timeframes) {
+        if (!(tf in TIMEFRAME_MS)) throw new Error(`Invalid timeframe: ${tf}`);
+      }
+    } else if (arg === "--out") {
+      options.out = next();
+    } else if (arg === "--expect") {
+      options.expect = next();
+    } else if (arg === "--sol-price") {
+      const value = next();
+      options.solPrice = parseFloat(value);
+      if (isNaN(options.solPrice) || options.solPrice <= 0) throw new Error(`Invalid SOL price: ${value}`);
+    } else if (!options.file) {
+      options.file = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  if (!options.file) {
+    throw new Error("Usage: replayTransactions.ts <updates.jsonl> [--speed n|max] [--timeframes 1m,5m] [--out file] [--expect file] [--sol-price usd]");
+  }
+
+  return options;
+}
+
+// Recorded time of a transaction in ms (block time, falling back to when the update was created)
+function getRecordedTime(update: any): number | null {
+  const blockTime = update.transaction?.blockTime;
+  if (blockTime) return Number(blockTime) * 1000;
+
+  if (update.createdAt) {
+    const createdAt = new Date(update.createdAt).getTime();
+    if (!isNaN(createdAt)) return createdAt;
+  }
+
+  return null;
+}
+
+async function replay(options: ReplayOptions): Promise<ReplayResult> {
+  const aggregator = new OHLCVAggregator();
+  const lines = createInterface({ input: createReadStream(options.file), crlfDelay: Infinity });
+
+  let transactions = 0;
+  let swaps = 0;
+  let lineNumber = 0;
+  let previousTime: number | null = null;
+
+  if (options.solPrice !== undefined) {
+    solPriceService.pin(options.solPrice);
+  }
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let update: any;
+    try {
+      update = deserializeUpdate(line);
+    } catch (error) {
+      console.warn(`⚠️ Skipping malformed line ${lineNumber}`);
+      continue;
+    }
+
+    if (!update.transaction) continue;
+
+    if (options.solPrice === undefined) {
+      // null: the live run had no SOL price yet and skipped USD candles
+      const recordedPrice = update.solPriceUsd === null ? null : Number(update.solPriceUsd);
+      if (recordedPrice !== null && !(recordedPrice > 0)) {
+        throw new Error(`Line ${lineNumber} has no recorded solPriceUsd - pass --sol-price`);
+      }
+      solPriceService.pin(recordedPrice);
+    }
+
+    const recordedTime = getRecordedTime(update);
+
+    // Without a block time the parser would stamp trades with Date.now(),
+    // which makes replays non-deterministic
+    if (!update.transaction.blockTime && recordedTime !== null) {
+      update.transaction.blockTime = Math.floor(recordedTime / 1000);
+    }
+
+    if (options.speed > 0 && previousTime !== null && recordedTime !== null && recordedTime > previousTime) {
+      await new Promise((resolve) => setTimeout(resolve, (recordedTime - previousTime!) / options.speed));
+    }
+    if (recordedTime !== null) previousTime = recordedTime;
+
+    for (const swap of parseTransaction(update.transaction)) {
+      aggregator.addTrade(
+        swap.baseMint,
+        swap.quoteMint,
+        swap.price,
+        swap.baseAmount,
+        swap.quoteAmount,
+        swap.timestamp,
+        swap.isBuy,
+        getUsdPerQuote(swap.quoteMint)
+      );
+      swaps++;
+    }
+    transactions++;
+  }
+
+  const pairs = aggregator
+    .getAllPairs()
+    .sort((a, b) => `${a.baseMint}:${a.quoteMint}`.localeCompare(`${b.baseMint}:${b.quoteMint}`))
+    .map((pair) => {
+      const candles: ReplayResult["pairs"][number]["candles"] = {};
+      const usdCandles: ReplayResult["pairs"][number]["usdCandles"] = {};
+      for (const tf of options.timeframes) {
+        // isClosed depends on wall-clock time, not on the recording
+        candles[tf] = aggregator
+          .getCandles(pair.baseMint, pair.quoteMint, tf)
+          .map(({ isClosed, ...candle }) => candle);
+        usdCandles[tf] = aggregator
+          .getCandles(pair.baseMint, pair.quoteMint, tf, undefined, "usd")
+          .map(({ isClosed, ...candle }) => candle);
+      }
+      return { baseMint: pair.baseMint, quoteMint: pair.quoteMint, candles, usdCandles };
+    });
+
+  // Stop the candle checker so the process can exit
+  aggregator.destroy();
+
+  return { transactions, swaps, pairs };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`▶️ Replaying ${options.file} (speed: ${options.speed === 0 ? "max" : `${options.speed}x`})`);
+  const startedAt = Date.now();
+  const result = await replay(options);
+
+  console.log(
+    `✅ ${result.transactions} transactions → ${result.swaps} swaps across ${result.pairs.length} pairs in ${Date.now() - startedAt}ms`
+  );
+  for (const pair of result.pairs) {
+    const counts = options.timeframes.map((tf) => `${tf}: ${pair.candles[tf].length}`).join(" | ");
+    console.log(`  ${pair.baseMint.slice(0, 8)}... / ${pair.quoteMint.slice(0, 8)}...  ${counts}`);
+  }
+
+  const output = JSON.stringify(result, null, 2);
+
+  if (options.out) {
+    await writeFile(options.out, output + "\n");
+    console.log(`💾 Candles written to ${options.out}`);
+  }
+
+  let exitCode = 0;
+  if (options.expect) {
+    const expected = JSON.stringify(JSON.parse(await readFile(options.expect, "utf8")), null, 2);
+    if (expected === output) {
+      console.log(`✅ Output matches ${options.expect}`);
+    } else {
+      console.error(`❌ Output differs from ${options.expect}`);
+      exitCode = 1;
+    }
+  }
+
+  process.exit(exitCode);
+}
+
+main().catch((error) => {
+  console.error("❌ Replay failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -4,6 +4,8 @@ import Client, {
   SubscribeUpdate,
 } from "@triton-one/yellowstone-grpc";
 import { EventEmitter } from "events";
+import { UpdateRecorder } from "./recording";
+import { solPriceService } from "../services/solPrice";
 
 // DEX Program IDs
 export const DEX_PROGRAMS = {
@@ -11,6 +13,8 @@ export const DEX_PROGRAMS = {
   RAYDIUM_CLMM: "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK",
   PUMP_FUN: "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P",
   ORCA_WHIRLPOOL: "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc",
+  PUMP_SWAP: "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA",
+  METEORA_DLMM: "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo",
 } as const;
 
 // Common token addresses
@@ -23,6 +27,7 @@ export const TOKENS = {
 export interface GrpcConfig {
   endpoint: string;
   xToken?: string;
+  recordFile?: string; // Append every raw update as JSONL for offline replay
 }
 
 export interface ParsedSwap {
@@ -37,6 +42,7 @@ export interface ParsedSwap {
   price: number; // quote per base
   isBuy: boolean; // true if buying base token
   maker?: string;
+  pool?: string; // Pool/bonding curve account, set when amounts come from the pool's own vaults
 }
 
 class GrpcClient extends EventEmitter {
@@ -46,10 +52,15 @@ class GrpcClient extends EventEmitter {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
   private config: GrpcConfig;
+  private recorder: UpdateRecorder | null = null;
 
   constructor(config: GrpcConfig) {
     super();
     this.config = config;
+    if (config.recordFile) {
+      this.recorder = new UpdateRecorder(config.recordFile);
+      console.log(`📼 Recording gRPC updates to ${config.recordFile}`);
+    }
   }
 
   async connect(): Promise<void> {
@@ -113,6 +124,8 @@ class GrpcClient extends EventEmitter {
       // Process incoming updates
       for await (const update of this.stream) {
         if (update.transaction) {
+          // SOL/USD at receive time, so replays price USD candles like the live run did
+          this.recorder?.record({ ...update, solPriceUsd: solPriceService.getFetchedPriceSync() });
           this.emit("transaction", update.transaction);
         }
 
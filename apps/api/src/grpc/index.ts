@@ -1,2 +1,3 @@
 export { GrpcClient, getGrpcClient, GrpcConfig, ParsedSwap, DEX_PROGRAMS, TOKENS } from "./client";
 export { GrpcService, getGrpcService, GrpcServiceConfig } from "./service";
+export { serializeUpdate, deserializeUpdate, UpdateRecorder } from "./recording";
@@ -0,0 +1,11 @@
+import { TOKENS } from "./client";
+import { solPriceService } from "../services/solPrice";
+
+// USD value of one quote token, or undefined if we can't price the quote mint
+// (including SOL before the first price fetch - USD candles are skipped, not built on the fallback)
+// Shared by the live gRPC service and scripts/replayTransactions.ts
+export function getUsdPerQuote(quoteMint: string): number | undefined {
+  if (quoteMint === TOKENS.USDC || quoteMint === TOKENS.USDT) return 1;
+  if (quoteMint === TOKENS.SOL) return solPriceService.getFetchedPriceSync() ?? undefined;
+  return undefined;
+}
@@ -0,0 +1,46 @@
+// JSONL (de)serialization for raw gRPC updates
+// Used to record live SubscribeUpdates (GRPC_RECORD_FILE) and replay them offline
+// with scripts/replayTransactions.ts. Byte arrays become { type: "Buffer", data: [...] }
+// and bigints become strings so every line round-trips through JSON.
+// Lines also carry solPriceUsd (the SOL/USD price the live run used, null before the first fetch)
+// so replays are deterministic.
+
+import { appendFile } from "fs/promises";
+
+export function serializeUpdate(update: unknown): string {
+  return JSON.stringify(update, (_key, value) => {
+    if (value instanceof Uint8Array) {
+      return { type: "Buffer", data: Array.from(value) };
+    }
+    if (typeof value === "bigint") {
+      return value.toString();
+    }
+    return value;
+  });
+}
+
+export function deserializeUpdate(line: string): any {
+  return JSON.parse(line, (_key, value) => {
+    if (value && value.type === "Buffer" && Array.isArray(value.data)) {
+      return Buffer.from(value.data);
+    }
+    return value;
+  });
+}
+
+export class UpdateRecorder {
+  private file: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  // Appends are chained so lines never interleave
+  record(update: unknown): void {
+    const line = serializeUpdate(update) + "\n";
+    this.queue = this.queue
+      .then(() => appendFile(this.file, line))
+      .catch((error) => console.error("❌ Failed to record gRPC update:", error));
+  }
+}
@@ -1,7 +1,8 @@
 import { EventEmitter } from "events";
 import { GrpcClient, getGrpcClient, GrpcConfig, ParsedSwap } from "./client";
+import { getUsdPerQuote } from "./pricing";
 import { parseTransaction } from "../parsers";
-import { getOHLCVAggregator, OHLCVAggregator, Timeframe, OHLCV } from "../ohlcv";
+import { getOHLCVAggregator, OHLCVAggregator, CandlePersistence, CandleCurrency, Timeframe, OHLCV } from "../ohlcv";
 
 export interface GrpcServiceConfig extends GrpcConfig {
   enabled: boolean;
@@ -10,6 +11,7 @@ export interface GrpcServiceConfig extends GrpcConfig {
 class GrpcService extends EventEmitter {
   private client: GrpcClient | null = null;
   private aggregator: OHLCVAggregator;
+  private persistence: CandlePersistence;
   private isRunning = false;
   private stats = {
     totalTransactions: 0,
@@ -21,6 +23,7 @@ class GrpcService extends EventEmitter {
   constructor() {
     super();
     this.aggregator = getOHLCVAggregator();
+    this.persistence = new CandlePersistence(this.aggregator);
     this.setupAggregatorListeners();
   }
 
@@ -51,6 +54,9 @@ class GrpcService extends EventEmitter {
     }
 
     try {
+      // Restore candle history from the DB before live trades start flowing
+      await this.persistence.start();
+
       this.client = getGrpcClient(config);
 
       // Set up event handlers
@@ -86,7 +92,7 @@ class GrpcService extends EventEmitter {
     }
   }
 
-  private processTransaction(tx: any): void {
+  processTransaction(tx: any): void {
     this.stats.totalTransactions++;
 
     try {
@@ -102,7 +108,7 @@ class GrpcService extends EventEmitter {
   }
 
   private processSwap(swap: ParsedSwap): void {
-    // Add trade to OHLCV aggregator
+    // Add trade to OHLCV aggregator (quote + USD series)
     this.aggregator.addTrade(
       swap.baseMint,
       swap.quoteMint,
@@ -110,9 +116,13 @@ class GrpcService extends EventEmitter {
       swap.baseAmount,
       swap.quoteAmount,
       swap.timestamp,
-      swap.isBuy
+      swap.isBuy,
+      getUsdPerQuote(swap.quoteMint)
     );
 
+    // Raw swap for per-wallet consumers (wallet tracker matches on maker)
+    this.emit("swap", swap);
+
     // Log interesting swaps
     if (swap.quoteAmount > 1) {
       // More than 1 SOL
@@ -128,21 +138,33 @@ class GrpcService extends EventEmitter {
     if (this.client) {
       await this.client.disconnect();
     }
+    await this.persistence.stop();
     this.isRunning = false;
     console.log("🛑 gRPC service stopped");
   }
 
   // Public API methods
-  getCandles(baseMint: string, quoteMint: string, timeframe: Timeframe, limit?: number): OHLCV[] {
-    return this.aggregator.getCandles(baseMint, quoteMint, timeframe, limit);
+  getCandles(
+    baseMint: string,
+    quoteMint: string,
+    timeframe: Timeframe,
+    limit?: number,
+    currency: CandleCurrency = "quote"
+  ): OHLCV[] {
+    return this.aggregator.getCandles(baseMint, quoteMint, timeframe, limit, currency);
   }
 
-  getCurrentCandle(baseMint: string, quoteMint: string, timeframe: Timeframe): OHLCV | null {
-    return this.aggregator.getCurrentCandle(baseMint, quoteMint, timeframe);
+  getCurrentCandle(
+    baseMint: string,
+    quoteMint: string,
+    timeframe: Timeframe,
+    currency: CandleCurrency = "quote"
+  ): OHLCV | null {
+    return this.aggregator.getCurrentCandle(baseMint, quoteMint, timeframe, currency);
   }
 
-  getLastPrice(baseMint: string, quoteMint: string): number | null {
-    return this.aggregator.getLastPrice(baseMint, quoteMint);
+  getLastPrice(baseMint: string, quoteMint: string, currency: CandleCurrency = "quote"): number | null {
+    return this.aggregator.getLastPrice(baseMint, quoteMint, currency);
   }
 
   getPairStats(baseMint: string, quoteMint: string) {
@@ -8,8 +8,10 @@ import { trendingRoutes } from "./routes/trending";
 import { pulseRoutes } from "./routes/pulse";
 import { ohlcvRoutes } from "./routes/ohlcv";
 import { videoRoutes } from "./routes/video";
+import { leaderboardRoutes } from "./routes/leaderboard";
 import { setupWebSocket } from "./websocket";
 import { pulseSyncService } from "./services/pulseSync";
+import { candleBackfillService } from "./services/candleBackfill";
 import { requireInternalApiKey, rateLimit } from "./middleware/auth";
 
 dotenv.config();
@@ -45,6 +47,7 @@ app.use("/api/trending", trendingRoutes);
 app.use("/api/pulse", pulseRoutes);
 app.use("/api/ohlcv", ohlcvRoutes);
 app.use("/api/video", videoRoutes);
+app.use("/api/leaderboard", leaderboardRoutes);
 
 // WebSocket setup
 setupWebSocket(io);
@@ -77,4 +80,8 @@ httpServer.listen(PORT, () => {
   // Established tokens don't need as frequent updates as Pulse tokens
   startDashboardTokenSync();
   console.log(`📊 Dashboard token sync started`);
+
+  // Start background candle gap backfill (resumes interrupted jobs)
+  candleBackfillService.start();
+  console.log(`📊 Candle backfill job started`);
 });
@@ -10,9 +10,10 @@ import {
 } from "./candle";
 
 const ALL_TIMEFRAMES: Timeframe[] = ["1s", "5s", "15s", "1m", "5m", "15m", "1h", "4h", "1d"];
+const CANDLE_CURRENCIES: CandleCurrency[] = ["quote", "usd"];
 
 // Maximum candles to keep in memory per timeframe
-const MAX_CANDLES_IN_MEMORY: Record<Timeframe, number> = {
+export const MAX_CANDLES_IN_MEMORY: Record<Timeframe, number> = {
   "1s": 3600, // 1 hour of 1s candles
   "5s": 1440, // 2 hours of 5s candles
   "15s": 960, // 4 hours of 15s candles
@@ -24,12 +25,19 @@ const MAX_CANDLES_IN_MEMORY: Record<Timeframe, number> = {
   "1d": 365, // 1 year of 1d candles
 };
 
+// "quote" candles are priced in the pair's quote mint (e.g. SOL),
+// "usd" candles convert every trade at the quote's USD price at trade time
+export type CandleCurrency = "quote" | "usd";
+
 export interface PairAggregator {
   baseMint: string;
   quoteMint: string;
   candles: Map<Timeframe, Candle[]>;
   currentCandles: Map<Timeframe, Candle>;
+  usdCandles: Map<Timeframe, Candle[]>;
+  currentUsdCandles: Map<Timeframe, Candle>;
   lastPrice: number;
+  lastPriceUsd: number | null;
   totalVolume: number;
   totalTrades: number;
 }
@@ -57,7 +65,10 @@ export class OHLCVAggregator extends EventEmitter {
         quoteMint,
         candles: new Map(),
         currentCandles: new Map(),
+        usdCandles: new Map(),
+        currentUsdCandles: new Map(),
         lastPrice: 0,
+        lastPriceUsd: null,
         totalVolume: 0,
         totalTrades: 0,
       };
@@ -65,6 +76,7 @@ export class OHLCVAggregator extends EventEmitter {
       // Initialize candle arrays for each timeframe
       for (const tf of ALL_TIMEFRAMES) {
         pair.candles.set(tf, []);
+        pair.usdCandles.set(tf, []);
       }
 
       this.pairs.set(key, pair);
@@ -74,6 +86,14 @@ export class OHLCVAggregator extends EventEmitter {
     return pair;
   }
 
+  private getSeries(pair: PairAggregator, currency: CandleCurrency) {
+    return currency === "usd"
+      ? { candles: pair.usdCandles, currentCandles: pair.currentUsdCandles }
+      : { candles: pair.candles, currentCandles: pair.currentCandles };
+  }
+
+  // usdPerQuote: USD price of one quote token at trade time. When unknown
+  // (quote isn't SOL or a stablecoin) only the quote-denominated series is updated.
   addTrade(
     baseMint: string,
     quoteMint: string,
@@ -81,7 +101,8 @@ export class OHLCVAggregator extends EventEmitter {
     baseAmount: number,
     quoteAmount: number,
     timestamp: number,
-    isBuy: boolean
+    isBuy: boolean,
+    usdPerQuote?: number
   ): void {
     const pair = this.getOrCreatePair(baseMint, quoteMint);
 
@@ -93,13 +114,21 @@ export class OHLCVAggregator extends EventEmitter {
       isBuy,
     };
 
+    const usdTrade: Trade | null = usdPerQuote && usdPerQuote > 0
+      ? { ...trade, price: price * usdPerQuote, quoteAmount: quoteAmount * usdPerQuote }
+      : null;
+
     pair.lastPrice = price;
+    if (usdTrade) pair.lastPriceUsd = usdTrade.price;
     pair.totalVolume += baseAmount;
     pair.totalTrades++;
 
     // Update candles for all timeframes
     for (const tf of ALL_TIMEFRAMES) {
-      this.updateCandle(pair, tf, trade);
+      this.updateCandle(pair, tf, trade, "quote");
+      if (usdTrade) {
+        this.updateCandle(pair, tf, usdTrade, "usd");
+      }
     }
 
     // Emit trade event for real-time updates
@@ -107,24 +136,27 @@ export class OHLCVAggregator extends EventEmitter {
       baseMint,
       quoteMint,
       trade,
+      priceUsd: usdTrade?.price ?? null,
     });
   }
 
-  private updateCandle(pair: PairAggregator, timeframe: Timeframe, trade: Trade): void {
+  private updateCandle(pair: PairAggregator, timeframe: Timeframe, trade: Trade, currency: CandleCurrency): void {
+    const series = this.getSeries(pair, currency);
     const candleTimestamp = getCandleTimestamp(trade.timestamp, timeframe);
-    let currentCandle = pair.currentCandles.get(timeframe);
+    let currentCandle = series.currentCandles.get(timeframe);
 
     // Check if we need to close the current candle and start a new one
     if (currentCandle && currentCandle.timestamp !== candleTimestamp) {
       // Close the current candle
       const closedCandle = currentCandle.closeCandle();
-      this.addCandleToHistory(pair, timeframe, closedCandle);
+      this.addCandleToHistory(pair, timeframe, closedCandle, currency);
 
       // Emit candle closed event
       this.emit("candleClosed", {
         baseMint: pair.baseMint,
         quoteMint: pair.quoteMint,
         timeframe,
+        currency,
         candle: closedCandle,
       });
 
@@ -134,7 +166,7 @@ export class OHLCVAggregator extends EventEmitter {
     // Create new candle if needed
     if (!currentCandle) {
       currentCandle = new Candle(candleTimestamp);
-      pair.currentCandles.set(timeframe, currentCandle);
+      series.currentCandles.set(timeframe, currentCandle);
     }
 
     // Add trade to current candle
@@ -145,12 +177,13 @@ export class OHLCVAggregator extends EventEmitter {
       baseMint: pair.baseMint,
       quoteMint: pair.quoteMint,
       timeframe,
+      currency,
       candle: currentCandle.toOHLCV(),
     });
   }
 
-  private addCandleToHistory(pair: PairAggregator, timeframe: Timeframe, candle: OHLCV): void {
-    const candles = pair.candles.get(timeframe);
+  private addCandleToHistory(pair: PairAggregator, timeframe: Timeframe, candle: OHLCV, currency: CandleCurrency): void {
+    const candles = this.getSeries(pair, currency).candles.get(timeframe);
     if (!candles) return;
 
     candles.push(new Candle(candle.timestamp, candle.open));
@@ -163,40 +196,96 @@ export class OHLCVAggregator extends EventEmitter {
     }
   }
 
+  // Seed a pair's closed-candle history (e.g. from the database after a restart)
+  // Only candles older than what is already in memory are added, so live trades
+  // that arrived before the load finished always win
+  loadHistory(
+    baseMint: string,
+    quoteMint: string,
+    timeframe: Timeframe,
+    history: OHLCV[],
+    currency: CandleCurrency = "quote"
+  ): number {
+    if (history.length === 0) return 0;
+
+    const pair = this.getOrCreatePair(baseMint, quoteMint);
+    const series = this.getSeries(pair, currency);
+    const candles = series.candles.get(timeframe);
+    if (!candles) return 0;
+
+    const currentCandle = series.currentCandles.get(timeframe);
+    const earliestInMemory = candles.length > 0
+      ? candles[0].timestamp
+      : currentCandle?.timestamp ?? Infinity;
+
+    const older = history
+      .filter((c) => c.timestamp < earliestInMemory)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((c) => Object.assign(new Candle(c.timestamp, c.open), c, { isClosed: true }));
+
+    if (older.length === 0) return 0;
+
+    candles.unshift(...older);
+
+    const maxCandles = MAX_CANDLES_IN_MEMORY[timeframe];
+    if (candles.length > maxCandles) {
+      candles.splice(0, candles.length - maxCandles);
+    }
+
+    if (currency === "usd") {
+      if (pair.lastPriceUsd === null) pair.lastPriceUsd = candles[candles.length - 1].close;
+    } else if (pair.lastPrice === 0) {
+      pair.lastPrice = candles[candles.length - 1].close;
+    }
+
+    return older.length;
+  }
+
   private startCandleChecker(): void {
     // Check for candles that should be closed every second
     this.candleCheckInterval = setInterval(() => {
       const now = Date.now();
 
       for (const [pairKey, pair] of this.pairs) {
-        for (const tf of ALL_TIMEFRAMES) {
-          const currentCandle = pair.currentCandles.get(tf);
-          if (currentCandle && shouldCloseCandle(currentCandle.timestamp, tf, now)) {
-            // Close the candle even if no new trades
-            const closedCandle = currentCandle.closeCandle();
-            this.addCandleToHistory(pair, tf, closedCandle);
-
-            this.emit("candleClosed", {
-              baseMint: pair.baseMint,
-              quoteMint: pair.quoteMint,
-              timeframe: tf,
-              candle: closedCandle,
-            });
-
-            // Remove current candle (new one will be created on next trade)
-            pair.currentCandles.delete(tf);
+        for (const currency of CANDLE_CURRENCIES) {
+          const series = this.getSeries(pair, currency);
+          for (const tf of ALL_TIMEFRAMES) {
+            const currentCandle = series.currentCandles.get(tf);
+            if (currentCandle && shouldCloseCandle(currentCandle.timestamp, tf, now)) {
+              // Close the candle even if no new trades
+              const closedCandle = currentCandle.closeCandle();
+              this.addCandleToHistory(pair, tf, closedCandle, currency);
+
+              this.emit("candleClosed", {
+                baseMint: pair.baseMint,
+                quoteMint: pair.quoteMint,
+                timeframe: tf,
+                currency,
+                candle: closedCandle,
+              });
+
+              // Remove current candle (new one will be created on next trade)
+              series.currentCandles.delete(tf);
+            }
           }
         }
       }
     }, 1000);
   }
 
-  getCandles(baseMint: string, quoteMint: string, timeframe: Timeframe, limit?: number): OHLCV[] {
+  getCandles(
+    baseMint: string,
+    quoteMint: string,
+    timeframe: Timeframe,
+    limit?: number,
+    currency: CandleCurrency = "quote"
+  ): OHLCV[] {
     const pair = this.pairs.get(this.getPairKey(baseMint, quoteMint));
     if (!pair) return [];
 
-    const historicalCandles = pair.candles.get(timeframe) || [];
-    const currentCandle = pair.currentCandles.get(timeframe);
+    const series = this.getSeries(pair, currency);
+    const historicalCandles = series.candles.get(timeframe) || [];
+    const currentCandle = series.currentCandles.get(timeframe);
 
     const allCandles = [
       ...historicalCandles.map((c) => c.toOHLCV()),
@@ -210,21 +299,28 @@ export class OHLCVAggregator extends EventEmitter {
     return allCandles;
   }
 
-  getCurrentCandle(baseMint: string, quoteMint: string, timeframe: Timeframe): OHLCV | null {
+  getCurrentCandle(
+    baseMint: string,
+    quoteMint: string,
+    timeframe: Timeframe,
+    currency: CandleCurrency = "quote"
+  ): OHLCV | null {
     const pair = this.pairs.get(this.getPairKey(baseMint, quoteMint));
     if (!pair) return null;
 
-    const currentCandle = pair.currentCandles.get(timeframe);
+    const currentCandle = this.getSeries(pair, currency).currentCandles.get(timeframe);
     return currentCandle ? currentCandle.toOHLCV() : null;
   }
 
-  getLastPrice(baseMint: string, quoteMint: string): number | null {
+  getLastPrice(baseMint: string, quoteMint: string, currency: CandleCurrency = "quote"): number | null {
     const pair = this.pairs.get(this.getPairKey(baseMint, quoteMint));
-    return pair ? pair.lastPrice : null;
+    if (!pair) return null;
+    return currency === "usd" ? pair.lastPriceUsd : pair.lastPrice;
   }
 
   getPairStats(baseMint: string, quoteMint: string): {
     lastPrice: number;
+    lastPriceUsd: number | null;
     totalVolume: number;
     totalTrades: number;
     timeframes: Timeframe[];
@@ -234,6 +330,7 @@ export class OHLCVAggregator extends EventEmitter {
 
     return {
       lastPrice: pair.lastPrice,
+      lastPriceUsd: pair.lastPriceUsd,
       totalVolume: pair.totalVolume,
       totalTrades: pair.totalTrades,
       timeframes: ALL_TIMEFRAMES,
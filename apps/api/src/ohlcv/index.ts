@@ -1,2 +1,3 @@
 export { Candle, OHLCV, Trade, Timeframe, TIMEFRAME_MS, getCandleTimestamp, shouldCloseCandle } from "./candle";
-export { OHLCVAggregator, getOHLCVAggregator } from "./aggregator";
+export { OHLCVAggregator, getOHLCVAggregator, CandleCurrency } from "./aggregator";
+export { CandlePersistence } from "./persistence";
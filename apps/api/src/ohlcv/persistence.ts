@@ -0,0 +1,227 @@
+// Candle Persistence
+// Writes closed gRPC candles through to CandleCache and rehydrates them on startup
+// - Candles are stored under a "baseMint:quoteMint" pair key so they never mix
+//   with the USD-priced Birdeye/Moralis candles keyed by plain mint address;
+//   the pair's USD series uses "baseMint:quoteMint:usd"
+// - Writes are buffered and flushed in batches to keep DB load flat
+
+import { prisma } from "../lib/prisma";
+import { OHLCV, Timeframe, TIMEFRAME_MS } from "./candle";
+import { OHLCVAggregator, CandleCurrency, MAX_CANDLES_IN_MEMORY } from "./aggregator";
+
+// Sub-minute candles are too chatty to persist for every pair and only cover
+// a few hours of history anyway
+const PERSISTED_TIMEFRAMES: Timeframe[] = ["1m", "5m", "15m", "1h", "4h", "1d"];
+
+const FLUSH_INTERVAL_MS = 5000;
+const FLUSH_BATCH_SIZE = 100;
+const MAX_BUFFERED_CANDLES = 20000; // Drop writes rather than grow unbounded if the DB is down
+
+// Only rehydrate pairs that traded recently
+const REHYDRATE_ACTIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const REHYDRATE_MAX_PAIRS = 500;
+const REHYDRATE_PAIR_BATCH = 50;
+
+interface PendingCandle {
+  pairKey: string;
+  timeframe: Timeframe;
+  candle: OHLCV;
+}
+
+export class CandlePersistence {
+  private aggregator: OHLCVAggregator;
+  private buffer: Map<string, PendingCandle> = new Map();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+  private onCandleClosed = (data: {
+    baseMint: string;
+    quoteMint: string;
+    timeframe: Timeframe;
+    currency: CandleCurrency;
+    candle: OHLCV;
+  }) => {
+    this.enqueue(data.baseMint, data.quoteMint, data.currency, data.timeframe, data.candle);
+  };
+
+  constructor(aggregator: OHLCVAggregator) {
+    this.aggregator = aggregator;
+  }
+
+  async start(): Promise<void> {
+    if (this.flushInterval) return;
+
+    this.aggregator.on("candleClosed", this.onCandleClosed);
+    this.flushInterval = setInterval(() => {
+      this.flush().catch((e) => console.error("[candlePersistence] Flush failed:", e));
+    }, FLUSH_INTERVAL_MS);
+
+    await this.rehydrate();
+  }
+
+  async stop(): Promise<void> {
+    this.aggregator.off("candleClosed", this.onCandleClosed);
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    await this.flush();
+  }
+
+  private enqueue(
+    baseMint: string,
+    quoteMint: string,
+    currency: CandleCurrency,
+    timeframe: Timeframe,
+    candle: OHLCV
+  ): void {
+    if (!PERSISTED_TIMEFRAMES.includes(timeframe)) return;
+
+    if (this.buffer.size >= MAX_BUFFERED_CANDLES) {
+      console.warn(`[candlePersistence] Buffer full (${this.buffer.size}), dropping candle`);
+      return;
+    }
+
+    const pairKey = currency === "usd" ? `${baseMint}:${quoteMint}:usd` : `${baseMint}:${quoteMint}`;
+    this.buffer.set(`${pairKey}:${timeframe}:${candle.timestamp}`, { pairKey, timeframe, candle });
+
+    if (this.buffer.size >= FLUSH_BATCH_SIZE) {
+      this.flush().catch((e) => console.error("[candlePersistence] Flush failed:", e));
+    }
+  }
+
+  // Write all buffered candles; failed batches are put back for the next flush
+  async flush(): Promise<void> {
+    if (this.isFlushing || this.buffer.size === 0) return;
+    this.isFlushing = true;
+
+    const pending = Array.from(this.buffer.entries());
+    this.buffer.clear();
+
+    try {
+      for (let i = 0; i < pending.length; i += FLUSH_BATCH_SIZE) {
+        const batch = pending.slice(i, i + FLUSH_BATCH_SIZE);
+        try {
+          await Promise.all(batch.map(([, p]) => this.upsertCandle(p)));
+        } catch (error) {
+          console.error(`[candlePersistence] Failed to store ${batch.length} candles:`, error);
+          for (const [key, p] of pending.slice(i)) {
+            if (this.buffer.size >= MAX_BUFFERED_CANDLES) break;
+            if (!this.buffer.has(key)) this.buffer.set(key, p);
+          }
+          break;
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private upsertCandle({ pairKey, timeframe, candle }: PendingCandle) {
+    const data = {
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      quoteVolume: candle.quoteVolume,
+      trades: candle.trades,
+    };
+
+    return prisma.candleCache.upsert({
+      where: {
+        tokenAddress_timeframe_timestamp: {
+          tokenAddress: pairKey,
+          timeframe,
+          timestamp: new Date(candle.timestamp),
+        },
+      },
+      update: data,
+      create: {
+        tokenAddress: pairKey,
+        timeframe,
+        timestamp: new Date(candle.timestamp),
+        ...data,
+      },
+    });
+  }
+
+  // Load recent history for recently active pairs back into the aggregator
+  async rehydrate(): Promise<void> {
+    const startedAt = Date.now();
+
+    try {
+      const activePairs = await prisma.candleCache.groupBy({
+        by: ["tokenAddress"],
+        where: {
+          tokenAddress: { contains: ":" },
+          timeframe: "1m",
+          timestamp: { gte: new Date(startedAt - REHYDRATE_ACTIVE_WINDOW_MS) },
+        },
+        _max: { timestamp: true },
+        orderBy: { _max: { timestamp: "desc" } },
+        take: REHYDRATE_MAX_PAIRS,
+      });
+
+      const pairKeys = activePairs.map((p) => p.tokenAddress);
+      if (pairKeys.length === 0) {
+        console.log("[candlePersistence] No persisted pairs to rehydrate");
+        return;
+      }
+
+      let loaded = 0;
+      for (let i = 0; i < pairKeys.length; i += REHYDRATE_PAIR_BATCH) {
+        const batch = pairKeys.slice(i, i + REHYDRATE_PAIR_BATCH);
+        for (const timeframe of PERSISTED_TIMEFRAMES) {
+          loaded += await this.rehydrateBatch(batch, timeframe, startedAt);
+        }
+      }
+
+      console.log(
+        `[candlePersistence] Rehydrated ${loaded} candles for ${pairKeys.length} pairs in ${Date.now() - startedAt}ms`
+      );
+    } catch (error) {
+      console.error("[candlePersistence] Rehydrate failed:", error);
+    }
+  }
+
+  private async rehydrateBatch(pairKeys: string[], timeframe: Timeframe, now: number): Promise<number> {
+    const windowMs = MAX_CANDLES_IN_MEMORY[timeframe] * TIMEFRAME_MS[timeframe];
+    const rows = await prisma.candleCache.findMany({
+      where: {
+        tokenAddress: { in: pairKeys },
+        timeframe,
+        timestamp: { gte: new Date(now - windowMs) },
+      },
+      orderBy: { timestamp: "asc" },
+    });
+
+    const byPair = new Map<string, OHLCV[]>();
+    for (const row of rows) {
+      let candles = byPair.get(row.tokenAddress);
+      if (!candles) {
+        candles = [];
+        byPair.set(row.tokenAddress, candles);
+      }
+      candles.push({
+        timestamp: row.timestamp.getTime(),
+        open: row.open,
+        high: row.high,
+        low: row.low,
+        close: row.close,
+        volume: row.volume,
+        quoteVolume: row.quoteVolume ?? 0,
+        trades: row.trades ?? 0,
+        isClosed: true,
+      });
+    }
+
+    let loaded = 0;
+    for (const [pairKey, candles] of byPair) {
+      const [baseMint, quoteMint, suffix] = pairKey.split(":");
+      if (!baseMint || !quoteMint) continue;
+      const currency: CandleCurrency = suffix === "usd" ? "usd" : "quote";
+      loaded += this.aggregator.loadHistory(baseMint, quoteMint, timeframe, candles, currency);
+    }
+    return loaded;
+  }
+}
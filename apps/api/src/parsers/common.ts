@@ -0,0 +1,85 @@
+import { ParsedSwap, TOKENS } from "../grpc/client";
+
+export type TokenBalanceMap = Map<string, { mint: string; amount: bigint; decimals?: number }>;
+
+// Quote preference when both sides of a pool are quote-like (e.g. SOL/USDC):
+// the mint with the higher priority is treated as the quote
+const QUOTE_PRIORITY: Record<string, number> = {
+  [TOKENS.USDC]: 3,
+  [TOKENS.USDT]: 2,
+  [TOKENS.SOL]: 1,
+};
+
+export function isQuoteMint(mint: string): boolean {
+  return mint in QUOTE_PRIORITY;
+}
+
+export interface VaultDelta {
+  mint: string;
+  delta: bigint; // post - pre, from the pool's point of view
+  decimals: number;
+}
+
+// Balance change of a pool vault token account within the transaction
+export function getVaultDelta(
+  vault: string | undefined,
+  preBalances: TokenBalanceMap,
+  postBalances: TokenBalanceMap
+): VaultDelta | null {
+  if (!vault) return null;
+
+  const pre = preBalances.get(vault);
+  const post = postBalances.get(vault);
+  if (!pre && !post) return null;
+
+  return {
+    mint: (post || pre)!.mint,
+    delta: (post?.amount ?? BigInt(0)) - (pre?.amount ?? BigInt(0)),
+    decimals: post?.decimals ?? pre?.decimals ?? 9,
+  };
+}
+
+// Build a ParsedSwap from the two vault balance changes of a pool.
+// The vault that grew received the token the trader sold; the one that shrank
+// paid out the token the trader bought. Pools listed as (A, B) keep A as base
+// unless only A is a quote-like mint, so a pair's candles don't flip direction.
+export function buildSwapFromVaultDeltas(
+  meta: { signature: string; slot: number; timestamp: number; dex: string; pool: string; maker?: string },
+  vaultA: VaultDelta,
+  vaultB: VaultDelta
+): ParsedSwap | null {
+  const aIn = vaultA.delta > 0;
+  const bIn = vaultB.delta > 0;
+
+  // A real swap moves one vault up and the other down
+  if (vaultA.delta === BigInt(0) || vaultB.delta === BigInt(0) || aIn === bIn) {
+    return null;
+  }
+
+  const aPriority = QUOTE_PRIORITY[vaultA.mint] ?? 0;
+  const bPriority = QUOTE_PRIORITY[vaultB.mint] ?? 0;
+  const [base, quote] = aPriority > bPriority ? [vaultB, vaultA] : [vaultA, vaultB];
+
+  const baseAmount = Number(base.delta < 0 ? -base.delta : base.delta) / Math.pow(10, base.decimals);
+  const quoteAmount = Number(quote.delta < 0 ? -quote.delta : quote.delta) / Math.pow(10, quote.decimals);
+
+  if (baseAmount === 0 || quoteAmount === 0) {
+    return null;
+  }
+
+  return {
+    signature: meta.signature,
+    slot: meta.slot,
+    timestamp: meta.timestamp,
+    dex: meta.dex,
+    baseMint: base.mint,
+    quoteMint: quote.mint,
+    baseAmount,
+    quoteAmount,
+    price: quoteAmount / baseAmount,
+    // Buying base means the base vault paid out
+    isBuy: base.delta < 0,
+    maker: meta.maker,
+    pool: meta.pool,
+  };
+}
@@ -2,6 +2,10 @@ import bs58 from "bs58";
 import { ParsedSwap, DEX_PROGRAMS } from "../grpc/client";
 import { parseRaydiumAmmSwap, parseRaydiumClmmSwap } from "./raydium";
 import { parsePumpFunSwap } from "./pumpfun";
+import { parseOrcaWhirlpoolSwap } from "./orca";
+import { parsePumpSwapSwap } from "./pumpswap";
+import { parseMeteoraDlmmSwap } from "./meteora";
+import { TokenBalanceMap } from "./common";
 
 interface TransactionInfo {
   signature: string;
@@ -30,6 +34,14 @@ interface TransactionInfo {
     }>;
     preBalances?: number[];
     postBalances?: number[];
+    innerInstructions?: Array<{
+      index: number; // Top-level instruction that made these CPIs
+      instructions: Array<{
+        programIdIndex: number;
+        accounts: number[];
+        data: string;
+      }>;
+    }>;
   };
   transaction: {
     message: {
@@ -43,6 +55,101 @@ interface TransactionInfo {
   };
 }
 
+interface InstructionContext {
+  signature: string;
+  slot: number;
+  timestamp: number;
+  preBalances: TokenBalanceMap;
+  postBalances: TokenBalanceMap;
+  preSolBalances: Map<string, bigint>;
+  postSolBalances: Map<string, bigint>;
+}
+
+const DEX_PROGRAM_IDS = new Set<string>(Object.values(DEX_PROGRAMS));
+
+function parseInstruction(
+  programId: string,
+  ixAccounts: string[],
+  ixData: Buffer,
+  ctx: InstructionContext
+): ParsedSwap | null {
+  const { signature, slot, timestamp, preBalances, postBalances, preSolBalances, postSolBalances } = ctx;
+
+  switch (programId) {
+    case DEX_PROGRAMS.RAYDIUM_AMM:
+      return parseRaydiumAmmSwap(
+        signature,
+        slot,
+        timestamp,
+        ixAccounts,
+        ixData,
+        preBalances,
+        postBalances
+      );
+
+    case DEX_PROGRAMS.RAYDIUM_CLMM:
+      return parseRaydiumClmmSwap(
+        signature,
+        slot,
+        timestamp,
+        ixAccounts,
+        ixData,
+        preBalances,
+        postBalances
+      );
+
+    case DEX_PROGRAMS.PUMP_FUN:
+      return parsePumpFunSwap(
+        signature,
+        slot,
+        timestamp,
+        ixAccounts,
+        ixData,
+        preBalances,
+        postBalances,
+        preSolBalances,
+        postSolBalances
+      );
+
+    case DEX_PROGRAMS.ORCA_WHIRLPOOL:
+      return parseOrcaWhirlpoolSwap(
+        signature,
+        slot,
+        timestamp,
+        ixAccounts,
+        ixData,
+        preBalances,
+        postBalances
+      );
+
+    case DEX_PROGRAMS.PUMP_SWAP:
+      return parsePumpSwapSwap(
+        signature,
+        slot,
+        timestamp,
+        ixAccounts,
+        ixData,
+        preBalances,
+        postBalances
+      );
+
+    case DEX_PROGRAMS.METEORA_DLMM:
+      return parseMeteoraDlmmSwap(
+        signature,
+        slot,
+        timestamp,
+        ixAccounts,
+        ixData,
+        preBalances,
+        postBalances
+      );
+
+    // Add more DEX parsers here
+  }
+
+  return null;
+}
+
 export function parseTransaction(tx: any): ParsedSwap[] {
   const swaps: ParsedSwap[] = [];
 
@@ -55,8 +162,8 @@ export function parseTransaction(tx: any): ParsedSwap[] {
     const instructions = tx.transaction?.message?.instructions || [];
 
     // Build pre/post token balance maps
-    const preBalances = new Map<string, { mint: string; amount: bigint }>();
-    const postBalances = new Map<string, { mint: string; amount: bigint }>();
+    const preBalances: TokenBalanceMap = new Map();
+    const postBalances: TokenBalanceMap = new Map();
 
     for (const bal of tx.meta?.preTokenBalances || []) {
       const accountKey = accountKeys[bal.accountIndex]?.pubkey;
@@ -64,6 +171,7 @@ export function parseTransaction(tx: any): ParsedSwap[] {
         preBalances.set(accountKey, {
           mint: bal.mint,
           amount: BigInt(bal.uiTokenAmount?.amount || "0"),
+          decimals: bal.uiTokenAmount?.decimals,
         });
       }
     }
@@ -74,6 +182,7 @@ export function parseTransaction(tx: any): ParsedSwap[] {
         postBalances.set(accountKey, {
           mint: bal.mint,
           amount: BigInt(bal.uiTokenAmount?.amount || "0"),
+          decimals: bal.uiTokenAmount?.decimals,
         });
       }
     }
@@ -93,61 +202,53 @@ export function parseTransaction(tx: any): ParsedSwap[] {
       }
     }
 
-    // Process each instruction
-    for (const ix of instructions) {
-      const programId = accountKeys[ix.programIdIndex]?.pubkey;
-      if (!programId) continue;
-
-      const ixAccounts = ix.accounts.map((idx: number) => accountKeys[idx]?.pubkey).filter(Boolean);
-      const ixData = Buffer.from(bs58.decode(ix.data));
-
-      let swap: ParsedSwap | null = null;
-
-      switch (programId) {
-        case DEX_PROGRAMS.RAYDIUM_AMM:
-          swap = parseRaydiumAmmSwap(
-            signature,
-            slot,
-            timestamp,
-            ixAccounts,
-            ixData,
-            preBalances,
-            postBalances
-          );
-          break;
-
-        case DEX_PROGRAMS.RAYDIUM_CLMM:
-          swap = parseRaydiumClmmSwap(
-            signature,
-            slot,
-            timestamp,
-            ixAccounts,
-            ixData,
-            preBalances,
-            postBalances
-          );
-          break;
-
-        case DEX_PROGRAMS.PUMP_FUN:
-          swap = parsePumpFunSwap(
-            signature,
-            slot,
-            timestamp,
-            ixAccounts,
-            ixData,
-            preBalances,
-            postBalances,
-            preSolBalances,
-            postSolBalances
-          );
-          break;
-
-        // Add more DEX parsers here
+    const ctx: InstructionContext = {
+      signature,
+      slot,
+      timestamp,
+      preBalances,
+      postBalances,
+      preSolBalances,
+      postSolBalances,
+    };
+
+    // Inner (CPI) instructions grouped by the top-level instruction that invoked them
+    const innerByIndex = new Map<number, any[]>();
+    for (const inner of tx.meta?.innerInstructions || []) {
+      innerByIndex.set(inner.index, inner.instructions || []);
+    }
+
+    // Walk every top-level instruction followed by its CPIs, so swaps routed
+    // through aggregators like Jupiter are seen in execution order
+    const candidates: ParsedSwap[] = [];
+
+    for (let i = 0; i < instructions.length; i++) {
+      for (const ix of [instructions[i], ...(innerByIndex.get(i) || [])]) {
+        const programId = accountKeys[ix.programIdIndex]?.pubkey;
+        if (!programId || !DEX_PROGRAM_IDS.has(programId)) continue;
+
+        const ixAccounts = ix.accounts.map((idx: number) => accountKeys[idx]?.pubkey).filter(Boolean);
+        const ixData = Buffer.from(bs58.decode(ix.data));
+
+        const swap = parseInstruction(programId, ixAccounts, ixData, ctx);
+        if (swap) {
+          candidates.push(swap);
+        }
       }
+    }
 
-      if (swap) {
-        swaps.push(swap);
+    // Multi-hop routes: a swap without a pool could only be derived from the
+    // wallet's net balance changes, which pair the route's input and output
+    // mints at a price no pool actually traded at - drop those. A pool hit
+    // twice in one transaction only has its net vault change, so keep one.
+    const seenPools = new Set<string>();
+    for (const swap of candidates) {
+      if (candidates.length > 1 && !swap.pool) continue;
+      if (swap.pool) {
+        if (seenPools.has(swap.pool)) continue;
+        seenPools.add(swap.pool);
       }
+      swaps.push(swap);
     }
   } catch (error) {
     console.error("Error parsing transaction:", error);
@@ -158,3 +259,6 @@ export function parseTransaction(tx: any): ParsedSwap[] {
 
 export { parseRaydiumAmmSwap, parseRaydiumClmmSwap } from "./raydium";
 export { parsePumpFunSwap } from "./pumpfun";
+export { parseOrcaWhirlpoolSwap } from "./orca";
+export { parsePumpSwapSwap } from "./pumpswap";
+export { parseMeteoraDlmmSwap } from "./meteora";
@@ -0,0 +1,75 @@
+import { ParsedSwap } from "../grpc/client";
+import { TokenBalanceMap, getVaultDelta, buildSwapFromVaultDeltas } from "./common";
+
+// Meteora DLMM swap instruction discriminators (Anchor style - first 8 bytes)
+const DLMM_SWAP_DISCRIMINATORS = [
+  Buffer.from([248, 198, 158, 145, 225, 117, 135, 200]), // "swap"
+  Buffer.from([250, 73, 101, 33, 38, 207, 75, 184]), // "swap_exact_out"
+  Buffer.from([56, 173, 230, 208, 173, 228, 156, 205]), // "swap_with_price_impact"
+  Buffer.from([65, 75, 63, 76, 235, 91, 91, 136]), // "swap2"
+  Buffer.from([43, 215, 247, 132, 137, 60, 243, 81]), // "swap_exact_out2"
+  Buffer.from([74, 98, 192, 214, 177, 51, 75, 51]), // "swap_with_price_impact2"
+];
+
+// DLMM swap account layout (same prefix for v1 and v2 instructions)
+const DLMM_ACCOUNTS = {
+  LB_PAIR: 0,
+  BIN_ARRAY_BITMAP_EXTENSION: 1,
+  RESERVE_X: 2,
+  RESERVE_Y: 3,
+  USER_TOKEN_IN: 4,
+  USER_TOKEN_OUT: 5,
+  TOKEN_X_MINT: 6,
+  TOKEN_Y_MINT: 7,
+  ORACLE: 8,
+  HOST_FEE_IN: 9,
+  USER: 10,
+};
+
+export function parseMeteoraDlmmSwap(
+  signature: string,
+  slot: number,
+  timestamp: number,
+  accounts: string[],
+  data: Buffer,
+  preBalances: TokenBalanceMap,
+  postBalances: TokenBalanceMap
+): ParsedSwap | null {
+  try {
+    if (data.length < 8) {
+      return null;
+    }
+
+    const discriminator = data.slice(0, 8);
+    if (!DLMM_SWAP_DISCRIMINATORS.some((d) => discriminator.equals(d))) {
+      return null;
+    }
+
+    if (accounts.length <= DLMM_ACCOUNTS.USER) {
+      return null;
+    }
+
+    const reserveX = getVaultDelta(accounts[DLMM_ACCOUNTS.RESERVE_X], preBalances, postBalances);
+    const reserveY = getVaultDelta(accounts[DLMM_ACCOUNTS.RESERVE_Y], preBalances, postBalances);
+
+    if (!reserveX || !reserveY) {
+      return null;
+    }
+
+    return buildSwapFromVaultDeltas(
+      {
+        signature,
+        slot,
+        timestamp,
+        dex: "meteora-dlmm",
+        pool: accounts[DLMM_ACCOUNTS.LB_PAIR],
+        maker: accounts[DLMM_ACCOUNTS.USER],
+      },
+      reserveX,
+      reserveY
+    );
+  } catch (error) {
+    console.error("Error parsing Meteora DLMM swap:", error);
+    return null;
+  }
+}
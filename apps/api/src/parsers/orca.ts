@@ -0,0 +1,141 @@
+import { ParsedSwap } from "../grpc/client";
+import { TokenBalanceMap, getVaultDelta, buildSwapFromVaultDeltas } from "./common";
+
+// Orca Whirlpool instruction discriminators (Anchor style - first 8 bytes)
+const WHIRLPOOL_SWAP_DISCRIMINATOR = Buffer.from([248, 198, 158, 145, 225, 117, 135, 200]); // "swap"
+const WHIRLPOOL_SWAP_V2_DISCRIMINATOR = Buffer.from([43, 4, 237, 11, 26, 201, 30, 98]); // "swap_v2"
+
+// swap account layout
+const SWAP_ACCOUNTS = {
+  TOKEN_PROGRAM: 0,
+  TOKEN_AUTHORITY: 1,
+  WHIRLPOOL: 2,
+  TOKEN_OWNER_ACCOUNT_A: 3,
+  TOKEN_VAULT_A: 4,
+  TOKEN_OWNER_ACCOUNT_B: 5,
+  TOKEN_VAULT_B: 6,
+  TICK_ARRAY_0: 7,
+  TICK_ARRAY_1: 8,
+  TICK_ARRAY_2: 9,
+  ORACLE: 10,
+};
+
+// swapV2 account layout (adds Token-2022 programs, memo program and mints)
+const SWAP_V2_ACCOUNTS = {
+  TOKEN_PROGRAM_A: 0,
+  TOKEN_PROGRAM_B: 1,
+  MEMO_PROGRAM: 2,
+  TOKEN_AUTHORITY: 3,
+  WHIRLPOOL: 4,
+  TOKEN_MINT_A: 5,
+  TOKEN_MINT_B: 6,
+  TOKEN_OWNER_ACCOUNT_A: 7,
+  TOKEN_VAULT_A: 8,
+  TOKEN_OWNER_ACCOUNT_B: 9,
+  TOKEN_VAULT_B: 10,
+  TICK_ARRAY_0: 11,
+  TICK_ARRAY_1: 12,
+  TICK_ARRAY_2: 13,
+  ORACLE: 14,
+};
+
+export function parseOrcaWhirlpoolSwap(
+  signature: string,
+  slot: number,
+  timestamp: number,
+  accounts: string[],
+  data: Buffer,
+  preBalances: TokenBalanceMap,
+  postBalances: TokenBalanceMap
+): ParsedSwap | null {
+  try {
+    if (data.length < 8) {
+      return null;
+    }
+
+    const discriminator = data.slice(0, 8);
+    const isV1 = discriminator.equals(WHIRLPOOL_SWAP_DISCRIMINATOR);
+    const isV2 = discriminator.equals(WHIRLPOOL_SWAP_V2_DISCRIMINATOR);
+
+    if (!isV1 && !isV2) {
+      return null;
+    }
+
+    const layout = isV2
+      ? {
+          authority: SWAP_V2_ACCOUNTS.TOKEN_AUTHORITY,
+          whirlpool: SWAP_V2_ACCOUNTS.WHIRLPOOL,
+          vaultA: SWAP_V2_ACCOUNTS.TOKEN_VAULT_A,
+          vaultB: SWAP_V2_ACCOUNTS.TOKEN_VAULT_B,
+          minAccounts: SWAP_V2_ACCOUNTS.ORACLE + 1,
+        }
+      : {
+          authority: SWAP_ACCOUNTS.TOKEN_AUTHORITY,
+          whirlpool: SWAP_ACCOUNTS.WHIRLPOOL,
+          vaultA: SWAP_ACCOUNTS.TOKEN_VAULT_A,
+          vaultB: SWAP_ACCOUNTS.TOKEN_VAULT_B,
+          minAccounts: SWAP_ACCOUNTS.ORACLE + 1,
+        };
+
+    if (accounts.length < layout.minAccounts) {
+      return null;
+    }
+
+    const args = parseWhirlpoolSwapData(data);
+    if (!args) {
+      return null;
+    }
+
+    // Vault deltas give exact amounts and mints regardless of direction
+    const vaultA = getVaultDelta(accounts[layout.vaultA], preBalances, postBalances);
+    const vaultB = getVaultDelta(accounts[layout.vaultB], preBalances, postBalances);
+
+    if (!vaultA || !vaultB) {
+      return null;
+    }
+
+    // a_to_b means the trader paid token A, so vault A must have grown
+    if (args.aToB !== vaultA.delta > 0) {
+      return null;
+    }
+
+    return buildSwapFromVaultDeltas(
+      {
+        signature,
+        slot,
+        timestamp,
+        dex: "orca",
+        pool: accounts[layout.whirlpool],
+        maker: accounts[layout.authority],
+      },
+      vaultA,
+      vaultB
+    );
+  } catch (error) {
+    console.error("Error parsing Orca Whirlpool swap:", error);
+    return null;
+  }
+}
+
+// Parse swap / swapV2 instruction args:
+// amount (u64), other_amount_threshold (u64), sqrt_price_limit (u128),
+// amount_specified_is_input (bool), a_to_b (bool)
+export function parseWhirlpoolSwapData(data: Buffer): {
+  amount: bigint;
+  otherAmountThreshold: bigint;
+  amountSpecifiedIsInput: boolean;
+  aToB: boolean;
+} | null {
+  try {
+    if (data.length < 42) return null;
+
+    return {
+      amount: data.readBigUInt64LE(8),
+      otherAmountThreshold: data.readBigUInt64LE(16),
+      amountSpecifiedIsInput: data[40] === 1,
+      aToB: data[41] === 1,
+    };
+  } catch {
+    return null;
+  }
+}
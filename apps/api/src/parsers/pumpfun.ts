@@ -1,4 +1,5 @@
 import { ParsedSwap, TOKENS } from "../grpc/client";
+import { getVaultDelta } from "./common";
 
 // Pump.fun instruction discriminators (Anchor style - first 8 bytes)
 // These are the sighash of the instruction names
@@ -54,7 +55,33 @@ export function parsePumpFunSwap(
     const user = accounts[PUMP_ACCOUNTS.USER];
     const bondingCurve = accounts[PUMP_ACCOUNTS.BONDING_CURVE];
 
-    // Calculate token amount from balance changes
+    // Prefer the bonding curve's own balances: exact amounts excluding fees,
+    // and correct when the trade is one leg of an aggregator route
+    const curveTokens = getVaultDelta(accounts[PUMP_ACCOUNTS.BONDING_CURVE_TOKEN_ACCOUNT], preBalances, postBalances);
+    const curveSolChange =
+      (postSolBalances.get(bondingCurve) ?? BigInt(0)) - (preSolBalances.get(bondingCurve) ?? BigInt(0));
+
+    if (curveTokens && curveTokens.mint === mint && curveTokens.delta !== BigInt(0) && curveSolChange !== BigInt(0)) {
+      const baseAmount = Number(curveTokens.delta < 0 ? -curveTokens.delta : curveTokens.delta) / 1e6;
+      const quoteAmount = Number(curveSolChange < 0 ? -curveSolChange : curveSolChange) / 1e9;
+
+      return {
+        signature,
+        slot,
+        timestamp,
+        dex: "pump.fun",
+        baseMint: mint,
+        quoteMint: TOKENS.SOL,
+        baseAmount,
+        quoteAmount,
+        price: quoteAmount / baseAmount,
+        isBuy,
+        maker: user,
+        pool: bondingCurve,
+      };
+    }
+
+    // Fallback: calculate token amount from balance changes
     let tokenAmount = BigInt(0);
     for (const [account, preBal] of preBalances) {
       if (preBal.mint !== mint) continue;
@@ -0,0 +1,81 @@
+import { ParsedSwap } from "../grpc/client";
+import { TokenBalanceMap, getVaultDelta, buildSwapFromVaultDeltas } from "./common";
+
+// PumpSwap AMM instruction discriminators (Anchor style - first 8 bytes)
+// Graduated pump.fun tokens migrate into these pools
+const PUMPSWAP_BUY_DISCRIMINATOR = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]); // "buy"
+const PUMPSWAP_SELL_DISCRIMINATOR = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]); // "sell"
+const PUMPSWAP_BUY_EXACT_QUOTE_IN_DISCRIMINATOR = Buffer.from([198, 46, 21, 82, 180, 217, 232, 112]); // "buy_exact_quote_in"
+
+// PumpSwap buy/sell account layout (shared prefix)
+const PUMPSWAP_ACCOUNTS = {
+  POOL: 0,
+  USER: 1,
+  GLOBAL_CONFIG: 2,
+  BASE_MINT: 3,
+  QUOTE_MINT: 4,
+  USER_BASE_TOKEN_ACCOUNT: 5,
+  USER_QUOTE_TOKEN_ACCOUNT: 6,
+  POOL_BASE_TOKEN_ACCOUNT: 7,
+  POOL_QUOTE_TOKEN_ACCOUNT: 8,
+  PROTOCOL_FEE_RECIPIENT: 9,
+  PROTOCOL_FEE_RECIPIENT_TOKEN_ACCOUNT: 10,
+};
+
+export function parsePumpSwapSwap(
+  signature: string,
+  slot: number,
+  timestamp: number,
+  accounts: string[],
+  data: Buffer,
+  preBalances: TokenBalanceMap,
+  postBalances: TokenBalanceMap
+): ParsedSwap | null {
+  try {
+    if (data.length < 8) {
+      return null;
+    }
+
+    const discriminator = data.slice(0, 8);
+    const isBuy =
+      discriminator.equals(PUMPSWAP_BUY_DISCRIMINATOR) ||
+      discriminator.equals(PUMPSWAP_BUY_EXACT_QUOTE_IN_DISCRIMINATOR);
+    const isSell = discriminator.equals(PUMPSWAP_SELL_DISCRIMINATOR);
+
+    if (!isBuy && !isSell) {
+      return null;
+    }
+
+    if (accounts.length <= PUMPSWAP_ACCOUNTS.POOL_QUOTE_TOKEN_ACCOUNT) {
+      return null;
+    }
+
+    const baseVault = getVaultDelta(accounts[PUMPSWAP_ACCOUNTS.POOL_BASE_TOKEN_ACCOUNT], preBalances, postBalances);
+    const quoteVault = getVaultDelta(accounts[PUMPSWAP_ACCOUNTS.POOL_QUOTE_TOKEN_ACCOUNT], preBalances, postBalances);
+
+    if (!baseVault || !quoteVault) {
+      return null;
+    }
+
+    // A buy drains the base vault; anything else means we matched the wrong accounts
+    if (isBuy !== baseVault.delta < 0) {
+      return null;
+    }
+
+    return buildSwapFromVaultDeltas(
+      {
+        signature,
+        slot,
+        timestamp,
+        dex: "pumpswap",
+        pool: accounts[PUMPSWAP_ACCOUNTS.POOL],
+        maker: accounts[PUMPSWAP_ACCOUNTS.USER],
+      },
+      baseVault,
+      quoteVault
+    );
+  } catch (error) {
+    console.error("Error parsing PumpSwap swap:", error);
+    return null;
+  }
+}
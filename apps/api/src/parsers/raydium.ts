@@ -1,6 +1,7 @@
 import { PublicKey } from "@solana/web3.js";
 import bs58 from "bs58";
 import { ParsedSwap, DEX_PROGRAMS, TOKENS } from "../grpc/client";
+import { getVaultDelta, buildSwapFromVaultDeltas } from "./common";
 
 // Raydium AMM instruction discriminators
 const RAYDIUM_SWAP_BASE_IN = 9;
@@ -9,6 +10,21 @@ const RAYDIUM_SWAP_BASE_OUT = 11;
 // Raydium CLMM swap discriminators (first 8 bytes of instruction data)
 const CLMM_SWAP_DISCRIMINATOR = Buffer.from([248, 198, 158, 145, 225, 117, 135, 200]);
 
+// Raydium AMM pool vault positions, keyed by swap instruction account count
+// (the 17-account variant omits amm_target_orders)
+const AMM_POOL_VAULTS: Record<number, { coin: number; pc: number }> = {
+  18: { coin: 5, pc: 6 },
+  17: { coin: 4, pc: 5 },
+};
+
+// Raydium CLMM swap account positions
+const CLMM_ACCOUNTS = {
+  PAYER: 0,
+  POOL_STATE: 2,
+  INPUT_VAULT: 5,
+  OUTPUT_VAULT: 6,
+};
+
 interface RaydiumSwapAccounts {
   amm: string;
   poolCoinTokenAccount: string;
@@ -52,7 +68,23 @@ export function parseRaydiumAmmSwap(
       return null;
     }
 
-    // Find user token accounts by looking at balance changes
+    // Prefer the pool's own vaults - exact per-hop amounts even when the swap
+    // is one leg of an aggregator route
+    const vaults = AMM_POOL_VAULTS[accounts.length];
+    if (vaults) {
+      const coinVault = getVaultDelta(accounts[vaults.coin], preBalances, postBalances);
+      const pcVault = getVaultDelta(accounts[vaults.pc], preBalances, postBalances);
+      if (coinVault && pcVault) {
+        const swap = buildSwapFromVaultDeltas(
+          { signature, slot, timestamp, dex: "raydium", pool: accounts[1], maker: accounts[accounts.length - 1] },
+          coinVault,
+          pcVault
+        );
+        if (swap) return swap;
+      }
+    }
+
+    // Fallback: find user token accounts by looking at balance changes
     let sourceAccount: string | null = null;
     let destAccount: string | null = null;
     let sourceMint: string | null = null;
@@ -151,7 +183,31 @@ export function parseRaydiumClmmSwap(
       return null;
     }
 
-    // Similar logic to AMM swap parsing
+    // Prefer the pool's own vaults. Input/output flip with direction, so order
+    // them by mint to keep the same base for every trade on the pool
+    if (accounts.length > CLMM_ACCOUNTS.OUTPUT_VAULT) {
+      const inputVault = getVaultDelta(accounts[CLMM_ACCOUNTS.INPUT_VAULT], preBalances, postBalances);
+      const outputVault = getVaultDelta(accounts[CLMM_ACCOUNTS.OUTPUT_VAULT], preBalances, postBalances);
+      if (inputVault && outputVault) {
+        const [vaultA, vaultB] =
+          inputVault.mint < outputVault.mint ? [inputVault, outputVault] : [outputVault, inputVault];
+        const swap = buildSwapFromVaultDeltas(
+          {
+            signature,
+            slot,
+            timestamp,
+            dex: "raydium-clmm",
+            pool: accounts[CLMM_ACCOUNTS.POOL_STATE],
+            maker: accounts[CLMM_ACCOUNTS.PAYER],
+          },
+          vaultA,
+          vaultB
+        );
+        if (swap) return swap;
+      }
+    }
+
+    // Fallback: similar logic to AMM swap parsing
     let sourceAccount: string | null = null;
     let destAccount: string | null = null;
     let sourceMint: string | null = null;
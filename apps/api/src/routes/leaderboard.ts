@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { z } from "zod";
+import { leaderboardService } from "../services/leaderboard";
+
+export const leaderboardRoutes = Router();
+
+const changesSchema = z.object({
+  updates: z
+    .array(
+      z.object({
+        userId: z.string().min(1),
+        changes: z.array(
+          z.object({
+            scope: z.enum(["friends", "global"]),
+            period: z.enum(["1d", "7d", "30d"]),
+            metric: z.enum(["pnl", "roi", "volume"]),
+            rank: z.number().int().positive().nullable(),
+            previousRank: z.number().int().positive().nullable(),
+          })
+        ),
+      })
+    )
+    .max(10000),
+});
+
+// POST /api/leaderboard/changes - Rank changes computed by the web app, pushed to the users' sockets
+leaderboardRoutes.post("/changes", (req, res) => {
+  const parsed = changesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid leaderboard changes" });
+  }
+
+  leaderboardService.notifyRankChanges(parsed.data.updates);
+  res.json({ success: true, users: parsed.data.updates.length });
+});
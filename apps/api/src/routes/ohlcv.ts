@@ -1,19 +1,21 @@
 import { Router, Request, Response } from "express";
 import { getGrpcService } from "../grpc";
-import { Timeframe, TIMEFRAME_MS } from "../ohlcv";
+import { Timeframe, TIMEFRAME_MS, CandleCurrency } from "../ohlcv";
 
 const router = Router();
 const grpcService = getGrpcService();
 
 const VALID_TIMEFRAMES: Timeframe[] = ["1s", "5s", "15s", "1m", "5m", "15m", "1h", "4h", "1d"];
+const VALID_CURRENCIES: CandleCurrency[] = ["quote", "usd"];
 
 // GET /api/ohlcv/candles/:baseMint/:quoteMint
-// Query params: timeframe, limit
+// Query params: timeframe, limit, currency (quote | usd)
 router.get("/candles/:baseMint/:quoteMint", (req: Request, res: Response) => {
   try {
     const { baseMint, quoteMint } = req.params;
     const timeframe = (req.query.timeframe as Timeframe) || "1m";
     const limit = parseInt(req.query.limit as string) || 100;
+    const currency = (req.query.currency as CandleCurrency) || "quote";
 
     if (!VALID_TIMEFRAMES.includes(timeframe)) {
       return res.status(400).json({
@@ -22,12 +24,20 @@ router.get("/candles/:baseMint/:quoteMint", (req: Request, res: Response) => {
       });
     }
 
-    const candles = grpcService.getCandles(baseMint, quoteMint, timeframe, limit);
+    if (!VALID_CURRENCIES.includes(currency)) {
+      return res.status(400).json({
+        error: "Invalid currency",
+        validCurrencies: VALID_CURRENCIES,
+      });
+    }
+
+    const candles = grpcService.getCandles(baseMint, quoteMint, timeframe, limit, currency);
 
     return res.json({
       baseMint,
       quoteMint,
       timeframe,
+      currency,
       count: candles.length,
       candles,
     });
@@ -38,11 +48,12 @@ router.get("/candles/:baseMint/:quoteMint", (req: Request, res: Response) => {
 });
 
 // GET /api/ohlcv/current/:baseMint/:quoteMint
-// Query params: timeframe
+// Query params: timeframe, currency (quote | usd)
 router.get("/current/:baseMint/:quoteMint", (req: Request, res: Response) => {
   try {
     const { baseMint, quoteMint } = req.params;
     const timeframe = (req.query.timeframe as Timeframe) || "1m";
+    const currency = (req.query.currency as CandleCurrency) || "quote";
 
     if (!VALID_TIMEFRAMES.includes(timeframe)) {
       return res.status(400).json({
@@ -51,7 +62,14 @@ router.get("/current/:baseMint/:quoteMint", (req: Request, res: Response) => {
       });
     }
 
-    const candle = grpcService.getCurrentCandle(baseMint, quoteMint, timeframe);
+    if (!VALID_CURRENCIES.includes(currency)) {
+      return res.status(400).json({
+        error: "Invalid currency",
+        validCurrencies: VALID_CURRENCIES,
+      });
+    }
+
+    const candle = grpcService.getCurrentCandle(baseMint, quoteMint, timeframe, currency);
 
     if (!candle) {
       return res.status(404).json({ error: "No current candle found" });
@@ -61,6 +79,7 @@ router.get("/current/:baseMint/:quoteMint", (req: Request, res: Response) => {
       baseMint,
       quoteMint,
       timeframe,
+      currency,
       candle,
     });
   } catch (error) {
@@ -70,10 +89,20 @@ router.get("/current/:baseMint/:quoteMint", (req: Request, res: Response) => {
 });
 
 // GET /api/ohlcv/price/:baseMint/:quoteMint
+// Query params: currency (quote | usd)
 router.get("/price/:baseMint/:quoteMint", (req: Request, res: Response) => {
   try {
     const { baseMint, quoteMint } = req.params;
-    const price = grpcService.getLastPrice(baseMint, quoteMint);
+    const currency = (req.query.currency as CandleCurrency) || "quote";
+
+    if (!VALID_CURRENCIES.includes(currency)) {
+      return res.status(400).json({
+        error: "Invalid currency",
+        validCurrencies: VALID_CURRENCIES,
+      });
+    }
+
+    const price = grpcService.getLastPrice(baseMint, quoteMint, currency);
 
     if (price === null) {
       return res.status(404).json({ error: "No price data found" });
@@ -82,6 +111,7 @@ router.get("/price/:baseMint/:quoteMint", (req: Request, res: Response) => {
     return res.json({
       baseMint,
       quoteMint,
+      currency,
       price,
       timestamp: Date.now(),
     });
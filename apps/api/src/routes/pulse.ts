@@ -9,6 +9,7 @@ import { meteoraService } from "../services/meteora";
 import { moralisService } from "../services/moralis";
 import { pulseSyncService } from "../services/pulseSync";
 import { swapSyncService } from "../services/swapSync";
+import { supplyService, CandleSeries } from "../services/supply";
 import { prisma } from "../lib/prisma";
 import { PulseCategory } from "@prisma/client";
 import { cache } from "../lib/cache";
@@ -492,13 +493,15 @@ pulseRoutes.get("/token/:address", async (req, res) => {
 // GET /api/pulse/ohlcv/:address - Get OHLCV candlestick data
 // SOURCE: Database (swaps synced from Moralis, then built into candles)
 // NO PER-REQUEST API CALLS - all data comes from DB
+// Tick timeframes (1t, 10t, 100t) build one candle per N trades instead of per time interval
 pulseRoutes.get("/ohlcv/:address", async (req, res) => {
   try {
     const { address } = req.params;
     const timeframe = (req.query.timeframe as string) || "1min";
+    const series: CandleSeries = req.query.series === "mcap" ? "mcap" : "price";
 
     // Check cache first (5 seconds TTL - DB reads are fast)
-    const cacheKey = `pulse:ohlcv:${address}:${timeframe}`;
+    const cacheKey = `pulse:ohlcv:${address}:${timeframe}:${series}`;
     const cached = await cache.get(cacheKey);
     if (cached) {
       const cachedData = JSON.parse(cached);
@@ -526,11 +529,21 @@ pulseRoutes.get("/ohlcv/:address", async (req, res) => {
     };
     const intervalMs = intervalMap[timeframe] || 60000;
 
+    // Trades per candle for tick timeframes
+    const tickMap: Record<string, number> = {
+      "1t": 1,
+      "10t": 10,
+      "100t": 100,
+    };
+    const tradesPerCandle = tickMap[timeframe];
+
     console.log(`📊 [OHLCV] Getting ${timeframe} candles from DB for ${address}`);
     const startTime = Date.now();
 
     // Get OHLCV from database (syncs from Moralis if not yet synced)
-    ohlcv = await swapSyncService.getOHLCV(address, intervalMs);
+    ohlcv = tradesPerCandle
+      ? await swapSyncService.getTickOHLCV(address, tradesPerCandle)
+      : await swapSyncService.getOHLCV(address, intervalMs);
     const elapsed = Date.now() - startTime;
     console.log(`📊 [OHLCV] Got ${ohlcv.length} candles from DB in ${elapsed}ms`);
 
@@ -543,9 +556,22 @@ pulseRoutes.get("/ohlcv/:address", async (req, res) => {
     // No fake candles - if there's no data, return empty array
     // The chart will show a loading/empty state
 
+    // Market cap series: scale by supply (1B for pump.fun tokens)
+    let supply: number | null = null;
+    if (series === "mcap") {
+      const tokenSupply = await supplyService.getSupply(address);
+      if (!tokenSupply) {
+        return res.status(404).json({ error: "Supply data not available for market cap series" });
+      }
+      supply = tokenSupply.supply;
+      ohlcv = supplyService.toMarketCap(ohlcv, supply);
+    }
+
     const response = {
       address,
       timeframe,
+      series,
+      supply,
       data: ohlcv,
       timestamp: Date.now(),
       source,
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { z } from "zod";
+import type { OHLCV } from "@shared/types";
 import { prisma } from "../lib/prisma";
 import { jupiterService } from "../services/jupiter";
 import { birdeyeService } from "../services/birdeye";
@@ -8,6 +9,8 @@ import { geckoTerminalService } from "../services/geckoterminal";
 import { coinGeckoService } from "../services/coingecko";
 import { solPriceService } from "../services/solPrice";
 import { candleCacheService } from "../services/candleCache";
+import { candleRollupService } from "../services/candleRollup";
+import { supplyService } from "../services/supply";
 import { cache } from "../lib/cache";
 
 export const tokenRoutes = Router();
@@ -27,103 +30,9 @@ const ohlcvQuerySchema = z.object({
   to: z.coerce.number().optional(),
   limit: z.coerce.number().min(1).max(1000).default(500),
   cacheOnly: z.coerce.boolean().optional().default(false), // If true, only read from DB cache, never fetch from Birdeye
+  series: z.enum(["price", "mcap"]).default("price"), // mcap = OHLC scaled by token supply
 });
 
-// Helper to aggregate daily candles into weekly
-function aggregateToWeekly(dailyCandles: any[]): any[] {
-  if (dailyCandles.length === 0) return [];
-
-  const weeklyCandles: any[] = [];
-  let currentWeek: any[] = [];
-  let weekStart = 0;
-
-  for (const candle of dailyCandles) {
-    const candleTime = candle.timestamp;
-    const dayOfWeek = new Date(candleTime).getUTCDay(); // 0 = Sunday
-
-    // Start new week on Sunday or if first candle
-    if (currentWeek.length === 0) {
-      weekStart = candleTime;
-      currentWeek.push(candle);
-    } else if (dayOfWeek === 0 && currentWeek.length > 0) {
-      // It's Sunday - close current week and start new one
-      weeklyCandles.push({
-        timestamp: currentWeek[0].timestamp,
-        open: currentWeek[0].open,
-        high: Math.max(...currentWeek.map((c: any) => c.high)),
-        low: Math.min(...currentWeek.map((c: any) => c.low)),
-        close: currentWeek[currentWeek.length - 1].close,
-        volume: currentWeek.reduce((sum: number, c: any) => sum + c.volume, 0),
-      });
-      currentWeek = [candle];
-      weekStart = candleTime;
-    } else {
-      currentWeek.push(candle);
-    }
-  }
-
-  // Don't forget the last week
-  if (currentWeek.length > 0) {
-    weeklyCandles.push({
-      timestamp: currentWeek[0].timestamp,
-      open: currentWeek[0].open,
-      high: Math.max(...currentWeek.map((c: any) => c.high)),
-      low: Math.min(...currentWeek.map((c: any) => c.low)),
-      close: currentWeek[currentWeek.length - 1].close,
-      volume: currentWeek.reduce((sum: number, c: any) => sum + c.volume, 0),
-    });
-  }
-
-  return weeklyCandles;
-}
-
-// Helper to aggregate daily candles into monthly
-function aggregateToMonthly(dailyCandles: any[]): any[] {
-  if (dailyCandles.length === 0) return [];
-
-  const monthlyCandles: any[] = [];
-  let currentMonth: any[] = [];
-  let currentMonthKey = "";
-
-  for (const candle of dailyCandles) {
-    const date = new Date(candle.timestamp);
-    const monthKey = `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
-
-    if (currentMonth.length === 0) {
-      currentMonthKey = monthKey;
-      currentMonth.push(candle);
-    } else if (monthKey !== currentMonthKey) {
-      // New month - close current month and start new one
-      monthlyCandles.push({
-        timestamp: currentMonth[0].timestamp,
-        open: currentMonth[0].open,
-        high: Math.max(...currentMonth.map((c: any) => c.high)),
-        low: Math.min(...currentMonth.map((c: any) => c.low)),
-        close: currentMonth[currentMonth.length - 1].close,
-        volume: currentMonth.reduce((sum: number, c: any) => sum + c.volume, 0),
-      });
-      currentMonth = [candle];
-      currentMonthKey = monthKey;
-    } else {
-      currentMonth.push(candle);
-    }
-  }
-
-  // Don't forget the last month
-  if (currentMonth.length > 0) {
-    monthlyCandles.push({
-      timestamp: currentMonth[0].timestamp,
-      open: currentMonth[0].open,
-      high: Math.max(...currentMonth.map((c: any) => c.high)),
-      low: Math.min(...currentMonth.map((c: any) => c.low)),
-      close: currentMonth[currentMonth.length - 1].close,
-      volume: currentMonth.reduce((sum: number, c: any) => sum + c.volume, 0),
-    });
-  }
-
-  return monthlyCandles;
-}
-
 // Native SOL token address (wrapped SOL)
 const SOL_ADDRESS = "So11111111111111111111111111111111111111112";
 
@@ -369,47 +278,6 @@ async function syncHistoricalOHLCV() {
   }
 
   console.log("✅ Historical OHLCV sync complete");
-
-  // Now aggregate and cache 1w and 1M candles from the daily data we just synced
-  await syncAggregatedCandles();
-}
-
-// Aggregate daily candles into 1w and 1M and store in cache
-async function syncAggregatedCandles() {
-  console.log("📊 [OHLCV-Sync] Aggregating 1w and 1M candles from daily...");
-  const now = Date.now();
-  const tenYearsMs = 10 * 365 * 24 * 60 * 60 * 1000;
-  const fromMs = now - tenYearsMs;
-
-  for (const token of DASHBOARD_TOKENS) {
-    try {
-      // Get all daily candles from cache
-      const dailyCandles = await candleCacheService.getCachedCandles(token.address, "1d", fromMs, now);
-
-      if (dailyCandles.length === 0) {
-        console.log(`[OHLCV-Sync] ${token.symbol}: No daily candles to aggregate`);
-        continue;
-      }
-
-      // Aggregate to weekly
-      const weeklyCandles = aggregateToWeekly(dailyCandles);
-      if (weeklyCandles.length > 0) {
-        await candleCacheService.storeCandles(token.address, "1w", weeklyCandles);
-        console.log(`[OHLCV-Sync] ${token.symbol} 1w: Cached ${weeklyCandles.length} candles`);
-      }
-
-      // Aggregate to monthly
-      const monthlyCandles = aggregateToMonthly(dailyCandles);
-      if (monthlyCandles.length > 0) {
-        await candleCacheService.storeCandles(token.address, "1M", monthlyCandles);
-        console.log(`[OHLCV-Sync] ${token.symbol} 1M: Cached ${monthlyCandles.length} candles`);
-      }
-    } catch (err) {
-      console.warn(`[OHLCV-Sync] ${token.symbol} aggregation failed:`, err instanceof Error ? err.message : err);
-    }
-  }
-
-  console.log("✅ Aggregated candles (1w, 1M) sync complete");
 }
 
 // Periodic refresh of LIVE candles only (every 5 min)
@@ -570,161 +438,19 @@ tokenRoutes.get("/:address/ohlcv", async (req, res) => {
   try {
     const { address } = req.params;
     const query = ohlcvQuerySchema.parse(req.query);
-    const { timeframe, from, to, limit, cacheOnly } = query;
+    const { timeframe, from, to, limit, cacheOnly, series } = query;
 
     // NOTE: No Redis cache here - candleCacheService handles DB caching
     // cacheOnly=true means only read from DB, never fetch from Birdeye (for dashboard previews)
 
-    let ohlcv;
+    let ohlcv: OHLCV[];
 
     // For 1s timeframe, return empty - not supported without PumpPortal
     if (timeframe === "1s") {
       ohlcv = [];
-    }
-    // For weekly timeframe, use smart caching - only fetch new daily candles and aggregate
-    else if (timeframe === "1w") {
-      const now = Date.now();
-      const toMs = to ? to * 1000 : now;
-      const fromMs = from && from > 0 ? from * 1000 : now - (10 * 365 * 24 * 60 * 60 * 1000); // 10 years default
-
-      console.log(`[OHLCV] 1w request for ${address.substring(0, 8)}...: from=${from} (${new Date(fromMs).toISOString()}), to=${to} (${new Date(toMs).toISOString()})`);
-
-      // Get cached weekly candles
-      const cachedWeekly = await candleCacheService.getCachedCandles(address, "1w", fromMs, toMs);
-
-      // Find the latest cached candle timestamp
-      const latestCached = cachedWeekly.length > 0
-        ? cachedWeekly[cachedWeekly.length - 1].timestamp
-        : null;
-
-      console.log(`[OHLCV] 1w cache: ${cachedWeekly.length} candles, latest: ${latestCached ? new Date(latestCached).toISOString() : 'none'}`);
-
-      // Check if we need to fetch new data
-      // Weekly candles: only fetch if latest cached is older than 1 week ago
-      const oneWeekMs = 7 * 24 * 60 * 60 * 1000;
-      const needsFresh = !latestCached || (now - latestCached > oneWeekMs);
-
-      if (needsFresh) {
-        // Fetch daily candles from where we left off (or full history if no cache)
-        const fetchFromSec = latestCached
-          ? Math.floor(latestCached / 1000) - (7 * 86400) // Overlap by 1 week to ensure complete week
-          : (from && from > 0 ? from : Math.floor(now / 1000) - (10 * 365 * 86400));
-        const fetchToSec = to || Math.floor(now / 1000);
-
-        console.log(`[OHLCV] 1w fetching daily from ${new Date(fetchFromSec * 1000).toISOString()}`);
-
-        const dailyCandles = await birdeyeService.getOHLCV(address, "1d", {
-          from: fetchFromSec,
-          to: fetchToSec,
-          limit: 2000,
-        });
-
-        const uniqueCandles = Array.from(
-          new Map((dailyCandles || []).map(c => [c.timestamp, c])).values()
-        ).sort((a, b) => a.timestamp - b.timestamp);
-
-        const newWeeklyCandles = aggregateToWeekly(uniqueCandles);
-
-        if (newWeeklyCandles.length > 0) {
-          // Store new weekly candles to DB (async, don't block response)
-          candleCacheService.storeCandles(address, "1w", newWeeklyCandles).catch((e) =>
-            console.error("[OHLCV] Failed to store 1w candles:", e)
-          );
-          console.log(`[OHLCV] 1w stored ${newWeeklyCandles.length} candles to DB cache`);
-
-          // Merge cached + new, deduplicate by timestamp
-          const allCandles = [...cachedWeekly, ...newWeeklyCandles];
-          const uniqueByTimestamp = new Map<number, typeof allCandles[0]>();
-          for (const c of allCandles) {
-            uniqueByTimestamp.set(c.timestamp, c);
-          }
-          ohlcv = Array.from(uniqueByTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
-        } else {
-          ohlcv = cachedWeekly;
-        }
-      } else {
-        console.log(`[OHLCV] Serving ${address.substring(0, 8)}... 1w from DB cache (${cachedWeekly.length} candles)`);
-        ohlcv = cachedWeekly;
-      }
-
-      // Apply limit if specified
-      if (limit && ohlcv.length > limit) {
-        ohlcv = ohlcv.slice(-limit);
-      }
-    }
-    // For monthly timeframe, use smart caching - only fetch new daily candles and aggregate
-    else if (timeframe === "1M") {
-      const now = Date.now();
-      const toMs = to ? to * 1000 : now;
-      const fromMs = from && from > 0 ? from * 1000 : now - (10 * 365 * 24 * 60 * 60 * 1000); // 10 years default
-
-      console.log(`[OHLCV] 1M request for ${address.substring(0, 8)}...: from=${from} (${new Date(fromMs).toISOString()}), to=${to} (${new Date(toMs).toISOString()})`);
-
-      // Get cached monthly candles
-      const cachedMonthly = await candleCacheService.getCachedCandles(address, "1M", fromMs, toMs);
-
-      // Find the latest cached candle timestamp
-      const latestCached = cachedMonthly.length > 0
-        ? cachedMonthly[cachedMonthly.length - 1].timestamp
-        : null;
-
-      console.log(`[OHLCV] 1M cache: ${cachedMonthly.length} candles, latest: ${latestCached ? new Date(latestCached).toISOString() : 'none'}`);
-
-      // Check if we need to fetch new data
-      // Monthly candles: only fetch if latest cached is older than 1 month ago
-      const oneMonthMs = 30 * 24 * 60 * 60 * 1000;
-      const needsFresh = !latestCached || (now - latestCached > oneMonthMs);
-
-      if (needsFresh) {
-        // Fetch daily candles from where we left off (or full history if no cache)
-        const fetchFromSec = latestCached
-          ? Math.floor(latestCached / 1000) - (30 * 86400) // Overlap by 1 month to ensure complete month
-          : (from && from > 0 ? from : Math.floor(now / 1000) - (10 * 365 * 86400));
-        const fetchToSec = to || Math.floor(now / 1000);
-
-        console.log(`[OHLCV] 1M fetching daily from ${new Date(fetchFromSec * 1000).toISOString()}`);
-
-        const dailyCandles = await birdeyeService.getOHLCV(address, "1d", {
-          from: fetchFromSec,
-          to: fetchToSec,
-          limit: 2000,
-        });
-
-        const uniqueCandles = Array.from(
-          new Map((dailyCandles || []).map(c => [c.timestamp, c])).values()
-        ).sort((a, b) => a.timestamp - b.timestamp);
-
-        const newMonthlyCandles = aggregateToMonthly(uniqueCandles);
-
-        if (newMonthlyCandles.length > 0) {
-          // Store new monthly candles to DB (async, don't block response)
-          candleCacheService.storeCandles(address, "1M", newMonthlyCandles).catch((e) =>
-            console.error("[OHLCV] Failed to store 1M candles:", e)
-          );
-          console.log(`[OHLCV] 1M stored ${newMonthlyCandles.length} candles to DB cache`);
-
-          // Merge cached + new, deduplicate by timestamp
-          const allCandles = [...cachedMonthly, ...newMonthlyCandles];
-          const uniqueByTimestamp = new Map<number, typeof allCandles[0]>();
-          for (const c of allCandles) {
-            uniqueByTimestamp.set(c.timestamp, c);
-          }
-          ohlcv = Array.from(uniqueByTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
-        } else {
-          ohlcv = cachedMonthly;
-        }
-      } else {
-        console.log(`[OHLCV] Serving ${address.substring(0, 8)}... 1M from DB cache (${cachedMonthly.length} candles)`);
-        ohlcv = cachedMonthly;
-      }
-
-      // Apply limit if specified
-      if (limit && ohlcv.length > limit) {
-        ohlcv = ohlcv.slice(-limit);
-      }
     } else {
-      // Use Birdeye for main dashboard tokens (established tokens with history)
-      // Now with database caching to reduce Birdeye API calls
+      // Higher timeframes are rolled up from the finest cached series where possible,
+      // so one upstream fetch serves several timeframes (1w/1M always come from 1d)
       const now = Date.now();
       const toMs = (to ? to * 1000 : now);
 
@@ -742,40 +468,38 @@ tokenRoutes.get("/:address/ohlcv", async (req, res) => {
           "1h": 2 * 365 * 24 * 60 * 60 * 1000,   // 2 years for 1h
           "4h": 3 * 365 * 24 * 60 * 60 * 1000,   // 3 years for 4h
           "1d": 5 * 365 * 24 * 60 * 60 * 1000,   // 5 years for 1d
+          "1w": 10 * 365 * 24 * 60 * 60 * 1000,  // 10 years for 1w
+          "1M": 10 * 365 * 24 * 60 * 60 * 1000,  // 10 years for 1M
         };
         const range = defaultRanges[timeframe] || 365 * 24 * 60 * 60 * 1000;
         fromMs = now - range;
       }
 
-      // cacheOnly mode: Just read from DB, don't fetch from Birdeye
+      // cacheOnly mode: Just read from DB, never call upstream APIs
       // Used for dashboard previews - instant response, no API calls
-      if (cacheOnly) {
-        ohlcv = await candleCacheService.getCachedCandles(address, timeframe, fromMs, toMs);
-        console.log(`[OHLCV] Cache-only: ${address.substring(0, 8)}... ${timeframe} - ${ohlcv.length} candles from DB`);
-      } else {
-        // Full mode: Check cache, fetch from Birdeye if needed
-        try {
-          ohlcv = await candleCacheService.getCandles(
-            address,
-            timeframe,
-            fromMs,
-            toMs,
-            async (fetchFromMs, fetchToMs) => {
-              const fetchFromSec = Math.floor(fetchFromMs / 1000);
-              const fetchToSec = Math.floor(fetchToMs / 1000);
-              console.log(`[OHLCV] Fetching from Birdeye: ${address.substring(0, 8)}... ${timeframe}`);
-              return birdeyeService.getOHLCV(address, timeframe, {
-                from: fetchFromSec,
-                to: fetchToSec,
-                limit,
-              });
-            }
-          );
-        } catch (birdeyeError) {
-          console.warn(`OHLCV failed for ${address}:`, birdeyeError instanceof Error ? birdeyeError.message : birdeyeError);
-          ohlcv = [];
+      try {
+        ohlcv = await candleRollupService.getCandles(address, timeframe, fromMs, toMs, { cacheOnly });
+        if (cacheOnly) {
+          console.log(`[OHLCV] Cache-only: ${address.substring(0, 8)}... ${timeframe} - ${ohlcv.length} candles from DB`);
         }
+      } catch (fetchError) {
+        console.warn(`OHLCV failed for ${address}:`, fetchError instanceof Error ? fetchError.message : fetchError);
+        ohlcv = [];
+      }
+
+      // Apply limit for calendar timeframes (can span a decade)
+      if ((timeframe === "1w" || timeframe === "1M") && limit && ohlcv.length > limit) {
+        ohlcv = ohlcv.slice(-limit);
+      }
+    }
+
+    // Candles are always cached as price; market cap is derived per request
+    if (series === "mcap" && ohlcv.length > 0) {
+      const supply = await supplyService.getSupply(address);
+      if (!supply) {
+        return res.status(404).json({ error: "Supply data not available for market cap series" });
       }
+      ohlcv = supplyService.toMarketCap(ohlcv, supply.supply);
     }
 
     // NOTE: No Redis caching - DB candleCacheService handles it
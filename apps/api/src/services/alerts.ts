@@ -0,0 +1,351 @@
+/**
+ * Token Alerts
+ * Evaluates users' PriceAlert rows (managed by the web app) against live market data
+ * - Live ticks: gRPC trade prices (handlePrice) and PumpPortal migrations (handleMigration)
+ * - Every refresh also reads Token / PulseToken rows, so alerted tokens without live
+ *   trades (and Pulse-only data like bonding progress) are still covered
+ * - Alerts fire on a crossing, not while a condition holds: PriceAlert.armed records which
+ *   side of the threshold the token was on (set at creation, or on the first reading here)
+ *   and is persisted, so a restart doesn't refire alerts whose condition still holds
+ * - One-shot alerts disable themselves when they fire; repeating alerts re-arm once
+ *   their condition has cleared
+ * - Fired alerts are emitted as "triggered" for the websocket layer and emailed through
+ *   the web app's email route when the alert asks for it
+ */
+
+import { EventEmitter } from "events";
+import type { PriceAlert } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+const REFRESH_INTERVAL = 15000; // Reload alerts and poll DB market data every 15 seconds
+const SAMPLE_INTERVAL = 30000; // Price history resolution for % change alerts
+const EMAIL_TIMEOUT = 10000;
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+
+// Latest market data for a token - fields are optional because sources only know some of them
+interface TokenSnapshot {
+  price?: number;
+  marketCap?: number;
+  bondingProgress?: number | null;
+  migrated?: boolean;
+}
+
+export interface TriggeredAlert {
+  alertId: string;
+  userId: string;
+  tokenMint: string;
+  tokenSymbol: string;
+  type: PriceAlert["type"];
+  threshold: number | null;
+  value: number | null;
+  message: string;
+  disabled: boolean; // One-shot alert that won't fire again
+  timestamp: number;
+}
+
+function formatUsd(value: number): string {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(2)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(1)}K`;
+  if (value >= 1) return `$${value.toFixed(2)}`;
+  return `$${value.toPrecision(4)}`;
+}
+
+function describe(alert: PriceAlert, value: number | null): string {
+  const symbol = alert.tokenSymbol;
+  const threshold = alert.threshold ?? 0;
+  switch (alert.type) {
+    case "PRICE_ABOVE":
+      return `${symbol} price is above ${formatUsd(threshold)} (now ${formatUsd(value ?? 0)})`;
+    case "PRICE_BELOW":
+      return `${symbol} price is below ${formatUsd(threshold)} (now ${formatUsd(value ?? 0)})`;
+    case "MCAP_ABOVE":
+      return `${symbol} market cap is above ${formatUsd(threshold)} (now ${formatUsd(value ?? 0)})`;
+    case "MCAP_BELOW":
+      return `${symbol} market cap is below ${formatUsd(threshold)} (now ${formatUsd(value ?? 0)})`;
+    case "PCT_CHANGE":
+      return `${symbol} moved ${(value ?? 0) >= 0 ? "+" : ""}${(value ?? 0).toFixed(1)}% in ${alert.windowMinutes} min`;
+    case "BONDING_PROGRESS":
+      return `${symbol} bonding curve is ${(value ?? 0).toFixed(1)}% complete`;
+    case "MIGRATED":
+      return `${symbol} graduated from the bonding curve`;
+  }
+}
+
+class AlertService extends EventEmitter {
+  private alertsByMint: Map<string, PriceAlert[]> = new Map();
+  private firing: Set<string> = new Set();
+  private priceHistory: Map<string, { time: number; price: number }[]> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.refresh();
+    this.timer = setInterval(() => this.refresh(), REFRESH_INTERVAL);
+    console.log(`[alerts] Watching ${this.alertsByMint.size} tokens`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isWatched(mint: string): boolean {
+    return this.alertsByMint.has(mint);
+  }
+
+  // Live USD price (and market cap when the supply is known)
+  handlePrice(mint: string, price: number, marketCap?: number): void {
+    if (!this.alertsByMint.has(mint) || !(price > 0)) return;
+    this.recordSample(mint, price);
+    this.evaluate(mint, { price, marketCap });
+  }
+
+  handleMigration(mint: string): void {
+    if (!this.alertsByMint.has(mint)) return;
+    this.evaluate(mint, { migrated: true });
+  }
+
+  // Reload enabled alerts, then check them against the latest DB market data
+  private async refresh(): Promise<void> {
+    try {
+      const alerts = await prisma.priceAlert.findMany({ where: { enabled: true } });
+
+      const next = new Map<string, PriceAlert[]>();
+      for (const alert of alerts) {
+        const list = next.get(alert.tokenMint) || [];
+        list.push(alert);
+        next.set(alert.tokenMint, list);
+      }
+      this.alertsByMint = next;
+
+      for (const mint of this.priceHistory.keys()) {
+        if (!next.get(mint)?.some((a) => a.type === "PCT_CHANGE")) this.priceHistory.delete(mint);
+      }
+
+      if (next.size === 0) return;
+
+      const mints = Array.from(next.keys());
+      const [tokens, pulseTokens] = await Promise.all([
+        prisma.token.findMany({
+          where: { address: { in: mints } },
+          select: { address: true, price: true, marketCap: true },
+        }),
+        prisma.pulseToken.findMany({
+          where: { address: { in: mints } },
+          select: { address: true, price: true, marketCap: true, bondingProgress: true, category: true },
+        }),
+      ]);
+
+      // Pulse rows are synced more often, so they win over dashboard rows
+      const snapshots = new Map<string, TokenSnapshot>();
+      for (const t of tokens) {
+        snapshots.set(t.address, { price: t.price || undefined, marketCap: t.marketCap || undefined });
+      }
+      for (const t of pulseTokens) {
+        snapshots.set(t.address, {
+          price: t.price || undefined,
+          marketCap: t.marketCap || undefined,
+          bondingProgress: t.bondingProgress,
+          migrated: t.category === "GRADUATED",
+        });
+      }
+
+      for (const [mint, snapshot] of snapshots) {
+        if (snapshot.price) this.recordSample(mint, snapshot.price);
+        this.evaluate(mint, snapshot);
+      }
+    } catch (error) {
+      console.error("[alerts] Failed to refresh alerts:", error);
+    }
+  }
+
+  // Keep just enough history for the longest % change window on this token
+  private recordSample(mint: string, price: number): void {
+    const alerts = this.alertsByMint.get(mint);
+    const maxWindowMs = Math.max(
+      0,
+      ...(alerts || []).filter((a) => a.type === "PCT_CHANGE").map((a) => (a.windowMinutes || 0) * 60_000)
+    );
+    if (maxWindowMs === 0) return;
+
+    const now = Date.now();
+    const samples = this.priceHistory.get(mint) || [];
+    if (samples.length > 0 && now - samples[samples.length - 1].time < SAMPLE_INTERVAL) return;
+
+    samples.push({ time: now, price });
+    // The oldest kept sample must still be at or before the window start
+    while (samples.length > 1 && samples[1].time <= now - maxWindowMs) {
+      samples.shift();
+    }
+    this.priceHistory.set(mint, samples);
+  }
+
+  // % change over the alert's window, or null until we have enough history
+  private getPctChange(mint: string, windowMinutes: number, price: number): number | null {
+    const samples = this.priceHistory.get(mint);
+    const windowStart = Date.now() - windowMinutes * 60_000;
+    if (!samples || samples.length === 0 || samples[0].time > windowStart) return null;
+
+    let base = samples[0];
+    for (const sample of samples) {
+      if (sample.time > windowStart) break;
+      base = sample;
+    }
+    return ((price - base.price) / base.price) * 100;
+  }
+
+  // Value the alert compares against its threshold, or null if this snapshot doesn't carry it
+  private getValue(alert: PriceAlert, mint: string, snapshot: TokenSnapshot): number | null {
+    switch (alert.type) {
+      case "PRICE_ABOVE":
+      case "PRICE_BELOW":
+        return snapshot.price ?? null;
+      case "MCAP_ABOVE":
+      case "MCAP_BELOW":
+        return snapshot.marketCap ?? null;
+      case "PCT_CHANGE":
+        return snapshot.price && alert.windowMinutes ? this.getPctChange(mint, alert.windowMinutes, snapshot.price) : null;
+      case "BONDING_PROGRESS":
+        // A migrated token's curve is complete even if the last synced progress wasn't 100
+        return snapshot.migrated ? 100 : snapshot.bondingProgress ?? null;
+      case "MIGRATED":
+        return snapshot.migrated === undefined ? null : snapshot.migrated ? 1 : 0;
+    }
+  }
+
+  private isMet(alert: PriceAlert, value: number): boolean {
+    const threshold = alert.threshold ?? 0;
+    switch (alert.type) {
+      case "PRICE_ABOVE":
+      case "MCAP_ABOVE":
+      case "BONDING_PROGRESS":
+        return value >= threshold;
+      case "PRICE_BELOW":
+      case "MCAP_BELOW":
+        return value <= threshold;
+      case "PCT_CHANGE":
+        return threshold >= 0 ? value >= threshold : value <= threshold;
+      case "MIGRATED":
+        return value === 1;
+    }
+  }
+
+  private evaluate(mint: string, snapshot: TokenSnapshot): void {
+    const alerts = this.alertsByMint.get(mint);
+    if (!alerts) return;
+
+    for (const alert of alerts) {
+      const value = this.getValue(alert, mint, snapshot);
+      if (value === null) continue;
+
+      if (!this.isMet(alert, value)) {
+        if (alert.armed !== true) this.setArmed(alert, true);
+        continue;
+      }
+      // Already met when first seen - record the side and wait for a real crossing
+      if (alert.armed === null) {
+        this.setArmed(alert, false);
+        continue;
+      }
+      if (!alert.armed || this.firing.has(alert.id)) continue;
+
+      this.trigger(alert, value).catch((error) => {
+        console.error(`[alerts] Failed to trigger alert ${alert.id}:`, error);
+      });
+    }
+  }
+
+  // Persist which side of the threshold the alert is on (in memory straight away)
+  private setArmed(alert: PriceAlert, armed: boolean): void {
+    alert.armed = armed;
+    prisma.priceAlert
+      .updateMany({ where: { id: alert.id, enabled: true }, data: { armed } })
+      .catch((error) => console.error(`[alerts] Failed to save state of alert ${alert.id}:`, error));
+  }
+
+  private async trigger(alert: PriceAlert, value: number): Promise<void> {
+    this.firing.add(alert.id);
+    try {
+      // Guarded on enabled and armed so a deleted/disabled alert (or another instance) doesn't fire twice
+      const { count } = await prisma.priceAlert.updateMany({
+        where: { id: alert.id, enabled: true, armed: true },
+        data: {
+          triggerCount: { increment: 1 },
+          lastTriggeredAt: new Date(),
+          lastValue: value,
+          armed: false,
+          ...(!alert.repeat && { enabled: false }),
+        },
+      });
+      if (count === 0) return;
+
+      alert.armed = false;
+      if (!alert.repeat) {
+        const remaining = (this.alertsByMint.get(alert.tokenMint) || []).filter((a) => a.id !== alert.id);
+        if (remaining.length > 0) {
+          this.alertsByMint.set(alert.tokenMint, remaining);
+        } else {
+          this.alertsByMint.delete(alert.tokenMint);
+        }
+      }
+
+      const triggered: TriggeredAlert = {
+        alertId: alert.id,
+        userId: alert.userId,
+        tokenMint: alert.tokenMint,
+        tokenSymbol: alert.tokenSymbol,
+        type: alert.type,
+        threshold: alert.threshold,
+        value: alert.type === "MIGRATED" ? null : value,
+        message: describe(alert, value),
+        disabled: !alert.repeat,
+        timestamp: Date.now(),
+      };
+      console.log(`[alerts] ${alert.id} fired: ${triggered.message}`);
+      this.emit("triggered", triggered);
+
+      if (alert.email) {
+        await this.sendEmail(triggered);
+      }
+    } finally {
+      this.firing.delete(alert.id);
+    }
+  }
+
+  // Delivered by the web app's email route (it owns the Resend setup)
+  private async sendEmail(triggered: TriggeredAlert): Promise<void> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: triggered.userId },
+        select: { email: true },
+      });
+      if (!user?.email) return;
+
+      const res = await fetch(`${FRONTEND_URL}/api/email/send-verification`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-internal-api-key": process.env.INTERNAL_API_KEY || "",
+        },
+        body: JSON.stringify({
+          type: "alert",
+          email: user.email,
+          title: `${triggered.tokenSymbol} alert`,
+          description: triggered.message,
+          link: `${FRONTEND_URL}/token/${triggered.tokenMint}`,
+        }),
+        signal: AbortSignal.timeout(EMAIL_TIMEOUT),
+      });
+      if (!res.ok) {
+        console.error(`[alerts] Email for alert ${triggered.alertId} failed: ${res.status}`);
+      }
+    } catch (error) {
+      console.error(`[alerts] Failed to email alert ${triggered.alertId}:`, error);
+    }
+  }
+}
+
+export const alertService = new AlertService();
@@ -0,0 +1,155 @@
+/**
+ * Candle Backfill Job
+ * Fills CandleCache gaps too large to fetch during a request
+ * - Jobs are queued by candleCacheService.getCandles (one per token + timeframe)
+ * - Each pass fetches a few missing windows, newest first; coverage is recorded per
+ *   window so a restart or failure resumes exactly where the job left off
+ * - Windows that stay missing are stepped over on the next pass (round-robin), so a
+ *   few windows no source has yet can't starve the older gaps behind them
+ */
+
+import { prisma } from "../lib/prisma";
+import { candleCacheService } from "./candleCache";
+
+const BACKFILL_INTERVAL = 10000; // 10 seconds between passes
+const JOBS_PER_PASS = 3;
+const WINDOWS_PER_JOB = 4; // Windows fetched per job per pass (keeps API usage flat)
+const MAX_ATTEMPTS = 5;
+
+class CandleBackfillService {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  // Job id -> gaps (newest first) to step over on the next pass, for the round-robin
+  private cursors = new Map<string, number>();
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    // Jobs left "running" by a previous process are resumed
+    try {
+      const { count } = await prisma.candleBackfillJob.updateMany({
+        where: { status: "running" },
+        data: { status: "pending" },
+      });
+      if (count > 0) {
+        console.log(`[candleBackfill] Resuming ${count} interrupted jobs`);
+      }
+    } catch (error) {
+      console.error("[candleBackfill] Failed to reset interrupted jobs:", error);
+    }
+
+    this.timer = setInterval(() => {
+      this.runPass().catch((e) => console.error("[candleBackfill] Pass failed:", e));
+    }, BACKFILL_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runPass(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const jobs = await prisma.candleBackfillJob.findMany({
+        where: { status: "pending" },
+        orderBy: { updatedAt: "asc" },
+        take: JOBS_PER_PASS,
+      });
+
+      for (const job of jobs) {
+        await this.runJob(job);
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async runJob(job: {
+    id: string;
+    tokenAddress: string;
+    timeframe: string;
+    fromTime: Date;
+    toTime: Date;
+    attempts: number;
+  }): Promise<void> {
+    await prisma.candleBackfillJob.update({
+      where: { id: job.id },
+      data: { status: "running" },
+    });
+
+    try {
+      const gaps = await candleCacheService.findGaps(
+        job.tokenAddress,
+        job.timeframe,
+        job.fromTime.getTime(),
+        job.toTime.getTime()
+      );
+
+      const newestFirst = gaps.slice().reverse();
+      const saved = this.cursors.get(job.id) ?? 0;
+      const cursor = saved < newestFirst.length ? saved : 0;
+      const batch = newestFirst.slice(cursor, cursor + WINDOWS_PER_JOB);
+
+      let stored = 0;
+      for (const window of batch) {
+        stored += await candleCacheService.fillWindow(job.tokenAddress, job.timeframe, window);
+      }
+
+      // Windows where a source errored stay uncovered, so re-check what is left
+      const left = await candleCacheService.findGaps(
+        job.tokenAddress,
+        job.timeframe,
+        job.fromTime.getTime(),
+        job.toTime.getTime()
+      );
+      const remaining = left.length;
+
+      // Step over this batch's windows that are still missing next time
+      const stillMissing = batch.filter((w) => left.some((g) => g.from <= w.from && g.to > w.from)).length;
+      if (remaining === 0) {
+        this.cursors.delete(job.id);
+      } else {
+        this.cursors.set(job.id, cursor + stillMissing);
+      }
+
+      if (remaining === 0) {
+        console.log(`[candleBackfill] ${job.tokenAddress.substring(0, 8)}... ${job.timeframe} complete`);
+      } else {
+        console.log(`[candleBackfill] ${job.tokenAddress.substring(0, 8)}... ${job.timeframe}: stored ${stored} candles, ${remaining} windows left`);
+      }
+
+      // Only a pass that made no progress and ended a sweep through the gaps counts as a failed attempt
+      const madeProgress = remaining < gaps.length;
+      const sweepDone = cursor + stillMissing >= remaining;
+      const attempts = madeProgress ? 0 : sweepDone ? job.attempts + 1 : job.attempts;
+
+      await prisma.candleBackfillJob.update({
+        where: { id: job.id },
+        data: {
+          status: remaining === 0 ? "done" : attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+          attempts,
+          lastError: madeProgress || remaining === 0 ? null : "No source returned data for the remaining windows",
+        },
+      });
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      console.error(`[candleBackfill] Job ${job.tokenAddress.substring(0, 8)}... ${job.timeframe} failed:`, error);
+
+      await prisma.candleBackfillJob.update({
+        where: { id: job.id },
+        data: {
+          status: attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+}
+
+export const candleBackfillService = new CandleBackfillService();
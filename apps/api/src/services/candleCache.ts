@@ -1,4 +1,8 @@
+import type { Timeframe } from "@shared/types";
 import { prisma } from "../lib/prisma";
+import { birdeyeService } from "./birdeye";
+import { geckoTerminalService } from "./geckoterminal";
+import { moralisService, MoralisTimeframe } from "./moralis";
 
 interface OHLCV {
   timestamp: number;
@@ -10,7 +14,7 @@ interface OHLCV {
 }
 
 // Timeframe to milliseconds
-const TIMEFRAME_MS: Record<string, number> = {
+export const TIMEFRAME_MS: Record<string, number> = {
   "1min": 60 * 1000,
   "1m": 60 * 1000,
   "5min": 5 * 60 * 1000,
@@ -36,13 +40,99 @@ const LIVE_CANDLE_REFRESH_MS: Record<string, number> = {
   "1d": 10 * 60 * 1000, // Refresh live 1d candle every 10m
 };
 
+// Largest window fetched from a source in one call (Birdeye pages at ~500 candles)
+const MAX_WINDOW_CANDLES = 500;
+
+// Missing windows filled during a request before the rest is left to the backfill job
+const MAX_INLINE_WINDOWS = 2;
+
+// Closed candles this recent may still be missing upstream (sources lag) - they are kept fresh by the
+// live refresh and never recorded as covered, so a lagging source can't leave a permanent hole
+const UNSETTLED_CANDLES = 3;
+
+// A window every source returned empty is only trusted once it was checked this long after it closed;
+// until then the "none" coverage expires after EMPTY_RECHECK_MS and the window is fetched again
+const EMPTY_SETTLED_MS = 24 * 60 * 60 * 1000;
+const EMPTY_RECHECK_MS = 60 * 60 * 1000;
+
+export interface CandleWindow {
+  from: number; // ms, inclusive
+  to: number;   // ms, exclusive
+}
+
+interface CandleSource {
+  name: string;
+  isConfigured: () => boolean;
+  fetch: (tokenAddress: string, timeframe: Timeframe, fromMs: number, toMs: number) => Promise<OHLCV[]>;
+}
+
+// Moralis timeframe names
+const MORALIS_TIMEFRAMES: Partial<Record<Timeframe, MoralisTimeframe>> = {
+  "1m": "1min",
+  "5m": "5min",
+  "1h": "1h",
+  "4h": "4h",
+  "1d": "1d",
+  "1w": "1w",
+  "1M": "1M",
+};
+
+// External candle sources in priority order
+const CANDLE_SOURCES: CandleSource[] = [
+  {
+    name: "birdeye",
+    isConfigured: () => !!process.env.BIRDEYE_API_KEY,
+    fetch: (tokenAddress, timeframe, fromMs, toMs) =>
+      birdeyeService.getOHLCV(tokenAddress, timeframe, {
+        from: Math.floor(fromMs / 1000),
+        to: Math.floor(toMs / 1000),
+      }),
+  },
+  {
+    name: "geckoterminal",
+    isConfigured: () => true,
+    fetch: async (tokenAddress, timeframe, fromMs, toMs) => {
+      const intervalMs = TIMEFRAME_MS[timeframe] || 60 * 60 * 1000;
+      const limit = Math.min(1000, Math.ceil((toMs - fromMs) / intervalMs));
+      const candles = await geckoTerminalService.getOHLCV(tokenAddress, timeframe, limit, Math.floor(toMs / 1000));
+      return candles.sort((a, b) => a.timestamp - b.timestamp);
+    },
+  },
+  {
+    name: "moralis",
+    isConfigured: () => !!process.env.MORALIS_API_KEY,
+    fetch: async (tokenAddress, timeframe, fromMs, toMs) => {
+      // Moralis has no 15m candles
+      const moralisTf = MORALIS_TIMEFRAMES[timeframe];
+      if (!moralisTf) return [];
+      return moralisService.getOHLCV(tokenAddress, moralisTf, {
+        fromDate: Math.floor(fromMs / 1000),
+        toDate: Math.floor(toMs / 1000),
+      });
+    },
+  },
+];
+
 // Normalize timeframe names
-function normalizeTimeframe(tf: string): string {
+export function normalizeTimeframe(tf: string): string {
   if (tf === "1min") return "1m";
   if (tf === "5min") return "5m";
   return tf;
 }
 
+// Open time of the oldest unsettled candle - coverage is only recorded before it
+export function getSettledTo(timeframe: string, now = Date.now()): number {
+  const intervalMs = TIMEFRAME_MS[normalizeTimeframe(timeframe)] || 60 * 60 * 1000;
+  return (Math.floor(now / intervalMs) - UNSETTLED_CANDLES) * intervalMs;
+}
+
+// Known-empty coverage recorded soon after its window closed may just be a lagging source
+function isExpiredEmpty(window: { source: string; toTime: Date; updatedAt: Date }, now: number): boolean {
+  if (window.source !== "none") return false;
+  const checkedAfterClose = window.updatedAt.getTime() - window.toTime.getTime();
+  return checkedAfterClose < EMPTY_SETTLED_MS && now - window.updatedAt.getTime() >= EMPTY_RECHECK_MS;
+}
+
 class CandleCacheService {
   // Get cached candles for a token within a time range
   async getCachedCandles(
@@ -89,61 +179,199 @@ class CandleCacheService {
     return latest ? latest.timestamp.getTime() : null;
   }
 
-  // Check if we need to fetch fresh data from external API
-  // PRINCIPLE: Historical candles are IMMUTABLE - never refetch them
-  // Only fetch: (1) missing historical data, (2) the LIVE candle that's still forming
-  async shouldFetchFresh(
-    tokenAddress: string,
-    timeframe: string,
-    requestedToTimestamp: number
-  ): Promise<{ shouldFetch: boolean; fetchFromTimestamp: number | null; onlyLiveCandle: boolean }> {
+  // Check if the LIVE (still forming) candle needs refreshing
+  // PRINCIPLE: Historical candles are IMMUTABLE - gaps are tracked via CandleCoverage instead
+  async shouldRefreshLiveCandle(tokenAddress: string, timeframe: string): Promise<boolean> {
     const normalizedTf = normalizeTimeframe(timeframe);
-    const latestCached = await this.getLatestCachedTimestamp(tokenAddress, normalizedTf);
     const intervalMs = TIMEFRAME_MS[normalizedTf] || 60 * 60 * 1000;
     const liveRefreshMs = LIVE_CANDLE_REFRESH_MS[normalizedTf] || 60 * 1000;
+    const currentCandleStart = Math.floor(Date.now() / intervalMs) * intervalMs;
 
-    // No cached data at all - need full fetch
-    if (!latestCached) {
-      console.log(`[candleCache] No cache for ${tokenAddress.substring(0, 8)}... ${normalizedTf}, need full fetch`);
-      return { shouldFetch: true, fetchFromTimestamp: null, onlyLiveCandle: false };
+    const liveRecord = await prisma.candleCache.findFirst({
+      where: { tokenAddress, timeframe: normalizedTf, timestamp: { gte: new Date(currentCandleStart) } },
+      select: { updatedAt: true },
+    });
+
+    if (!liveRecord) return true;
+
+    const timeSinceUpdate = Date.now() - liveRecord.updatedAt.getTime();
+    if (timeSinceUpdate > liveRefreshMs) {
+      console.log(`[candleCache] Refreshing live candle for ${tokenAddress.substring(0, 8)}... ${normalizedTf} (last update ${Math.round(timeSinceUpdate / 1000)}s ago)`);
+      return true;
     }
+    return false;
+  }
+
+  // Find the windows of [fromTimestamp, toTimestamp) that no source has been asked for yet
+  // (or that came back empty too soon after closing to be trusted - see isExpiredEmpty)
+  // Boundaries are aligned to candle open times; windows are capped at MAX_WINDOW_CANDLES
+  async findGaps(
+    tokenAddress: string,
+    timeframe: string,
+    fromTimestamp: number,
+    toTimestamp: number
+  ): Promise<CandleWindow[]> {
+    const normalizedTf = normalizeTimeframe(timeframe);
+    const intervalMs = TIMEFRAME_MS[normalizedTf] || 60 * 60 * 1000;
+    const from = Math.floor(fromTimestamp / intervalMs) * intervalMs;
+    const to = Math.ceil(toTimestamp / intervalMs) * intervalMs;
+    if (to <= from) return [];
+
+    const coverage = await prisma.candleCoverage.findMany({
+      where: {
+        tokenAddress,
+        timeframe: normalizedTf,
+        fromTime: { lt: new Date(to) },
+        toTime: { gt: new Date(from) },
+      },
+      orderBy: { fromTime: "asc" },
+      select: { fromTime: true, toTime: true, source: true, updatedAt: true },
+    });
 
     const now = Date.now();
+    const gaps: CandleWindow[] = [];
+    let cursor = from;
+    for (const window of coverage) {
+      if (isExpiredEmpty(window, now)) continue;
+      const windowFrom = window.fromTime.getTime();
+      const windowTo = window.toTime.getTime();
+      if (windowFrom > cursor) {
+        gaps.push({ from: cursor, to: Math.min(windowFrom, to) });
+      }
+      cursor = Math.max(cursor, windowTo);
+      if (cursor >= to) break;
+    }
+    if (cursor < to) {
+      gaps.push({ from: cursor, to });
+    }
 
-    // Calculate the current candle's start time (the "live" candle that's still forming)
-    const currentCandleStart = Math.floor(now / intervalMs) * intervalMs;
+    return splitWindows(gaps, MAX_WINDOW_CANDLES * intervalMs);
+  }
 
-    // Check if we have ALL historical candles up to (but not including) the current live candle
-    // If latestCached >= currentCandleStart - intervalMs, we have all historical data
-    const hasAllHistorical = latestCached >= currentCandleStart - intervalMs;
+  // Record that a window has been fetched. Extends an adjacent window from the
+  // same source instead of adding a row, so steady live traffic stays one row
+  // Known-empty windows always get their own row, so each one's recheck age stays its own
+  async recordCoverage(
+    tokenAddress: string,
+    timeframe: string,
+    window: CandleWindow,
+    source: string,
+    candleCount: number
+  ): Promise<void> {
+    const normalizedTf = normalizeTimeframe(timeframe);
+    const adjacent = source === "none" ? null : await prisma.candleCoverage.findFirst({
+      where: {
+        tokenAddress,
+        timeframe: normalizedTf,
+        source,
+        fromTime: { lte: new Date(window.from) },
+        toTime: { gte: new Date(window.from) },
+      },
+    });
 
-    if (!hasAllHistorical) {
-      // We're missing some historical candles - fetch from where we left off
-      console.log(`[candleCache] Missing historical candles for ${tokenAddress.substring(0, 8)}... ${normalizedTf}, fetching from ${new Date(latestCached).toISOString()}`);
-      return { shouldFetch: true, fetchFromTimestamp: latestCached, onlyLiveCandle: false };
+    if (adjacent) {
+      await prisma.candleCoverage.update({
+        where: { id: adjacent.id },
+        data: {
+          toTime: new Date(Math.max(adjacent.toTime.getTime(), window.to)),
+          candleCount: { increment: candleCount },
+        },
+      });
+      return;
     }
 
-    // We have all historical data - only need to refresh the LIVE candle
-    // Check when we last updated the live candle
-    const latestRecord = await prisma.candleCache.findFirst({
-      where: { tokenAddress, timeframe: normalizedTf },
-      orderBy: { timestamp: "desc" },
-      select: { updatedAt: true, timestamp: true },
+    await prisma.candleCoverage.create({
+      data: {
+        tokenAddress,
+        timeframe: normalizedTf,
+        fromTime: new Date(window.from),
+        toTime: new Date(window.to),
+        source,
+        candleCount,
+      },
     });
+  }
 
-    if (latestRecord) {
-      const timeSinceUpdate = now - latestRecord.updatedAt.getTime();
+  // Fetch one window from the first source that has data, store it and record coverage
+  // A window is only marked known-empty when every configured source answered without error,
+  // and coverage never reaches into the unsettled candles
+  async fillWindow(tokenAddress: string, timeframe: string, window: CandleWindow): Promise<number> {
+    const normalizedTf = normalizeTimeframe(timeframe);
+    const { candles, source, complete } = await this.fetchFromSources(tokenAddress, normalizedTf, window.from, window.to);
+
+    if (candles.length > 0) {
+      await this.storeCandles(tokenAddress, normalizedTf, candles);
+    }
+
+    const covered = { from: window.from, to: Math.min(window.to, getSettledTo(normalizedTf)) };
+    if ((candles.length > 0 || complete) && covered.to > covered.from) {
+      await this.recordCoverage(tokenAddress, normalizedTf, covered, source, candles.length);
+    }
+
+    return candles.length;
+  }
 
-      // Only refresh if enough time has passed
-      if (timeSinceUpdate > liveRefreshMs) {
-        console.log(`[candleCache] Refreshing live candle for ${tokenAddress.substring(0, 8)}... ${normalizedTf} (last update ${Math.round(timeSinceUpdate / 1000)}s ago)`);
-        // Only fetch the current candle and maybe the previous one (in case it just closed)
-        return { shouldFetch: true, fetchFromTimestamp: currentCandleStart - intervalMs, onlyLiveCandle: true };
+  // Try each candle source in priority order, stopping at the first one with data
+  private async fetchFromSources(
+    tokenAddress: string,
+    timeframe: string,
+    fromTimestamp: number,
+    toTimestamp: number
+  ): Promise<{ candles: OHLCV[]; source: string; complete: boolean }> {
+    let complete = true;
+
+    for (const source of CANDLE_SOURCES) {
+      if (!source.isConfigured()) continue;
+
+      try {
+        const candles = (await source.fetch(tokenAddress, timeframe as Timeframe, fromTimestamp, toTimestamp))
+          .filter((c) => c.timestamp >= fromTimestamp && c.timestamp < toTimestamp);
+
+        if (candles.length > 0) {
+          return { candles, source: source.name, complete: true };
+        }
+      } catch (error) {
+        complete = false;
+        console.warn(`[candleCache] ${source.name} failed for ${tokenAddress.substring(0, 8)}... ${timeframe}:`, error instanceof Error ? error.message : error);
       }
     }
 
-    console.log(`[candleCache] Cache is complete and fresh for ${tokenAddress.substring(0, 8)}... ${normalizedTf}`);
-    return { shouldFetch: false, fetchFromTimestamp: null, onlyLiveCandle: false };
+    return { candles: [], source: "none", complete };
+  }
+
+  // Queue (or widen) a background backfill job for a token/timeframe range
+  async enqueueBackfill(
+    tokenAddress: string,
+    timeframe: string,
+    fromTimestamp: number,
+    toTimestamp: number
+  ): Promise<void> {
+    const normalizedTf = normalizeTimeframe(timeframe);
+    const existing = await prisma.candleBackfillJob.findUnique({
+      where: { tokenAddress_timeframe: { tokenAddress, timeframe: normalizedTf } },
+    });
+
+    if (!existing) {
+      await prisma.candleBackfillJob.create({
+        data: {
+          tokenAddress,
+          timeframe: normalizedTf,
+          fromTime: new Date(fromTimestamp),
+          toTime: new Date(toTimestamp),
+        },
+      });
+      return;
+    }
+
+    // A running job picks up the widened range on its next pass
+    await prisma.candleBackfillJob.update({
+      where: { id: existing.id },
+      data: {
+        fromTime: new Date(Math.min(existing.fromTime.getTime(), fromTimestamp)),
+        toTime: new Date(Math.max(existing.toTime.getTime(), toTimestamp)),
+        ...(existing.status === "running" ? {} : { status: "pending", attempts: 0, lastError: null }),
+      },
+    });
   }
 
   // Store candles in the cache
@@ -209,133 +437,66 @@ class CandleCacheService {
     return oldest ? oldest.timestamp.getTime() : null;
   }
 
-  // Get candles, using cache when possible, fetching fresh when needed
-  // OPTIMIZED: Only fetches NEW data - historical candles are cached permanently
+  // Get candles, using cache when possible, fetching only what is missing
+  // - Settled candles: gaps not covered by CandleCoverage are filled from the sources,
+  //   newest first; anything beyond the inline budget is handed to the backfill job
+  // - Live candle and the unsettled ones before it: refreshed on the LIVE_CANDLE_REFRESH_MS schedule
   async getCandles(
     tokenAddress: string,
     timeframe: string,
     fromTimestamp: number,
-    toTimestamp: number,
-    fetchFn: (from: number, to: number) => Promise<OHLCV[]>
+    toTimestamp: number
   ): Promise<OHLCV[]> {
     const normalizedTf = normalizeTimeframe(timeframe);
-    const intervalMs = TIMEFRAME_MS[normalizedTf] || 60 * 60 * 1000;
+    const settledTo = getSettledTo(normalizedTf);
+    const closedTo = Math.min(toTimestamp, settledTo);
 
-    // Check if we should fetch fresh data
-    const { shouldFetch, fetchFromTimestamp, onlyLiveCandle } = await this.shouldFetchFresh(
-      tokenAddress,
-      normalizedTf,
-      toTimestamp
-    );
+    if (closedTo > fromTimestamp) {
+      const gaps = await this.findGaps(tokenAddress, normalizedTf, fromTimestamp, closedTo);
 
-    // Also check if we need historical data OLDER than what's cached
-    const oldestCached = await this.getOldestCachedTimestamp(tokenAddress, normalizedTf);
-    const needsOlderHistoricalFetch = oldestCached !== null && fromTimestamp < oldestCached;
+      if (gaps.length > 0) {
+        console.log(`[candleCache] ${tokenAddress.substring(0, 8)}... ${normalizedTf}: ${gaps.length} missing windows`);
 
-    // Get cached candles first - this is our foundation
-    const cachedCandles = await this.getCachedCandles(
-      tokenAddress,
-      normalizedTf,
-      fromTimestamp,
-      toTimestamp
-    );
-
-    // Calculate expected number of candles for the requested range
-    const expectedCandles = Math.floor((toTimestamp - fromTimestamp) / intervalMs);
-
-    // Force full fetch if we have way fewer candles than expected (indicates incomplete cache)
-    // Use 50% threshold - if we have less than half what we expect, cache is incomplete
-    const cacheIsIncomplete = cachedCandles.length < expectedCandles * 0.5;
-
-    console.log(`[candleCache] ${tokenAddress.substring(0, 8)}... ${normalizedTf}: have ${cachedCandles.length} candles, expected ~${expectedCandles}, incomplete: ${cacheIsIncomplete}, shouldFetch: ${shouldFetch}, onlyLive: ${onlyLiveCandle}`);
-
-    if (cacheIsIncomplete) {
-      console.log(`[candleCache] Cache incomplete for ${tokenAddress.substring(0, 8)}... ${normalizedTf}: have ${cachedCandles.length}, need ${Math.floor(expectedCandles * 0.5)}+`);
-    }
-
-    // If we only need the live candle and we have cached data, just update that
-    // BUT only if we don't need older historical data AND cache isn't incomplete
-    if (onlyLiveCandle && cachedCandles.length > 0 && shouldFetch && fetchFromTimestamp && !needsOlderHistoricalFetch && !cacheIsIncomplete) {
-      try {
-        const now = Date.now();
-        console.log(`[candleCache] Fetching ONLY live candle for ${tokenAddress.substring(0, 8)}... ${normalizedTf}`);
-        const liveCandles = await fetchFn(fetchFromTimestamp, now);
-
-        if (liveCandles.length > 0) {
-          // Store just the live candle(s)
-          this.storeCandles(tokenAddress, normalizedTf, liveCandles).catch((e) =>
-            console.error("[candleCache] Failed to store live candle:", e)
-          );
-
-          // Merge: cached historical + fresh live candles
-          const uniqueByTimestamp = new Map<number, OHLCV>();
-          for (const c of cachedCandles) {
-            uniqueByTimestamp.set(c.timestamp, c);
+        const inline = gaps.slice(-MAX_INLINE_WINDOWS).reverse();
+        for (const window of inline) {
+          try {
+            await this.fillWindow(tokenAddress, normalizedTf, window);
+          } catch (error) {
+            console.error("[candleCache] Failed to fill window, leaving it for backfill:", error);
           }
-          // Live candles override cached ones (they're more recent)
-          for (const c of liveCandles) {
-            uniqueByTimestamp.set(c.timestamp, c);
-          }
-          return Array.from(uniqueByTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
         }
-      } catch (error) {
-        console.error("[candleCache] Live candle fetch failed, using cache:", error);
-      }
-      return cachedCandles;
-    }
 
-    // Need to fetch data (either no cache, missing historical, missing recent, or incomplete cache)
-    if (shouldFetch || needsOlderHistoricalFetch || cachedCandles.length === 0 || cacheIsIncomplete) {
-      let fetchFrom: number;
-      let fetchTo = toTimestamp;
-
-      if (cachedCandles.length === 0 && !oldestCached) {
-        // No cache at all - fetch full range
-        fetchFrom = fromTimestamp;
-      } else if (cacheIsIncomplete || needsOlderHistoricalFetch) {
-        // Cache is incomplete or we need older data - fetch full range
-        // This will get complete historical data and fill any gaps
-        fetchFrom = fromTimestamp;
-        fetchTo = toTimestamp;
-        console.log(`[candleCache] Full re-fetch for ${tokenAddress.substring(0, 8)}... ${normalizedTf} (incomplete: ${cacheIsIncomplete}, needsOlder: ${needsOlderHistoricalFetch})`);
-      } else {
-        // Need recent data - fetch from where cache ends
-        fetchFrom = fetchFromTimestamp || fromTimestamp;
+        if (gaps.length > inline.length) {
+          await this.enqueueBackfill(tokenAddress, normalizedTf, gaps[0].from, closedTo);
+        }
       }
+    }
 
+    if (toTimestamp >= settledTo && (await this.shouldRefreshLiveCandle(tokenAddress, normalizedTf))) {
       try {
-        console.log(`[candleCache] Fetching ${tokenAddress.substring(0, 8)}... ${normalizedTf} from ${new Date(fetchFrom).toISOString()} to ${new Date(fetchTo).toISOString()}`);
-        const freshCandles = await fetchFn(fetchFrom, fetchTo);
-
-        if (freshCandles.length > 0) {
-          // Store in cache (async, don't block response)
-          this.storeCandles(tokenAddress, normalizedTf, freshCandles).catch((e) =>
-            console.error("[candleCache] Failed to store candles:", e)
-          );
+        // Re-fetch the unsettled candles too - a source may only now have the ones that just closed
+        const { candles } = await this.fetchFromSources(tokenAddress, normalizedTf, settledTo, Date.now() + 1);
+        if (candles.length > 0) {
+          await this.storeCandles(tokenAddress, normalizedTf, candles);
         }
-
-        // Merge cached + fresh, deduplicate by timestamp
-        const allCandles = [...cachedCandles, ...freshCandles];
-        const uniqueByTimestamp = new Map<number, OHLCV>();
-        for (const c of allCandles) {
-          uniqueByTimestamp.set(c.timestamp, c);
-        }
-        return Array.from(uniqueByTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
       } catch (error) {
-        console.error("[candleCache] Fetch failed, falling back to cache:", error);
-        return cachedCandles;
+        console.error("[candleCache] Live candle fetch failed, using cache:", error);
       }
     }
 
-    // Cache is complete and fresh - serve directly
-    // But double-check we actually have enough candles!
-    if (cacheIsIncomplete) {
-      console.log(`[candleCache] WARNING: Serving incomplete cache for ${tokenAddress.substring(0, 8)}... ${normalizedTf} (${cachedCandles.length}/${expectedCandles} candles) - this shouldn't happen!`);
-    } else {
-      console.log(`[candleCache] Serving ${tokenAddress.substring(0, 8)}... ${normalizedTf} from cache (${cachedCandles.length} candles)`);
+    return this.getCachedCandles(tokenAddress, normalizedTf, fromTimestamp, toTimestamp);
+  }
+}
+
+// Split windows so no single fetch covers more than maxMs
+function splitWindows(windows: CandleWindow[], maxMs: number): CandleWindow[] {
+  const result: CandleWindow[] = [];
+  for (const window of windows) {
+    for (let from = window.from; from < window.to; from += maxMs) {
+      result.push({ from, to: Math.min(from + maxMs, window.to) });
     }
-    return cachedCandles;
   }
+  return result;
 }
 
 export const candleCacheService = new CandleCacheService();
@@ -0,0 +1,217 @@
+/**
+ * Candle Rollup Service
+ * Builds higher timeframes (5m ... 1M) from the finest complete lower-timeframe series,
+ * so one upstream fetch of e.g. 1m candles serves 5m/15m/1h as well
+ * - Base series: TokenSwap (for swap-synced tokens) or CandleCache
+ * - A rollup is only served when the base covers the whole range (CandleCoverage)
+ *   and agrees with any directly fetched candles of the target timeframe
+ */
+
+import type { OHLCV } from "@shared/types";
+import { candleCacheService, TIMEFRAME_MS, getSettledTo, normalizeTimeframe } from "./candleCache";
+import { swapSyncService } from "./swapSync";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Base timeframes, finest first
+const BASE_TIMEFRAMES = ["1m", "5m", "15m", "1h", "4h", "1d"];
+
+// Upper bound on base candles read for one rollup
+const MAX_BASE_CANDLES = 10000;
+
+// Consistency check against directly fetched target candles
+const CLOSE_TOLERANCE = 0.02; // 2% close price difference
+const MAX_MISMATCH_RATIO = 0.1; // Reject the rollup if >10% of overlapping candles disagree
+const MIN_OVERLAP_FOR_CHECK = 5;
+
+// Open time of the bucket a timestamp falls into
+// 1w buckets start on Sunday (UTC), 1M buckets on the 1st of the month (UTC)
+export function getBucketStart(timestamp: number, timeframe: string): number {
+  if (timeframe === "1w") {
+    const day = Math.floor(timestamp / DAY_MS);
+    const dayOfWeek = (day + 4) % 7; // 1970-01-01 was a Thursday
+    return (day - dayOfWeek) * DAY_MS;
+  }
+  if (timeframe === "1M") {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  const intervalMs = TIMEFRAME_MS[timeframe] || 60 * 60 * 1000;
+  return Math.floor(timestamp / intervalMs) * intervalMs;
+}
+
+// Aggregate sorted lower-timeframe candles into timeframe buckets
+export function rollupCandles(candles: OHLCV[], timeframe: string): OHLCV[] {
+  const rolled: OHLCV[] = [];
+  let current: OHLCV | null = null;
+
+  for (const candle of candles) {
+    const bucket = getBucketStart(candle.timestamp, timeframe);
+
+    if (current && current.timestamp === bucket) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+    } else {
+      current = {
+        timestamp: bucket,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      };
+      rolled.push(current);
+    }
+  }
+
+  return rolled;
+}
+
+class CandleRollupService {
+  // Get candles for any timeframe, preferring a rollup over a direct fetch
+  // cacheOnly: never call upstream APIs (dashboard previews)
+  async getCandles(
+    tokenAddress: string,
+    timeframe: string,
+    fromTimestamp: number,
+    toTimestamp: number,
+    options?: { cacheOnly?: boolean }
+  ): Promise<OHLCV[]> {
+    const tf = normalizeTimeframe(timeframe);
+    const from = getBucketStart(fromTimestamp, tf);
+
+    const fromSwaps = await this.rollupFromSwaps(tokenAddress, tf, from, toTimestamp);
+    if (fromSwaps) return fromSwaps;
+
+    // Upstream APIs have no true weekly/monthly candles, so these always roll up from daily
+    const isCalendar = tf === "1w" || tf === "1M";
+    const baseTf = isCalendar ? "1d" : this.pickBaseTimeframe(tf, from, toTimestamp);
+    if (!baseTf) {
+      return this.getDirect(tokenAddress, tf, fromTimestamp, toTimestamp, options);
+    }
+
+    const rolled = await this.rollupFromCache(tokenAddress, tf, baseTf, from, toTimestamp, { ...options, strict: !isCalendar });
+    if (!rolled) {
+      return this.getDirect(tokenAddress, tf, fromTimestamp, toTimestamp, options);
+    }
+
+    console.log(`[candleRollup] ${tokenAddress.substring(0, 8)}... ${tf} built from ${baseTf} (${rolled.length} candles)`);
+    return rolled;
+  }
+
+  // Finest base timeframe strictly below the target that stays within MAX_BASE_CANDLES
+  private pickBaseTimeframe(timeframe: string, fromTimestamp: number, toTimestamp: number): string | null {
+    const targetMs = TIMEFRAME_MS[timeframe];
+    if (!targetMs) return null;
+
+    for (const baseTf of BASE_TIMEFRAMES) {
+      const baseMs = TIMEFRAME_MS[baseTf];
+      if (baseMs >= targetMs) return null;
+      if ((toTimestamp - fromTimestamp) / baseMs <= MAX_BASE_CANDLES) return baseTf;
+    }
+    return null;
+  }
+
+  private async rollupFromCache(
+    tokenAddress: string,
+    timeframe: string,
+    baseTf: string,
+    fromTimestamp: number,
+    toTimestamp: number,
+    options: { cacheOnly?: boolean; strict: boolean }
+  ): Promise<OHLCV[] | null> {
+    const base = options.cacheOnly
+      ? await candleCacheService.getCachedCandles(tokenAddress, baseTf, fromTimestamp, toTimestamp)
+      : await candleCacheService.getCandles(tokenAddress, baseTf, fromTimestamp, toTimestamp);
+
+    // Every settled base window must have been fetched, otherwise buckets would be partial
+    const closedTo = Math.min(toTimestamp, getSettledTo(baseTf));
+    const gaps = closedTo > fromTimestamp
+      ? await candleCacheService.findGaps(tokenAddress, baseTf, fromTimestamp, closedTo)
+      : [];
+
+    if (gaps.length > 0) {
+      console.log(`[candleRollup] ${tokenAddress.substring(0, 8)}... ${baseTf} has ${gaps.length} uncovered windows${options.strict ? `, not rolling up ${timeframe}` : ""}`);
+      if (options.strict) return null;
+    }
+
+    const rolled = rollupCandles(base, timeframe);
+    if (options.strict && !(await this.isConsistent(tokenAddress, timeframe, rolled, fromTimestamp, toTimestamp))) {
+      return null;
+    }
+    return rolled;
+  }
+
+  // Swap-synced tokens (Pulse) can build any timeframe from TokenSwap without upstream calls
+  private async rollupFromSwaps(
+    tokenAddress: string,
+    timeframe: string,
+    fromTimestamp: number,
+    toTimestamp: number
+  ): Promise<OHLCV[] | null> {
+    const status = await swapSyncService.getSyncStatus(tokenAddress);
+    if (!status?.swapsSynced) return null;
+
+    // Calendar buckets are built from daily candles
+    const buildTf = TIMEFRAME_MS[timeframe] && timeframe !== "1M" && timeframe !== "1w" ? timeframe : "1d";
+    const intervalMs = TIMEFRAME_MS[buildTf];
+    const maxCandles = Math.min(MAX_BASE_CANDLES, Math.ceil((toTimestamp - fromTimestamp) / intervalMs) + 1);
+
+    const candles = await swapSyncService.getOHLCVRangeFromDB(tokenAddress, intervalMs, fromTimestamp, toTimestamp, maxCandles);
+    if (candles.length === 0) return null;
+
+    return buildTf === timeframe ? candles : rollupCandles(candles, timeframe);
+  }
+
+  // Compare a rollup with target-timeframe candles fetched directly earlier (if any)
+  private async isConsistent(
+    tokenAddress: string,
+    timeframe: string,
+    rolled: OHLCV[],
+    fromTimestamp: number,
+    toTimestamp: number
+  ): Promise<boolean> {
+    const direct = await candleCacheService.getCachedCandles(tokenAddress, timeframe, fromTimestamp, toTimestamp);
+    if (direct.length === 0) return true;
+
+    const rolledByTimestamp = new Map(rolled.map((c) => [c.timestamp, c]));
+    const liveBucket = getBucketStart(Date.now(), timeframe);
+    let overlap = 0;
+    let mismatches = 0;
+
+    for (const candle of direct) {
+      // The live bucket is still moving on both sides
+      if (candle.timestamp >= liveBucket) continue;
+
+      const rolledCandle = rolledByTimestamp.get(candle.timestamp);
+      if (!rolledCandle || candle.close <= 0) continue;
+
+      overlap++;
+      if (Math.abs(rolledCandle.close - candle.close) / candle.close > CLOSE_TOLERANCE) {
+        mismatches++;
+      }
+    }
+
+    if (overlap >= MIN_OVERLAP_FOR_CHECK && mismatches / overlap > MAX_MISMATCH_RATIO) {
+      console.warn(`[candleRollup] ${tokenAddress.substring(0, 8)}... ${timeframe} rollup disagrees with cached candles (${mismatches}/${overlap}), using direct data`);
+      return false;
+    }
+    return true;
+  }
+
+  private getDirect(
+    tokenAddress: string,
+    timeframe: string,
+    fromTimestamp: number,
+    toTimestamp: number,
+    options?: { cacheOnly?: boolean }
+  ): Promise<OHLCV[]> {
+    return options?.cacheOnly
+      ? candleCacheService.getCachedCandles(tokenAddress, timeframe, fromTimestamp, toTimestamp)
+      : candleCacheService.getCandles(tokenAddress, timeframe, fromTimestamp, toTimestamp);
+  }
+}
+
+export const candleRollupService = new CandleRollupService();
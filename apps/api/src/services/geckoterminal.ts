@@ -72,10 +72,12 @@ class GeckoTerminalService {
   }
 
   // Get OHLCV data for a token
+  // beforeTimestamp (unix seconds) pages back from a point in time instead of now
   async getOHLCV(
     tokenAddress: string,
     timeframe: Timeframe = "1h",
-    limit: number = 100
+    limit: number = 100,
+    beforeTimestamp?: number
   ): Promise<OHLCV[]> {
     try {
       // First get the main pool for this token
@@ -99,8 +101,13 @@ class GeckoTerminalService {
 
       const { type, aggregate } = timeframeMap[timeframe];
 
+      const params = new URLSearchParams({ aggregate: String(aggregate), limit: String(limit) });
+      if (beforeTimestamp) {
+        params.set("before_timestamp", String(beforeTimestamp));
+      }
+
       const response = await fetch(
-        `${GECKOTERMINAL_API_URL}/networks/solana/pools/${poolAddress}/ohlcv/${type}?aggregate=${aggregate}&limit=${limit}`,
+        `${GECKOTERMINAL_API_URL}/networks/solana/pools/${poolAddress}/ohlcv/${type}?${params}`,
         { headers: this.getHeaders() }
       );
 
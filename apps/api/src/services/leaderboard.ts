@@ -0,0 +1,35 @@
+/**
+ * Leaderboard rank changes
+ * The web app computes the friends / global leaderboards from Trade rows (which live in its
+ * schema) and posts the users whose rank moved; this relays them to the websocket layer,
+ * which pushes "leaderboard:update" to those users' sockets
+ */
+
+import { EventEmitter } from "events";
+
+export interface LeaderboardRankChange {
+  scope: "friends" | "global";
+  period: "1d" | "7d" | "30d";
+  metric: "pnl" | "roi" | "volume";
+  rank: number | null; // null when the user dropped off the board
+  previousRank: number | null;
+}
+
+export interface LeaderboardUpdate {
+  userId: string;
+  changes: LeaderboardRankChange[];
+  timestamp: number;
+}
+
+class LeaderboardService extends EventEmitter {
+  // Called by the internal route with the web app's diff
+  notifyRankChanges(updates: { userId: string; changes: LeaderboardRankChange[] }[]): void {
+    const timestamp = Date.now();
+    for (const update of updates) {
+      if (update.changes.length === 0) continue;
+      this.emit("update", { ...update, timestamp } satisfies LeaderboardUpdate);
+    }
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
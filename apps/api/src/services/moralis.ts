@@ -8,7 +8,7 @@ const MORALIS_API_URL = "https://solana-gateway.moralis.io";
 
 // Moralis timeframe options for OHLCV
 // Note: Moralis uses different format than Birdeye (1min not 1m)
-type MoralisTimeframe = "1s" | "10s" | "30s" | "1min" | "5min" | "10min" | "30min" | "1h" | "4h" | "12h" | "1d" | "1w" | "1M";
+export type MoralisTimeframe = "1s" | "10s" | "30s" | "1min" | "5min" | "10min" | "30min" | "1h" | "4h" | "12h" | "1d" | "1w" | "1M";
 
 // Pump.fun token from Moralis new/bonding/graduated endpoints
 interface MoralisPumpFunToken {
@@ -44,7 +44,8 @@ export interface PumpPortalNewToken {
   traderPublicKey: string; // creator
   signature: string;
   txType: "create";
-  initialBuy: number;
+  initialBuy: number; // Tokens bought by the creator in the create transaction
+  solAmount?: number; // SOL spent on that initial buy
   marketCapSol: number;
   vSolInBondingCurve: number;
   timestamp?: number;
@@ -513,6 +514,15 @@ class PumpPortalService extends EventEmitter {
     });
   }
 
+  // Unsubscribe from specific accounts
+  unsubscribeAccountTrades(accountAddresses: string[]) {
+    accountAddresses.forEach((addr) => this.subscribedAccounts.delete(addr));
+    this.send({
+      method: "unsubscribeAccountTrade",
+      keys: accountAddresses,
+    });
+  }
+
   // Get recent new tokens from cache
   getRecentNewTokens() {
     return this.recentNewTokens.map((t) => this.mapToNewPairToken(t));
@@ -28,9 +28,15 @@ class SolPriceService {
   private cacheTTL: number = 30 * 1000; // 30 seconds cache
   private fetchPromise: Promise<number> | null = null;
   private lastLoggedError: number = 0;
+  private pinned = false; // Fixed price (offline replay) - never fetched or refreshed
+  private hasRealPrice = false; // False while `price` is still the 230 fallback
 
   // Get current SOL price in USD
   async getPrice(): Promise<number> {
+    if (this.pinned) {
+      return this.price;
+    }
+
     const now = Date.now();
 
     // Return cached price if still valid
@@ -72,8 +78,13 @@ class SolPriceService {
         const data = await response.json();
         const price = api.parse(data);
 
+        if (this.pinned) {
+          return this.price;
+        }
+
         if (price && price > 0) {
           this.price = price;
+          this.hasRealPrice = true;
           this.lastFetch = Date.now();
           console.log(`💰 SOL price from ${api.name}: $${this.price.toFixed(2)}`);
           return this.price;
@@ -103,12 +114,27 @@ class SolPriceService {
   getPriceSync(): number {
     // If cache is stale, trigger async refresh
     const now = Date.now();
-    if (now - this.lastFetch > this.cacheTTL) {
+    if (!this.pinned && now - this.lastFetch > this.cacheTTL) {
       this.getPrice().catch(() => {});
     }
     return this.price; // Always return a value (starts at 230)
   }
 
+  // Like getPriceSync, but null until a price has actually been fetched - for values
+  // that get persisted (USD candles), where the fallback would be stored as real data
+  getFetchedPriceSync(): number | null {
+    const price = this.getPriceSync();
+    return this.hasRealPrice ? price : null;
+  }
+
+  // Use a fixed price from now on (scripts/replayTransactions.ts), so USD values are reproducible
+  // null replays a moment when no price had been fetched yet
+  pin(price: number | null): void {
+    if (price !== null) this.price = price;
+    this.hasRealPrice = price !== null;
+    this.pinned = true;
+  }
+
   // Force refresh price
   async refresh(): Promise<number> {
     this.lastFetch = 0;
@@ -0,0 +1,90 @@
+/**
+ * Token Supply Service
+ * Resolves the supply used to turn price candles into market-cap candles
+ * - CoinGecko circulating/total supply for listed tokens (same data as /api/tokens/:address/supply)
+ * - pump.fun tokens always have a fixed 1B supply
+ */
+
+import { prisma } from "../lib/prisma";
+import { cache } from "../lib/cache";
+import { coinGeckoService } from "./coingecko";
+
+// pump.fun tokens have 1 billion supply
+export const PUMP_FUN_SUPPLY = 1_000_000_000;
+
+const SUPPLY_CACHE_TTL = 300; // 5 minutes, same as the supply route
+
+export type CandleSeries = "price" | "mcap";
+
+export interface TokenSupply {
+  supply: number;
+  source: "coingecko" | "pumpfun";
+}
+
+interface PriceCandle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+class SupplyService {
+  async getSupply(address: string): Promise<TokenSupply | null> {
+    const cacheKey = `supply:resolved:${address}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const resolved = await this.resolveSupply(address);
+    if (resolved) {
+      await cache.set(cacheKey, JSON.stringify(resolved), SUPPLY_CACHE_TTL);
+    }
+    return resolved;
+  }
+
+  private async resolveSupply(address: string): Promise<TokenSupply | null> {
+    try {
+      const supplyData = await coinGeckoService.getSupplyDataByAddress(address);
+      const supply = supplyData?.circulatingSupply || supplyData?.totalSupply;
+      if (supply && supply > 0) {
+        return { supply, source: "coingecko" };
+      }
+
+      if (await this.isPumpFunToken(address)) {
+        return { supply: PUMP_FUN_SUPPLY, source: "pumpfun" };
+      }
+    } catch (error) {
+      console.error("Error resolving token supply:", error);
+    }
+
+    return null;
+  }
+
+  // pump.fun vanity mints end in "pump"; anything tracked in Pulse came from pump.fun too
+  private async isPumpFunToken(address: string): Promise<boolean> {
+    if (address.endsWith("pump")) return true;
+
+    const pulseToken = await prisma.pulseToken.findUnique({
+      where: { address },
+      select: { id: true },
+    });
+    return pulseToken !== null;
+  }
+
+  /**
+   * Scale OHLC values by supply so candles read as market cap
+   * Volume is left untouched - it is not a per-token price (Pulse candle volume is already USD)
+   */
+  toMarketCap<T extends PriceCandle>(candles: T[], supply: number): T[] {
+    return candles.map((c) => ({
+      ...c,
+      open: c.open * supply,
+      high: c.high * supply,
+      low: c.low * supply,
+      close: c.close * supply,
+    }));
+  }
+}
+
+export const supplyService = new SupplyService();
@@ -313,6 +313,98 @@ class SwapSyncService {
     const sortedCandles = Array.from(candleMap.values())
       .sort((a, b) => a.timestamp - b.timestamp);
 
+    return this.cleanCandles(sortedCandles).slice(-maxCandles);
+  }
+
+  // Candles for [from, to) bucketed in SQL, so every swap in the range counts no matter how
+  // many there are (reading rows would need a row limit, and the limit cuts off the newest).
+  // Returns the newest maxCandles buckets.
+  async getOHLCVRangeFromDB(
+    tokenAddress: string,
+    intervalMs: number,
+    from: number,
+    to: number,
+    maxCandles: number = 5000
+  ): Promise<OHLCV[]> {
+    const rows = await prisma.$queryRaw<OHLCV[]>`
+      SELECT
+        (floor(extract(epoch FROM "timestamp") * 1000 / ${intervalMs}) * ${intervalMs})::float8 AS "timestamp",
+        ((array_agg("priceUsd" ORDER BY "timestamp" ASC, "txHash" ASC))[1])::float8 AS "open",
+        max("priceUsd")::float8 AS "high",
+        min("priceUsd")::float8 AS "low",
+        ((array_agg("priceUsd" ORDER BY "timestamp" DESC, "txHash" DESC))[1])::float8 AS "close",
+        sum("totalValueUsd")::float8 AS "volume"
+      FROM "TokenSwap"
+      WHERE "tokenAddress" = ${tokenAddress}
+        AND "timestamp" >= ${new Date(from)}
+        AND "timestamp" < ${new Date(to)}
+        AND "priceUsd" > 0
+      GROUP BY 1
+      ORDER BY 1 DESC
+      LIMIT ${maxCandles}
+    `;
+
+    return this.cleanCandles(rows.reverse());
+  }
+
+  // Build tick candles from stored swaps: every candle holds exactly tradesPerCandle trades
+  // (only the newest candle may be partial). Buckets are counted from the token's first
+  // trade so boundaries don't shift as new trades arrive. Timestamp = first trade's time.
+  async getTickOHLCVFromDB(
+    tokenAddress: string,
+    tradesPerCandle: number = 1,
+    maxCandles: number = 1000
+  ): Promise<OHLCV[]> {
+    const where = { tokenAddress, priceUsd: { gt: 0 } };
+    const totalTrades = await prisma.tokenSwap.count({ where });
+    if (totalTrades === 0) {
+      return [];
+    }
+
+    // Read whole buckets only: the partial newest bucket plus (maxCandles - 1) full ones
+    const partial = totalTrades % tradesPerCandle || tradesPerCandle;
+    const swaps = await prisma.tokenSwap.findMany({
+      where,
+      select: { timestamp: true, priceUsd: true, totalValueUsd: true },
+      orderBy: [{ timestamp: "desc" }, { txHash: "desc" }],
+      take: partial + (maxCandles - 1) * tradesPerCandle,
+    });
+    swaps.reverse();
+
+    const candles: OHLCV[] = [];
+    let current: OHLCV | null = null;
+
+    for (let i = 0; i < swaps.length; i++) {
+      const swap = swaps[i];
+      const price = swap.priceUsd;
+      const startsBucket = i % tradesPerCandle === 0;
+
+      if (current && !startsBucket) {
+        current.high = Math.max(current.high, price);
+        current.low = Math.min(current.low, price);
+        current.close = price;
+        current.volume += swap.totalValueUsd;
+        continue;
+      }
+
+      // Several buckets can fall in the same millisecond - keep timestamps strictly increasing
+      const previous = candles[candles.length - 1];
+      current = {
+        timestamp: previous ? Math.max(swap.timestamp.getTime(), previous.timestamp + 1) : swap.timestamp.getTime(),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: swap.totalValueUsd,
+      };
+      candles.push(current);
+    }
+
+    return this.cleanCandles(candles);
+  }
+
+  // Drop bonding-curve outliers and connect each candle's open to the previous close
+  private cleanCandles(sortedCandles: OHLCV[]): OHLCV[] {
     // Filter out extreme outlier candles (initial bonding curve prices)
     // If a candle's price is more than 100x different from the median, skip it
     if (sortedCandles.length > 2) {
@@ -351,7 +443,7 @@ class SwapSyncService {
       // Otherwise keep candle's original open (don't create artificial spike)
     }
 
-    return sortedCandles.slice(-maxCandles);
+    return sortedCandles;
   }
 
   // Get OHLCV - checks DB first, syncs if needed, then returns from DB
@@ -362,6 +454,23 @@ class SwapSyncService {
     tokenAddress: string,
     intervalMs: number = 60000
   ): Promise<OHLCV[]> {
+    await this.ensureSynced(tokenAddress);
+
+    // Return from DB (includes both PumpPortal and Moralis trades)
+    return this.getOHLCVFromDB(tokenAddress, intervalMs);
+  }
+
+  // Get tick (N-trade) OHLCV - same sync behaviour as getOHLCV
+  async getTickOHLCV(
+    tokenAddress: string,
+    tradesPerCandle: number
+  ): Promise<OHLCV[]> {
+    await this.ensureSynced(tokenAddress);
+    return this.getTickOHLCVFromDB(tokenAddress, tradesPerCandle);
+  }
+
+  // Sync from Moralis on first use, otherwise pull new swaps in the background
+  private async ensureSynced(tokenAddress: string): Promise<void> {
     // Check if synced from Moralis
     const status = await this.getSyncStatus(tokenAddress);
 
@@ -388,9 +497,6 @@ class SwapSyncService {
       // Already synced - just fetch any new swaps in background
       this.syncNewSwaps(tokenAddress).catch(() => {});
     }
-
-    // Return from DB (includes both PumpPortal and Moralis trades)
-    return this.getOHLCVFromDB(tokenAddress, intervalMs);
   }
 
   // Get swap count for a token from DB
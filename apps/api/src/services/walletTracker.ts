@@ -0,0 +1,175 @@
+/**
+ * Wallet Tracker
+ * Streams the trades of wallets users track (TrackedWallet, managed by the web app)
+ * - pump.fun trades come from PumpPortal account subscriptions, everything else from the
+ *   gRPC swap stream (ParsedSwap.maker) - the same trade can arrive from both
+ * - Each trade is stored once in WalletActivity; the insert doubles as the dedupe, so only
+ *   new trades are emitted as "activity" for the websocket layer to push to users
+ */
+
+import { EventEmitter } from "events";
+import { prisma } from "../lib/prisma";
+import type { PumpPortalTrade } from "./pumpportal";
+import { TOKENS, type ParsedSwap } from "../grpc";
+import { PUMP_FUN_SUPPLY } from "./supply";
+
+const REFRESH_INTERVAL = 15000; // Pick up newly tracked wallets every 15 seconds
+const PRUNE_INTERVAL = 60 * 60 * 1000; // Hourly
+const ACTIVITY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Keep a week of activity
+
+export interface WalletTracker {
+  trackedWalletId: string;
+  userId: string;
+  label: string;
+  emoji: string | null;
+  notify: boolean;
+}
+
+export interface WalletActivityEvent {
+  address: string;
+  signature: string;
+  side: "buy" | "sell";
+  tokenMint: string;
+  tokenAmount: number;
+  quoteMint: string;
+  quoteAmount: number;
+  marketCapSol: number | null;
+  source: "pumpportal" | "grpc";
+  timestamp: number;
+}
+
+class WalletTrackerService extends EventEmitter {
+  private trackers: Map<string, WalletTracker[]> = new Map(); // address -> users tracking it
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.refreshTimer) return;
+
+    await this.refresh();
+    this.refreshTimer = setInterval(() => this.refresh(), REFRESH_INTERVAL);
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL);
+    console.log(`[walletTracker] Tracking ${this.trackers.size} wallets`);
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  isTracked(address: string): boolean {
+    return this.trackers.has(address);
+  }
+
+  getTrackedAddresses(): string[] {
+    return Array.from(this.trackers.keys());
+  }
+
+  // Reload tracked wallets - emits "accountsChanged" so PumpPortal subscriptions follow along
+  private async refresh(): Promise<void> {
+    try {
+      const rows = await prisma.trackedWallet.findMany();
+
+      const next = new Map<string, WalletTracker[]>();
+      for (const row of rows) {
+        const list = next.get(row.address) || [];
+        list.push({
+          trackedWalletId: row.id,
+          userId: row.userId,
+          label: row.label,
+          emoji: row.emoji,
+          notify: row.notify,
+        });
+        next.set(row.address, list);
+      }
+
+      const added = Array.from(next.keys()).filter((address) => !this.trackers.has(address));
+      const removed = Array.from(this.trackers.keys()).filter((address) => !next.has(address));
+      this.trackers = next;
+
+      if (added.length > 0 || removed.length > 0) {
+        this.emit("accountsChanged", { added, removed });
+      }
+    } catch (error) {
+      console.error("[walletTracker] Failed to refresh tracked wallets:", error);
+    }
+  }
+
+  private async prune(): Promise<void> {
+    try {
+      const { count } = await prisma.walletActivity.deleteMany({
+        where: { timestamp: { lt: new Date(Date.now() - ACTIVITY_RETENTION_MS) } },
+      });
+      if (count > 0) {
+        console.log(`[walletTracker] Pruned ${count} old activity rows`);
+      }
+    } catch (error) {
+      console.error("[walletTracker] Failed to prune activity:", error);
+    }
+  }
+
+  // PumpPortal account trade (also fires for token subscriptions - untracked traders are ignored)
+  handlePumpPortalTrade(trade: PumpPortalTrade): void {
+    if (!this.trackers.has(trade.traderPublicKey) || !trade.signature) return;
+
+    this.record({
+      address: trade.traderPublicKey,
+      signature: trade.signature,
+      side: trade.txType,
+      tokenMint: trade.mint,
+      tokenAmount: trade.tokenAmount,
+      quoteMint: TOKENS.SOL,
+      quoteAmount: trade.solAmount,
+      marketCapSol: trade.marketCapSol ?? null,
+      source: "pumpportal",
+      timestamp: trade.timestamp || Date.now(),
+    });
+  }
+
+  // Parsed DEX swap from the gRPC stream
+  handleSwap(swap: ParsedSwap): void {
+    if (!swap.maker || !this.trackers.has(swap.maker) || !swap.signature) return;
+
+    const isPumpToken = swap.quoteMint === TOKENS.SOL && swap.baseMint.endsWith("pump");
+
+    this.record({
+      address: swap.maker,
+      signature: swap.signature,
+      side: swap.isBuy ? "buy" : "sell",
+      tokenMint: swap.baseMint,
+      tokenAmount: swap.baseAmount,
+      quoteMint: swap.quoteMint,
+      quoteAmount: swap.quoteAmount,
+      marketCapSol: isPumpToken ? swap.price * PUMP_FUN_SUPPLY : null,
+      source: "grpc",
+      timestamp: swap.timestamp,
+    });
+  }
+
+  private async record(activity: WalletActivityEvent): Promise<void> {
+    try {
+      const { count } = await prisma.walletActivity.createMany({
+        data: [{ ...activity, timestamp: new Date(activity.timestamp) }],
+        skipDuplicates: true,
+      });
+
+      // Already seen from the other stream
+      if (count === 0) return;
+
+      const trackers = this.trackers.get(activity.address);
+      if (trackers) {
+        this.emit("activity", activity, trackers);
+      }
+    } catch (error) {
+      console.error(`[walletTracker] Failed to record ${activity.signature}:`, error);
+    }
+  }
+}
+
+export const walletTrackerService = new WalletTrackerService();
@@ -0,0 +1,23 @@
+import crypto from "crypto";
+
+/**
+ * Verify a websocket token signed by the web app (apps/web/src/lib/socket-token.ts).
+ * Format: "<userId>.<expiresAtMs>.<base64url HMAC-SHA256>" signed with INTERNAL_API_KEY.
+ * Returns the userId, or null when the token is missing, expired or forged.
+ */
+export function verifySocketToken(token: unknown): string | null {
+  const key = process.env.INTERNAL_API_KEY;
+  if (!key || typeof token !== "string") return null;
+
+  const [userId, expiresAt, signature] = token.split(".");
+  if (!userId || !expiresAt || !signature || Number(expiresAt) < Date.now()) return null;
+
+  // Constant-time comparison, like the internal API key check
+  const expected = crypto.createHmac("sha256", key).update(`${userId}.${expiresAt}`).digest();
+  const provided = Buffer.from(signature, "base64url");
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  return userId;
+}
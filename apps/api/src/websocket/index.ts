@@ -1,8 +1,14 @@
 import { Server, Socket } from "socket.io";
 import { meteoraService } from "../services/meteora";
-import { getGrpcService } from "../grpc";
-import { Timeframe } from "../ohlcv";
+import { pumpPortalService, type PumpPortalNewToken, type PumpPortalTrade, type PumpPortalMigration } from "../services/pumpportal";
+import { getGrpcService, type ParsedSwap } from "../grpc";
+import { walletTrackerService, type WalletActivityEvent, type WalletTracker } from "../services/walletTracker";
+import { alertService, type TriggeredAlert } from "../services/alerts";
+import { leaderboardService, type LeaderboardUpdate } from "../services/leaderboard";
+import { Timeframe, CandleCurrency } from "../ohlcv";
 import { prisma } from "../lib/prisma";
+import { PUMP_FUN_SUPPLY } from "../services/supply";
+import { verifySocketToken } from "./auth";
 import crypto from "crypto";
 
 // ==========================================
@@ -58,8 +64,16 @@ function checkRateLimit(socketId: string, type: "messages" | "lobbyActions"): bo
 interface SubscriptionState {
   tokens: Set<string>;
   pulse: boolean;
+  snipe: boolean; // Raw pump.fun token creations for the web app's auto-snipe engine
+  accounts: Set<string>; // Wallets whose pump.fun trades are relayed (copy trading)
   dashboard: boolean; // Dashboard token price updates
-  ohlcvSubscriptions: Set<string>; // Format: "baseMint:quoteMint:timeframe"
+  ohlcvSubscriptions: Set<string>; // Format: "baseMint:quoteMint:timeframe[:usd]"
+}
+
+// OHLCV room key - quote-denominated subscriptions keep the original format
+function getOhlcvSubKey(baseMint: string, quoteMint: string, timeframe: string, currency?: CandleCurrency): string {
+  const subKey = `${baseMint}:${quoteMint}:${timeframe}`;
+  return currency === "usd" ? `${subKey}:usd` : subKey;
 }
 
 const subscriptions = new Map<string, SubscriptionState>();
@@ -152,6 +166,9 @@ async function notifyFriendsOfLobbyUpdate(
   }
 }
 let meteoraPollingCleanup: (() => void) | null = null;
+let pumpPortalInitialized = false;
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
 let dashboardPriceInterval: NodeJS.Timeout | null = null;
 
 export function setupWebSocket(io: Server) {
@@ -160,8 +177,15 @@ export function setupWebSocket(io: Server) {
   io.on("connection", (socket: Socket) => {
     console.log(`Client connected: ${socket.id}`);
 
+    // Private events go to user:<id> rooms, joined only with a token signed by the web app -
+    // lobby:auth takes the userId on trust, so it can't be used to route them
+    const verifiedUserId = verifySocketToken(socket.handshake.auth?.token);
+    if (verifiedUserId) {
+      socket.join(`user:${verifiedUserId}`);
+    }
+
     // Initialize subscription state for this client
-    subscriptions.set(socket.id, { tokens: new Set(), pulse: false, dashboard: false, ohlcvSubscriptions: new Set() });
+    subscriptions.set(socket.id, { tokens: new Set(), pulse: false, snipe: false, accounts: new Set(), dashboard: false, ohlcvSubscriptions: new Set() });
 
     // Handle token subscription
     socket.on("subscribe:token", (data: { address: string }) => {
@@ -203,6 +227,55 @@ export function setupWebSocket(io: Server) {
       }
     });
 
+    // Handle snipe subscription (every new pump.fun token, as soon as PumpPortal reports it)
+    socket.on("subscribe:snipe", () => {
+      const state = subscriptions.get(socket.id);
+      if (state) {
+        state.snipe = true;
+        socket.join("snipe");
+        initializePumpPortal(io);
+        pumpPortalService.subscribeNewTokens();
+        console.log(`Client ${socket.id} subscribed to new token snipes`);
+      }
+    });
+
+    // Handle snipe unsubscription
+    socket.on("unsubscribe:snipe", () => {
+      const state = subscriptions.get(socket.id);
+      if (state) {
+        state.snipe = false;
+        socket.leave("snipe");
+        console.log(`Client ${socket.id} unsubscribed from new token snipes`);
+      }
+    });
+
+    // Handle account subscription (every pump.fun trade a wallet makes)
+    socket.on("subscribe:account", (data: { address: string }) => {
+      const state = subscriptions.get(socket.id);
+      if (state && SOLANA_ADDRESS_REGEX.test(data?.address || "")) {
+        const room = `account:${data.address}`;
+        const isFirst = !io.sockets.adapter.rooms.has(room);
+        state.accounts.add(data.address);
+        socket.join(room);
+        initializePumpPortal(io);
+        if (isFirst) {
+          pumpPortalService.subscribeAccountTrades([data.address]);
+        }
+        console.log(`Client ${socket.id} subscribed to account ${data.address}`);
+      }
+    });
+
+    // Handle account unsubscription
+    socket.on("unsubscribe:account", (data: { address: string }) => {
+      const state = subscriptions.get(socket.id);
+      if (state?.accounts.has(data?.address)) {
+        state.accounts.delete(data.address);
+        socket.leave(`account:${data.address}`);
+        releaseAccountTrades(io, data.address);
+        console.log(`Client ${socket.id} unsubscribed from account ${data.address}`);
+      }
+    });
+
     // Handle Dashboard subscription (real-time price updates for established tokens)
     socket.on("subscribe:dashboard", () => {
       const state = subscriptions.get(socket.id);
@@ -223,11 +296,11 @@ export function setupWebSocket(io: Server) {
       }
     });
 
-    // Handle OHLCV candle subscription
-    socket.on("subscribe:ohlcv", (data: { baseMint: string; quoteMint: string; timeframe: Timeframe }) => {
+    // Handle OHLCV candle subscription (currency defaults to the pair's quote mint)
+    socket.on("subscribe:ohlcv", (data: { baseMint: string; quoteMint: string; timeframe: Timeframe; currency?: CandleCurrency }) => {
       const state = subscriptions.get(socket.id);
       if (state) {
-        const subKey = `${data.baseMint}:${data.quoteMint}:${data.timeframe}`;
+        const subKey = getOhlcvSubKey(data.baseMint, data.quoteMint, data.timeframe, data.currency);
         state.ohlcvSubscriptions.add(subKey);
         socket.join(`ohlcv:${subKey}`);
         console.log(`Client ${socket.id} subscribed to OHLCV ${subKey}`);
@@ -235,10 +308,10 @@ export function setupWebSocket(io: Server) {
     });
 
     // Handle OHLCV candle unsubscription
-    socket.on("unsubscribe:ohlcv", (data: { baseMint: string; quoteMint: string; timeframe: Timeframe }) => {
+    socket.on("unsubscribe:ohlcv", (data: { baseMint: string; quoteMint: string; timeframe: Timeframe; currency?: CandleCurrency }) => {
       const state = subscriptions.get(socket.id);
       if (state) {
-        const subKey = `${data.baseMint}:${data.quoteMint}:${data.timeframe}`;
+        const subKey = getOhlcvSubKey(data.baseMint, data.quoteMint, data.timeframe, data.currency);
         state.ohlcvSubscriptions.delete(subKey);
         socket.leave(`ohlcv:${subKey}`);
         console.log(`Client ${socket.id} unsubscribed from OHLCV ${subKey}`);
@@ -1284,6 +1357,11 @@ export function setupWebSocket(io: Server) {
         }
       }
 
+      // Drop PumpPortal account subscriptions nobody else is listening to
+      for (const address of subscriptions.get(socket.id)?.accounts || []) {
+        releaseAccountTrades(io, address);
+      }
+
       socketToUser.delete(socket.id);
       subscriptions.delete(socket.id);
       rateLimits.delete(socket.id);
@@ -1295,7 +1373,7 @@ export function setupWebSocket(io: Server) {
   console.log("🔧 Initializing Meteora polling...");
   initializeMeteoraPolling(io);
 
-  // Start price update simulation (replace with real data feeds later)
+  // Start price updates for subscribed tokens (DB prices, gRPC trades push live ticks)
   startPriceUpdates(io);
 
   // Initialize gRPC OHLCV streaming
@@ -1305,6 +1383,17 @@ export function setupWebSocket(io: Server) {
   // Initialize Dashboard price streaming (reads from DB, broadcasts to subscribers)
   console.log("🔧 Initializing Dashboard price streaming...");
   initializeDashboardPriceStreaming(io);
+
+  // Stream tracked wallets' trades to their users
+  console.log("🔧 Initializing wallet tracker...");
+  initializeWalletTracker(io);
+
+  // Evaluate token alerts and deliver them to their users
+  console.log("🔧 Initializing token alerts...");
+  initializeAlerts(io);
+
+  // Push leaderboard rank changes (computed by the web app) to their users
+  initializeLeaderboard(io);
 }
 
 // Initialize Meteora polling for new DLMM pairs
@@ -1324,9 +1413,107 @@ async function initializeMeteoraPolling(io: Server) {
   }
 }
 
-// Simulate price updates for subscribed tokens
+// Relay PumpPortal token creations to the snipe room and account trades to account rooms
+// Connects lazily - PumpPortal is only needed once something subscribes
+function initializePumpPortal(io: Server) {
+  if (pumpPortalInitialized) return;
+  pumpPortalInitialized = true;
+
+  pumpPortalService.on("newToken", (token: PumpPortalNewToken) => {
+    // Relay untouched and before any enrichment - snipes are latency sensitive
+    io.to("snipe").emit("snipe:newToken", token);
+  });
+
+  pumpPortalService.on("trade", (trade: PumpPortalTrade) => {
+    walletTrackerService.handlePumpPortalTrade(trade);
+
+    // Token subscriptions produce trade events too - only relay wallets someone watches
+    const room = `account:${trade.traderPublicKey}`;
+    if (io.sockets.adapter.rooms.has(room)) {
+      io.to(room).emit("account:trade", trade);
+    }
+  });
+
+  pumpPortalService.connect().catch((error) => {
+    console.error("Failed to connect to PumpPortal:", error);
+  });
+}
+
+// Stop PumpPortal account trades once the last subscriber has left the room
+// and nobody tracks the wallet
+function releaseAccountTrades(io: Server, address: string) {
+  if (!io.sockets.adapter.rooms.has(`account:${address}`) && !walletTrackerService.isTracked(address)) {
+    pumpPortalService.unsubscribeAccountTrades([address]);
+  }
+}
+
+// Feed tracked wallets from PumpPortal + gRPC and push their trades to the users tracking them
+// Every trade is sent as tracker:trade (live feed); the client only notifies when notify is set
+function initializeWalletTracker(io: Server) {
+  walletTrackerService.on("accountsChanged", ({ added, removed }: { added: string[]; removed: string[] }) => {
+    if (added.length > 0) {
+      initializePumpPortal(io);
+      pumpPortalService.subscribeAccountTrades(added);
+    }
+    for (const address of removed) {
+      releaseAccountTrades(io, address);
+    }
+  });
+
+  walletTrackerService.on("activity", (activity: WalletActivityEvent, trackers: WalletTracker[]) => {
+    for (const tracker of trackers) {
+      io.to(`user:${tracker.userId}`).emit("tracker:trade", {
+        ...activity,
+        trackedWalletId: tracker.trackedWalletId,
+        label: tracker.label,
+        emoji: tracker.emoji,
+        notify: tracker.notify,
+      });
+    }
+  });
+
+  getGrpcService().on("swap", (swap: ParsedSwap) => {
+    walletTrackerService.handleSwap(swap);
+  });
+
+  walletTrackerService.start().catch((error) => {
+    console.error("Failed to start wallet tracker:", error);
+  });
+}
+
+// Token alerts - prices come from the gRPC trade handler, migrations from PumpPortal
+// (when connected); alertService polls the DB for everything else
+function initializeAlerts(io: Server) {
+  alertService.on("triggered", (alert: TriggeredAlert) => {
+    io.to(`user:${alert.userId}`).emit("alert:triggered", alert);
+  });
+
+  pumpPortalService.on("migration", (migration: PumpPortalMigration) => {
+    alertService.handleMigration(migration.mint);
+  });
+
+  alertService.start().catch((error) => {
+    console.error("Failed to start token alerts:", error);
+  });
+}
+
+// Leaderboard rank changes arrive from the web app via POST /api/leaderboard/changes
+function initializeLeaderboard(io: Server) {
+  leaderboardService.on("update", (update: LeaderboardUpdate) => {
+    io.to(`user:${update.userId}`).emit("leaderboard:update", update);
+  });
+}
+
+// Live price state for price:update (token rooms)
+// - supply is derived from DB marketCap / price so gRPC trades can carry a market cap
+// - lastLivePriceAt marks tokens priced by gRPC, so older DB prices don't overwrite them
+const tokenSupply = new Map<string, number>();
+const lastLivePriceAt = new Map<string, number>();
+const PRICE_UPDATE_INTERVAL = 5000;
+
+// Stream DB prices (dashboard + Pulse sync) for subscribed tokens
 function startPriceUpdates(io: Server) {
-  setInterval(() => {
+  setInterval(async () => {
     // Get all active token subscriptions
     const activeTokens = new Set<string>();
     for (const state of subscriptions.values()) {
@@ -1335,18 +1522,42 @@ function startPriceUpdates(io: Server) {
       }
     }
 
-    // Send price updates for active tokens
-    for (const address of activeTokens) {
-      const priceChange = (Math.random() - 0.5) * 0.02; // ±1% change
-      const price = 0.01 + Math.random() * 0.05; // Mock price
+    if (activeTokens.size === 0) return;
 
-      io.to(`token:${address}`).emit("price:update", {
-        address,
-        price: price * (1 + priceChange),
-        timestamp: Date.now(),
-      });
+    try {
+      const addresses = Array.from(activeTokens);
+      const [tokens, pulseTokens] = await Promise.all([
+        prisma.token.findMany({
+          where: { address: { in: addresses } },
+          select: { address: true, price: true, marketCap: true },
+        }),
+        prisma.pulseToken.findMany({
+          where: { address: { in: addresses } },
+          select: { address: true, price: true, marketCap: true },
+        }),
+      ]);
+
+      // Pulse rows are synced more often, so they win over dashboard rows
+      const prices = new Map<string, { price: number; marketCap: number | null }>();
+      for (const t of [...tokens, ...pulseTokens]) {
+        if (t.price && t.price > 0) {
+          prices.set(t.address, { price: t.price, marketCap: t.marketCap });
+        }
+      }
+
+      const now = Date.now();
+      for (const [address, { price, marketCap }] of prices) {
+        if (marketCap && marketCap > 0) {
+          tokenSupply.set(address, marketCap / price);
+        }
+
+        if (now - (lastLivePriceAt.get(address) ?? 0) < PRICE_UPDATE_INTERVAL) continue;
+        broadcastPriceUpdate(io, address, price, marketCap ?? undefined);
+      }
+    } catch (error) {
+      console.error("Failed to broadcast token prices:", error);
     }
-  }, 5000); // Update every 5 seconds
+  }, PRICE_UPDATE_INTERVAL);
 }
 
 // Initialize gRPC service for OHLCV streaming
@@ -1354,21 +1565,38 @@ async function initializeGrpcOhlcv(io: Server) {
   const grpcService = getGrpcService();
 
   // Forward candle updates to WebSocket subscribers
-  grpcService.on("candleUpdate", (data: { baseMint: string; quoteMint: string; timeframe: string; candle: any }) => {
-    const subKey = `${data.baseMint}:${data.quoteMint}:${data.timeframe}`;
+  grpcService.on("candleUpdate", (data: { baseMint: string; quoteMint: string; timeframe: string; currency: CandleCurrency; candle: any }) => {
+    const subKey = getOhlcvSubKey(data.baseMint, data.quoteMint, data.timeframe, data.currency);
     io.to(`ohlcv:${subKey}`).emit("ohlcv:update", data);
   });
 
   // Forward candle closed events
-  grpcService.on("candleClosed", (data: { baseMint: string; quoteMint: string; timeframe: string; candle: any }) => {
-    const subKey = `${data.baseMint}:${data.quoteMint}:${data.timeframe}`;
+  grpcService.on("candleClosed", (data: { baseMint: string; quoteMint: string; timeframe: string; currency: CandleCurrency; candle: any }) => {
+    const subKey = getOhlcvSubKey(data.baseMint, data.quoteMint, data.timeframe, data.currency);
     io.to(`ohlcv:${subKey}`).emit("ohlcv:closed", data);
   });
 
   // Forward trade events
-  grpcService.on("trade", (data: { baseMint: string; quoteMint: string; trade: any }) => {
+  grpcService.on("trade", (data: { baseMint: string; quoteMint: string; trade: any; priceUsd: number | null }) => {
     const subKey = `${data.baseMint}:${data.quoteMint}`;
     io.to(`trades:${subKey}`).emit("trade", data);
+
+    if (!data.priceUsd) return;
+    const hasSubscribers = io.sockets.adapter.rooms.has(`token:${data.baseMint}`);
+    const hasAlerts = alertService.isWatched(data.baseMint);
+    if (!hasSubscribers && !hasAlerts) return;
+
+    const supply = tokenSupply.get(data.baseMint) ?? (data.baseMint.endsWith("pump") ? PUMP_FUN_SUPPLY : undefined);
+    const marketCap = supply ? data.priceUsd * supply : undefined;
+
+    // Every priced trade is also a live price tick for token subscribers and alerts
+    if (hasSubscribers) {
+      lastLivePriceAt.set(data.baseMint, Date.now());
+      broadcastPriceUpdate(io, data.baseMint, data.priceUsd, marketCap);
+    }
+    if (hasAlerts) {
+      alertService.handlePrice(data.baseMint, data.priceUsd, marketCap);
+    }
   });
 
   // Start the gRPC service if configured
@@ -1381,6 +1609,7 @@ async function initializeGrpcOhlcv(io: Server) {
         enabled: true,
         endpoint: grpcEndpoint,
         xToken: grpcToken,
+        recordFile: process.env.GRPC_RECORD_FILE,
       });
       console.log("✅ gRPC OHLCV streaming initialized");
     } catch (error) {
@@ -1395,11 +1624,13 @@ async function initializeGrpcOhlcv(io: Server) {
 export function broadcastPriceUpdate(
   io: Server,
   address: string,
-  price: number
+  price: number,
+  marketCap?: number
 ) {
   io.to(`token:${address}`).emit("price:update", {
     address,
     price,
+    marketCap: marketCap ?? null,
     timestamp: Date.now(),
   });
 }
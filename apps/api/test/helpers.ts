@@ -0,0 +1,12 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { deserializeUpdate } from "../src/grpc/recording";
+
+export const FIXTURES_DIR = join(__dirname, "fixtures");
+
+// Transaction from a fixture update (one GRPC_RECORD_FILE-format line per fixture).
+// The parser fixtures are hand-built, not captured from mainnet - each test file says which.
+export function loadTransaction(name: string): any {
+  const line = readFileSync(join(FIXTURES_DIR, `${name}.jsonl`), "utf8").trim();
+  return deserializeUpdate(line).transaction;
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTransaction } from "../src/parsers";
+import { TOKENS } from "../src/grpc/client";
+import { loadTransaction } from "./helpers";
+
+const MEME = "AWJHJpHy431ZCH6owBR4EF3D8iaEU3ZmCM9VZwsDD5ff";
+const TRADER = "5pQwKwjjVUDRXUVFNs6Q3r46V3AvY1WsfV5YtPhBDULX";
+const LB_PAIR = "37HMZgdq8bB3ZCYbbkD7ytso5xtAZHYsX89oAUHcaaR2";
+
+// The meteora-* fixtures are synthetic: built by hand in the recorder format from the DLMM
+// instruction and account layouts, not captured from mainnet. Replace them with recorded swaps when possible.
+
+test("meteora dlmm swap x->y: selling token X for USDC", () => {
+  const [swap, ...rest] = parseTransaction(loadTransaction("meteora-swap-x-to-y"));
+
+  assert.equal(rest.length, 0);
+  assert.equal(swap.dex, "meteora-dlmm");
+  assert.equal(swap.pool, LB_PAIR);
+  assert.equal(swap.maker, TRADER);
+  assert.equal(swap.baseMint, MEME);
+  assert.equal(swap.quoteMint, TOKENS.USDC);
+  assert.equal(swap.baseAmount, 1_000_000);
+  assert.equal(swap.quoteAmount, 40);
+  assert.equal(swap.price, 0.00004);
+  assert.equal(swap.isBuy, false);
+});
+
+test("meteora dlmm swap2 y->x: buying token X with USDC", () => {
+  const [swap] = parseTransaction(loadTransaction("meteora-swap2-y-to-x"));
+
+  assert.equal(swap.baseMint, MEME);
+  assert.equal(swap.quoteMint, TOKENS.USDC);
+  assert.equal(swap.baseAmount, 2_000_000);
+  assert.equal(swap.quoteAmount, 84);
+  assert.equal(swap.price, 0.000042);
+  assert.equal(swap.isBuy, true);
+});
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import bs58 from "bs58";
+import { parseTransaction } from "../src/parsers";
+import { TOKENS } from "../src/grpc/client";
+import { loadTransaction } from "./helpers";
+
+const MEME = "AWJHJpHy431ZCH6owBR4EF3D8iaEU3ZmCM9VZwsDD5ff";
+const TRADER = "5pQwKwjjVUDRXUVFNs6Q3r46V3AvY1WsfV5YtPhBDULX";
+const SOL_USDC_POOL = "712mWZrz3DEV3CEVy1p8RzzK4byzzQzS8EY93quwHE7Y";
+const MEME_SOL_POOL = "AXRbEGE4JpNkKnHvDne1nk594iTwaLehrbButrgG1mnk";
+
+// The orca-* fixtures are synthetic: built by hand in the recorder format from the Whirlpool
+// account layouts, not captured from mainnet. Replace them with recorded swaps when possible.
+
+test("orca swap a->b: selling SOL into a SOL/USDC whirlpool", () => {
+  const tx = loadTransaction("orca-swap-a-to-b");
+  const [swap, ...rest] = parseTransaction(tx);
+
+  assert.equal(rest.length, 0);
+  assert.equal(swap.dex, "orca");
+  assert.equal(swap.signature, bs58.encode(tx.signature));
+  assert.equal(swap.timestamp, 1735689600 * 1000);
+  assert.equal(swap.pool, SOL_USDC_POOL);
+  assert.equal(swap.maker, TRADER);
+  // USDC outranks SOL as quote
+  assert.equal(swap.baseMint, TOKENS.SOL);
+  assert.equal(swap.quoteMint, TOKENS.USDC);
+  assert.equal(swap.baseAmount, 2);
+  assert.equal(swap.quoteAmount, 300);
+  assert.equal(swap.price, 150);
+  assert.equal(swap.isBuy, false);
+});
+
+test("orca swap b->a: buying SOL with USDC", () => {
+  const [swap] = parseTransaction(loadTransaction("orca-swap-b-to-a"));
+
+  assert.equal(swap.baseMint, TOKENS.SOL);
+  assert.equal(swap.quoteMint, TOKENS.USDC);
+  assert.equal(swap.baseAmount, 1);
+  assert.equal(swap.quoteAmount, 151.5);
+  assert.equal(swap.price, 151.5);
+  assert.equal(swap.isBuy, true);
+});
+
+test("orca swapV2 a->b: selling a Token-2022 token for SOL", () => {
+  const [swap] = parseTransaction(loadTransaction("orca-swapv2-a-to-b"));
+
+  assert.equal(swap.pool, MEME_SOL_POOL);
+  assert.equal(swap.maker, TRADER);
+  assert.equal(swap.baseMint, MEME);
+  assert.equal(swap.quoteMint, TOKENS.SOL);
+  assert.equal(swap.baseAmount, 1_000_000);
+  assert.equal(swap.quoteAmount, 0.5);
+  assert.equal(swap.price, 0.5 / 1_000_000);
+  assert.equal(swap.isBuy, false);
+});
+
+test("orca swapV2 b->a: buying a Token-2022 token with SOL", () => {
+  const [swap] = parseTransaction(loadTransaction("orca-swapv2-b-to-a"));
+
+  assert.equal(swap.baseMint, MEME);
+  assert.equal(swap.quoteMint, TOKENS.SOL);
+  assert.equal(swap.baseAmount, 2_000_000);
+  assert.equal(swap.quoteAmount, 1.02);
+  assert.equal(swap.isBuy, true);
+});
+
+test("orca swap whose a_to_b flag disagrees with the vault deltas is rejected", () => {
+  const tx = loadTransaction("orca-swap-a-to-b");
+  const ix = tx.transaction.message.instructions[0];
+  const data = Buffer.from(bs58.decode(ix.data));
+  data[41] = 0; // a_to_b = false, but vault A still grew
+  ix.data = bs58.encode(data);
+
+  assert.deepEqual(parseTransaction(tx), []);
+});
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTransaction } from "../src/parsers";
+import { TOKENS } from "../src/grpc/client";
+import { loadTransaction } from "./helpers";
+
+const MEME = "AWJHJpHy431ZCH6owBR4EF3D8iaEU3ZmCM9VZwsDD5ff";
+const SOL_USDC_POOL = "712mWZrz3DEV3CEVy1p8RzzK4byzzQzS8EY93quwHE7Y";
+const PUMPSWAP_POOL = "DkfKFpSyoohuFQNQWuaCDyg2nq1UcoT7ijukxGB7iD8z";
+
+// The jupiter-route fixture is synthetic: a hand-built Jupiter route with Orca and PumpSwap
+// CPIs in the recorder format, not captured from mainnet. Replace it with a recorded route when possible.
+
+test("jupiter route: each CPI hop is parsed against its own pool, in execution order", () => {
+  const swaps = parseTransaction(loadTransaction("jupiter-route-orca-pumpswap"));
+
+  assert.equal(swaps.length, 2);
+  const [orca, pumpswap] = swaps;
+
+  // USDC -> SOL on Orca
+  assert.equal(orca.dex, "orca");
+  assert.equal(orca.pool, SOL_USDC_POOL);
+  assert.equal(orca.baseMint, TOKENS.SOL);
+  assert.equal(orca.quoteMint, TOKENS.USDC);
+  assert.equal(orca.baseAmount, 1);
+  assert.equal(orca.quoteAmount, 150);
+  assert.equal(orca.isBuy, true);
+
+  // SOL -> MEME on PumpSwap - not USDC -> MEME from the wallet's net balance changes
+  assert.equal(pumpswap.dex, "pumpswap");
+  assert.equal(pumpswap.pool, PUMPSWAP_POOL);
+  assert.equal(pumpswap.baseMint, MEME);
+  assert.equal(pumpswap.quoteMint, TOKENS.SOL);
+  assert.equal(pumpswap.baseAmount, 19_000_000);
+  assert.equal(pumpswap.quoteAmount, 1);
+  assert.equal(pumpswap.isBuy, true);
+});
+
+test("a pool hit twice in one transaction is reported once", () => {
+  const tx = loadTransaction("jupiter-route-orca-pumpswap");
+  const [inner] = tx.meta.innerInstructions;
+  inner.instructions.push({ ...inner.instructions[0] });
+
+  const swaps = parseTransaction(tx);
+  assert.deepEqual(swaps.map((s) => s.dex), ["orca", "pumpswap"]);
+});
+
+test("CPIs are only walked under the top-level instruction that made them", () => {
+  const tx = loadTransaction("jupiter-route-orca-pumpswap");
+  tx.meta.innerInstructions[0].index = 5; // No such top-level instruction
+
+  assert.deepEqual(parseTransaction(tx), []);
+});
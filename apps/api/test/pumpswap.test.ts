@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTransaction } from "../src/parsers";
+import { TOKENS } from "../src/grpc/client";
+import { loadTransaction } from "./helpers";
+
+const MEME = "AWJHJpHy431ZCH6owBR4EF3D8iaEU3ZmCM9VZwsDD5ff";
+const TRADER = "5pQwKwjjVUDRXUVFNs6Q3r46V3AvY1WsfV5YtPhBDULX";
+const POOL = "DkfKFpSyoohuFQNQWuaCDyg2nq1UcoT7ijukxGB7iD8z";
+
+// The pumpswap-* fixtures are synthetic: built by hand in the recorder format from the PumpSwap
+// instruction and account layouts, not captured from mainnet. Replace them with recorded swaps when possible.
+
+test("pumpswap buy: base vault pays out the tokens", () => {
+  const [swap, ...rest] = parseTransaction(loadTransaction("pumpswap-buy"));
+
+  assert.equal(rest.length, 0);
+  assert.equal(swap.dex, "pumpswap");
+  assert.equal(swap.pool, POOL);
+  assert.equal(swap.maker, TRADER);
+  assert.equal(swap.baseMint, MEME);
+  assert.equal(swap.quoteMint, TOKENS.SOL);
+  assert.equal(swap.baseAmount, 5_000_000);
+  assert.equal(swap.quoteAmount, 0.25);
+  assert.equal(swap.price, 0.25 / 5_000_000);
+  assert.equal(swap.isBuy, true);
+});
+
+test("pumpswap sell: base vault takes the tokens back", () => {
+  const [swap] = parseTransaction(loadTransaction("pumpswap-sell"));
+
+  assert.equal(swap.baseMint, MEME);
+  assert.equal(swap.quoteMint, TOKENS.SOL);
+  assert.equal(swap.baseAmount, 4_000_000);
+  assert.equal(swap.quoteAmount, 0.19);
+  assert.equal(swap.isBuy, false);
+});
+
+test("pumpswap instruction whose direction disagrees with the vaults is rejected", () => {
+  const buy = loadTransaction("pumpswap-buy");
+  const sell = loadTransaction("pumpswap-sell");
+  // Sell instruction data against the buy's balance changes
+  buy.transaction.message.instructions[0].data = sell.transaction.message.instructions[0].data;
+
+  assert.deepEqual(parseTransaction(buy), []);
+});
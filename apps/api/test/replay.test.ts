@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FIXTURES_DIR } from "./helpers";
+
+const SCRIPT = join(__dirname, "..", "scripts", "replayTransactions.ts");
+const SESSION = join(FIXTURES_DIR, "replay-session.jsonl");
+const EXPECTED = join(FIXTURES_DIR, "replay-session.expected.json");
+
+function replay(...args: string[]) {
+  return spawnSync(process.execPath, ["--import", "tsx", SCRIPT, ...args], { encoding: "utf8", timeout: 60000 });
+}
+
+test("replaying a recorded session reproduces the expected quote and USD candles", () => {
+  const result = replay(SESSION, "--expect", EXPECTED);
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /9 transactions → 10 swaps across 3 pairs/);
+});
+
+test("USD candles follow the pinned SOL price, not a live fetch", () => {
+  const result = replay(SESSION, "--sol-price", "100", "--expect", EXPECTED);
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /Output differs/);
+});
+
+test("a recording without solPriceUsd needs --sol-price", () => {
+  const unpriced = join(FIXTURES_DIR, "orca-swap-a-to-b.jsonl");
+
+  const result = replay(unpriced);
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /no recorded solPriceUsd - pass --sol-price/);
+
+  assert.equal(replay(unpriced, "--sol-price", "190").status, 0);
+});
+
+test("no USD candles are built for SOL pairs while no SOL price had been fetched", () => {
+  const dir = mkdtempSync(join(tmpdir(), "replay-"));
+  const recording = join(dir, "unpriced.jsonl");
+  const out = join(dir, "out.json");
+  const line = JSON.parse(readFileSync(join(FIXTURES_DIR, "orca-swapv2-b-to-a.jsonl"), "utf8"));
+  writeFileSync(recording, JSON.stringify({ ...line, solPriceUsd: null }) + "\n");
+
+  const result = replay(recording, "--out", out);
+  assert.equal(result.status, 0, result.stderr);
+
+  const [pair] = JSON.parse(readFileSync(out, "utf8")).pairs;
+  assert.equal(pair.candles["1m"].length, 1);
+  assert.deepEqual(pair.usdCandles["1m"], []);
+});
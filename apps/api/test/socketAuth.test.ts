@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { verifySocketToken } from "../src/websocket/auth";
+
+const KEY = "test-internal-api-key";
+process.env.INTERNAL_API_KEY = KEY;
+
+// Same format as apps/web/src/lib/socket-token.ts
+function sign(userId: string, expiresAt: number, key = KEY): string {
+  const payload = `${userId}.${expiresAt}`;
+  return `${payload}.${crypto.createHmac("sha256", key).update(payload).digest("base64url")}`;
+}
+
+test("socket token signed by the web app resolves to its user", () => {
+  assert.equal(verifySocketToken(sign("user_1", Date.now() + 60_000)), "user_1");
+});
+
+test("socket token is rejected once expired", () => {
+  assert.equal(verifySocketToken(sign("user_1", Date.now() - 1)), null);
+});
+
+test("socket token is rejected when tampered with or signed with another key", () => {
+  const token = sign("user_1", Date.now() + 60_000);
+  const [, expiresAt, signature] = token.split(".");
+
+  assert.equal(verifySocketToken(`user_2.${expiresAt}.${signature}`), null);
+  assert.equal(verifySocketToken(sign("user_1", Date.now() + 60_000, "other-key")), null);
+  assert.equal(verifySocketToken("user_1"), null);
+  assert.equal(verifySocketToken(undefined), null);
+});
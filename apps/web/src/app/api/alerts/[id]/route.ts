@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getInitialArmed, validateAlertSettings } from "@/lib/alerts";
+
+// PATCH /api/alerts/:id - Toggle or edit an alert
+// Body: { enabled?, email?, repeat?, threshold?, windowMinutes? }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { enabled, email, repeat, threshold, windowMinutes } = await req.json();
+
+    const alert = await prisma.priceAlert.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!alert) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+
+    const data: Prisma.PriceAlertUpdateInput = {};
+
+    if (enabled !== undefined) data.enabled = enabled === true;
+    if (email !== undefined) data.email = email === true;
+    if (repeat !== undefined) data.repeat = repeat === true;
+
+    if (threshold !== undefined || windowMinutes !== undefined) {
+      const thresholdValue = threshold !== undefined ? Number(threshold) : alert.threshold;
+      const windowValue = alert.type === "PCT_CHANGE"
+        ? (windowMinutes !== undefined ? Number(windowMinutes) : alert.windowMinutes)
+        : null;
+
+      const settingsError = validateAlertSettings(alert.type, thresholdValue, windowValue);
+      if (settingsError) {
+        return NextResponse.json({ error: settingsError }, { status: 400 });
+      }
+
+      if (alert.type !== "MIGRATED") data.threshold = thresholdValue;
+      data.windowMinutes = windowValue;
+    }
+
+    // A new threshold or a re-enabled alert starts from the side the token is on now
+    if (data.threshold !== undefined || data.windowMinutes !== undefined || (data.enabled && !alert.enabled)) {
+      data.armed = await getInitialArmed(
+        alert.tokenMint,
+        alert.type,
+        data.threshold !== undefined ? (data.threshold as number | null) : alert.threshold
+      );
+    }
+
+    const updated = await prisma.priceAlert.update({ where: { id }, data });
+
+    return NextResponse.json({ success: true, alert: updated });
+  } catch (error) {
+    console.error("Update alert error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update alert" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/alerts/:id - Delete an alert
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const { count } = await prisma.priceAlert.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete alert error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete alert" },
+      { status: 500 }
+    );
+  }
+}
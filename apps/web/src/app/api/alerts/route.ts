@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { ALERT_TYPES, getInitialArmed, validateAlertSettings } from "@/lib/alerts";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_ALERTS = 50;
+
+// GET /api/alerts - List the user's alerts (optionally for one token: ?tokenMint=)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const tokenMint = req.nextUrl.searchParams.get("tokenMint");
+
+    const alerts = await prisma.priceAlert.findMany({
+      where: { userId: session.user.id, ...(tokenMint ? { tokenMint } : {}) },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error("Alerts error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get alerts" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/alerts - Create an alert
+// Body: { tokenMint, type, threshold?, windowMinutes? (PCT_CHANGE), email?, repeat?, tokenSymbol? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { tokenMint, type, threshold, windowMinutes, email, repeat, tokenSymbol } = await req.json();
+
+    if (typeof tokenMint !== "string" || !SOLANA_ADDRESS_REGEX.test(tokenMint)) {
+      return NextResponse.json({ error: "Invalid tokenMint" }, { status: 400 });
+    }
+
+    if (!ALERT_TYPES.includes(type)) {
+      return NextResponse.json({ error: `type must be one of ${ALERT_TYPES.join(", ")}` }, { status: 400 });
+    }
+
+    const thresholdValue = threshold === undefined || threshold === null || threshold === "" ? null : Number(threshold);
+    const windowValue = type === "PCT_CHANGE" && windowMinutes !== undefined && windowMinutes !== null
+      ? Number(windowMinutes)
+      : null;
+
+    const settingsError = validateAlertSettings(type, thresholdValue, windowValue);
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 });
+    }
+
+    const count = await prisma.priceAlert.count({ where: { userId: session.user.id, enabled: true } });
+    if (count >= MAX_ALERTS) {
+      return NextResponse.json({ error: `You can have at most ${MAX_ALERTS} active alerts` }, { status: 400 });
+    }
+
+    // Prefer the symbol we already know about the token
+    const token = await prisma.pulseToken.findUnique({ where: { address: tokenMint }, select: { symbol: true } })
+      ?? await prisma.token.findUnique({ where: { address: tokenMint }, select: { symbol: true } });
+    const symbol = token?.symbol
+      || (typeof tokenSymbol === "string" && tokenSymbol.trim() ? tokenSymbol.trim().slice(0, 20) : tokenMint.slice(0, 6));
+
+    // Alerts fire when the value crosses the threshold - note which side it's on now
+    const armed = await getInitialArmed(tokenMint, type, thresholdValue);
+    if (armed === false && type === "MIGRATED") {
+      return NextResponse.json({ error: "This token has already migrated" }, { status: 400 });
+    }
+
+    const alert = await prisma.priceAlert.create({
+      data: {
+        userId: session.user.id,
+        tokenMint,
+        tokenSymbol: symbol,
+        type,
+        threshold: type === "MIGRATED" ? null : thresholdValue,
+        windowMinutes: windowValue,
+        email: email === true,
+        repeat: repeat === true,
+        armed,
+      },
+    });
+
+    return NextResponse.json({ success: true, alert });
+  } catch (error) {
+    console.error("Create alert error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create alert" },
+      { status: 500 }
+    );
+  }
+}
@@ -147,6 +147,7 @@ export async function GET() {
           limit: "(optional) Number of candles, max 1000 (default: 100)",
           from: "(optional) Start timestamp (Unix seconds)",
           to: "(optional) End timestamp (Unix seconds)",
+          series: "(optional) price or mcap - mcap scales OHLC by token supply (default: price)",
         },
         response: {
           data: "Array of OHLCV candles",
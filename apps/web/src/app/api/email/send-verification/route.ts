@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Resend } from "resend";
+import crypto from "crypto";
+import { config } from "@/lib/config";
 
 // Lazy initialization to avoid build-time errors when env var is not set
 function getResend() {
@@ -10,13 +12,39 @@ function getResend() {
   return new Resend(apiKey);
 }
 
+// Token names and symbols come from token metadata - never trust them in HTML
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Alert emails are sent on behalf of the API (token alerts), so they need the internal key
+function isInternalRequest(request: NextRequest): boolean {
+  const key = request.headers.get("x-internal-api-key");
+  if (!config.internalApiKey || !key) return false;
+
+  // Constant-time comparison, same as the API's internal key check
+  const provided = Buffer.from(key);
+  const expected = Buffer.from(config.internalApiKey);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { email, code, type = "verification" } = await request.json();
+    const { email, code, type = "verification", title: alertTitle, description: alertDescription, link } = await request.json();
 
     console.log(`[send-verification] Request received - email: ${email}, type: ${type}`);
 
-    if (!email || !code) {
+    if (type === "alert") {
+      if (!isInternalRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      if (!email || !alertTitle || !alertDescription) {
+        return NextResponse.json(
+          { error: "Email, title and description are required" },
+          { status: 400 }
+        );
+      }
+    } else if (!email || !code) {
       console.log(`[send-verification] Missing email or code`);
       return NextResponse.json(
         { error: "Email and code are required" },
@@ -30,6 +58,11 @@ export async function POST(request: NextRequest) {
     let description: string;
 
     switch (type) {
+      case "alert":
+        subject = `Polyx alert: ${alertDescription}`;
+        title = escapeHtml(alertTitle);
+        description = escapeHtml(alertDescription);
+        break;
       case "reset":
         subject = "Reset your Polyx password";
         title = "Reset your password";
@@ -64,7 +97,7 @@ export async function POST(request: NextRequest) {
           <head>
             <meta charset="utf-8">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>${subject}</title>
+            <title>${escapeHtml(subject)}</title>
           </head>
           <body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
             <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #0a0a0a;">
@@ -98,6 +131,16 @@ export async function POST(request: NextRequest) {
                       </td>
                     </tr>
 
+                    ${type === "alert" ? `
+                    <!-- Alert Link -->
+                    <tr>
+                      <td align="center" style="padding: 0 40px 32px;">
+                        <a href="${escapeHtml(link || config.appUrl)}" style="display: inline-block; background: #FF6B4A; color: white; text-decoration: none; font-size: 15px; font-weight: 600; border-radius: 10px; padding: 12px 28px;">
+                          View token
+                        </a>
+                      </td>
+                    </tr>
+                    ` : `
                     <!-- Code Box -->
                     <tr>
                       <td align="center" style="padding: 0 40px 32px;">
@@ -117,6 +160,7 @@ export async function POST(request: NextRequest) {
                         </p>
                       </td>
                     </tr>
+                    `}
 
                     <!-- Divider -->
                     <tr>
@@ -129,7 +173,9 @@ export async function POST(request: NextRequest) {
                     <tr>
                       <td align="center" style="padding: 24px 40px 40px;">
                         <p style="margin: 0; font-size: 13px; color: rgba(255,255,255,0.4); line-height: 1.5;">
-                          If you didn't request this code, you can safely ignore this email.
+                          ${type === "alert"
+                            ? "You're receiving this because you set up an email alert on Polyx. Manage your alerts on the token page."
+                            : "If you didn't request this code, you can safely ignore this email."}
                         </p>
                         <p style="margin: 16px 0 0; font-size: 13px; color: rgba(255,255,255,0.3);">
                           © ${new Date().getFullYear()} Polyx. All rights reserved.
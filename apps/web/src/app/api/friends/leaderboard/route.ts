@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getLeaderboard, isLeaderboardMetric, isLeaderboardPeriod } from "@/lib/leaderboard";
+
+// GET /api/friends/leaderboard?scope=friends&period=7d&metric=pnl
+// Friends (you + your friends) or global (opted-in traders, top 100) ranking, refreshed every 5 minutes
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = req.nextUrl;
+    const scope = searchParams.get("scope") || "friends";
+    const period = searchParams.get("period") || "7d";
+    const metric = searchParams.get("metric") || "pnl";
+
+    if (scope !== "friends" && scope !== "global") {
+      return NextResponse.json({ error: "scope must be friends or global" }, { status: 400 });
+    }
+    if (!isLeaderboardPeriod(period)) {
+      return NextResponse.json({ error: "period must be 1d, 7d or 30d" }, { status: 400 });
+    }
+    if (!isLeaderboardMetric(metric)) {
+      return NextResponse.json({ error: "metric must be pnl, roi or volume" }, { status: 400 });
+    }
+
+    const { rows, yourRank, computedAt } = await getLeaderboard(session.user.id, scope, period, metric);
+
+    return NextResponse.json({ scope, period, metric, entries: rows, yourRank, computedAt });
+  } catch (error) {
+    console.error("Leaderboard error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load leaderboard" },
+      { status: 500 }
+    );
+  }
+}
@@ -21,9 +21,10 @@ export async function GET(
     }
 
     const timeframe = req.nextUrl.searchParams.get("timeframe") || "1min";
+    const series = req.nextUrl.searchParams.get("series") === "mcap" ? "mcap" : "price";
 
     const response = await fetchInternalApi(
-      `/api/pulse/ohlcv/${encodeURIComponent(address)}?timeframe=${timeframe}`
+      `/api/pulse/ohlcv/${encodeURIComponent(address)}?timeframe=${timeframe}&series=${series}`
     );
 
     if (!response.ok) {
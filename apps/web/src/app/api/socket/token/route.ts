@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { createSocketToken } from "@/lib/socket-token";
+
+// GET /api/socket/token - Short-lived token the websocket server verifies on connect
+// Private events (tracker trades, alerts, rank changes) only go to sockets that sent one
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ token: createSocketToken(session.user.id) });
+  } catch (error) {
+    console.error("Socket token error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create socket token" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,9 @@ const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
 // Valid timeframes
 const VALID_TIMEFRAMES = new Set(["1s", "1min", "5min", "15m", "1h", "4h", "1d", "1w", "1M"]);
 
+// Valid candle series (mcap = OHLC scaled by token supply)
+const VALID_SERIES = new Set(["price", "mcap"]);
+
 // Proxy to internal API - protects Birdeye API key
 export async function GET(
   req: NextRequest,
@@ -30,12 +33,14 @@ export async function GET(
     const fromParam = req.nextUrl.searchParams.get("from");
     const toParam = req.nextUrl.searchParams.get("to");
     const limitParam = req.nextUrl.searchParams.get("limit");
+    const seriesParam = req.nextUrl.searchParams.get("series");
 
     // Build query string
     const queryParams = new URLSearchParams({ timeframe });
     if (fromParam && /^\d+$/.test(fromParam)) queryParams.set("from", fromParam);
     if (toParam && /^\d+$/.test(toParam)) queryParams.set("to", toParam);
     if (limitParam && /^\d+$/.test(limitParam)) queryParams.set("limit", limitParam);
+    if (seriesParam && VALID_SERIES.has(seriesParam)) queryParams.set("series", seriesParam);
 
     const response = await fetchInternalApi(
       `/api/tokens/${encodeURIComponent(address)}/ohlcv?${queryParams.toString()}`
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+const MAX_LABEL_LENGTH = 32;
+const MAX_EMOJI_LENGTH = 8;
+
+// PATCH /api/tracker/:id - Rename, change the emoji or toggle notifications
+// Body: { label?, emoji? (null to remove), notify? }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { label, emoji, notify } = await req.json();
+
+    const wallet = await prisma.trackedWallet.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!wallet) {
+      return NextResponse.json({ error: "Tracked wallet not found" }, { status: 404 });
+    }
+
+    const data: { label?: string; emoji?: string | null; notify?: boolean } = {};
+
+    if (label !== undefined) {
+      const trimmedLabel = typeof label === "string" ? label.trim() : "";
+      if (!trimmedLabel || trimmedLabel.length > MAX_LABEL_LENGTH) {
+        return NextResponse.json({ error: `label must be 1-${MAX_LABEL_LENGTH} characters` }, { status: 400 });
+      }
+      data.label = trimmedLabel;
+    }
+
+    if (emoji !== undefined) {
+      const trimmedEmoji = typeof emoji === "string" ? emoji.trim() : "";
+      if (trimmedEmoji.length > MAX_EMOJI_LENGTH) {
+        return NextResponse.json({ error: "emoji must be a single emoji" }, { status: 400 });
+      }
+      data.emoji = trimmedEmoji || null;
+    }
+
+    if (notify !== undefined) {
+      data.notify = notify === true;
+    }
+
+    const updated = await prisma.trackedWallet.update({ where: { id }, data });
+
+    return NextResponse.json({ success: true, wallet: updated });
+  } catch (error) {
+    console.error("Update tracked wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update tracked wallet" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tracker/:id - Stop tracking a wallet
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const { count } = await prisma.trackedWallet.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Tracked wallet not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Untrack wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to untrack wallet" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/tracker/activity - Recent trades of the user's tracked wallets (newest first)
+// Query: ?address= (one tracked wallet), ?before= (ISO timestamp, for paging), ?limit= (max 200)
+// Live trades arrive over the socket as tracker:trade
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const address = searchParams.get("address");
+    const before = searchParams.get("before");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 200);
+
+    const wallets = await prisma.trackedWallet.findMany({
+      where: { userId: session.user.id, ...(address && { address }) },
+      select: { id: true, address: true, label: true, emoji: true },
+    });
+
+    if (wallets.length === 0) {
+      return NextResponse.json({ activity: [] });
+    }
+
+    const beforeDate = before ? new Date(before) : null;
+    const activity = await prisma.walletActivity.findMany({
+      where: {
+        address: { in: wallets.map((w) => w.address) },
+        ...(beforeDate && !isNaN(beforeDate.getTime()) && { timestamp: { lt: beforeDate } }),
+      },
+      orderBy: { timestamp: "desc" },
+      take: limit,
+    });
+
+    const byAddress = new Map(wallets.map((w) => [w.address, w]));
+
+    return NextResponse.json({
+      activity: activity.map((a) => {
+        const wallet = byAddress.get(a.address)!;
+        return { ...a, trackedWalletId: wallet.id, label: wallet.label, emoji: wallet.emoji };
+      }),
+    });
+  } catch (error) {
+    console.error("Tracker activity error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get wallet activity" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_TRACKED_WALLETS = 50;
+const MAX_LABEL_LENGTH = 32;
+const MAX_EMOJI_LENGTH = 8;
+
+// GET /api/tracker - List the user's tracked wallets
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const wallets = await prisma.trackedWallet.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ wallets });
+  } catch (error) {
+    console.error("Tracked wallets error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get tracked wallets" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tracker - Track a wallet
+// Body: { address, label, emoji?, notify? }
+// The API picks it up within 15 seconds and starts streaming its trades
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { address, label, emoji, notify } = await req.json();
+
+    if (typeof address !== "string" || !SOLANA_ADDRESS_REGEX.test(address)) {
+      return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+    }
+
+    const trimmedLabel = typeof label === "string" ? label.trim() : "";
+    if (!trimmedLabel || trimmedLabel.length > MAX_LABEL_LENGTH) {
+      return NextResponse.json({ error: `label is required (max ${MAX_LABEL_LENGTH} characters)` }, { status: 400 });
+    }
+
+    const trimmedEmoji = typeof emoji === "string" ? emoji.trim() : "";
+    if (trimmedEmoji.length > MAX_EMOJI_LENGTH) {
+      return NextResponse.json({ error: "emoji must be a single emoji" }, { status: 400 });
+    }
+
+    const existing = await prisma.trackedWallet.findUnique({
+      where: { userId_address: { userId: session.user.id, address } },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: "You already track this wallet" }, { status: 409 });
+    }
+
+    const count = await prisma.trackedWallet.count({ where: { userId: session.user.id } });
+    if (count >= MAX_TRACKED_WALLETS) {
+      return NextResponse.json({ error: `You can track at most ${MAX_TRACKED_WALLETS} wallets` }, { status: 400 });
+    }
+
+    const wallet = await prisma.trackedWallet.create({
+      data: {
+        userId: session.user.id,
+        address,
+        label: trimmedLabel,
+        emoji: trimmedEmoji || null,
+        notify: notify !== false,
+      },
+    });
+
+    return NextResponse.json({ success: true, wallet });
+  } catch (error) {
+    console.error("Track wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to track wallet" },
+      { status: 500 }
+    );
+  }
+}
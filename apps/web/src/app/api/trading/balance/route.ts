@@ -1,11 +1,12 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { getJupiterService, SOL_MINT } from "@/lib/jupiter";
 import { TradeStatus } from "@prisma/client";
+import { resolveWallet, walletTradeFilter } from "@/lib/wallets";
 
-// GET /api/trading/balance
-export async function GET() {
+// GET /api/trading/balance?walletId= (defaults to the primary wallet)
+export async function GET(req: NextRequest) {
   try {
     const session = await auth();
 
@@ -13,17 +14,13 @@ export async function GET() {
       return NextResponse.json({ error: "Authentication required" }, { status: 401 });
     }
 
-    // Get user wallet
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { walletAddress: true },
-    });
+    const wallet = await resolveWallet(session.user.id, req.nextUrl.searchParams.get("walletId"));
 
-    if (!user?.walletAddress) {
+    if (!wallet) {
       return NextResponse.json({ error: "No wallet found" }, { status: 400 });
     }
 
-    const walletAddress = user.walletAddress;
+    const walletAddress = wallet.address;
 
     // Fetch balance data from RPC
     const jupiter = getJupiterService();
@@ -48,7 +45,7 @@ export async function GET() {
     // FALLBACK: If RPC returns no tokens, calculate from trade history
     if (tokensWithBalance.length === 0) {
       const trades = await prisma.trade.findMany({
-        where: { userId: session.user.id, status: TradeStatus.SUCCESS },
+        where: { userId: session.user.id, status: TradeStatus.SUCCESS, ...walletTradeFilter(wallet) },
         orderBy: { confirmedAt: "asc" },
       });
 
@@ -104,6 +101,7 @@ export async function GET() {
     const totalValueUsd = solValueUsd !== null ? solValueUsd + tokensValueUsd : null;
 
     return NextResponse.json({
+      walletId: wallet.id,
       walletAddress,
       sol: {
         mint: SOL_MINT,
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { CopySizeMode, Prisma } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_SLIPPAGE_BPS = 5000;
+const MAX_DELAY_SECONDS = 300;
+const MAX_BLACKLIST = 100;
+const MAX_LABEL_LENGTH = 32;
+
+// GET /api/trading/copy-trading/:id - Followed wallet with its copy log (newest first)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const limit = Math.min(parseInt(req.nextUrl.searchParams.get("limit") || "100"), 500);
+
+    const follow = await prisma.copyTradeFollow.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        events: {
+          orderBy: { createdAt: "desc" },
+          take: limit,
+        },
+      },
+    });
+
+    if (!follow) {
+      return NextResponse.json({ error: "Followed wallet not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ follow });
+  } catch (error) {
+    console.error("Copy trading error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get followed wallet" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/trading/copy-trading/:id - Change how a followed wallet is copied
+// Body: { label?, mirror?, copySells?, sizeMode?, sizeValue?, maxPerTradeSol? (null to remove),
+//         delaySeconds?, slippageBps?, blacklist? }
+// The leader and wallet can't be changed - unfollow and follow again
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { label, mirror, copySells, sizeMode, sizeValue, maxPerTradeSol, delaySeconds, slippageBps, blacklist } =
+      await req.json();
+
+    const follow = await prisma.copyTradeFollow.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, sizeMode: true, sizeValue: true },
+    });
+
+    if (!follow) {
+      return NextResponse.json({ error: "Followed wallet not found" }, { status: 404 });
+    }
+
+    const data: Prisma.CopyTradeFollowUpdateInput = {};
+
+    if (label !== undefined) {
+      const trimmedLabel = typeof label === "string" ? label.trim() : "";
+      if (trimmedLabel.length > MAX_LABEL_LENGTH) {
+        return NextResponse.json({ error: `label must be at most ${MAX_LABEL_LENGTH} characters` }, { status: 400 });
+      }
+      data.label = trimmedLabel || null;
+    }
+
+    if (mirror !== undefined) {
+      data.mirror = mirror === true;
+    }
+
+    if (copySells !== undefined) {
+      data.copySells = copySells === true;
+    }
+
+    if (sizeMode !== undefined || sizeValue !== undefined) {
+      const mode: CopySizeMode = sizeMode ?? follow.sizeMode;
+      if (mode !== "FIXED" && mode !== "PERCENT") {
+        return NextResponse.json({ error: "sizeMode must be FIXED or PERCENT" }, { status: 400 });
+      }
+      const size = sizeValue === undefined ? follow.sizeValue : Number(sizeValue);
+      if (!Number.isFinite(size) || size <= 0 || (mode === "PERCENT" && size > 1000)) {
+        return NextResponse.json(
+          { error: mode === "PERCENT" ? "sizeValue must be a percentage between 0 and 1000" : "sizeValue must be a positive SOL amount" },
+          { status: 400 }
+        );
+      }
+      data.sizeMode = mode;
+      data.sizeValue = size;
+    }
+
+    if (maxPerTradeSol !== undefined) {
+      if (maxPerTradeSol === null || maxPerTradeSol === "") {
+        data.maxPerTradeSol = null;
+      } else {
+        const maxPerTrade = Number(maxPerTradeSol);
+        if (!Number.isFinite(maxPerTrade) || maxPerTrade <= 0) {
+          return NextResponse.json({ error: "maxPerTradeSol must be a positive SOL amount" }, { status: 400 });
+        }
+        data.maxPerTradeSol = maxPerTrade;
+      }
+    }
+
+    if (delaySeconds !== undefined) {
+      const delay = Number(delaySeconds);
+      if (!Number.isInteger(delay) || delay < 0 || delay > MAX_DELAY_SECONDS) {
+        return NextResponse.json({ error: `delaySeconds must be between 0 and ${MAX_DELAY_SECONDS}` }, { status: 400 });
+      }
+      data.delaySeconds = delay;
+    }
+
+    if (slippageBps !== undefined) {
+      const slippage = Number(slippageBps);
+      if (!Number.isInteger(slippage) || slippage < 1 || slippage > MAX_SLIPPAGE_BPS) {
+        return NextResponse.json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 });
+      }
+      data.slippageBps = slippage;
+    }
+
+    if (blacklist !== undefined) {
+      const mints = Array.isArray(blacklist) && blacklist.length <= MAX_BLACKLIST
+        ? blacklist.map((m) => (typeof m === "string" ? m.trim() : ""))
+        : null;
+      if (!mints || !mints.every((m) => SOLANA_ADDRESS_REGEX.test(m))) {
+        return NextResponse.json(
+          { error: `blacklist must be an array of at most ${MAX_BLACKLIST} token mints` },
+          { status: 400 }
+        );
+      }
+      data.blacklist = Array.from(new Set(mints));
+    }
+
+    const updated = await prisma.copyTradeFollow.update({ where: { id }, data });
+
+    return NextResponse.json({ success: true, follow: updated });
+  } catch (error) {
+    console.error("Update followed wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update followed wallet" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/trading/copy-trading/:id - Unfollow a wallet and drop its copy log
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Copies already executed stay in trade history, still tagged with the leader's signature
+    const { count } = await prisma.copyTradeFollow.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Followed wallet not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unfollow wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to unfollow wallet" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWallet } from "@/lib/wallets";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_FOLLOWS = 20;
+const MAX_SLIPPAGE_BPS = 5000;
+const MAX_DELAY_SECONDS = 300;
+const MAX_BLACKLIST = 100;
+const MAX_LABEL_LENGTH = 32;
+
+// GET /api/trading/copy-trading - List the wallets the user follows with their recent copies
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const follows = await prisma.copyTradeFollow.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      include: {
+        events: {
+          orderBy: { createdAt: "desc" },
+          take: 5,
+        },
+      },
+    });
+
+    return NextResponse.json({ follows });
+  } catch (error) {
+    console.error("Copy trading error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get followed wallets" },
+      { status: 500 }
+    );
+  }
+}
+
+function parseBlacklist(list: unknown): string[] | null {
+  if (list === undefined || list === null) return [];
+  if (!Array.isArray(list) || list.length > MAX_BLACKLIST) return null;
+  const mints = list.map((m) => (typeof m === "string" ? m.trim() : ""));
+  return mints.every((m) => SOLANA_ADDRESS_REGEX.test(m)) ? Array.from(new Set(mints)) : null;
+}
+
+// POST /api/trading/copy-trading - Follow a wallet
+// Body: { leaderAddress, label?, mirror?, copySells?, sizeMode ("FIXED" SOL | "PERCENT" of the leader's SOL),
+//         sizeValue, maxPerTradeSol?, delaySeconds?, slippageBps?, blacklist? (token mints), walletId? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const {
+      leaderAddress,
+      label,
+      mirror,
+      copySells,
+      sizeMode,
+      sizeValue,
+      maxPerTradeSol,
+      delaySeconds,
+      slippageBps,
+      blacklist,
+      walletId,
+    } = body;
+
+    if (typeof leaderAddress !== "string" || !SOLANA_ADDRESS_REGEX.test(leaderAddress)) {
+      return NextResponse.json({ error: "Invalid leaderAddress" }, { status: 400 });
+    }
+
+    const trimmedLabel = typeof label === "string" ? label.trim() : "";
+    if (trimmedLabel.length > MAX_LABEL_LENGTH) {
+      return NextResponse.json({ error: `label must be at most ${MAX_LABEL_LENGTH} characters` }, { status: 400 });
+    }
+
+    if (sizeMode !== "FIXED" && sizeMode !== "PERCENT") {
+      return NextResponse.json({ error: "sizeMode must be FIXED or PERCENT" }, { status: 400 });
+    }
+
+    const size = Number(sizeValue);
+    if (!Number.isFinite(size) || size <= 0 || (sizeMode === "PERCENT" && size > 1000)) {
+      return NextResponse.json(
+        { error: sizeMode === "PERCENT" ? "sizeValue must be a percentage between 0 and 1000" : "sizeValue must be a positive SOL amount" },
+        { status: 400 }
+      );
+    }
+
+    let maxPerTrade: number | null = null;
+    if (maxPerTradeSol !== undefined && maxPerTradeSol !== null && maxPerTradeSol !== "") {
+      maxPerTrade = Number(maxPerTradeSol);
+      if (!Number.isFinite(maxPerTrade) || maxPerTrade <= 0) {
+        return NextResponse.json({ error: "maxPerTradeSol must be a positive SOL amount" }, { status: 400 });
+      }
+    }
+
+    const delay = delaySeconds === undefined ? 0 : Number(delaySeconds);
+    if (!Number.isInteger(delay) || delay < 0 || delay > MAX_DELAY_SECONDS) {
+      return NextResponse.json({ error: `delaySeconds must be between 0 and ${MAX_DELAY_SECONDS}` }, { status: 400 });
+    }
+
+    const slippage = slippageBps === undefined ? 1500 : Number(slippageBps);
+    if (!Number.isInteger(slippage) || slippage < 1 || slippage > MAX_SLIPPAGE_BPS) {
+      return NextResponse.json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 });
+    }
+
+    const mints = parseBlacklist(blacklist);
+    if (!mints) {
+      return NextResponse.json(
+        { error: `blacklist must be an array of at most ${MAX_BLACKLIST} token mints` },
+        { status: 400 }
+      );
+    }
+
+    // Wallet to copy into (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "No wallet found. Please set up your wallet first." },
+        { status: 400 }
+      );
+    }
+
+    if (leaderAddress === wallet.address) {
+      return NextResponse.json({ error: "You can't copy your own wallet" }, { status: 400 });
+    }
+
+    const existing = await prisma.copyTradeFollow.findUnique({
+      where: { userId_leaderAddress: { userId: session.user.id, leaderAddress } },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: "You already follow this wallet" }, { status: 409 });
+    }
+
+    const followCount = await prisma.copyTradeFollow.count({ where: { userId: session.user.id } });
+    if (followCount >= MAX_FOLLOWS) {
+      return NextResponse.json({ error: `You can follow at most ${MAX_FOLLOWS} wallets` }, { status: 400 });
+    }
+
+    const follow = await prisma.copyTradeFollow.create({
+      data: {
+        userId: session.user.id,
+        walletId: wallet.id,
+        leaderAddress,
+        label: trimmedLabel || null,
+        mirror: mirror === true,
+        copySells: copySells !== false,
+        sizeMode,
+        sizeValue: size,
+        maxPerTradeSol: maxPerTrade,
+        delaySeconds: delay,
+        slippageBps: slippage,
+        blacklist: mints,
+      },
+    });
+
+    return NextResponse.json({ success: true, follow });
+  } catch (error) {
+    console.error("Follow wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to follow wallet" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { TradeStatus } from "@prisma/client";
+import { Prisma, TradeStatus } from "@prisma/client";
+import { resolveWallet, walletTradeFilter } from "@/lib/wallets";
 
 // GET /api/trading/history
 export async function GET(req: NextRequest) {
@@ -19,11 +20,20 @@ export async function GET(req: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
     const offset = parseInt(searchParams.get("offset") || "0");
     const statusParam = searchParams.get("status"); // Optional filter
+    const walletId = searchParams.get("walletId"); // Optional filter
 
-    const where: { userId: string; status?: TradeStatus } = {
+    const where: Prisma.TradeWhereInput = {
       userId: session.user.id,
     };
 
+    if (walletId) {
+      const wallet = await resolveWallet(session.user.id, walletId);
+      if (!wallet) {
+        return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+      }
+      Object.assign(where, walletTradeFilter(wallet));
+    }
+
     if (statusParam) {
       const upperStatus = statusParam.toUpperCase() as TradeStatus;
       if (Object.values(TradeStatus).includes(upperStatus)) {
@@ -50,6 +60,7 @@ export async function GET(req: NextRequest) {
           status: true,
           errorMessage: true,
           platformFee: true,
+          walletId: true,
           createdAt: true,
           confirmedAt: true,
         },
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// DELETE /api/trading/orders/:id - Cancel an open limit order
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Only OPEN orders can be cancelled - a triggered order is already executing
+    const { count } = await prisma.limitOrder.updateMany({
+      where: { id, userId: session.user.id, status: "OPEN" },
+      data: { status: "CANCELLED" },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Order not found or no longer open" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Cancel order error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel order" },
+      { status: 500 }
+    );
+  }
+}
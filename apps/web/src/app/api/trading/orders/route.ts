@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { LimitOrderStatus } from "@prisma/client";
+import { resolveWallet } from "@/lib/wallets";
+import { hasMarketCapFeed } from "@/lib/limit-orders";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_OPEN_ORDERS = 50;
+const MAX_SLIPPAGE_BPS = 5000;
+
+// GET /api/trading/orders - List the user's limit orders
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = req.nextUrl;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const tokenMint = searchParams.get("tokenMint");
+    const statusParam = searchParams.get("status"); // Optional filter, e.g. "open"
+
+    const where: { userId: string; tokenMint?: string; status?: LimitOrderStatus } = {
+      userId: session.user.id,
+    };
+
+    if (tokenMint) {
+      where.tokenMint = tokenMint;
+    }
+
+    if (statusParam) {
+      const upperStatus = statusParam.toUpperCase() as LimitOrderStatus;
+      if (Object.values(LimitOrderStatus).includes(upperStatus)) {
+        where.status = upperStatus;
+      }
+    }
+
+    const orders = await prisma.limitOrder.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ orders });
+  } catch (error) {
+    console.error("Orders error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get orders" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/trading/orders - Place a limit order
+// Body: { tokenMint, tokenSymbol, side: "buy" | "sell", triggerType: "price" | "marketCap",
+//         triggerValue, amount (raw: lamports for buys, token units for sells), slippageBps?, expiresInHours?, walletId? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { tokenMint, tokenSymbol, side, triggerType = "price", triggerValue, amount, slippageBps, expiresInHours, walletId } = body;
+
+    if (!tokenMint || !SOLANA_ADDRESS_REGEX.test(tokenMint)) {
+      return NextResponse.json({ error: "Invalid tokenMint" }, { status: 400 });
+    }
+
+    if (side !== "buy" && side !== "sell") {
+      return NextResponse.json({ error: "side must be 'buy' or 'sell'" }, { status: 400 });
+    }
+
+    if (triggerType !== "price" && triggerType !== "marketCap") {
+      return NextResponse.json({ error: "triggerType must be 'price' or 'marketCap'" }, { status: 400 });
+    }
+
+    // The engine only sees a market cap for mints with a known supply - such an order would never fire
+    if (triggerType === "marketCap" && !(await hasMarketCapFeed(tokenMint))) {
+      return NextResponse.json(
+        { error: "Market cap isn't available for this token - use a price trigger instead" },
+        { status: 400 }
+      );
+    }
+
+    const trigger = Number(triggerValue);
+    if (!Number.isFinite(trigger) || trigger <= 0) {
+      return NextResponse.json({ error: "triggerValue must be a positive number" }, { status: 400 });
+    }
+
+    if (typeof amount !== "string" || !/^\d+$/.test(amount) || BigInt(amount) <= BigInt(0)) {
+      return NextResponse.json({ error: "amount must be a positive integer string (raw units)" }, { status: 400 });
+    }
+
+    const slippage = slippageBps === undefined ? 100 : Number(slippageBps);
+    if (!Number.isInteger(slippage) || slippage < 1 || slippage > MAX_SLIPPAGE_BPS) {
+      return NextResponse.json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 });
+    }
+
+    let expiresAt: Date | null = null;
+    if (expiresInHours !== undefined && expiresInHours !== null) {
+      const hours = Number(expiresInHours);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        return NextResponse.json({ error: "expiresInHours must be a positive number" }, { status: 400 });
+      }
+      expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+    }
+
+    // Wallet to trade from (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "No wallet found. Please set up your wallet first." },
+        { status: 400 }
+      );
+    }
+
+    const openOrders = await prisma.limitOrder.count({
+      where: { userId: session.user.id, status: "OPEN" },
+    });
+    if (openOrders >= MAX_OPEN_ORDERS) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_OPEN_ORDERS} open orders` },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.limitOrder.create({
+      data: {
+        userId: session.user.id,
+        walletId: wallet.id,
+        tokenMint,
+        tokenSymbol: tokenSymbol || "UNKNOWN",
+        side: side === "buy" ? "BUY" : "SELL",
+        triggerType: triggerType === "marketCap" ? "MARKET_CAP" : "PRICE",
+        triggerValue: trigger,
+        amount,
+        slippageBps: slippage,
+        expiresAt,
+      },
+    });
+
+    return NextResponse.json({ success: true, order });
+  } catch (error) {
+    console.error("Place order error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to place order" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TradeStatus } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWallet, walletTradeFilter } from "@/lib/wallets";
+import { getCachedSolPrice } from "@/lib/price-updater";
+import {
+  computeLots,
+  disposalsToCsv,
+  getTokenDecimals,
+  isCostBasisMethod,
+  mergeLotTrades,
+  toLotTrades,
+  toLotTransfers,
+} from "@/lib/lots";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+// GET /api/trading/pnl/export?year=2025&method=FIFO&walletId= - Capital-gains CSV for a tax year (UTC)
+// Lots are built from the full trade and transfer history so disposals in the year get the right cost basis
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = req.nextUrl;
+    const year = parseInt(searchParams.get("year") || new Date().getUTCFullYear().toString());
+    const method = searchParams.get("method") || "FIFO";
+    const walletId = searchParams.get("walletId"); // Optional - all wallets when omitted
+
+    if (!Number.isInteger(year) || year < 2020 || year > new Date().getUTCFullYear()) {
+      return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+    }
+
+    if (!isCostBasisMethod(method)) {
+      return NextResponse.json({ error: "method must be FIFO, LIFO or AVERAGE" }, { status: 400 });
+    }
+
+    let walletFilter = {};
+    let transferWalletFilter = {};
+    if (walletId) {
+      const wallet = await resolveWallet(session.user.id, walletId);
+      if (!wallet) {
+        return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+      }
+      walletFilter = walletTradeFilter(wallet);
+      transferWalletFilter = { walletId: wallet.id };
+    }
+
+    const yearStart = new Date(Date.UTC(year, 0, 1));
+    const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+
+    const [trades, transfers] = await Promise.all([
+      prisma.trade.findMany({
+        where: {
+          userId: session.user.id,
+          status: TradeStatus.SUCCESS,
+          createdAt: { lt: yearEnd },
+          ...walletFilter,
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.walletTransfer.findMany({
+        where: {
+          userId: session.user.id,
+          kind: { not: "SWAP" },
+          timestamp: { lt: yearEnd },
+          ...transferWalletFilter,
+        },
+        orderBy: { timestamp: "asc" },
+      }),
+    ]);
+
+    const mints = Array.from(new Set(trades.map((t) => (t.inputMint === SOL_MINT ? t.outputMint : t.inputMint))));
+    const [decimals, solPriceUsd] = await Promise.all([
+      getTokenDecimals(mints),
+      getCachedSolPrice(),
+    ]);
+
+    const lotTransfers = toLotTransfers(transfers, solPriceUsd, trades);
+    const { disposals } = computeLots(mergeLotTrades(toLotTrades(trades, decimals, solPriceUsd), lotTransfers), method);
+    const yearDisposals = disposals.filter((d) => d.disposedAt >= yearStart && d.disposedAt < yearEnd);
+
+    return new NextResponse(disposalsToCsv(yearDisposals), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="polyx-capital-gains-${year}-${method.toLowerCase()}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("PnL export error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to export PnL" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { TradeStatus } from "@prisma/client";
+import { TradeStatus, type Prisma } from "@prisma/client";
 import { config } from "@/lib/config";
+import { resolveWallet, walletTradeFilter } from "@/lib/wallets";
+import { getCachedSolPrice } from "@/lib/price-updater";
+import {
+  computeLots,
+  getTokenDecimals,
+  isCostBasisMethod,
+  mergeLotTrades,
+  toLotTrades,
+  toLotTransfers,
+  type CostBasisMethod,
+} from "@/lib/lots";
+import { buildPositions, getLedgerTransfers } from "@/lib/positions";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 const MORALIS_API_URL = "https://solana-gateway.moralis.io";
 
+type WalletFilter = ReturnType<typeof walletTradeFilter> | Record<string, never>;
+
 // Simple token stats for SwapWidget
-async function getTokenStats(userId: string, tokenMint: string) {
+async function getTokenStats(
+  userId: string,
+  tokenMint: string,
+  walletFilter: WalletFilter,
+  transferFilter: Prisma.WalletTransferWhereInput
+) {
   const trades = await prisma.trade.findMany({
     where: {
       userId,
@@ -17,34 +36,39 @@ async function getTokenStats(userId: string, tokenMint: string) {
         { inputMint: SOL_MINT, outputMint: tokenMint },
         { inputMint: tokenMint, outputMint: SOL_MINT },
       ],
+      AND: [walletFilter],
     },
     orderBy: { createdAt: "asc" },
   });
 
+  const [decimals, transfers] = await Promise.all([
+    getTokenDecimals([tokenMint]),
+    getLedgerTransfers({ ...transferFilter, mint: tokenMint }),
+  ]);
+  const lotTrades = toLotTrades(trades, decimals, null);
+  const lotTransfers = toLotTransfers(transfers, null, trades);
+
   let totalBought = 0;
   let totalSold = 0;
   let totalSolSpent = 0;
   let totalSolReceived = 0;
+  let netTransferred = 0;
 
-  for (const trade of trades) {
-    const isBuy = trade.inputMint === SOL_MINT;
-
-    if (isBuy) {
-      // Token amounts are stored as raw UI values (e.g., 353079 = 353079 tokens)
-      // SOL amounts are in lamports (divide by 1e9)
-      const tokenAmount = Number(trade.amountOut);
-      const solAmount = Number(trade.amountIn) / 1e9;
-      totalBought += tokenAmount;
-      totalSolSpent += solAmount;
+  for (const trade of lotTrades) {
+    if (trade.side === "buy") {
+      totalBought += trade.tokenAmount;
+      totalSolSpent += trade.solAmount + trade.feeSol;
     } else {
-      const tokenAmount = Number(trade.amountIn);
-      const solAmount = Number(trade.amountOut) / 1e9;
-      totalSold += tokenAmount;
-      totalSolReceived += solAmount;
+      totalSold += trade.tokenAmount;
+      totalSolReceived += trade.solAmount - trade.feeSol;
     }
   }
 
-  const holding = Math.max(0, totalBought - totalSold);
+  for (const transfer of lotTransfers) {
+    netTransferred += transfer.side === "in" ? transfer.tokenAmount : -transfer.tokenAmount;
+  }
+
+  const holding = Math.max(0, totalBought - totalSold + netTransferred);
   let pnlPercent = 0;
   if (totalSolSpent > 0) {
     pnlPercent = ((totalSolReceived - totalSolSpent) / totalSolSpent) * 100;
@@ -65,24 +89,6 @@ interface DailyPnL {
   volume: number;
 }
 
-interface Position {
-  mint: string;
-  symbol: string;
-  name: string; // Token name
-  image: string | null; // Token logo URL
-  totalBought: number; // Total tokens bought
-  totalSold: number; // Total tokens sold
-  avgBuyPrice: number; // Average buy price in SOL
-  avgSellPrice: number; // Average sell price in SOL
-  totalBuyCost: number; // Total SOL spent buying
-  totalSellRevenue: number; // Total SOL received from selling
-  currentBalance: number; // Current token balance
-  realizedPnl: number; // PnL from closed positions (sells)
-  unrealizedPnl: number; // PnL from open positions (needs current price)
-  trades: number;
-  lastTradeAt: Date | null;
-}
-
 // GET /api/trading/pnl
 export async function GET(req: NextRequest) {
   try {
@@ -97,10 +103,27 @@ export async function GET(req: NextRequest) {
 
     const { searchParams } = req.nextUrl;
     const tokenMint = searchParams.get("tokenMint");
+    const walletId = searchParams.get("walletId"); // Optional - all wallets when omitted
+    const method = searchParams.get("method") || "FIFO"; // Cost basis: FIFO, LIFO or AVERAGE
+
+    if (!isCostBasisMethod(method)) {
+      return NextResponse.json({ error: "method must be FIFO, LIFO or AVERAGE" }, { status: 400 });
+    }
+
+    let walletFilter: WalletFilter = {};
+    const transferFilter: Prisma.WalletTransferWhereInput = { userId: session.user.id };
+    if (walletId) {
+      const wallet = await resolveWallet(session.user.id, walletId);
+      if (!wallet) {
+        return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+      }
+      walletFilter = walletTradeFilter(wallet);
+      transferFilter.walletId = wallet.id;
+    }
 
     // If tokenMint is provided, return simple stats for SwapWidget
     if (tokenMint) {
-      return getTokenStats(session.user.id, tokenMint);
+      return getTokenStats(session.user.id, tokenMint, walletFilter, transferFilter);
     }
 
     const period = searchParams.get("period") || "30d"; // 1d, 7d, 30d, all
@@ -137,225 +160,61 @@ export async function GET(req: NextRequest) {
         displayStartDate = new Date(0); // All time
     }
 
-    // Fetch ALL confirmed trades for cumulative PnL calculation
-    const allTrades = await prisma.trade.findMany({
-      where: {
-        userId: session.user.id,
-        status: TradeStatus.SUCCESS,
-      },
-      orderBy: { confirmedAt: "asc" },
-    });
-
-    // Separate trades: those before display period (for cumulative baseline) and during display period
-    const trades = allTrades.filter(t => {
-      const tradeDate = t.confirmedAt || t.createdAt;
-      return tradeDate >= displayStartDate && tradeDate <= displayEndDate;
-    });
-
-    const tradesBeforePeriod = allTrades.filter(t => {
-      const tradeDate = t.confirmedAt || t.createdAt;
-      return tradeDate < displayStartDate;
-    });
-
-    // Calculate cumulative PnL baseline from trades BEFORE the display period
+    // Fetch ALL confirmed trades and ledger transfers - lots need the full history for the cost basis
+    const [allTrades, transfers] = await Promise.all([
+      prisma.trade.findMany({
+        where: {
+          userId: session.user.id,
+          status: TradeStatus.SUCCESS,
+          ...walletFilter,
+        },
+        orderBy: { confirmedAt: "asc" },
+      }),
+      getLedgerTransfers(transferFilter),
+    ]);
+
+    const tradedMints = Array.from(new Set(allTrades.map((t) => (t.inputMint === SOL_MINT ? t.outputMint : t.inputMint))));
+    const [decimals, solPriceUsd] = await Promise.all([
+      getTokenDecimals(tradedMints),
+      getCachedSolPrice(),
+    ]);
+    const lotTrades = toLotTrades(allTrades, decimals, solPriceUsd);
+    const lotTransfers = toLotTransfers(transfers, solPriceUsd, allTrades);
+    const accounting = computeLots(mergeLotTrades(lotTrades, lotTransfers), method as CostBasisMethod);
+    const { disposals } = accounting;
+
+    const isInPeriod = (date: Date) => date >= displayStartDate && date <= displayEndDate;
+
+    // Cumulative PnL from disposals BEFORE the display period
     // This is needed so the chart starts at the correct cumulative value
-    let cumulativePnLBaseline = 0;
-    const baselinePositions = new Map<string, { avgBuyPrice: number; totalBought: number; totalBuyCost: number }>();
-
-    for (const trade of tradesBeforePeriod) {
-      const isBuy = trade.inputMint === SOL_MINT;
-      const tokenMint = isBuy ? trade.outputMint : trade.inputMint;
-
-      // SOL in lamports (divide by 1e9), tokens are stored as UI values
-      const solAmount = isBuy
-        ? Number(trade.amountIn) / 1e9
-        : Number(trade.amountOut) / 1e9;
-      const tokenAmount = isBuy
-        ? Number(trade.amountOut)
-        : Number(trade.amountIn);
-
-      if (!baselinePositions.has(tokenMint)) {
-        baselinePositions.set(tokenMint, { avgBuyPrice: 0, totalBought: 0, totalBuyCost: 0 });
-      }
-      const pos = baselinePositions.get(tokenMint)!;
-
-      if (isBuy) {
-        pos.totalBought += tokenAmount;
-        pos.totalBuyCost += solAmount;
-        pos.avgBuyPrice = pos.totalBuyCost / pos.totalBought;
-      } else {
-        // Calculate realized PnL for sells before the period
-        const costBasis = pos.avgBuyPrice * tokenAmount;
-        const tradePnl = solAmount - costBasis;
-        cumulativePnLBaseline += tradePnl;
-      }
-    }
+    const cumulativePnLBaseline = disposals
+      .filter((d) => d.disposedAt < displayStartDate)
+      .reduce((sum, d) => sum + d.gainSol, 0);
 
-    // Calculate daily PnL
+    // Calculate daily PnL (volume and trade counts from trades, PnL from disposals)
     const dailyPnLMap = new Map<string, DailyPnL>();
-    const positions = new Map<string, Position>();
-
-    // First, process ALL trades to build complete positions (for accurate cost basis and totals)
-    // This ensures positions show up even if all trades were outside the display period
-    const allPositions = new Map<string, Position>();
-
-    for (const trade of allTrades) {
-      const isBuy = trade.inputMint === SOL_MINT;
-      const tokenMint = isBuy ? trade.outputMint : trade.inputMint;
-      const tokenSymbol = isBuy ? trade.outputSymbol : trade.inputSymbol;
-      const tradeDate = trade.confirmedAt || trade.createdAt;
-
-      // SOL in lamports (divide by 1e9), tokens are stored as UI values
-      const solAmount = isBuy
-        ? Number(trade.amountIn) / 1e9
-        : Number(trade.amountOut) / 1e9;
-      const tokenAmount = isBuy
-        ? Number(trade.amountOut)
-        : Number(trade.amountIn);
-
-      if (!allPositions.has(tokenMint)) {
-        allPositions.set(tokenMint, {
-          mint: tokenMint,
-          symbol: tokenSymbol,
-          name: "",
-          image: null,
-          totalBought: 0,
-          totalSold: 0,
-          avgBuyPrice: 0,
-          avgSellPrice: 0,
-          totalBuyCost: 0,
-          totalSellRevenue: 0,
-          currentBalance: 0,
-          realizedPnl: 0,
-          unrealizedPnl: 0,
-          trades: 0,
-          lastTradeAt: null,
-        });
+    const getDaily = (date: Date): DailyPnL => {
+      const dateKey = date.toISOString().split("T")[0];
+      if (!dailyPnLMap.has(dateKey)) {
+        dailyPnLMap.set(dateKey, { date: dateKey, pnl: 0, trades: 0, volume: 0 });
       }
-      const pos = allPositions.get(tokenMint)!;
-      pos.trades++;
-      pos.lastTradeAt = tradeDate;
-
-      if (isBuy) {
-        pos.totalBought += tokenAmount;
-        pos.totalBuyCost += solAmount;
-        pos.currentBalance += tokenAmount;
-        pos.avgBuyPrice = pos.totalBuyCost / pos.totalBought;
-      } else {
-        pos.totalSold += tokenAmount;
-        pos.totalSellRevenue += solAmount;
-        pos.currentBalance -= tokenAmount;
-        if (pos.totalSold > 0) {
-          pos.avgSellPrice = pos.totalSellRevenue / pos.totalSold;
-        }
+      return dailyPnLMap.get(dateKey)!;
+    };
 
-        // Calculate realized PnL for this sell
-        const costBasis = pos.avgBuyPrice * tokenAmount;
-        const sellRevenue = solAmount;
-        const tradePnl = sellRevenue - costBasis;
-        pos.realizedPnl += tradePnl;
-      }
+    for (const trade of lotTrades) {
+      if (!isInPeriod(trade.timestamp)) continue;
+      const daily = getDaily(trade.timestamp);
+      daily.trades++;
+      daily.volume += trade.solAmount;
     }
 
-    // Initialize display period positions with baseline data (for accurate cost basis)
-    for (const [mint, baseline] of baselinePositions) {
-      positions.set(mint, {
-        mint,
-        symbol: "",
-        name: "",
-        image: null,
-        totalBought: baseline.totalBought,
-        totalSold: 0,
-        avgBuyPrice: baseline.avgBuyPrice,
-        avgSellPrice: 0,
-        totalBuyCost: baseline.totalBuyCost,
-        totalSellRevenue: 0,
-        currentBalance: baseline.totalBought, // Will be adjusted by sells
-        realizedPnl: 0, // Only track PnL during display period
-        unrealizedPnl: 0,
-        trades: 0,
-        lastTradeAt: null,
-      });
+    for (const disposal of disposals) {
+      if (!isInPeriod(disposal.disposedAt)) continue;
+      getDaily(disposal.disposedAt).pnl += disposal.gainSol;
     }
 
-    for (const trade of trades) {
-      const tradeDate = trade.confirmedAt || trade.createdAt;
-      const dateKey = tradeDate.toISOString().split("T")[0];
-
-      // Initialize daily entry
-      if (!dailyPnLMap.has(dateKey)) {
-        dailyPnLMap.set(dateKey, {
-          date: dateKey,
-          pnl: 0,
-          trades: 0,
-          volume: 0,
-        });
-      }
-      const daily = dailyPnLMap.get(dateKey)!;
-      daily.trades++;
-
-      const isBuy = trade.inputMint === SOL_MINT;
-      const tokenMint = isBuy ? trade.outputMint : trade.inputMint;
-      const tokenSymbol = isBuy ? trade.outputSymbol : trade.inputSymbol;
-
-      // SOL in lamports (divide by 1e9), tokens are stored as UI values
-      const solAmount = isBuy
-        ? Number(trade.amountIn) / 1e9
-        : Number(trade.amountOut) / 1e9;
-      const tokenAmount = isBuy
-        ? Number(trade.amountOut)
-        : Number(trade.amountIn);
-
-      daily.volume += solAmount;
-
-      // Initialize position
-      if (!positions.has(tokenMint)) {
-        positions.set(tokenMint, {
-          mint: tokenMint,
-          symbol: tokenSymbol,
-          name: "",
-          image: null,
-          totalBought: 0,
-          totalSold: 0,
-          avgBuyPrice: 0,
-          avgSellPrice: 0,
-          totalBuyCost: 0,
-          totalSellRevenue: 0,
-          currentBalance: 0,
-          realizedPnl: 0,
-          unrealizedPnl: 0,
-          trades: 0,
-          lastTradeAt: null,
-        });
-      }
-      const pos = positions.get(tokenMint)!;
-      pos.trades++;
-      pos.lastTradeAt = tradeDate;
-
-      if (isBuy) {
-        // Buying tokens with SOL
-        pos.totalBought += tokenAmount;
-        pos.totalBuyCost += solAmount;
-        pos.currentBalance += tokenAmount;
-        pos.avgBuyPrice = pos.totalBuyCost / pos.totalBought;
-      } else {
-        // Selling tokens for SOL
-        pos.totalSold += tokenAmount;
-        pos.totalSellRevenue += solAmount;
-        pos.currentBalance -= tokenAmount;
-        if (pos.totalSold > 0) {
-          pos.avgSellPrice = pos.totalSellRevenue / pos.totalSold;
-        }
-
-        // Calculate realized PnL for this sell
-        // PnL = (sell price - avg buy price) * tokens sold
-        const costBasis = pos.avgBuyPrice * tokenAmount;
-        const sellRevenue = solAmount;
-        const tradePnl = sellRevenue - costBasis;
-        pos.realizedPnl += tradePnl;
-        daily.pnl += tradePnl;
-      }
-    }
+    // Positions over ALL trades, so they show up even if all trades were outside the display period
+    const allPositions = buildPositions(lotTrades, lotTransfers, accounting);
 
     // Convert to arrays and sort
     const dailyPnL = Array.from(dailyPnLMap.values()).sort(
@@ -365,7 +224,7 @@ export async function GET(req: NextRequest) {
     // Use allPositions for the positions list - this includes ALL trades, not just display period
     // This ensures positions show up even if all trades were outside the current display window
     const positionsArray = Array.from(allPositions.values())
-      .filter(p => p.trades > 0)
+      .filter(p => p.trades > 0 || p.transferredIn > 0)
       .sort((a, b) => (b.lastTradeAt?.getTime() || 0) - (a.lastTradeAt?.getTime() || 0));
 
     // Fetch token metadata from database
@@ -451,12 +310,16 @@ export async function GET(req: NextRequest) {
 
     // All-time totals (for reference)
     const allTimeRealizedPnl = positionsArray.reduce((sum, p) => sum + p.realizedPnl, 0);
-    const allTimeVolume = allTrades.reduce((sum, t) => {
-      const isBuy = t.inputMint === SOL_MINT;
-      const solAmount = isBuy ? Number(t.amountIn) / 1e9 : Number(t.amountOut) / 1e9;
-      return sum + solAmount;
-    }, 0);
-    const allTimeTrades = allTrades.length;
+    const allTimeVolume = lotTrades.reduce((sum, t) => sum + t.solAmount, 0);
+    const allTimeTrades = lotTrades.length;
+
+    // Net SOL moved into the wallet(s) from outside, all time
+    const netDepositsSol = transfers
+      .filter((t) => t.mint === SOL_MINT)
+      .reduce((sum, t) => {
+        const sol = Number(t.amount) / 1e9;
+        return t.kind === "WITHDRAW" ? sum - sol : sum + sol;
+      }, 0);
 
     // Use period-specific values in summary (what the user is viewing)
     const totalRealizedPnl = period === "all" ? allTimeRealizedPnl : periodRealizedPnl;
@@ -506,6 +369,7 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       period,
+      method,
       startDate: displayStartDate.toISOString(),
       endDate: displayEndDate.toISOString(),
 
@@ -520,6 +384,7 @@ export async function GET(req: NextRequest) {
         totalTrades,
         currentStreak,
         bestStreak,
+        netDepositsSol,
         winRate: dailyPnL.filter(d => d.pnl > 0).length / Math.max(dailyPnL.length, 1),
       },
 
@@ -539,8 +404,8 @@ export async function GET(req: NextRequest) {
       // Active positions (have balance)
       activePositions: positionsArray.filter(p => p.currentBalance > 0.000001),
 
-      // Closed positions (sold all)
-      closedPositions: positionsArray.filter(p => p.currentBalance <= 0.000001 && p.totalSold > 0),
+      // Closed positions (sold or withdrew all)
+      closedPositions: positionsArray.filter(p => p.currentBalance <= 0.000001 && (p.totalSold > 0 || p.transferredOut > 0)),
     });
   } catch (error) {
     console.error("PnL error:", error);
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { resolveWallet } from "@/lib/wallets";
+import {
+  computeMaxDrawdown,
+  ensureRecentSnapshot,
+  getEquityCurve,
+  getValueAt,
+} from "@/lib/portfolio-snapshots";
+
+const PERIOD_DAYS: Record<string, number | null> = {
+  "1d": 1,
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  all: null,
+};
+
+// GET /api/trading/portfolio-history?period=30d&walletId=&at=2025-01-31
+// Equity curve from portfolio snapshots (all wallets unless walletId is given), with max drawdown
+// `at` also returns the portfolio value on that date (end of day, UTC)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = req.nextUrl;
+    const period = searchParams.get("period") || "30d";
+    const walletIdParam = searchParams.get("walletId");
+    const atParam = searchParams.get("at");
+
+    if (!(period in PERIOD_DAYS)) {
+      return NextResponse.json({ error: "period must be 1d, 7d, 30d, 90d or all" }, { status: 400 });
+    }
+
+    let at: Date | null = null;
+    if (atParam) {
+      at = /^\d{4}-\d{2}-\d{2}$/.test(atParam) ? new Date(`${atParam}T23:59:59.999Z`) : new Date(atParam);
+      if (isNaN(at.getTime())) {
+        return NextResponse.json({ error: "Invalid at date" }, { status: 400 });
+      }
+    }
+
+    let walletId: string | null = null;
+    if (walletIdParam) {
+      const wallet = await resolveWallet(session.user.id, walletIdParam);
+      if (!wallet) {
+        return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+      }
+      walletId = wallet.id;
+    }
+
+    // First visit (or the hourly run hasn't reached this user) - value the wallets now
+    await ensureRecentSnapshot(session.user.id).catch((error) =>
+      console.error("[portfolio-history] Snapshot failed:", error)
+    );
+
+    const days = PERIOD_DAYS[period];
+    const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+    const [points, valueAt] = await Promise.all([
+      getEquityCurve(session.user.id, { walletId, since }),
+      at ? getValueAt(session.user.id, at, walletId) : Promise.resolve(null),
+    ]);
+
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    return NextResponse.json({
+      period,
+      points,
+      current: last ?? null,
+      change: first && last
+        ? {
+            usd: last.totalUsd - first.totalUsd,
+            sol: last.totalSol - first.totalSol,
+            usdPct: first.totalUsd > 0 ? ((last.totalUsd - first.totalUsd) / first.totalUsd) * 100 : 0,
+            solPct: first.totalSol > 0 ? ((last.totalSol - first.totalSol) / first.totalSol) * 100 : 0,
+          }
+        : null,
+      drawdown: {
+        usd: computeMaxDrawdown(points, "usd"),
+        sol: computeMaxDrawdown(points, "sol"),
+      },
+      valueAt,
+    });
+  } catch (error) {
+    console.error("Portfolio history error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load portfolio history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// DELETE /api/trading/position-rules/:id - Cancel an active position rule
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Only ACTIVE rules can be cancelled - a triggered rule is already selling
+    const { count } = await prisma.positionRule.updateMany({
+      where: { id, userId: session.user.id, status: "ACTIVE" },
+      data: { status: "CANCELLED" },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Rule not found or no longer active" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Cancel position rule error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel position rule" },
+      { status: 500 }
+    );
+  }
+}
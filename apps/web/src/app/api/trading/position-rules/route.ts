@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { PositionRuleStatus } from "@prisma/client";
+import { getJupiterService } from "@/lib/jupiter";
+import { getTriggerPrice } from "@/lib/position-rules";
+import { getWalletPosition } from "@/lib/positions";
+import { resolveWallet } from "@/lib/wallets";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_ACTIVE_RULES = 50;
+const MAX_SLIPPAGE_BPS = 5000;
+
+const RULE_TYPES = {
+  stopLoss: "STOP_LOSS",
+  takeProfit: "TAKE_PROFIT",
+  trailingStop: "TRAILING_STOP",
+} as const;
+
+// GET /api/trading/position-rules - List the user's position rules
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = req.nextUrl;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const tokenMint = searchParams.get("tokenMint");
+    const statusParam = searchParams.get("status"); // Optional filter, e.g. "active"
+
+    const where: { userId: string; tokenMint?: string; status?: PositionRuleStatus } = {
+      userId: session.user.id,
+    };
+
+    if (tokenMint) {
+      where.tokenMint = tokenMint;
+    }
+
+    if (statusParam) {
+      const upperStatus = statusParam.toUpperCase() as PositionRuleStatus;
+      if (Object.values(PositionRuleStatus).includes(upperStatus)) {
+        where.status = upperStatus;
+      }
+    }
+
+    const rules = await prisma.positionRule.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Position rules error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get position rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/trading/position-rules - Attach a stop-loss / take-profit / trailing stop to a position
+// Body: { tokenMint, tokenSymbol, type: "stopLoss" | "takeProfit" | "trailingStop",
+//         mode: "percent" | "price", value, sellPercent?, slippageBps?, walletId? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { tokenMint, tokenSymbol, type, mode = "percent", value, sellPercent, slippageBps, walletId } = body;
+
+    if (!tokenMint || !SOLANA_ADDRESS_REGEX.test(tokenMint)) {
+      return NextResponse.json({ error: "Invalid tokenMint" }, { status: 400 });
+    }
+
+    const ruleType = RULE_TYPES[type as keyof typeof RULE_TYPES];
+    if (!Object.values(RULE_TYPES).includes(ruleType)) {
+      return NextResponse.json(
+        { error: "type must be 'stopLoss', 'takeProfit' or 'trailingStop'" },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== "percent" && mode !== "price") {
+      return NextResponse.json({ error: "mode must be 'percent' or 'price'" }, { status: 400 });
+    }
+
+    const ruleValue = Number(value);
+    if (!Number.isFinite(ruleValue) || ruleValue <= 0) {
+      return NextResponse.json({ error: "value must be a positive number" }, { status: 400 });
+    }
+    // A 100% drop can never be reached
+    if (mode === "percent" && ruleType !== "TAKE_PROFIT" && ruleValue >= 100) {
+      return NextResponse.json({ error: "Stop percentage must be below 100" }, { status: 400 });
+    }
+
+    const sell = sellPercent === undefined ? 100 : Number(sellPercent);
+    if (!Number.isFinite(sell) || sell <= 0 || sell > 100) {
+      return NextResponse.json({ error: "sellPercent must be between 0 and 100" }, { status: 400 });
+    }
+
+    const slippage = slippageBps === undefined ? 100 : Number(slippageBps);
+    if (!Number.isInteger(slippage) || slippage < 1 || slippage > MAX_SLIPPAGE_BPS) {
+      return NextResponse.json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 });
+    }
+
+    // Wallet holding the position (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "No wallet found. Please set up your wallet first." },
+        { status: 400 }
+      );
+    }
+
+    const activeRules = await prisma.positionRule.count({
+      where: { userId: session.user.id, status: "ACTIVE" },
+    });
+    if (activeRules >= MAX_ACTIVE_RULES) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_ACTIVE_RULES} active rules` },
+        { status: 400 }
+      );
+    }
+
+    const jupiter = getJupiterService();
+    const accounts = await jupiter.getTokenAccounts(wallet.address);
+    const account = accounts.find((a) => a.mint === tokenMint);
+
+    if (!account || Number(account.balance) <= 0) {
+      return NextResponse.json({ error: "No position in this token" }, { status: 400 });
+    }
+
+    // Average-cost entry, the same position the PnL page shows
+    const position = await getWalletPosition(session.user.id, wallet, tokenMint, "AVERAGE");
+    const entryPriceUsd = position?.entryPriceUsd ?? null;
+
+    if (mode === "percent" && ruleType !== "TRAILING_STOP" && !entryPriceUsd) {
+      return NextResponse.json(
+        { error: "No entry price for this position - use an absolute price instead" },
+        { status: 400 }
+      );
+    }
+
+    // Trailing stops start tracking from the current price
+    let highestPriceUsd: number | null = null;
+    if (ruleType === "TRAILING_STOP") {
+      const prices = await jupiter.getTokenPrices([tokenMint]).catch(() => new Map<string, number>());
+      highestPriceUsd = prices.get(tokenMint) ?? entryPriceUsd;
+      if (!highestPriceUsd) {
+        return NextResponse.json({ error: "No current price for this token" }, { status: 400 });
+      }
+    }
+
+    const ruleMode = mode === "price" ? "PRICE" : "PERCENT";
+    const triggerPriceUsd = getTriggerPrice({
+      type: ruleType,
+      mode: ruleMode,
+      value: ruleValue,
+      entryPriceUsd,
+      highestPriceUsd,
+    });
+
+    if (triggerPriceUsd === null) {
+      return NextResponse.json({ error: "Trailing distance is larger than the current price" }, { status: 400 });
+    }
+
+    const rule = await prisma.positionRule.create({
+      data: {
+        userId: session.user.id,
+        walletId: wallet.id,
+        tokenMint,
+        tokenSymbol: tokenSymbol || "UNKNOWN",
+        type: ruleType,
+        mode: ruleMode,
+        value: ruleValue,
+        sellPercent: sell,
+        slippageBps: slippage,
+        entryPriceUsd,
+        highestPriceUsd,
+        triggerPriceUsd,
+      },
+    });
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error("Create position rule error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create position rule" },
+      { status: 500 }
+    );
+  }
+}
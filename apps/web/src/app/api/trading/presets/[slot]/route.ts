@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { PriorityFeeLevel } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  isPresetSlot,
+  PRIORITY_FEE_LEVELS,
+  MIN_JITO_TIP_SOL,
+  MAX_JITO_TIP_SOL,
+  MAX_PRIORITY_FEE_SOL,
+} from "@/lib/trading-presets";
+
+const MAX_SLIPPAGE_BPS = 5000; // 50%
+
+// PUT /api/trading/presets/:slot - Save a preset
+// Body: { slippageBps, priorityFeeLevel, maxPriorityFeeSol, mevProtection, jitoTipSol }
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ slot: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { slot: slotParam } = await params;
+    const slot = parseInt(slotParam, 10);
+
+    if (!isPresetSlot(slot)) {
+      return NextResponse.json({ error: "Preset slot must be 1, 2 or 3" }, { status: 400 });
+    }
+
+    const { slippageBps, priorityFeeLevel, maxPriorityFeeSol, mevProtection, jitoTipSol } = await req.json();
+
+    if (!Number.isInteger(slippageBps) || slippageBps < 1 || slippageBps > MAX_SLIPPAGE_BPS) {
+      return NextResponse.json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 });
+    }
+
+    if (!PRIORITY_FEE_LEVELS.includes(priorityFeeLevel)) {
+      return NextResponse.json({ error: `priorityFeeLevel must be one of ${PRIORITY_FEE_LEVELS.join(", ")}` }, { status: 400 });
+    }
+
+    if (typeof maxPriorityFeeSol !== "number" || maxPriorityFeeSol < 0 || maxPriorityFeeSol > MAX_PRIORITY_FEE_SOL) {
+      return NextResponse.json({ error: `maxPriorityFeeSol must be between 0 and ${MAX_PRIORITY_FEE_SOL}` }, { status: 400 });
+    }
+
+    if (typeof mevProtection !== "boolean") {
+      return NextResponse.json({ error: "mevProtection must be a boolean" }, { status: 400 });
+    }
+
+    if (typeof jitoTipSol !== "number" || jitoTipSol < MIN_JITO_TIP_SOL || jitoTipSol > MAX_JITO_TIP_SOL) {
+      return NextResponse.json({ error: `jitoTipSol must be between ${MIN_JITO_TIP_SOL} and ${MAX_JITO_TIP_SOL}` }, { status: 400 });
+    }
+
+    const settings = {
+      slippageBps,
+      priorityFeeLevel: priorityFeeLevel as PriorityFeeLevel,
+      maxPriorityFeeSol,
+      mevProtection,
+      jitoTipSol,
+    };
+
+    await prisma.tradingPreset.upsert({
+      where: { userId_slot: { userId: session.user.id, slot } },
+      create: { userId: session.user.id, slot, ...settings },
+      update: settings,
+    });
+
+    return NextResponse.json({ success: true, preset: { slot, ...settings } });
+  } catch (error) {
+    console.error("Save trading preset error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save trading preset" },
+      { status: 500 }
+    );
+  }
+}
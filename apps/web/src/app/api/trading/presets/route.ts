@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getTradingPresets, isPresetSlot } from "@/lib/trading-presets";
+
+// GET /api/trading/presets - The user's three trading presets and the active slot
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { presets, activeSlot } = await getTradingPresets(session.user.id);
+
+    return NextResponse.json({ presets, activeSlot });
+  } catch (error) {
+    console.error("Trading presets error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get trading presets" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/trading/presets - Switch the active preset
+// Body: { activeSlot: 1 | 2 | 3 }
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { activeSlot } = await req.json();
+
+    if (!isPresetSlot(activeSlot)) {
+      return NextResponse.json({ error: "activeSlot must be 1, 2 or 3" }, { status: 400 });
+    }
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { tradingPresetSlot: activeSlot },
+    });
+
+    return NextResponse.json({ success: true, activeSlot });
+  } catch (error) {
+    console.error("Switch trading preset error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to switch trading preset" },
+      { status: 500 }
+    );
+  }
+}
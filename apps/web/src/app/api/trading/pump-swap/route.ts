@@ -5,11 +5,17 @@ import { getPumpFunService } from "@/lib/pumpfun";
 import { decryptPrivateKey } from "@/lib/wallet";
 import { config } from "@/lib/config";
 import { Keypair } from "@solana/web3.js";
+import { resolveWallet } from "@/lib/wallets";
+import { getCachedSolPrice } from "@/lib/price-updater";
+import { getTradingPreset, toPumpFunExecutionSettings } from "@/lib/trading-presets";
 import bs58 from "bs58";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 
 // POST /api/trading/pump-swap
+// Pass simulate: true to build and simulate the transaction without sending it or recording a trade
+// Fees, tip and send route come from the user's trading preset (presetSlot, or the active one);
+// the preset's slippage applies when slippageBps isn't given
 export async function POST(req: NextRequest) {
   let secretKey: Uint8Array | null = null;
 
@@ -24,7 +30,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { inputMint, outputMint, amount, slippageBps, inputSymbol, outputSymbol } = body;
+    const { inputMint, outputMint, amount, slippageBps, inputSymbol, outputSymbol, simulate, walletId, presetSlot } = body;
 
     if (!inputMint || !outputMint || !amount) {
       return NextResponse.json(
@@ -33,23 +39,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get user with wallet
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        id: true,
-        walletAddress: true,
-        walletEncrypted: true,
-      },
-    });
+    // Wallet to trade from (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
 
-    if (!user?.walletAddress || !user?.walletEncrypted) {
+    if (!wallet) {
       return NextResponse.json(
         { error: "No wallet found. Please set up your wallet first." },
         { status: 400 }
       );
     }
 
+    const preset = await getTradingPreset(session.user.id, presetSlot);
+    const execution = toPumpFunExecutionSettings(preset);
+    const slippage = slippageBps || preset.slippageBps;
+
     const pumpFun = getPumpFunService();
 
     // Determine if this is a buy or sell
@@ -80,10 +83,34 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (simulate === true) {
+      secretKey = bs58.decode(decryptPrivateKey(wallet.encryptedKey, config.authSecret));
+      const simulation = await pumpFun.simulateSwap(
+        tokenMint,
+        Keypair.fromSecretKey(secretKey),
+        BigInt(amount),
+        isBuy,
+        slippage,
+        execution
+      );
+
+      return NextResponse.json({
+        success: simulation.success,
+        simulated: true,
+        inputAmount: amount,
+        outputAmount: quote.outAmount,
+        outputAmountMin: quote.outAmountMin,
+        priceImpactPct: quote.priceImpactPct,
+        simulation,
+        source: "pumpfun",
+      });
+    }
+
     // Create pending trade record
     const trade = await prisma.trade.create({
       data: {
-        userId: user.id,
+        userId: session.user.id,
+        walletId: wallet.id,
         inputMint,
         inputSymbol: inputSymbol || "UNKNOWN",
         outputMint,
@@ -93,13 +120,14 @@ export async function POST(req: NextRequest) {
         amountOutMin: quote.outAmountMin,
         priceImpact: quote.priceImpactPct,
         status: "PENDING",
+        solPriceUsd: await getCachedSolPrice(), // For USD cost basis / tax reporting
       },
     });
 
     try {
       // Decrypt private key
       const privateKeyBase58 = decryptPrivateKey(
-        user.walletEncrypted,
+        wallet.encryptedKey,
         config.authSecret
       );
       secretKey = bs58.decode(privateKeyBase58);
@@ -118,14 +146,16 @@ export async function POST(req: NextRequest) {
           tokenMint,
           keypair,
           BigInt(amount),
-          slippageBps || 100
+          slippage,
+          execution
         );
       } else {
         signature = await pumpFun.executeSell(
           tokenMint,
           keypair,
           BigInt(amount),
-          slippageBps || 100
+          slippage,
+          execution
         );
       }
 
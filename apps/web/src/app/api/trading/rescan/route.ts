@@ -3,22 +3,11 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { config } from "@/lib/config";
 import { TradeStatus } from "@prisma/client";
+import { resolveWallet } from "@/lib/wallets";
+import { fetchTransactionHistory, getHeliusApiKey, isSwapTransaction, syncWalletLedger } from "@/lib/wallet-ledger";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 
-// Known DEX program IDs for swap detection
-const DEX_PROGRAMS = new Set([
-  "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4", // Jupiter v6
-  "JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB", // Jupiter v4
-  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8", // Raydium AMM
-  "27haf8L6oxUeXrHrgEgsexjSY5hbVUWEmvv9Nyxg8vQv", // Raydium CLMM
-  "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK", // Raydium Concentrated
-  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P", // PumpFun
-  "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA", // PumpSwap
-  "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo", // Meteora DLMM
-  "Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB", // Meteora Pools
-]);
-
 interface ParsedSwap {
   signature: string;
   timestamp: Date;
@@ -32,6 +21,7 @@ interface ParsedSwap {
 }
 
 // POST /api/trading/rescan - Rescan wallet and restore trades
+// Body: { walletId? } - rescans the primary wallet when omitted
 export async function POST(req: NextRequest) {
   try {
     const session = await auth();
@@ -43,26 +33,22 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get user wallet
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { id: true, walletAddress: true },
-    });
+    // Wallet to rescan (primary unless walletId is given)
+    const body = await req.json().catch(() => ({}));
+    const wallet = await resolveWallet(session.user.id, body?.walletId);
 
-    if (!user?.walletAddress) {
+    if (!wallet) {
       return NextResponse.json(
         { error: "No wallet found for user" },
         { status: 400 }
       );
     }
 
-    const walletAddress = user.walletAddress;
+    const walletAddress = wallet.address;
     console.log(`[Rescan] Starting rescan for wallet ${walletAddress.slice(0, 8)}...`);
 
     // Check for Helius API key in RPC URL
-    const rpcUrl = config.solanaRpcUrl || "";
-    const heliusMatch = rpcUrl.match(/api-key=([a-f0-9-]+)/i);
-    const heliusApiKey = heliusMatch ? heliusMatch[1] : null;
+    const heliusApiKey = getHeliusApiKey();
 
     if (!heliusApiKey) {
       return NextResponse.json(
@@ -72,7 +58,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Fetch transaction history from Helius
-    const transactions = await fetchTransactionHistory(walletAddress, heliusApiKey);
+    const { transactions } = await fetchTransactionHistory(walletAddress, heliusApiKey);
     console.log(`[Rescan] Found ${transactions.length} transactions`);
 
     // Parse swaps from transactions
@@ -81,7 +67,7 @@ export async function POST(req: NextRequest) {
 
     // Get existing trades to avoid duplicates
     const existingTrades = await prisma.trade.findMany({
-      where: { userId: user.id },
+      where: { userId: session.user.id },
       select: { txSignature: true },
     });
     const existingSignatures = new Set(existingTrades.map(t => t.txSignature));
@@ -96,7 +82,8 @@ export async function POST(req: NextRequest) {
       try {
         await prisma.trade.create({
           data: {
-            userId: user.id,
+            userId: session.user.id,
+            walletId: wallet.id,
             inputMint: swap.inputMint,
             inputSymbol: swap.inputSymbol,
             outputMint: swap.outputMint,
@@ -119,6 +106,12 @@ export async function POST(req: NextRequest) {
 
     console.log(`[Rescan] Imported ${imported} trades for ${walletAddress.slice(0, 8)}...`);
 
+    // Transfers and airdrops for the wallet ledger (incremental from the last sync)
+    const transfersImported = await syncWalletLedger(wallet, heliusApiKey).catch((e) => {
+      console.warn("[Rescan] Ledger sync failed:", e);
+      return 0;
+    });
+
     return NextResponse.json({
       success: true,
       wallet: walletAddress,
@@ -126,6 +119,7 @@ export async function POST(req: NextRequest) {
       swapsFound: swaps.length,
       alreadyExisted: existingSignatures.size,
       imported,
+      transfersImported,
     });
   } catch (error) {
     console.error("[Rescan] Error:", error);
@@ -136,52 +130,6 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// Fetch transaction history from Helius
-async function fetchTransactionHistory(walletAddress: string, apiKey: string): Promise<any[]> {
-  const allTransactions: any[] = [];
-  let beforeSignature: string | undefined;
-  const maxPages = 20; // Up to 2000 transactions
-
-  for (let page = 0; page < maxPages; page++) {
-    const url = `https://api.helius.xyz/v0/addresses/${walletAddress}/transactions?api-key=${apiKey}`;
-    const params: any = { limit: 100 };
-    if (beforeSignature) {
-      params.before = beforeSignature;
-    }
-
-    try {
-      const response = await fetch(url + (beforeSignature ? `&before=${beforeSignature}` : ""), {
-        signal: AbortSignal.timeout(30000),
-      });
-
-      if (!response.ok) {
-        console.error(`[Rescan] Helius API error: ${response.status}`);
-        break;
-      }
-
-      const transactions = await response.json();
-      if (!Array.isArray(transactions) || transactions.length === 0) {
-        break;
-      }
-
-      allTransactions.push(...transactions);
-      beforeSignature = transactions[transactions.length - 1].signature;
-
-      console.log(`[Rescan] Fetched page ${page + 1}, ${transactions.length} txs, total ${allTransactions.length}`);
-
-      // Stop if we got less than limit (no more pages)
-      if (transactions.length < 100) {
-        break;
-      }
-    } catch (e) {
-      console.error(`[Rescan] Error fetching page ${page}:`, e);
-      break;
-    }
-  }
-
-  return allTransactions;
-}
-
 // Parse swap transactions from Helius parsed transactions
 function parseSwapsFromTransactions(transactions: any[], walletAddress: string): ParsedSwap[] {
   const swaps: ParsedSwap[] = [];
@@ -191,14 +139,8 @@ function parseSwapsFromTransactions(transactions: any[], walletAddress: string):
       // Skip failed transactions
       if (tx.transactionError) continue;
 
-      // Check if this is a swap (look for DEX programs)
-      const isDexTx = tx.accountData?.some((acc: any) => DEX_PROGRAMS.has(acc.account)) ||
-                      tx.instructions?.some((ix: any) => DEX_PROGRAMS.has(ix.programId));
-
-      // Also check for SWAP type from Helius
-      const isSwapType = tx.type === "SWAP" || tx.type === "SWAP_WSOL";
-
-      if (!isDexTx && !isSwapType) continue;
+      // Check if this is a swap (DEX programs or Helius SWAP type)
+      if (!isSwapTransaction(tx)) continue;
 
       // Parse token transfers to detect what was swapped
       const tokenTransfers = tx.tokenTransfers || [];
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/trading/scheduled-orders/:id - Order with its child trades
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const order = await prisma.scheduledOrder.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        trades: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            amountIn: true,
+            amountOut: true,
+            priceImpact: true,
+            txSignature: true,
+            status: true,
+            errorMessage: true,
+            createdAt: true,
+            confirmedAt: true,
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    console.error("Scheduled order error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get scheduled order" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/trading/scheduled-orders/:id - Pause or resume
+// Body: { action: "pause" | "resume" }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { action } = await req.json();
+
+    if (action !== "pause" && action !== "resume") {
+      return NextResponse.json({ error: "action must be 'pause' or 'resume'" }, { status: 400 });
+    }
+
+    // Resuming runs the next slice right away instead of waiting out the old schedule
+    const { count } = action === "pause"
+      ? await prisma.scheduledOrder.updateMany({
+          where: { id, userId: session.user.id, status: "ACTIVE" },
+          data: { status: "PAUSED" },
+        })
+      : await prisma.scheduledOrder.updateMany({
+          where: { id, userId: session.user.id, status: "PAUSED" },
+          data: { status: "ACTIVE", nextRunAt: new Date() },
+        });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: `Order not found or not ${action === "pause" ? "active" : "paused"}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Update scheduled order error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update scheduled order" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/trading/scheduled-orders/:id - Cancel the remaining slices
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // A slice already in flight still completes and is recorded on the order
+    const { count } = await prisma.scheduledOrder.updateMany({
+      where: { id, userId: session.user.id, status: { in: ["ACTIVE", "PAUSED"] } },
+      data: { status: "CANCELLED", completedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Order not found or already finished" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Cancel scheduled order error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel scheduled order" },
+      { status: 500 }
+    );
+  }
+}
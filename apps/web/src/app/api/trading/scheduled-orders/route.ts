@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { ScheduledOrderStatus } from "@prisma/client";
+import { resolveWallet } from "@/lib/wallets";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_RUNNING_ORDERS = 20;
+const MAX_SLIPPAGE_BPS = 5000;
+const MIN_SLICES = 2;
+const MAX_SLICES = 100;
+const MIN_INTERVAL_SECONDS = 10;
+const MAX_INTERVAL_SECONDS = 7 * 24 * 60 * 60; // 1 week between slices
+
+// GET /api/trading/scheduled-orders - List the user's DCA/TWAP orders
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = req.nextUrl;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const tokenMint = searchParams.get("tokenMint");
+    const statusParam = searchParams.get("status"); // Optional filter, e.g. "active"
+
+    const where: { userId: string; tokenMint?: string; status?: ScheduledOrderStatus | { in: ScheduledOrderStatus[] } } = {
+      userId: session.user.id,
+    };
+
+    if (tokenMint) {
+      where.tokenMint = tokenMint;
+    }
+
+    if (statusParam === "running") {
+      // Orders that can still execute - active or paused
+      where.status = { in: ["ACTIVE", "PAUSED"] };
+    } else if (statusParam) {
+      const upperStatus = statusParam.toUpperCase() as ScheduledOrderStatus;
+      if (Object.values(ScheduledOrderStatus).includes(upperStatus)) {
+        where.status = upperStatus;
+      }
+    }
+
+    const orders = await prisma.scheduledOrder.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ orders });
+  } catch (error) {
+    console.error("Scheduled orders error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get scheduled orders" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/trading/scheduled-orders - Start a DCA/TWAP order
+// Body: { tokenMint, tokenSymbol, side: "buy" | "sell", amount (raw total), slices,
+//         intervalSeconds | durationMinutes, slippageBps?, maxPriceImpactPct?, walletId? }
+// durationMinutes spreads the slices evenly over the window (TWAP); intervalSeconds sets a fixed cadence (DCA)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const {
+      tokenMint,
+      tokenSymbol,
+      side,
+      amount,
+      slices,
+      intervalSeconds,
+      durationMinutes,
+      slippageBps,
+      maxPriceImpactPct,
+      walletId,
+    } = body;
+
+    if (!tokenMint || !SOLANA_ADDRESS_REGEX.test(tokenMint)) {
+      return NextResponse.json({ error: "Invalid tokenMint" }, { status: 400 });
+    }
+
+    if (side !== "buy" && side !== "sell") {
+      return NextResponse.json({ error: "side must be 'buy' or 'sell'" }, { status: 400 });
+    }
+
+    const sliceCount = Number(slices);
+    if (!Number.isInteger(sliceCount) || sliceCount < MIN_SLICES || sliceCount > MAX_SLICES) {
+      return NextResponse.json(
+        { error: `slices must be an integer between ${MIN_SLICES} and ${MAX_SLICES}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof amount !== "string" || !/^\d+$/.test(amount) || BigInt(amount) < BigInt(sliceCount)) {
+      return NextResponse.json(
+        { error: "amount must be an integer string (raw units) of at least one unit per slice" },
+        { status: 400 }
+      );
+    }
+
+    let interval: number;
+    if (intervalSeconds !== undefined && intervalSeconds !== null) {
+      interval = Number(intervalSeconds);
+    } else if (durationMinutes !== undefined && durationMinutes !== null) {
+      // First slice runs immediately, the rest are spread over the window
+      interval = Math.floor((Number(durationMinutes) * 60) / Math.max(sliceCount - 1, 1));
+    } else {
+      return NextResponse.json({ error: "intervalSeconds or durationMinutes is required" }, { status: 400 });
+    }
+
+    if (!Number.isFinite(interval) || interval < MIN_INTERVAL_SECONDS || interval > MAX_INTERVAL_SECONDS) {
+      return NextResponse.json(
+        { error: `Slices must be between ${MIN_INTERVAL_SECONDS}s and ${MAX_INTERVAL_SECONDS / 86400} days apart` },
+        { status: 400 }
+      );
+    }
+
+    const slippage = slippageBps === undefined ? 100 : Number(slippageBps);
+    if (!Number.isInteger(slippage) || slippage < 1 || slippage > MAX_SLIPPAGE_BPS) {
+      return NextResponse.json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 });
+    }
+
+    let maxImpact: number | null = null;
+    if (maxPriceImpactPct !== undefined && maxPriceImpactPct !== null) {
+      maxImpact = Number(maxPriceImpactPct);
+      if (!Number.isFinite(maxImpact) || maxImpact <= 0 || maxImpact > 100) {
+        return NextResponse.json({ error: "maxPriceImpactPct must be between 0 and 100" }, { status: 400 });
+      }
+    }
+
+    // Wallet to trade from (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "No wallet found. Please set up your wallet first." },
+        { status: 400 }
+      );
+    }
+
+    const runningOrders = await prisma.scheduledOrder.count({
+      where: { userId: session.user.id, status: { in: ["ACTIVE", "PAUSED"] } },
+    });
+    if (runningOrders >= MAX_RUNNING_ORDERS) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_RUNNING_ORDERS} running DCA/TWAP orders` },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.scheduledOrder.create({
+      data: {
+        userId: session.user.id,
+        walletId: wallet.id,
+        tokenMint,
+        tokenSymbol: tokenSymbol || "UNKNOWN",
+        side: side === "buy" ? "BUY" : "SELL",
+        totalAmount: amount,
+        sliceCount,
+        intervalSeconds: interval,
+        slippageBps: slippage,
+        maxPriceImpactPct: maxImpact,
+        nextRunAt: new Date(),
+      },
+    });
+
+    return NextResponse.json({ success: true, order });
+  } catch (error) {
+    console.error("Create scheduled order error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create scheduled order" },
+      { status: 500 }
+    );
+  }
+}
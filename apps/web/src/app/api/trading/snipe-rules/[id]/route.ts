@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+const MAX_LABEL_LENGTH = 32;
+const RAW_AMOUNT_REGEX = /^\d+$/;
+
+// GET /api/trading/snipe-rules/:id - Rule with its audit log (newest first)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const limit = Math.min(parseInt(req.nextUrl.searchParams.get("limit") || "100"), 500);
+
+    const rule = await prisma.snipeRule.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        events: {
+          orderBy: { createdAt: "desc" },
+          take: limit,
+        },
+      },
+    });
+
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error("Snipe rule error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get snipe rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/trading/snipe-rules/:id - Enable/disable, rename or change the budget
+// Body: { enabled?, label?, budget? (lamports), dailyCap? (lamports, null to remove) }
+// Filters can't be edited - delete the rule and create a new one
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { enabled, label, budget, dailyCap } = await req.json();
+
+    const rule = await prisma.snipeRule.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, buyAmount: true },
+    });
+
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    const data: { enabled?: boolean; label?: string; budget?: string; dailyCap?: string | null } = {};
+
+    if (enabled !== undefined) {
+      data.enabled = enabled === true;
+    }
+
+    if (label !== undefined) {
+      const trimmedLabel = typeof label === "string" ? label.trim() : "";
+      if (!trimmedLabel || trimmedLabel.length > MAX_LABEL_LENGTH) {
+        return NextResponse.json({ error: `label must be 1-${MAX_LABEL_LENGTH} characters` }, { status: 400 });
+      }
+      data.label = trimmedLabel;
+    }
+
+    if (budget !== undefined) {
+      if (typeof budget !== "string" || !RAW_AMOUNT_REGEX.test(budget) || BigInt(budget) < BigInt(rule.buyAmount)) {
+        return NextResponse.json({ error: "budget must be an integer string (lamports) of at least buyAmount" }, { status: 400 });
+      }
+      data.budget = budget;
+    }
+
+    if (dailyCap !== undefined) {
+      if (dailyCap !== null &&
+          (typeof dailyCap !== "string" || !RAW_AMOUNT_REGEX.test(dailyCap) || BigInt(dailyCap) < BigInt(rule.buyAmount))) {
+        return NextResponse.json({ error: "dailyCap must be an integer string (lamports) of at least buyAmount" }, { status: 400 });
+      }
+      data.dailyCap = dailyCap;
+    }
+
+    const updated = await prisma.snipeRule.update({ where: { id }, data });
+
+    return NextResponse.json({ success: true, rule: updated });
+  } catch (error) {
+    console.error("Update snipe rule error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update snipe rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/trading/snipe-rules/:id - Delete a rule and its audit log
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // A snipe already in flight still completes and is recorded as a normal trade
+    const { count } = await prisma.snipeRule.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete snipe rule error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete snipe rule" },
+      { status: 500 }
+    );
+  }
+}
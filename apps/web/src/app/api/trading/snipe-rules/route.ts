@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWallet } from "@/lib/wallets";
+import { getPatternError } from "@/lib/snipe-rules";
+
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_RULES = 20;
+const MAX_SLIPPAGE_BPS = 5000;
+const MAX_PATTERN_LENGTH = 100;
+const MAX_CREATORS = 100;
+const MAX_LABEL_LENGTH = 32;
+const RAW_AMOUNT_REGEX = /^\d+$/;
+
+// GET /api/trading/snipe-rules - List the user's snipe rules with their recent activity
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const rules = await prisma.snipeRule.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      include: {
+        events: {
+          orderBy: { createdAt: "desc" },
+          take: 5,
+        },
+      },
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Snipe rules error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get snipe rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// Optional case-insensitive regex - returns an error message when invalid or too slow to run per token
+function validatePattern(pattern: unknown, field: string): string | null {
+  if (pattern === undefined || pattern === null || pattern === "") return null;
+  if (typeof pattern !== "string" || pattern.length > MAX_PATTERN_LENGTH) {
+    return `${field} must be a string of at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  const error = getPatternError(pattern);
+  return error ? `${field} ${error}` : null;
+}
+
+function parseCreators(list: unknown): string[] | null {
+  if (list === undefined || list === null) return [];
+  if (!Array.isArray(list) || list.length > MAX_CREATORS) return null;
+  const creators = list.map((c) => (typeof c === "string" ? c.trim() : ""));
+  return creators.every((c) => SOLANA_ADDRESS_REGEX.test(c)) ? Array.from(new Set(creators)) : null;
+}
+
+function parseOptionalNumber(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? num : undefined;
+}
+
+// POST /api/trading/snipe-rules - Create a snipe rule
+// Body: { label, buyAmount (lamports), budget (lamports), dailyCap? (lamports), slippageBps?, walletId?,
+//         namePattern?, symbolPattern?, creatorAllowlist?, creatorDenylist?,
+//         minInitialBuySol?, maxInitialBuySol?, requireSocials?, maxDevHoldingPct? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const {
+      label,
+      buyAmount,
+      budget,
+      dailyCap,
+      slippageBps,
+      walletId,
+      namePattern,
+      symbolPattern,
+      creatorAllowlist,
+      creatorDenylist,
+      minInitialBuySol,
+      maxInitialBuySol,
+      requireSocials,
+      maxDevHoldingPct,
+    } = body;
+
+    const trimmedLabel = typeof label === "string" ? label.trim() : "";
+    if (!trimmedLabel || trimmedLabel.length > MAX_LABEL_LENGTH) {
+      return NextResponse.json({ error: `label is required (max ${MAX_LABEL_LENGTH} characters)` }, { status: 400 });
+    }
+
+    if (typeof buyAmount !== "string" || !RAW_AMOUNT_REGEX.test(buyAmount) || BigInt(buyAmount) <= BigInt(0)) {
+      return NextResponse.json({ error: "buyAmount must be a positive integer string (lamports)" }, { status: 400 });
+    }
+
+    if (typeof budget !== "string" || !RAW_AMOUNT_REGEX.test(budget) || BigInt(budget) < BigInt(buyAmount)) {
+      return NextResponse.json({ error: "budget must be an integer string (lamports) of at least buyAmount" }, { status: 400 });
+    }
+
+    if (dailyCap !== undefined && dailyCap !== null &&
+        (typeof dailyCap !== "string" || !RAW_AMOUNT_REGEX.test(dailyCap) || BigInt(dailyCap) < BigInt(buyAmount))) {
+      return NextResponse.json({ error: "dailyCap must be an integer string (lamports) of at least buyAmount" }, { status: 400 });
+    }
+
+    const slippage = slippageBps === undefined ? 2500 : Number(slippageBps);
+    if (!Number.isInteger(slippage) || slippage < 1 || slippage > MAX_SLIPPAGE_BPS) {
+      return NextResponse.json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` }, { status: 400 });
+    }
+
+    const patternError = validatePattern(namePattern, "namePattern") || validatePattern(symbolPattern, "symbolPattern");
+    if (patternError) {
+      return NextResponse.json({ error: patternError }, { status: 400 });
+    }
+
+    const allowlist = parseCreators(creatorAllowlist);
+    const denylist = parseCreators(creatorDenylist);
+    if (!allowlist || !denylist) {
+      return NextResponse.json(
+        { error: `Creator lists must be arrays of at most ${MAX_CREATORS} wallet addresses` },
+        { status: 400 }
+      );
+    }
+
+    const minBuy = parseOptionalNumber(minInitialBuySol);
+    const maxBuy = parseOptionalNumber(maxInitialBuySol);
+    if (minBuy === undefined || maxBuy === undefined || (minBuy !== null && maxBuy !== null && minBuy > maxBuy)) {
+      return NextResponse.json({ error: "Invalid initial buy range" }, { status: 400 });
+    }
+
+    const maxDevHolding = parseOptionalNumber(maxDevHoldingPct);
+    if (maxDevHolding === undefined || (maxDevHolding !== null && maxDevHolding > 100)) {
+      return NextResponse.json({ error: "maxDevHoldingPct must be between 0 and 100" }, { status: 400 });
+    }
+
+    // Wallet to buy from (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "No wallet found. Please set up your wallet first." },
+        { status: 400 }
+      );
+    }
+
+    const ruleCount = await prisma.snipeRule.count({ where: { userId: session.user.id } });
+    if (ruleCount >= MAX_RULES) {
+      return NextResponse.json({ error: `You can have at most ${MAX_RULES} snipe rules` }, { status: 400 });
+    }
+
+    const rule = await prisma.snipeRule.create({
+      data: {
+        userId: session.user.id,
+        walletId: wallet.id,
+        label: trimmedLabel,
+        namePattern: namePattern || null,
+        symbolPattern: symbolPattern || null,
+        creatorAllowlist: allowlist,
+        creatorDenylist: denylist,
+        minInitialBuySol: minBuy,
+        maxInitialBuySol: maxBuy,
+        requireSocials: requireSocials === true,
+        maxDevHoldingPct: maxDevHolding,
+        buyAmount,
+        slippageBps: slippage,
+        budget,
+        dailyCap: dailyCap || null,
+      },
+    });
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error("Create snipe rule error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create snipe rule" },
+      { status: 500 }
+    );
+  }
+}
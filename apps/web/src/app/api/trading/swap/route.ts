@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { getJupiterService, JupiterQuote } from "@/lib/jupiter";
+import { getJupiterService, JupiterQuote, SOL_MINT } from "@/lib/jupiter";
 import { decryptPrivateKey } from "@/lib/wallet";
 import { config } from "@/lib/config";
+import { resolveWallet } from "@/lib/wallets";
+import { getCachedSolPrice } from "@/lib/price-updater";
+import { getTradingPreset, toExecutionSettings } from "@/lib/trading-presets";
 import bs58 from "bs58";
 
 // POST /api/trading/swap
+// Pass simulate: true to build and simulate the transaction without sending it or recording a trade
+// Fees, tip and send route come from the user's trading preset (presetSlot, or the active one);
+// the preset's slippage applies when slippageBps isn't given
 export async function POST(req: NextRequest) {
   let secretKey: Uint8Array | null = null;
 
@@ -21,7 +27,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { inputMint, outputMint, amount, slippageBps, inputSymbol, outputSymbol } = body;
+    const { inputMint, outputMint, amount, slippageBps, inputSymbol, outputSymbol, simulate, walletId, presetSlot } = body;
 
     if (!inputMint || !outputMint || !amount) {
       return NextResponse.json(
@@ -30,27 +36,50 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get user with wallet
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        id: true,
-        walletAddress: true,
-        walletEncrypted: true,
-      },
-    });
+    // Wallet to trade from (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
 
-    if (!user?.walletAddress || !user?.walletEncrypted) {
+    if (!wallet) {
       return NextResponse.json(
         { error: "No wallet found. Please set up your wallet first." },
         { status: 400 }
       );
     }
 
+    const preset = await getTradingPreset(session.user.id, presetSlot);
+    const execution = toExecutionSettings(preset);
+    const slippage = slippageBps || preset.slippageBps;
+
+    if (simulate === true) {
+      const jupiter = getJupiterService();
+      const quote = await jupiter.getQuote({
+        inputMint,
+        outputMint,
+        amount,
+        slippageBps: slippage,
+      });
+      const transaction = await jupiter.getSwapTransaction(quote, wallet.address, execution);
+
+      secretKey = bs58.decode(decryptPrivateKey(wallet.encryptedKey, config.authSecret));
+      const tokenMint = outputMint === SOL_MINT ? inputMint : outputMint;
+      const simulation = await jupiter.simulateSwap(transaction, secretKey, tokenMint, execution);
+
+      return NextResponse.json({
+        success: simulation.success,
+        simulated: true,
+        inputAmount: quote.inAmount,
+        outputAmount: quote.outAmount,
+        outputAmountMin: quote.otherAmountThreshold,
+        priceImpactPct: parseFloat(quote.priceImpactPct),
+        simulation,
+      });
+    }
+
     // Create pending trade record
     const trade = await prisma.trade.create({
       data: {
-        userId: user.id,
+        userId: session.user.id,
+        walletId: wallet.id,
         inputMint,
         inputSymbol: inputSymbol || "UNKNOWN",
         outputMint,
@@ -59,6 +88,7 @@ export async function POST(req: NextRequest) {
         amountOut: "0",
         amountOutMin: "0",
         status: "PENDING",
+        solPriceUsd: await getCachedSolPrice(), // For USD cost basis / tax reporting
       },
     });
 
@@ -70,7 +100,7 @@ export async function POST(req: NextRequest) {
         inputMint,
         outputMint,
         amount,
-        slippageBps: slippageBps || 50,
+        slippageBps: slippage,
       });
 
       // Update trade with quote details
@@ -86,12 +116,13 @@ export async function POST(req: NextRequest) {
       // Get swap transaction
       const transaction = await jupiter.getSwapTransaction(
         quote as JupiterQuote,
-        user.walletAddress
+        wallet.address,
+        execution
       );
 
       // Decrypt private key
       const privateKeyBase58 = decryptPrivateKey(
-        user.walletEncrypted,
+        wallet.encryptedKey,
         config.authSecret
       );
       secretKey = bs58.decode(privateKeyBase58);
@@ -103,7 +134,7 @@ export async function POST(req: NextRequest) {
       });
 
       // Execute swap
-      const signature = await jupiter.executeSwap(transaction, secretKey);
+      const signature = await jupiter.executeSwap(transaction, secretKey, execution);
 
       // Update trade with success
       await prisma.trade.update({
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
 import { decryptPrivateKey, isValidPublicKey } from "@/lib/wallet";
 import { config } from "@/lib/config";
 import {
@@ -17,6 +16,8 @@ import {
   getAccount,
   TOKEN_PROGRAM_ID,
 } from "@solana/spl-token";
+import { resolveWallet } from "@/lib/wallets";
+import { recordWithdrawal } from "@/lib/wallet-ledger";
 import bs58 from "bs58";
 
 // POST /api/trading/withdraw
@@ -34,7 +35,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { destinationAddress, amount, tokenMint } = body;
+    const { destinationAddress, amount, tokenMint, walletId } = body;
 
     if (!destinationAddress || !amount) {
       return NextResponse.json(
@@ -60,16 +61,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get user wallet
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        walletAddress: true,
-        walletEncrypted: true,
-      },
-    });
+    // Wallet to withdraw from (primary unless walletId is given)
+    const wallet = await resolveWallet(session.user.id, walletId);
 
-    if (!user?.walletAddress || !user?.walletEncrypted) {
+    if (!wallet) {
       return NextResponse.json(
         { error: "No wallet found" },
         { status: 400 }
@@ -77,7 +72,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Prevent sending to self
-    if (destinationAddress === user.walletAddress) {
+    if (destinationAddress === wallet.address) {
       return NextResponse.json(
         { error: "Cannot withdraw to your own wallet" },
         { status: 400 }
@@ -85,18 +80,19 @@ export async function POST(req: NextRequest) {
     }
 
     const connection = new Connection(config.solanaRpcUrl, "confirmed");
-    const fromPubkey = new PublicKey(user.walletAddress);
+    const fromPubkey = new PublicKey(wallet.address);
     const toPubkey = new PublicKey(destinationAddress);
 
     // Decrypt private key
     const privateKeyBase58 = decryptPrivateKey(
-      user.walletEncrypted,
+      wallet.encryptedKey,
       config.authSecret
     );
     secretKey = bs58.decode(privateKeyBase58);
     const signer = Keypair.fromSecretKey(secretKey);
 
     let signature: string;
+    let withdrawn: { mint: string; amount: bigint; decimals: number };
 
     if (!tokenMint || tokenMint === "So11111111111111111111111111111111111111112") {
       // SOL transfer
@@ -130,6 +126,7 @@ export async function POST(req: NextRequest) {
 
       transaction.sign(signer);
       signature = await connection.sendRawTransaction(transaction.serialize());
+      withdrawn = { mint: "So11111111111111111111111111111111111111112", amount: BigInt(lamports), decimals: 9 };
     } else {
       // SPL token transfer
       const mintPubkey = new PublicKey(tokenMint);
@@ -178,6 +175,7 @@ export async function POST(req: NextRequest) {
 
       transaction.sign(signer);
       signature = await connection.sendRawTransaction(transaction.serialize());
+      withdrawn = { mint: tokenMint, amount: tokenAmount, decimals };
     }
 
     // Don't wait for full confirmation - just verify it was accepted
@@ -188,6 +186,11 @@ export async function POST(req: NextRequest) {
         connection.confirmTransaction(signature, "processed"),
         new Promise((_, reject) => setTimeout(() => reject(new Error("timeout")), 10000))
       ]);
+
+      // Accepted - put it on the wallet ledger now (unconfirmed ones are picked up by the next sync)
+      await recordWithdrawal(wallet, { signature, ...withdrawn, destination: destinationAddress }).catch((e) =>
+        console.error(`[withdraw] Failed to record ledger entry for ${signature}:`, e)
+      );
     } catch (e) {
       // Even if confirmation times out, transaction was sent successfully
       // User can check Solscan for final status
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { PROFILE_VISIBILITY_FIELDS, type ProfileVisibilityField } from "@/lib/trader-profile";
 
 // GET /api/users/profile - Get current user's profile
 export async function GET() {
@@ -24,6 +25,15 @@ export async function GET() {
         bio: true,
         image: true,
         walletAddress: true,
+        publicProfile: true,
+        showWinRate: true,
+        showRealizedPnl: true,
+        showBestTrade: true,
+        showRecentPositions: true,
+        showTradeActivity: true,
+        showTradeLinks: true,
+        leaderboardOptIn: true,
+        leaderboardFriendsOptIn: true,
         createdAt: true,
       },
     });
@@ -63,7 +73,7 @@ async function updateProfile(request: Request) {
     }
 
     const body = await request.json();
-    const { username, name, bio } = body;
+    const { username, name, bio, publicProfile, leaderboardOptIn, leaderboardFriendsOptIn } = body;
 
     // Validate username if provided
     if (username !== undefined) {
@@ -96,8 +106,40 @@ async function updateProfile(request: Request) {
       }
     }
 
+    // Public profile / leaderboard toggles must be booleans
+    for (const field of ["publicProfile", "leaderboardOptIn", "leaderboardFriendsOptIn", ...PROFILE_VISIBILITY_FIELDS]) {
+      if (body[field] !== undefined && typeof body[field] !== "boolean") {
+        return NextResponse.json(
+          { error: `${field} must be a boolean` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The public profile lives at /u/[username], so it needs one
+    if (publicProfile === true) {
+      const current = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { username: true },
+      });
+      const nextUsername = username !== undefined ? username : current?.username;
+      if (!nextUsername) {
+        return NextResponse.json(
+          { error: "Set a username before making your profile public" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Build update data
-    const updateData: { username?: string | null; name?: string; bio?: string | null } = {};
+    const updateData: {
+      username?: string | null;
+      name?: string;
+      bio?: string | null;
+      publicProfile?: boolean;
+      leaderboardOptIn?: boolean;
+      leaderboardFriendsOptIn?: boolean;
+    } & Partial<Record<ProfileVisibilityField, boolean>> = {};
 
     if (username !== undefined) {
       updateData.username = username === "" ? null : username;
@@ -108,6 +150,20 @@ async function updateProfile(request: Request) {
     if (bio !== undefined) {
       updateData.bio = bio === "" ? null : bio;
     }
+    if (publicProfile !== undefined) {
+      updateData.publicProfile = publicProfile;
+    }
+    if (leaderboardOptIn !== undefined) {
+      updateData.leaderboardOptIn = leaderboardOptIn;
+    }
+    if (leaderboardFriendsOptIn !== undefined) {
+      updateData.leaderboardFriendsOptIn = leaderboardFriendsOptIn;
+    }
+    for (const field of PROFILE_VISIBILITY_FIELDS) {
+      if (body[field] !== undefined) {
+        updateData[field] = body[field];
+      }
+    }
 
     const user = await prisma.user.update({
       where: { id: session.user.id },
@@ -120,6 +176,15 @@ async function updateProfile(request: Request) {
         bio: true,
         image: true,
         walletAddress: true,
+        publicProfile: true,
+        showWinRate: true,
+        showRealizedPnl: true,
+        showBestTrade: true,
+        showRecentPositions: true,
+        showTradeActivity: true,
+        showTradeLinks: true,
+        leaderboardOptIn: true,
+        leaderboardFriendsOptIn: true,
         createdAt: true,
       },
     });
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPublicTraderProfile } from "@/lib/trader-profile";
+
+// GET /api/users/public/[username] - Public trader profile (no auth - only opted-in profiles are returned)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const { username } = await params;
+
+    if (!/^[a-zA-Z]{1,9}$/.test(username)) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const profile = await getPublicTraderProfile(username);
+
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error("[public-profile] GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to get profile" },
+      { status: 500 }
+    );
+  }
+}
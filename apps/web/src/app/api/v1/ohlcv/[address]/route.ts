@@ -16,6 +16,9 @@ const CU_COSTS = {
 // Valid timeframes to prevent injection
 const VALID_TIMEFRAMES = new Set(["1m", "5m", "15m", "1h", "4h", "1d"]);
 
+// Valid candle series (mcap = OHLC scaled by token supply)
+const VALID_SERIES = new Set(["price", "mcap"]);
+
 // Solana address validation (base58, 32-44 chars)
 const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
 
@@ -215,6 +218,14 @@ export async function GET(
     const limitParam = parseInt(req.nextUrl.searchParams.get("limit") || "100", 10);
     const limit = Number.isNaN(limitParam) ? 100 : Math.max(1, Math.min(limitParam, 1000));
 
+    const seriesParam = req.nextUrl.searchParams.get("series") || "price";
+    if (!VALID_SERIES.has(seriesParam)) {
+      return NextResponse.json(
+        { error: "Invalid series", validSeries: Array.from(VALID_SERIES) },
+        { status: 400 }
+      );
+    }
+
     const fromParam = req.nextUrl.searchParams.get("from");
     const toParam = req.nextUrl.searchParams.get("to");
 
@@ -226,6 +237,7 @@ export async function GET(
     const queryParams = new URLSearchParams({
       timeframe,
       limit: limit.toString(),
+      series: seriesParam,
     });
     if (from) queryParams.set("from", from);
     if (to) queryParams.set("to", to);
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getWalletDependents } from "@/lib/wallets";
+
+const MAX_LABEL_LENGTH = 32;
+
+const DEPENDENT_LABELS = {
+  limitOrders: "limit orders",
+  positionRules: "exit rules",
+  scheduledOrders: "DCA/TWAP orders",
+  snipeRules: "enabled snipe rules",
+  copyFollows: "mirrored copy follows",
+} as const;
+
+// PATCH /api/wallet/:id - Rename, archive or unarchive a wallet
+// Body: { label?, archived? }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { label, archived } = await req.json();
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, isPrimary: true },
+    });
+
+    if (!wallet) {
+      return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+    }
+
+    const data: { label?: string; archivedAt?: Date | null } = {};
+
+    if (label !== undefined) {
+      const trimmedLabel = typeof label === "string" ? label.trim() : "";
+      if (!trimmedLabel || trimmedLabel.length > MAX_LABEL_LENGTH) {
+        return NextResponse.json(
+          { error: `label must be 1-${MAX_LABEL_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      data.label = trimmedLabel;
+    }
+
+    if (archived !== undefined) {
+      // The primary wallet backs sign-in and deposits - it can't be archived
+      if (archived && wallet.isPrimary) {
+        return NextResponse.json({ error: "The primary wallet can't be archived" }, { status: 400 });
+      }
+
+      // Orders and rules on an archived wallet could never execute - they have to go first
+      if (archived) {
+        const dependents = await getWalletDependents(id);
+        const active = (Object.keys(DEPENDENT_LABELS) as (keyof typeof DEPENDENT_LABELS)[])
+          .filter((key) => dependents[key] > 0)
+          .map((key) => `${dependents[key]} ${DEPENDENT_LABELS[key]}`);
+        if (active.length > 0) {
+          return NextResponse.json(
+            { error: `This wallet still has ${active.join(", ")} - cancel them before archiving`, dependents },
+            { status: 409 }
+          );
+        }
+      }
+      data.archivedAt = archived ? new Date() : null;
+    }
+
+    const updated = await prisma.wallet.update({
+      where: { id },
+      data,
+      select: {
+        id: true,
+        label: true,
+        address: true,
+        isPrimary: true,
+        imported: true,
+        archivedAt: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json({ success: true, wallet: updated });
+  } catch (error) {
+    console.error("Update wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update wallet" },
+      { status: 500 }
+    );
+  }
+}
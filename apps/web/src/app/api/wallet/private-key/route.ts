@@ -1,13 +1,14 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { decryptPrivateKey } from "@/lib/wallet";
 import { config } from "@/lib/config";
+import { resolveWallet } from "@/lib/wallets";
 
-// GET /api/wallet/private-key
-// Returns the user's private key (base58 encoded)
+// GET /api/wallet/private-key?walletId= (defaults to the primary wallet)
+// Returns the wallet's private key (base58 encoded)
 // SECURITY: This is a highly sensitive endpoint
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
     // Check encryption key is configured
     if (!config.authSecret) {
@@ -32,18 +33,17 @@ export async function GET() {
       );
     }
 
-    // Get user with encrypted wallet and 2FA status
+    // Get user 2FA status and the requested wallet
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
       select: {
         id: true,
-        walletAddress: true,
-        walletEncrypted: true,
         twoFactorEnabled: true,
       },
     });
+    const wallet = await resolveWallet(session.user.id, req.nextUrl.searchParams.get("walletId"));
 
-    if (!user?.walletAddress || !user?.walletEncrypted) {
+    if (!user || !wallet) {
       return NextResponse.json(
         { error: "No wallet found for this account" },
         { status: 404 }
@@ -56,7 +56,7 @@ export async function GET() {
     }
 
     // Validate encrypted data format (should be iv:authTag:encrypted)
-    const parts = user.walletEncrypted.split(":");
+    const parts = wallet.encryptedKey.split(":");
     if (parts.length !== 3) {
       console.error(`[private-key] Invalid encrypted format for user ${user.id}: expected 3 parts, got ${parts.length}`);
       return NextResponse.json(
@@ -67,15 +67,16 @@ export async function GET() {
 
     // Decrypt private key
     const privateKey = decryptPrivateKey(
-      user.walletEncrypted,
+      wallet.encryptedKey,
       config.authSecret
     );
 
     // Audit log (without logging the actual key)
-    console.log(`[private-key] User ${user.id} retrieved their private key`);
+    console.log(`[private-key] User ${user.id} retrieved the private key of wallet ${wallet.id}`);
 
     return NextResponse.json({
-      walletAddress: user.walletAddress,
+      walletId: wallet.id,
+      walletAddress: wallet.address,
       privateKey,
     });
   } catch (error) {
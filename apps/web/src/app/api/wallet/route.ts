@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { config } from "@/lib/config";
+import { encryptPrivateKey, generateWalletForUser, restoreWalletFromSecret } from "@/lib/wallet";
+import { getUserWallets, MAX_WALLETS_PER_USER } from "@/lib/wallets";
+
+const MAX_LABEL_LENGTH = 32;
+
+// Never send encrypted keys to the client
+const walletSelect = {
+  id: true,
+  label: true,
+  address: true,
+  isPrimary: true,
+  imported: true,
+  archivedAt: true,
+  createdAt: true,
+} as const;
+
+// GET /api/wallet - List the user's wallets (?archived=true to include archived)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const includeArchived = req.nextUrl.searchParams.get("archived") === "true";
+    const wallets = await getUserWallets(session.user.id, includeArchived);
+
+    return NextResponse.json({
+      wallets: wallets.map((wallet) => ({
+        id: wallet.id,
+        label: wallet.label,
+        address: wallet.address,
+        isPrimary: wallet.isPrimary,
+        imported: wallet.imported,
+        archivedAt: wallet.archivedAt,
+        createdAt: wallet.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Wallets error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get wallets" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/wallet - Create a new wallet, or import one from a base58 secret key
+// Body: { label, secretKey? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { label, secretKey } = await req.json();
+
+    const trimmedLabel = typeof label === "string" ? label.trim() : "";
+    if (!trimmedLabel || trimmedLabel.length > MAX_LABEL_LENGTH) {
+      return NextResponse.json(
+        { error: `label is required (max ${MAX_LABEL_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getUserWallets(session.user.id, true);
+    if (existing.length >= MAX_WALLETS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_WALLETS_PER_USER} wallets` },
+        { status: 400 }
+      );
+    }
+
+    let address: string;
+    let encryptedKey: string;
+
+    if (secretKey !== undefined && secretKey !== null && secretKey !== "") {
+      let restored;
+      try {
+        restored = restoreWalletFromSecret(String(secretKey).trim());
+      } catch {
+        return NextResponse.json({ error: "Invalid secret key" }, { status: 400 });
+      }
+
+      const taken = await prisma.wallet.findUnique({ where: { address: restored.publicKey } });
+      if (taken) {
+        return NextResponse.json({ error: "This wallet is already registered" }, { status: 409 });
+      }
+
+      address = restored.publicKey;
+      encryptedKey = encryptPrivateKey(restored.secretKey, config.authSecret);
+    } else {
+      const generated = generateWalletForUser(config.authSecret);
+      address = generated.publicKey;
+      encryptedKey = generated.encryptedPrivateKey;
+    }
+
+    const wallet = await prisma.wallet.create({
+      data: {
+        userId: session.user.id,
+        label: trimmedLabel,
+        address,
+        encryptedKey,
+        imported: !!secretKey,
+      },
+      select: walletSelect,
+    });
+
+    console.log(`[wallet] User ${session.user.id} ${wallet.imported ? "imported" : "created"} wallet ${wallet.id}`);
+
+    return NextResponse.json({ success: true, wallet });
+  } catch (error) {
+    console.error("Create wallet error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create wallet" },
+      { status: 500 }
+    );
+  }
+}
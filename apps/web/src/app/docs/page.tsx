@@ -216,6 +216,7 @@ export default function DocsPage() {
                     <li><code className="text-[#FF6B4A]">address</code> — Token mint address (required)</li>
                     <li><code className="text-[#FF6B4A]">timeframe</code> — 1m, 5m, 15m, 1h, 4h, 1d (default: 1h)</li>
                     <li><code className="text-[#FF6B4A]">limit</code> — Number of candles (default: 100, max: 1000)</li>
+                    <li><code className="text-[#FF6B4A]">series</code> — price or mcap (market cap = OHLC × token supply, default: price)</li>
                   </ul>
                 </div>
 
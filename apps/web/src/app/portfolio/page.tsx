@@ -6,7 +6,11 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Header } from "@/components/layout/Header";
 import { useThemeStore } from "@/stores/themeStore";
+import { useWalletStore } from "@/stores/walletStore";
 import { useToast } from "@/components/ui/Toast";
+import { formatRulePrice } from "@/components/trading/PositionRules";
+import { WalletSelector } from "@/components/trading/WalletSelector";
+import { EquityCurve } from "@/components/charts/EquityCurve";
 import {
   Loader2,
   History,
@@ -15,6 +19,7 @@ import {
   ChevronRight,
   Calendar,
   TrendingUp,
+  LineChart,
   Share2,
   X,
   Download,
@@ -41,6 +46,8 @@ interface Position {
   avgSellPrice: number;
   totalBuyCost: number;
   totalSellRevenue: number;
+  transferredIn: number; // Deposited or airdropped tokens
+  transferredOut: number; // Withdrawn tokens
   currentBalance: number;
   realizedPnl: number;
   unrealizedPnl: number;
@@ -71,6 +78,23 @@ interface PnLResponse {
   closedPositions: Position[];
 }
 
+interface PositionRule {
+  id: string;
+  tokenMint: string;
+  walletId: string | null;
+  type: "STOP_LOSS" | "TAKE_PROFIT" | "TRAILING_STOP";
+  triggerPriceUsd: number | null;
+  triggeredPrice: number | null;
+  status: string;
+  errorMessage: string | null;
+}
+
+const RULE_LABELS: Record<PositionRule["type"], string> = {
+  STOP_LOSS: "SL",
+  TAKE_PROFIT: "TP",
+  TRAILING_STOP: "Trail",
+};
+
 interface BalanceResponse {
   walletAddress: string;
   sol: {
@@ -92,26 +116,34 @@ interface BalanceResponse {
   totalValueUsd: number | null;
 }
 
-type ViewMode = "chart" | "calendar";
+type ViewMode = "chart" | "equity" | "calendar";
 type Period = "1d" | "7d" | "30d" | "all";
 type PositionFilter = "active" | "closed" | "all";
 type CurrencyMode = "usd" | "sol";
+type CostBasisMethod = "FIFO" | "LIFO" | "AVERAGE";
+
+const FIRST_TAX_YEAR = 2024;
 
 export default function PortfolioPage() {
   const { isDark } = useThemeStore();
   const { status } = useSession();
   const router = useRouter();
   const { showToast } = useToast();
+  // Balances, PnL and rules are shown for the wallet selected for trading
+  const { wallets, activeWalletId } = useWalletStore();
 
   const [pnlData, setPnlData] = useState<PnLResponse | null>(null);
   const [balance, setBalance] = useState<BalanceResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [balanceLoading, setBalanceLoading] = useState(true);
+  const [positionRules, setPositionRules] = useState<PositionRule[]>([]);
 
   const [viewMode, setViewMode] = useState<ViewMode>("chart");
   const [period, setPeriod] = useState<Period>("30d");
   const [positionFilter, setPositionFilter] = useState<PositionFilter>("all");
   const [currencyMode, setCurrencyMode] = useState<CurrencyMode>("usd");
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>("FIFO");
+  const [taxYear, setTaxYear] = useState(new Date().getFullYear());
 
   // Calendar state
   const [calendarYear, setCalendarYear] = useState(new Date().getFullYear());
@@ -147,9 +179,10 @@ export default function PortfolioPage() {
     try {
       setLoading(true);
       const periodParam = viewMode === "calendar" ? "calendar" : period;
+      const walletQuery = (activeWalletId ? `&walletId=${activeWalletId}` : "") + `&method=${costBasisMethod}`;
       const url = viewMode === "calendar"
-        ? `/api/trading/pnl?period=calendar&year=${calendarYear}&month=${calendarMonth}`
-        : `/api/trading/pnl?period=${periodParam}`;
+        ? `/api/trading/pnl?period=calendar&year=${calendarYear}&month=${calendarMonth}${walletQuery}`
+        : `/api/trading/pnl?period=${periodParam}${walletQuery}`;
 
       const res = await fetch(url, { cache: 'no-store' });
       if (res.ok) {
@@ -173,7 +206,8 @@ export default function PortfolioPage() {
       if (!isRefresh) {
         setBalanceLoading(true);
       }
-      const res = await fetch("/api/trading/balance");
+      const query = activeWalletId ? `?walletId=${activeWalletId}` : "";
+      const res = await fetch(`/api/trading/balance${query}`);
       if (res.ok) {
         const data = await res.json();
         setBalance(data);
@@ -187,15 +221,38 @@ export default function PortfolioPage() {
     }
   };
 
+  // Fetch stop-loss / take-profit rules (newest first, all statuses)
+  const fetchPositionRules = async () => {
+    try {
+      const res = await fetch("/api/trading/position-rules?limit=100");
+      if (res.ok) {
+        const data = await res.json();
+        setPositionRules(data.rules || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch position rules:", err);
+    }
+  };
+
   useEffect(() => {
     if (status === "authenticated") {
       fetchPnL();
       fetchBalance(false); // Initial fetch with loading state
+      fetchPositionRules();
       // Auto-refresh balance every 30 seconds (user can click refresh for instant update)
-      const interval = setInterval(() => fetchBalance(true), 30000);
+      const interval = setInterval(() => {
+        fetchBalance(true);
+        fetchPositionRules();
+      }, 30000);
       return () => clearInterval(interval);
     }
-  }, [status, period, viewMode, calendarYear, calendarMonth]);
+  }, [status, period, viewMode, calendarYear, calendarMonth, activeWalletId, costBasisMethod]);
+
+  // Capital-gains CSV for the selected tax year, using the selected cost basis method
+  const downloadTaxCsv = () => {
+    const walletQuery = activeWalletId ? `&walletId=${activeWalletId}` : "";
+    window.location.href = `/api/trading/pnl/export?year=${taxYear}&method=${costBasisMethod}${walletQuery}`;
+  };
 
   // Only include days with actual trades (no empty days)
   const chartData = useMemo(() => {
@@ -214,6 +271,24 @@ export default function PortfolioPage() {
     return max || 0.0001; // Small default for when all values are 0
   }, [chartData]);
 
+  // Active rules per mint, or the most recent fired rule when none are active
+  const rulesByMint = useMemo(() => {
+    const map = new Map<string, PositionRule[]>();
+    // Rules set before multi-wallet have no walletId and belong to the primary wallet
+    const primaryId = wallets.find((w) => w.isPrimary)?.id;
+    for (const rule of positionRules) {
+      if (activeWalletId && (rule.walletId ?? primaryId) !== activeWalletId) continue;
+      const list = map.get(rule.tokenMint);
+      if (rule.status === "ACTIVE") {
+        const active = (list || []).filter((r) => r.status === "ACTIVE");
+        map.set(rule.tokenMint, [...active, rule]);
+      } else if (!list && rule.status !== "CANCELLED") {
+        map.set(rule.tokenMint, [rule]);
+      }
+    }
+    return map;
+  }, [positionRules, wallets, activeWalletId]);
+
   // Total portfolio value from balance API (includes SOL + all tokens)
   const totalPortfolioValueUsd = balance?.totalValueUsd ?? null;
 
@@ -323,6 +398,7 @@ export default function PortfolioPage() {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <WalletSelector />
             <button
               onClick={() => { fetchPnL(); fetchBalance(); }}
               className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${
@@ -401,6 +477,17 @@ export default function PortfolioPage() {
                 >
                   <TrendingUp className="h-4 w-4" />
                 </button>
+                <button
+                  onClick={() => setViewMode("equity")}
+                  title="Portfolio value"
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                    viewMode === "equity"
+                      ? 'bg-[#FF6B4A] text-white'
+                      : isDark ? 'bg-white/5 text-white/60 hover:bg-white/10' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  <LineChart className="h-4 w-4" />
+                </button>
                 <button
                   onClick={() => setViewMode("calendar")}
                   className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
@@ -413,8 +500,8 @@ export default function PortfolioPage() {
                 </button>
               </div>
 
-              {viewMode === "chart" && (
-                /* Period selector for chart view */
+              {viewMode !== "calendar" && (
+                /* Period selector for chart and equity views */
                 <div className="flex items-center gap-1">
                   {(["1d", "7d", "30d", "all"] as Period[]).map((p) => (
                     <button
@@ -489,12 +576,46 @@ export default function PortfolioPage() {
                 <Share2 className="h-4 w-4" />
                 <span className="text-sm font-medium">Share</span>
               </button>
+
+              {/* Cost basis method + tax export */}
+              <div className="flex items-center gap-1">
+                <select
+                  value={costBasisMethod}
+                  onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+                  title="Cost basis method"
+                  className={`px-2 py-1.5 rounded-lg text-sm border outline-none ${isDark ? 'bg-white/5 border-white/10 text-white/80' : 'bg-gray-50 border-gray-200 text-gray-700'}`}
+                >
+                  <option value="FIFO">FIFO</option>
+                  <option value="LIFO">LIFO</option>
+                  <option value="AVERAGE">Avg cost</option>
+                </select>
+                <select
+                  value={taxYear}
+                  onChange={(e) => setTaxYear(parseInt(e.target.value))}
+                  title="Tax year"
+                  className={`px-2 py-1.5 rounded-lg text-sm border outline-none ${isDark ? 'bg-white/5 border-white/10 text-white/80' : 'bg-gray-50 border-gray-200 text-gray-700'}`}
+                >
+                  {Array.from({ length: new Date().getFullYear() - FIRST_TAX_YEAR + 1 }, (_, i) => new Date().getFullYear() - i).map((y) => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={downloadTaxCsv}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors ${isDark ? 'bg-white/5 text-white/60 hover:bg-white/10' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                  title="Download capital gains CSV"
+                >
+                  <Download className="h-4 w-4" />
+                  <span className="text-sm font-medium">Tax CSV</span>
+                </button>
+              </div>
             </div>
           </div>
 
           {/* Content */}
           <div className="p-4">
-            {loading ? (
+            {viewMode === "equity" ? (
+              <EquityCurve period={period} walletId={activeWalletId} currency={currencyMode} />
+            ) : loading ? (
               <div className="flex items-center justify-center py-16">
                 <Loader2 className="h-6 w-6 animate-spin text-[#FF6B4A]" />
               </div>
@@ -905,6 +1026,7 @@ export default function PortfolioPage() {
                     <th className="text-right px-4 py-3 font-medium">Avg Buy</th>
                     <th className="text-right px-4 py-3 font-medium">Balance</th>
                     <th className="text-right px-4 py-3 font-medium">Realized PnL</th>
+                    <th className="text-right px-4 py-3 font-medium">Exit Rules</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-white/5">
@@ -949,6 +1071,11 @@ export default function PortfolioPage() {
                         <p className={`text-xs ${isDark ? 'text-white/40' : 'text-gray-500'}`}>
                           {formatSOL(pos.totalBuyCost)} SOL
                         </p>
+                        {pos.transferredIn > 0 && (
+                          <p className={`text-xs ${isDark ? 'text-white/40' : 'text-gray-500'}`}>
+                            +{pos.transferredIn.toLocaleString(undefined, { maximumFractionDigits: 2 })} received
+                          </p>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-right">
                         <p className={`text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
@@ -957,6 +1084,11 @@ export default function PortfolioPage() {
                         <p className={`text-xs ${isDark ? 'text-white/40' : 'text-gray-500'}`}>
                           {formatSOL(pos.totalSellRevenue)} SOL
                         </p>
+                        {pos.transferredOut > 0 && (
+                          <p className={`text-xs ${isDark ? 'text-white/40' : 'text-gray-500'}`}>
+                            -{pos.transferredOut.toLocaleString(undefined, { maximumFractionDigits: 2 })} withdrawn
+                          </p>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-right">
                         <p className={`text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
@@ -979,6 +1111,27 @@ export default function PortfolioPage() {
                           {pos.trades} trades
                         </p>
                       </td>
+                      <td className="px-4 py-3 text-right">
+                        {(rulesByMint.get(pos.mint) || []).map((rule) => (
+                          <p
+                            key={rule.id}
+                            className={`text-xs ${
+                              rule.status === "ACTIVE"
+                                ? isDark ? 'text-white/70' : 'text-gray-700'
+                                : rule.status === "FILLED" ? 'text-green-400' : 'text-red-400'
+                            }`}
+                            title={rule.errorMessage || undefined}
+                          >
+                            {RULE_LABELS[rule.type]}{" "}
+                            {rule.status === "ACTIVE"
+                              ? rule.triggerPriceUsd ? `@ ${formatRulePrice(rule.triggerPriceUsd)}` : ""
+                              : `${rule.status.toLowerCase()}${rule.triggeredPrice ? ` @ ${formatRulePrice(rule.triggeredPrice)}` : ""}`}
+                          </p>
+                        ))}
+                        {!rulesByMint.has(pos.mint) && (
+                          <p className={`text-xs ${isDark ? 'text-white/30' : 'text-gray-400'}`}>-</p>
+                        )}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
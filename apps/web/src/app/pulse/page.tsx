@@ -4,13 +4,20 @@ import { useEffect, useCallback, useRef, useState, useMemo } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { Activity, RefreshCw, Copy, Search } from "lucide-react";
+import { Activity, RefreshCw, Copy, Search, Crosshair, Users, Eye } from "lucide-react";
+import { useSession } from "next-auth/react";
 import { useThemeStore } from "@/stores/themeStore";
 import { formatNumber, formatPercent, shortenAddress, cn } from "@/lib/utils";
 import { usePulseStore, type PulseToken } from "@/stores/pulseStore";
+import { SnipeRules } from "@/components/trading/SnipeRules";
+import { CopyTrading } from "@/components/trading/CopyTrading";
+import { WalletTracker } from "@/components/trading/WalletTracker";
+import { useTrackerFeed } from "@/hooks/useTrackerFeed";
+import { useToast } from "@/components/ui/Toast";
 
 // Pump.fun tokens have 1 billion supply
 const PUMP_FUN_SUPPLY = 1_000_000_000;
+const SOL_MINT = "So11111111111111111111111111111111111111112";
 
 // Format market cap for display
 function formatMC(value: number): string {
@@ -188,6 +195,19 @@ export default function PulsePage() {
 
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isSnipeOpen, setIsSnipeOpen] = useState(false);
+  const [isCopyOpen, setIsCopyOpen] = useState(false);
+  const [isTrackerOpen, setIsTrackerOpen] = useState(false);
+  const { status } = useSession();
+  const { showToast } = useToast();
+
+  // Tracked wallet trades - toast the ones the user wants notifications for
+  useTrackerFeed((trade) => {
+    if (!trade.notify) return;
+    const who = `${trade.emoji ? `${trade.emoji} ` : ""}${trade.label}`;
+    const size = trade.quoteMint === SOL_MINT ? `${formatNumber(trade.quoteAmount, 3)} SOL of ` : "";
+    showToast(`${who} ${trade.side === "buy" ? "bought" : "sold"} ${size}${shortenAddress(trade.tokenMint)}`, "info");
+  });
   const [searchValue, setSearchValue] = useState("");
   const [searchHistory, setSearchHistory] = useState<PulseToken[]>([]);
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -365,21 +385,72 @@ export default function PulsePage() {
           </div>
         </div>
 
-        {/* Search Button - icon only on mobile */}
-        <button
-          onClick={openSearch}
-          className={`flex items-center gap-2 border px-2 md:px-3 py-2 text-sm transition-all hover:border-[#FF6B4A]/30 ${
-            isDark
-              ? 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'
-              : 'bg-black/5 border-black/10 text-gray-500 hover:bg-black/10'
-          }`}
-        >
-          <Search className="h-4 w-4" />
-          <span className="hidden md:inline">Search by name, ticker, or CA...</span>
-          <kbd className={`hidden md:inline ml-2 px-1.5 py-0.5 text-xs ${isDark ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400'}`}>Esc</kbd>
-        </button>
+        <div className="flex items-center gap-2">
+          {/* Auto-snipe rules */}
+          {status === "authenticated" && (
+            <button
+              onClick={() => setIsSnipeOpen(true)}
+              className={`flex items-center gap-2 border px-2 md:px-3 py-2 text-sm transition-all hover:border-[#FF6B4A]/30 ${
+                isDark
+                  ? 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'
+                  : 'bg-black/5 border-black/10 text-gray-500 hover:bg-black/10'
+              }`}
+            >
+              <Crosshair className="h-4 w-4" />
+              <span className="hidden md:inline">Auto-snipe</span>
+            </button>
+          )}
+
+          {/* Copy trading */}
+          {status === "authenticated" && (
+            <button
+              onClick={() => setIsCopyOpen(true)}
+              className={`flex items-center gap-2 border px-2 md:px-3 py-2 text-sm transition-all hover:border-[#FF6B4A]/30 ${
+                isDark
+                  ? 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'
+                  : 'bg-black/5 border-black/10 text-gray-500 hover:bg-black/10'
+              }`}
+            >
+              <Users className="h-4 w-4" />
+              <span className="hidden md:inline">Copy trade</span>
+            </button>
+          )}
+
+          {/* Wallet tracker */}
+          {status === "authenticated" && (
+            <button
+              onClick={() => setIsTrackerOpen(true)}
+              className={`flex items-center gap-2 border px-2 md:px-3 py-2 text-sm transition-all hover:border-[#FF6B4A]/30 ${
+                isDark
+                  ? 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'
+                  : 'bg-black/5 border-black/10 text-gray-500 hover:bg-black/10'
+              }`}
+            >
+              <Eye className="h-4 w-4" />
+              <span className="hidden md:inline">Tracker</span>
+            </button>
+          )}
+
+          {/* Search Button - icon only on mobile */}
+          <button
+            onClick={openSearch}
+            className={`flex items-center gap-2 border px-2 md:px-3 py-2 text-sm transition-all hover:border-[#FF6B4A]/30 ${
+              isDark
+                ? 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'
+                : 'bg-black/5 border-black/10 text-gray-500 hover:bg-black/10'
+            }`}
+          >
+            <Search className="h-4 w-4" />
+            <span className="hidden md:inline">Search by name, ticker, or CA...</span>
+            <kbd className={`hidden md:inline ml-2 px-1.5 py-0.5 text-xs ${isDark ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400'}`}>Esc</kbd>
+          </button>
+        </div>
       </div>
 
+      {isSnipeOpen && <SnipeRules onClose={() => setIsSnipeOpen(false)} />}
+      {isCopyOpen && <CopyTrading onClose={() => setIsCopyOpen(false)} />}
+      {isTrackerOpen && <WalletTracker onClose={() => setIsTrackerOpen(false)} />}
+
       {/* Error */}
       {error && (
         <div className="rounded-xl bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-400 flex-shrink-0">
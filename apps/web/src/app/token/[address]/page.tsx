@@ -13,6 +13,7 @@ import {
   Globe,
   Twitter,
   RefreshCw,
+  Bell,
 } from "lucide-react";
 import { formatPrice, formatNumber, formatPercent, shortenAddress, cn } from "@/lib/utils";
 import { useTokenStore } from "@/stores/tokenStore";
@@ -21,9 +22,10 @@ import { useThemeStore } from "@/stores/themeStore";
 import { Chart3D } from "@/components/charts/Chart3D";
 import { Line3DChart } from "@/components/charts/Line3DChart";
 import { ChartControls } from "@/components/charts/ChartControls";
-import { type ChartType, LINE_PERIODS, CANDLE_PERIODS, PULSE_PERIOD } from "@/stores/chartStore";
+import { type ChartType, type ChartSeries, LINE_PERIODS, CANDLE_PERIODS, PULSE_PERIOD } from "@/stores/chartStore";
 import { BarChart3, LineChart } from "lucide-react";
 import { SwapWidget } from "@/components/trading";
+import { PriceAlerts } from "@/components/trading/PriceAlerts";
 import { io, Socket } from "socket.io-client";
 
 // WebSocket URL for real-time updates (connects directly to Express for WebSocket only)
@@ -94,6 +96,9 @@ const MORALIS_LINE_CONFIG: Record<string, { interval: string; seconds: number }>
 // The 'seconds' value is unused but kept for compatibility
 const MORALIS_CANDLE_CONFIG: Record<string, { interval: string; seconds: number }> = {
   "1s": { interval: "1s", seconds: 0 },       // 1 second candles
+  "1t": { interval: "1t", seconds: 0 },       // 1 trade per candle
+  "10t": { interval: "10t", seconds: 0 },     // 10 trades per candle
+  "100t": { interval: "100t", seconds: 0 },   // 100 trades per candle
   "1m": { interval: "1min", seconds: 0 },     // 1 minute candles
   "5m": { interval: "5min", seconds: 0 },     // 5 minute candles
   "15m": { interval: "15min", seconds: 0 },   // 15 minute candles
@@ -380,6 +385,8 @@ export default function TokenPage() {
   const [topHolders, setTopHolders] = useState<TopHolder[]>([]);
   const [holdersLoading, setHoldersLoading] = useState(false);
   const [chartType, setChartType] = useState<ChartType>("candle");
+  // Pulse tokens default to a market cap axis (pump.fun style), dashboard tokens to price
+  const [chartSeries, setChartSeries] = useState<ChartSeries>(fromPulse ? "mcap" : "price");
   const [chartPeriod, setChartPeriod] = useState<string | null>(null); // Loaded from localStorage
   const [supplyData, setSupplyData] = useState<{
     totalSupply: number | null;
@@ -390,6 +397,8 @@ export default function TokenPage() {
   const [dashboardToken, setDashboardToken] = useState<PulseTokenData | null>(null);
   const [dashboardTokenLoading, setDashboardTokenLoading] = useState(false);
   const ohlcvIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Supply the current candles are scaled by (null = price series), applied to live socket candles too
+  const seriesSupplyRef = useRef<number | null>(null);
   const tradesIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const tokenDataIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const socketRef = useRef<Socket | null>(null);
@@ -453,17 +462,29 @@ export default function TokenPage() {
       if (data.mint !== address) return;
       if (chartPeriod !== "1s") return; // Only apply to 1s timeframe
 
+      // Socket candles are always price - scale to match a market cap series
+      const supply = seriesSupplyRef.current;
+      const candle = supply
+        ? {
+            ...data.candle,
+            open: data.candle.open * supply,
+            high: data.candle.high * supply,
+            low: data.candle.low * supply,
+            close: data.candle.close * supply,
+          }
+        : data.candle;
+
       setOhlcv((prev) => {
         const lastCandle = prev[prev.length - 1];
 
-        if (lastCandle && lastCandle.timestamp === data.candle.timestamp) {
+        if (lastCandle && lastCandle.timestamp === candle.timestamp) {
           // Update existing candle
           const updated = [...prev];
-          updated[updated.length - 1] = data.candle;
+          updated[updated.length - 1] = candle;
           return updated;
         } else {
           // Add new candle
-          return [...prev, data.candle];
+          return [...prev, candle];
         }
       });
     });
@@ -489,7 +510,7 @@ export default function TokenPage() {
     if (saved) {
       // Validate the saved period is valid for current chart type
       const validPeriods = fromPulse
-        ? ["1s", "1m", "5m", "15m", "1h", "4h", "1d", "1w"] // Pulse candle periods
+        ? ["1s", "1t", "10t", "100t", "1m", "5m", "15m", "1h", "4h", "1d", "1w"] // Pulse candle periods
         : ["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"]; // Dashboard candle periods
 
       if (validPeriods.includes(saved)) {
@@ -640,6 +661,8 @@ export default function TokenPage() {
     if (!address || !chartPeriod) return; // Wait for period to load from localStorage
 
     const config = getChartConfig(chartType, chartPeriod, fromPulse);
+    // Line chart applies its own market cap multiplier, so it always fetches price
+    const series: ChartSeries = chartType === "candle" ? chartSeries : "price";
     let isInitialFetch = true;
 
     const fetchOhlcv = async () => {
@@ -650,25 +673,36 @@ export default function TokenPage() {
         if (fromPulse) {
           // PULSE TOKENS: Backend fetches ALL swaps from DB, no time filtering needed
           response = await fetch(
-            `/api/pulse/ohlcv/${address}?timeframe=${config.interval}`
+            `/api/pulse/ohlcv/${address}?timeframe=${config.interval}&series=${series}`
           );
 
           if (!response.ok) {
+            // No supply known for this token - fall back to the price axis
+            if (response.status === 404 && series === "mcap") {
+              setChartSeries("price");
+              return;
+            }
             throw new Error(`Pulse API error: ${response.status}`);
           }
 
           const result = await response.json();
           ohlcvData = result.data || [];
+          seriesSupplyRef.current = series === "mcap" ? result.supply ?? null : null;
         } else {
           // DASHBOARD TOKENS: Use Birdeye API via /api/tokens/:address/ohlcv
           // Birdeye needs time range params
           const now = Math.floor(Date.now() / 1000);
           const fromDate = now - config.seconds;
           response = await fetch(
-            `/api/tokens/${address}/ohlcv?timeframe=${config.interval}&from=${fromDate}&to=${now}&limit=500`
+            `/api/tokens/${address}/ohlcv?timeframe=${config.interval}&from=${fromDate}&to=${now}&limit=500&series=${series}`
           );
 
           if (!response.ok) {
+            // No supply known for this token - fall back to the price axis
+            if (response.status === 404 && series === "mcap") {
+              setChartSeries("price");
+              return;
+            }
             throw new Error(`Tokens API error: ${response.status}`);
           }
 
@@ -702,17 +736,17 @@ export default function TokenPage() {
     fetchOhlcv();
 
     // Poll interval depends on timeframe:
-    // - 1s real-time: poll every 1 second for live data
+    // - 1s and tick candles: poll every 1 second for live data
     // - Short timeframes (1min-15min): poll every 2 seconds
     // - Longer timeframes: poll every 5 seconds
-    const pollInterval = chartPeriod === "1s" ? 1000 :
+    const pollInterval = ["1s", "1t", "10t", "100t"].includes(chartPeriod) ? 1000 :
                          ["1m", "5m", "15m", "1h"].includes(chartPeriod) ? 2000 : 5000;
     ohlcvIntervalRef.current = setInterval(fetchOhlcv, pollInterval);
 
     return () => {
       if (ohlcvIntervalRef.current) clearInterval(ohlcvIntervalRef.current);
     };
-  }, [address, chartType, chartPeriod, fromPulse]);
+  }, [address, chartType, chartPeriod, chartSeries, fromPulse]);
 
   // Fetch trades
   useEffect(() => {
@@ -765,6 +799,7 @@ export default function TokenPage() {
   }, [address]);
 
   const [copied, setCopied] = useState(false);
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
 
   const handleCopyAddress = async () => {
     try {
@@ -897,9 +932,24 @@ export default function TokenPage() {
           {!token?.website && !token?.twitter && (
             <span className={`text-xs ${isDark ? 'text-white/50' : 'text-black/50'}`}>No social links</span>
           )}
+          <button
+            onClick={() => setIsAlertsOpen(true)}
+            className={`p-2 transition-colors ${isDark ? 'text-white/50 hover:bg-white/10 hover:text-white' : 'text-black/50 hover:bg-black/10 hover:text-black'}`}
+            title="Price alerts"
+          >
+            <Bell className="h-5 w-5" />
+          </button>
         </div>
       </div>
 
+      {isAlertsOpen && (
+        <PriceAlerts
+          tokenMint={address}
+          tokenSymbol={token?.symbol || "TOKEN"}
+          onClose={() => setIsAlertsOpen(false)}
+        />
+      )}
+
       {/* Main Content: Chart + Sidebar */}
       <div className="flex-1 flex flex-col md:flex-row gap-3 md:gap-4 min-h-0 overflow-y-auto md:overflow-hidden px-3 md:px-0">
         {/* Left: Chart + Trades */}
@@ -938,8 +988,8 @@ export default function TokenPage() {
               <button
                 onClick={() => {
                   setChartType("line");
-                  // Reset to default line chart period (line chart doesn't have 1s)
-                  if (chartPeriod === "1s") {
+                  // Reset to default line chart period (line chart doesn't have 1s or tick periods)
+                  if (chartPeriod && ["1s", "1t", "10t", "100t"].includes(chartPeriod)) {
                     setChartPeriod("15m"); // Default for line chart
                   }
                 }}
@@ -998,7 +1048,9 @@ export default function TokenPage() {
               <Chart3D
                 data={ohlcv}
                 isLoading={chartLoading && ohlcv.length === 0}
-                showMarketCap={fromPulse}
+                showMarketCap={chartSeries === "mcap"}
+                series={chartSeries}
+                onSeriesChange={setChartSeries}
                 marketCap={token?.marketCap}
                 price={token?.price}
                 timeframe={chartPeriod || "1s"}
@@ -0,0 +1,83 @@
+import { ImageResponse } from "next/og";
+import { getPublicTraderProfile } from "@/lib/trader-profile";
+
+export const runtime = "nodejs"; // Prisma
+export const alt = "Trader profile on [polyx]";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+function formatSol(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)} SOL`;
+}
+
+// Share card for /u/[username] - only the stats the trader made public
+export default async function Image({ params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params;
+  const profile = await getPublicTraderProfile(username);
+
+  const stats: { label: string; value: string; color?: string }[] = [];
+  if (profile) {
+    const s = profile.stats;
+    if (s.realizedPnlSol !== undefined) {
+      stats.push({ label: "Realized PnL", value: formatSol(s.realizedPnlSol), color: s.realizedPnlSol >= 0 ? "#22c55e" : "#ef4444" });
+    }
+    if (s.winRate !== undefined) {
+      stats.push({ label: "Win rate", value: `${(s.winRate * 100).toFixed(0)}%` });
+    }
+    if (s.bestTrade) {
+      stats.push({ label: `Best trade (${s.bestTrade.tokenSymbol})`, value: formatSol(s.bestTrade.gainSol), color: "#22c55e" });
+    }
+    if (s.totalTrades !== undefined) {
+      stats.push({ label: "Trades", value: s.totalTrades.toLocaleString() });
+    }
+  }
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 64,
+          background: "#0a0a0a",
+          color: "#ffffff",
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", fontSize: 36, color: "rgba(255,255,255,0.6)" }}>
+          [poly<span style={{ color: "#FF6B4A" }}>x</span>]
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ display: "flex", fontSize: 72, fontWeight: 700 }}>
+            {profile ? `@${profile.username}` : "Trader not found"}
+          </div>
+          {profile?.name && (
+            <div style={{ display: "flex", fontSize: 32, color: "rgba(255,255,255,0.5)", marginTop: 8 }}>
+              {profile.name}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: "flex", gap: 48 }}>
+          {stats.map((stat) => (
+            <div key={stat.label} style={{ display: "flex", flexDirection: "column" }}>
+              <div style={{ display: "flex", fontSize: 24, color: "rgba(255,255,255,0.5)" }}>{stat.label}</div>
+              <div style={{ display: "flex", fontSize: 48, fontWeight: 700, color: stat.color || "#ffffff" }}>
+                {stat.value}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: "flex", fontSize: 20, color: "rgba(255,255,255,0.4)" }}>
+          Verified from on-chain trades
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,40 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getPublicTraderProfile } from "@/lib/trader-profile";
+import { PublicTraderProfileView } from "@/components/profile/PublicTraderProfileView";
+
+interface PageProps {
+  params: Promise<{ username: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { username } = await params;
+  const profile = await getPublicTraderProfile(username);
+
+  if (!profile) {
+    return { title: "[polyx] - Trader not found" };
+  }
+
+  const title = `@${profile.username} on [polyx]`;
+  const description = profile.bio || `Verified trading stats for @${profile.username}`;
+
+  // The image itself comes from opengraph-image.tsx next to this page
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: "profile" },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+// Public trader profile - verified stats from the user's trade history
+export default async function PublicProfilePage({ params }: PageProps) {
+  const { username } = await params;
+  const profile = await getPublicTraderProfile(username);
+
+  if (!profile) {
+    notFound();
+  }
+
+  return <PublicTraderProfileView profile={profile} />;
+}
@@ -24,7 +24,7 @@ import { ChartAxis } from "./ChartAxis";
 import { FlyControls } from "./FlyControls";
 import { DrawingLayer, DrawingToolbar, Drawing, DrawingToolType, DRAWING_COLORS, DEFAULT_LINE_WIDTH } from "./drawing";
 import { formatPrice, formatNumber } from "@/lib/utils";
-import type { OHLCV } from "@/stores/chartStore";
+import type { OHLCV, ChartSeries } from "@/stores/chartStore";
 import { useThemeStore } from "@/stores/themeStore";
 
 // ============================================================================
@@ -182,6 +182,8 @@ interface Chart3DProps {
   data: OHLCV[];
   isLoading?: boolean;
   showMarketCap?: boolean; // Show market cap instead of price for Pulse tokens
+  series?: ChartSeries; // "mcap" = data is already market cap (fetched with series=mcap)
+  onSeriesChange?: (series: ChartSeries) => void; // Shows a Price / MCap toggle when provided
   marketCap?: number;
   price?: number; // Actual current price from token data (more accurate than OHLCV last close)
   onLoadMore?: () => void; // Callback to load more historical data when scrolling left
@@ -269,7 +271,7 @@ function Watermark3D({ chartWidth, chartHeight }: { chartWidth: number; chartHei
   );
 }
 
-export function Chart3D({ data, isLoading, showMarketCap, marketCap, price, onLoadMore, hasMoreData = true, isLoadingMore = false, showDrawingTools = true, renderToolbar, showWatermark = false, theme, timeframe }: Chart3DProps) {
+export function Chart3D({ data, isLoading, showMarketCap, series = "price", onSeriesChange, marketCap, price, onLoadMore, hasMoreData = true, isLoadingMore = false, showDrawingTools = true, renderToolbar, showWatermark = false, theme, timeframe }: Chart3DProps) {
   const { isDark: globalIsDark } = useThemeStore();
   const isDark = theme ? theme === "dark" : globalIsDark;
 
@@ -1097,7 +1099,7 @@ export function Chart3D({ data, isLoading, showMarketCap, marketCap, price, onLo
         {/* When renderToolbar is used or showDrawingTools is false, hide the price display */}
         {!renderToolbar && showDrawingTools && (
           <div className="hidden md:block absolute top-4 left-4 z-10">
-            {showMarketCap && marketCap ? (
+            {(showMarketCap || series === "mcap") && marketCap ? (
               <>
                 <div className={`text-xs mb-0.5 ${isDark ? 'text-white/50' : 'text-gray-500'}`}>Market Cap</div>
                 <div className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>${formatNumber(marketCap)}</div>
@@ -1117,7 +1119,9 @@ export function Chart3D({ data, isLoading, showMarketCap, marketCap, price, onLo
         {!renderToolbar && showDrawingTools && !isFlyMode && (
           <div className="hidden md:block absolute top-4 z-10 text-right" style={{ right: "200px" }}>
             <div className={`text-sm font-medium ${priceChange.isPositive ? "text-up" : "text-down"}`}>
-              {priceChange.isPositive ? "+" : ""}${formatPrice(priceChange.value)} ({priceChange.isPositive ? "+" : ""}{priceChange.percent.toFixed(2)}%)
+              {series === "mcap"
+                ? `${priceChange.isPositive ? "+" : "-"}$${formatNumber(Math.abs(priceChange.value))}`
+                : `${priceChange.isPositive ? "+" : ""}$${formatPrice(priceChange.value)}`} ({priceChange.isPositive ? "+" : ""}{priceChange.percent.toFixed(2)}%)
             </div>
             <div className={`text-xs ${isDark ? 'text-white/50' : 'text-gray-500'}`}>
               visible range
@@ -1179,6 +1183,7 @@ export function Chart3D({ data, isLoading, showMarketCap, marketCap, price, onLo
                     chartWidth={CHART_WIDTH}
                     chartHeight={PRICE_HEIGHT}
                     showMarketCap={showMarketCap}
+                    series={series}
                     data={visibleData}
                     spacing={spacing}
                     isDark={isDark}
@@ -1327,6 +1332,29 @@ export function Chart3D({ data, isLoading, showMarketCap, marketCap, price, onLo
         </div>
       )}
 
+      {/* Price / Market Cap axis toggle */}
+      {onSeriesChange && !isFlyMode && (
+        <div className={`absolute bottom-14 right-4 z-10 flex backdrop-blur-md border text-xs ${
+          isDark ? 'bg-white/5 border-white/10' : 'bg-black/5 border-black/10'
+        }`}>
+          {(["price", "mcap"] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => onSeriesChange(s)}
+              className={`px-2.5 py-1 font-medium transition-colors ${
+                series === s
+                  ? 'bg-[#FF6B4A] text-white'
+                  : isDark
+                  ? 'text-white/60 hover:bg-white/10'
+                  : 'text-gray-500 hover:bg-black/10'
+              }`}
+            >
+              {s === "price" ? "Price" : "MCap"}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Controls hint - only shown when drawing tools visible, HIDDEN on mobile */}
       {showDrawingTools && (
         <div className={`hidden md:block absolute bottom-14 left-4 backdrop-blur-md border px-3 py-1.5 text-xs ${
@@ -2,7 +2,7 @@
 
 import { useMemo } from "react";
 import { Text } from "@react-three/drei";
-import type { OHLCV } from "@/stores/chartStore";
+import type { OHLCV, ChartSeries } from "@/stores/chartStore";
 
 // pump.fun tokens have 1 billion supply
 const PUMP_FUN_SUPPLY = 1_000_000_000;
@@ -60,6 +60,8 @@ interface ChartAxisProps {
   chartWidth: number;
   chartHeight: number;
   showMarketCap?: boolean;
+  // "mcap" = values are already market cap, so no supply multiplier is applied
+  series?: ChartSeries;
   // NEW: Pass actual OHLCV data for date labels
   data?: OHLCV[];
   spacing?: number;
@@ -73,6 +75,7 @@ export function ChartAxis({
   chartWidth,
   chartHeight,
   showMarketCap = false,
+  series = "price",
   data = [],
   spacing = 1.2,
   isDark = true,
@@ -82,7 +85,9 @@ export function ChartAxis({
   const axisLabelColor = isDark ? "#aaa" : "#555";
   // For Pulse tokens (showMarketCap=true): multiply price by supply to show market cap
   // For Dashboard tokens (showMarketCap=false): show actual price
-  const multiplier = showMarketCap ? PUMP_FUN_SUPPLY : 1;
+  // For market cap series data (series="mcap"): values are already scaled by the API
+  const isMarketCap = showMarketCap || series === "mcap";
+  const multiplier = showMarketCap && series !== "mcap" ? PUMP_FUN_SUPPLY : 1;
   const minValue = minPrice * multiplier;
   const maxValue = maxPrice * multiplier;
 
@@ -160,7 +165,7 @@ export function ChartAxis({
           anchorX="right"
           anchorY="middle"
         >
-          {formatAxisValue(value, showMarketCap)}
+          {formatAxisValue(value, isMarketCap)}
         </Text>
       ))}
 
@@ -194,7 +199,7 @@ export function ChartAxis({
         anchorY="middle"
         rotation={[0, 0, Math.PI / 2]}
       >
-        {showMarketCap ? "Market Cap" : "Price (USD)"}
+        {isMarketCap ? "Market Cap" : "Price (USD)"}
       </Text>
 
       <Text
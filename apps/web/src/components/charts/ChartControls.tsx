@@ -1,14 +1,14 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { LINE_PERIODS, CANDLE_PERIODS, PULSE_PERIOD, type ChartType } from "@/stores/chartStore";
+import { LINE_PERIODS, CANDLE_PERIODS, PULSE_PERIOD, TICK_PERIODS, type ChartType } from "@/stores/chartStore";
 import { useThemeStore } from "@/stores/themeStore";
 
 interface ChartControlsProps {
   period: string;
   chartType: ChartType;
   onPeriodChange: (period: string) => void;
-  showPulseOption?: boolean; // Show 1s option for Pulse tokens
+  showPulseOption?: boolean; // Show 1s and tick options for Pulse tokens
   isLoading?: boolean; // Show loading state on the selected timeframe button
 }
 
@@ -19,9 +19,9 @@ export function ChartControls({ period, chartType, onPeriodChange, showPulseOpti
   // Candle chart: periods are CANDLE INTERVALS (1m = 1-minute candles, 1s = per-trade)
   const basePeriods = chartType === "candle" ? CANDLE_PERIODS : LINE_PERIODS;
 
-  // 1s (per-trade) option is ONLY for candlestick chart on Pulse tokens
+  // 1s (per-trade) and tick options are ONLY for candlestick chart on Pulse tokens
   const periods = (showPulseOption && chartType === "candle")
-    ? [PULSE_PERIOD, ...basePeriods]
+    ? [PULSE_PERIOD, ...TICK_PERIODS, ...basePeriods]
     : basePeriods;
 
   return (
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { cn } from "@/lib/utils";
+
+interface EquityPoint {
+  takenAt: string;
+  totalUsd: number;
+  totalSol: number;
+}
+
+interface Drawdown {
+  maxDrawdownPct: number;
+  peakValue: number;
+  troughValue: number;
+  peakAt: string | null;
+  troughAt: string | null;
+}
+
+interface PortfolioHistoryResponse {
+  points: EquityPoint[];
+  current: EquityPoint | null;
+  change: { usd: number; sol: number; usdPct: number; solPct: number } | null;
+  drawdown: { usd: Drawdown; sol: Drawdown };
+  valueAt: EquityPoint | null;
+}
+
+interface EquityCurveProps {
+  period: "1d" | "7d" | "30d" | "all";
+  walletId?: string | null;
+  currency: "usd" | "sol";
+}
+
+function formatValue(value: number, currency: "usd" | "sol"): string {
+  if (currency === "sol") return `${value.toFixed(4)} SOL`;
+  const abs = Math.abs(value);
+  const sign = value < 0 ? "-" : "";
+  return abs >= 1000 ? `${sign}$${(abs / 1000).toFixed(2)}K` : `${sign}$${abs.toFixed(2)}`;
+}
+
+// Total wallet value over time (hourly snapshots), with max drawdown and value on a chosen date
+export function EquityCurve({ period, walletId, currency }: EquityCurveProps) {
+  const { isDark } = useThemeStore();
+  const [data, setData] = useState<PortfolioHistoryResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [atDate, setAtDate] = useState("");
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ period });
+        if (walletId) params.set("walletId", walletId);
+        if (atDate) params.set("at", atDate);
+        const res = await fetch(`/api/trading/portfolio-history?${params}`, { cache: "no-store" });
+        if (res.ok && !cancelled) {
+          setData(await res.json());
+        }
+      } catch (err) {
+        console.error("Failed to fetch portfolio history:", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period, walletId, atDate]);
+
+  const valueOf = (p: EquityPoint) => (currency === "usd" ? p.totalUsd : p.totalSol);
+
+  const chart = useMemo(() => {
+    const points = data?.points ?? [];
+    if (points.length < 2) return null;
+
+    const width = 800;
+    const height = 200;
+    const padding = 10;
+    const values = points.map((p) => (currency === "usd" ? p.totalUsd : p.totalSol));
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 0.0001;
+    const start = new Date(points[0].takenAt).getTime();
+    const timeRange = new Date(points[points.length - 1].takenAt).getTime() - start || 1;
+
+    const coords = points.map((p, i) => ({
+      x: padding + ((new Date(p.takenAt).getTime() - start) / timeRange) * (width - padding * 2),
+      y: padding + ((max - values[i]) / range) * (height - padding * 2),
+    }));
+
+    return {
+      coords,
+      linePath: coords.map((c, i) => `${i === 0 ? "M" : "L"} ${c.x} ${c.y}`).join(" "),
+      isUp: values[values.length - 1] >= values[0],
+    };
+  }, [data, currency]);
+
+  const mutedClass = isDark ? "text-white/40" : "text-gray-500";
+  const drawdown = data?.drawdown[currency];
+  const changePct = data?.change ? (currency === "usd" ? data.change.usdPct : data.change.solPct) : 0;
+  const hovered = hoverIndex !== null ? data?.points[hoverIndex] : null;
+
+  return (
+    <div>
+      {/* Stats */}
+      <div className="flex flex-wrap items-end gap-6 mb-3">
+        <div>
+          <p className={cn("text-xs", mutedClass)}>Portfolio value</p>
+          <p className={cn("text-xl font-semibold", isDark ? "text-white" : "text-gray-900")}>
+            {data?.current ? formatValue(valueOf(data.current), currency) : "-"}
+          </p>
+        </div>
+        <div>
+          <p className={cn("text-xs", mutedClass)}>Change</p>
+          <p className={cn("text-sm font-medium", changePct >= 0 ? "text-green-500" : "text-red-500")}>
+            {data?.change ? `${changePct >= 0 ? "+" : ""}${changePct.toFixed(2)}%` : "-"}
+          </p>
+        </div>
+        <div>
+          <p className={cn("text-xs", mutedClass)}>Max drawdown</p>
+          <p className={cn("text-sm font-medium", drawdown && drawdown.maxDrawdownPct > 0 ? "text-red-500" : mutedClass)}>
+            {drawdown ? `-${drawdown.maxDrawdownPct.toFixed(2)}%` : "-"}
+          </p>
+        </div>
+        <div className="ml-auto">
+          <label className={cn("text-xs block", mutedClass)}>Value on</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={atDate}
+              max={new Date().toISOString().split("T")[0]}
+              onChange={(e) => setAtDate(e.target.value)}
+              className={cn(
+                "px-2 py-1 rounded-lg text-sm border outline-none",
+                isDark ? "bg-white/5 border-white/10 text-white/80" : "bg-gray-50 border-gray-200 text-gray-700"
+              )}
+            />
+            {atDate && (
+              <span className={cn("text-sm font-medium", isDark ? "text-white" : "text-gray-900")}>
+                {data?.valueAt ? formatValue(valueOf(data.valueAt), currency) : "No snapshot"}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div
+        className={cn("h-[250px] relative rounded-lg overflow-hidden", isDark ? "bg-[#0a0a0a]" : "bg-gray-100")}
+        onMouseMove={(e) => {
+          if (!chart) return;
+          const rect = e.currentTarget.getBoundingClientRect();
+          const x = ((e.clientX - rect.left) / rect.width) * 800;
+          let nearest = 0;
+          chart.coords.forEach((c, i) => {
+            if (Math.abs(c.x - x) < Math.abs(chart.coords[nearest].x - x)) nearest = i;
+          });
+          setHoverIndex(nearest);
+        }}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {loading && !data ? (
+          <div className="w-full h-full flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-[#FF6B4A]" />
+          </div>
+        ) : chart ? (
+          <>
+            <svg viewBox="0 0 800 200" preserveAspectRatio="none" className="w-full h-full pointer-events-none">
+              <path
+                d={chart.linePath}
+                fill="none"
+                stroke={chart.isUp ? "#22c55e" : "#ef4444"}
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+            {hovered && hoverIndex !== null && (
+              <div className="absolute inset-0 pointer-events-none">
+                <div
+                  className={cn("absolute top-0 bottom-0 w-px", isDark ? "bg-white/40" : "bg-black/40")}
+                  style={{ left: `${(chart.coords[hoverIndex].x / 800) * 100}%` }}
+                />
+                <div
+                  className={cn(
+                    "absolute top-2 left-2 px-3 py-2 rounded-lg text-sm shadow-xl",
+                    isDark ? "bg-[#1a1a1a] border border-white/10" : "bg-white border border-gray-200"
+                  )}
+                >
+                  <div className={cn("text-base font-semibold", isDark ? "text-white" : "text-gray-900")}>
+                    {formatValue(valueOf(hovered), currency)}
+                  </div>
+                  <div className={cn("text-xs", mutedClass)}>
+                    {new Date(hovered.takenAt).toLocaleString(undefined, {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className={cn("w-full h-full flex items-center justify-center text-sm", mutedClass)}>
+            Not enough snapshots yet - portfolio value is recorded hourly
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useRef, useState } from "react";
 import { createChart, IChartApi, ISeriesApi, CandlestickData, LineData, Time, CandlestickSeries, LineSeries } from "lightweight-charts";
 import { useThemeStore } from "@/stores/themeStore";
 import type { OHLCV } from "@/stores/pulseStore";
+import type { ChartSeries } from "@/stores/chartStore";
 
 export type Timeframe = "1s" | "1m" | "5m" | "15m" | "1h";
 type ChartType = "candle" | "line";
@@ -14,6 +15,8 @@ interface TradingViewChartProps {
   timeframe?: Timeframe;
   onTimeframeChange?: (tf: Timeframe) => void;
   showTimeframeSelector?: boolean;
+  series?: ChartSeries; // "mcap" = data is already market cap (fetched with series=mcap)
+  onSeriesChange?: (series: ChartSeries) => void; // Shows a Price / MCap toggle when provided
 }
 
 const TIMEFRAMES: { value: Timeframe; label: string }[] = [
@@ -24,12 +27,22 @@ const TIMEFRAMES: { value: Timeframe; label: string }[] = [
   { value: "1h", label: "1h" },
 ];
 
+// Compact market cap labels for the price scale ($12.3K, $4.5M, ...)
+function formatMarketCap(value: number): string {
+  if (value >= 1_000_000_000) return `$${(value / 1_000_000_000).toFixed(2)}B`;
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(2)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
 export function TradingViewChart({
   data,
   isLoading,
   timeframe = "1m",
   onTimeframeChange,
   showTimeframeSelector = false,
+  series = "price",
+  onSeriesChange,
 }: TradingViewChartProps) {
   const { isDark } = useThemeStore();
   const chartContainerRef = useRef<HTMLDivElement>(null);
@@ -169,6 +182,18 @@ export function TradingViewChart({
     }
   }, [data]);
 
+  // Switch price scale labels between price and market cap
+  useEffect(() => {
+    if (!candleSeriesRef.current || !lineSeriesRef.current) return;
+
+    const priceFormat = series === "mcap"
+      ? { type: "custom" as const, formatter: formatMarketCap, minMove: 1 }
+      : { type: "price" as const, precision: 2, minMove: 0.01 }; // lightweight-charts default
+
+    candleSeriesRef.current.applyOptions({ priceFormat });
+    lineSeriesRef.current.applyOptions({ priceFormat });
+  }, [series, isDark, timeframe]);
+
   // Toggle series visibility based on chart type
   useEffect(() => {
     if (!candleSeriesRef.current || !lineSeriesRef.current) return;
@@ -227,8 +252,23 @@ export function TradingViewChart({
         )}
         {!showTimeframeSelector && <div />}
 
-        {/* Chart type toggle */}
+        {/* Price / Market Cap + chart type toggles */}
         <div className="flex gap-1">
+          {onSeriesChange && (["price", "mcap"] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => onSeriesChange(s)}
+              className={`px-2 py-1 text-[10px] font-medium rounded transition-colors ${
+                series === s
+                  ? "bg-[#FF6B4A] text-white"
+                  : isDark
+                  ? "bg-white/10 text-white/60 hover:bg-white/20"
+                  : "bg-black/5 text-gray-500 hover:bg-black/10"
+              }`}
+            >
+              {s === "price" ? "Price" : "MCap"}
+            </button>
+          ))}
           <button
             onClick={() => setChartType("line")}
             className={`px-2 py-1 text-[10px] font-medium rounded transition-colors ${
@@ -7,10 +7,14 @@ import { LogOut, User, Shield, Copy, Check, Key, ChevronDown, Sun, Moon, CreditC
 import { useSession, signOut } from "next-auth/react";
 import { useAuthStore } from "@/stores/authStore";
 import { useThemeStore } from "@/stores/themeStore";
+import { useWalletStore } from "@/stores/walletStore";
 import { useState, useRef, useEffect, useCallback } from "react";
 import { shortenAddress } from "@/lib/wallet";
 import { AuthModal } from "@/components/auth/AuthModal";
 import { SocialPanel } from "@/components/social/SocialPanel";
+import { WalletManager } from "@/components/trading/WalletManager";
+import { useToast } from "@/components/ui/Toast";
+import { useAlertFeed } from "@/hooks/useAlertFeed";
 
 // Extended session user type with our custom fields
 interface SessionUser {
@@ -46,6 +50,7 @@ export function Header() {
   const { data: session, status } = useSession();
   const { logout } = useAuthStore();
   const { isDark, toggleTheme } = useThemeStore();
+  const { wallets, activeWalletId } = useWalletStore();
   const [copied, setCopied] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
   const [showSecurityModal, setShowSecurityModal] = useState(false);
@@ -68,9 +73,15 @@ export function Header() {
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const currentUser = session?.user as SessionUser | undefined;
-  const walletAddress = currentUser?.walletAddress;
+  // Deposit/withdraw/export act on the wallet selected for trading
+  const activeWallet = wallets.find((w) => w.id === activeWalletId);
+  const walletAddress = activeWallet?.address ?? currentUser?.walletAddress;
   const twoFactorEnabled = currentUser?.twoFactorEnabled;
   const isAuthenticated = status === "authenticated";
+  const { showToast } = useToast();
+
+  // Fired price alerts show up as a toast on every page
+  useAlertFeed((alert) => showToast(alert.message, "info"));
 
   // Check if a route is protected
   const isProtectedRoute = (path: string) => {
@@ -146,7 +157,8 @@ export function Header() {
     if (status !== "authenticated" || noWallet) return;
     setBalanceLoading(true);
     try {
-      const res = await fetch("/api/trading/balance");
+      const query = activeWalletId ? `?walletId=${activeWalletId}` : "";
+      const res = await fetch(`/api/trading/balance${query}`);
       if (res.ok) {
         const data = await res.json();
         setBalance(data);
@@ -159,7 +171,7 @@ export function Header() {
     } finally {
       setBalanceLoading(false);
     }
-  }, [status, noWallet]);
+  }, [status, noWallet, activeWalletId]);
 
   // Fetch balance on mount and when authenticated
   useEffect(() => {
@@ -194,7 +206,8 @@ export function Header() {
 
     // Fetch private key from API
     try {
-      const res = await fetch("/api/wallet/private-key");
+      const query = activeWalletId ? `?walletId=${activeWalletId}` : "";
+      const res = await fetch(`/api/wallet/private-key${query}`);
       if (res.ok) {
         const data = await res.json();
         setPrivateKey(data.privateKey);
@@ -239,6 +252,7 @@ export function Header() {
           destinationAddress: withdrawAddress,
           amount: withdrawAmount,
           tokenMint: null, // SOL
+          walletId: activeWalletId,
         }),
       });
 
@@ -701,7 +715,7 @@ export function Header() {
       {showWalletModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
           <div className={`absolute inset-0 backdrop-blur-sm ${isDark ? 'bg-black/80' : 'bg-black/50'}`} onClick={() => setShowWalletModal(false)} />
-          <div className={`relative w-full max-w-md border rounded-2xl shadow-2xl ${isDark ? 'bg-[#0f0f0f] border-white/10' : 'bg-white border-gray-200'}`}>
+          <div className={`relative w-full max-w-md max-h-[90vh] overflow-y-auto border rounded-2xl shadow-2xl ${isDark ? 'bg-[#0f0f0f] border-white/10' : 'bg-white border-gray-200'}`}>
             <div className={`p-6 border-b ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
               <h2 className={`text-xl font-bold flex items-center gap-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
                 <Wallet className="h-5 w-5 text-[#FF6B4A]" />
@@ -710,6 +724,9 @@ export function Header() {
             </div>
 
             <div className="p-6 space-y-4">
+              {/* Wallets - the selected one is used for balance, deposit and withdraw below */}
+              <WalletManager />
+
               {/* Balance */}
               <div className={`p-4 rounded-xl border ${isDark ? 'bg-white/5 border-white/10' : 'bg-gray-50 border-gray-200'}`}>
                 <div className="flex items-center justify-between mb-3">
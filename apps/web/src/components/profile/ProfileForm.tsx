@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { User, Camera, Loader2, Check, X } from "lucide-react";
+import { User, Camera, Loader2, Check, X, ExternalLink } from "lucide-react";
 import { useThemeStore } from "@/stores/themeStore";
 import Image from "next/image";
 
@@ -13,8 +13,34 @@ interface ProfileData {
   bio: string | null;
   image: string | null;
   walletAddress: string | null;
+  publicProfile: boolean;
+  showWinRate: boolean;
+  showRealizedPnl: boolean;
+  showBestTrade: boolean;
+  showRecentPositions: boolean;
+  showTradeActivity: boolean;
+  showTradeLinks: boolean;
+  leaderboardOptIn: boolean;
+  leaderboardFriendsOptIn: boolean;
 }
 
+type VisibilityField =
+  | "showWinRate"
+  | "showRealizedPnl"
+  | "showBestTrade"
+  | "showRecentPositions"
+  | "showTradeActivity"
+  | "showTradeLinks";
+
+const VISIBILITY_OPTIONS: { field: VisibilityField; label: string }[] = [
+  { field: "showRealizedPnl", label: "Realized PnL" },
+  { field: "showWinRate", label: "Win rate" },
+  { field: "showBestTrade", label: "Best trade" },
+  { field: "showRecentPositions", label: "Recent positions" },
+  { field: "showTradeActivity", label: "Trade count and history" },
+  { field: "showTradeLinks", label: "Transaction links (reveals your wallet)" },
+];
+
 interface ProfileFormProps {
   profile: ProfileData;
   onUpdate: (profile: ProfileData) => void;
@@ -26,6 +52,17 @@ export function ProfileForm({ profile, onUpdate, onImageUpdate }: ProfileFormPro
   const [name, setName] = useState(profile.name || "");
   const [username, setUsername] = useState(profile.username || "");
   const [bio, setBio] = useState(profile.bio || "");
+  const [publicProfile, setPublicProfile] = useState(profile.publicProfile);
+  const [leaderboardOptIn, setLeaderboardOptIn] = useState(profile.leaderboardOptIn);
+  const [leaderboardFriendsOptIn, setLeaderboardFriendsOptIn] = useState(profile.leaderboardFriendsOptIn);
+  const [visibility, setVisibility] = useState<Record<VisibilityField, boolean>>({
+    showWinRate: profile.showWinRate,
+    showRealizedPnl: profile.showRealizedPnl,
+    showBestTrade: profile.showBestTrade,
+    showRecentPositions: profile.showRecentPositions,
+    showTradeActivity: profile.showTradeActivity,
+    showTradeLinks: profile.showTradeLinks,
+  });
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -41,7 +78,7 @@ export function ProfileForm({ profile, onUpdate, onImageUpdate }: ProfileFormPro
       const res = await fetch("/api/users/profile", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, username, bio }),
+        body: JSON.stringify({ name, username, bio, publicProfile, leaderboardOptIn, leaderboardFriendsOptIn, ...visibility }),
       });
 
       const data = await res.json();
@@ -285,6 +322,94 @@ export function ProfileForm({ profile, onUpdate, onImageUpdate }: ProfileFormPro
         </p>
       </div>
 
+      {/* Public profile */}
+      <div>
+        <label
+          className={`flex items-center gap-2 text-sm font-medium ${
+            isDark ? "text-white/80" : "text-gray-700"
+          }`}
+        >
+          <input
+            type="checkbox"
+            checked={publicProfile}
+            onChange={(e) => setPublicProfile(e.target.checked)}
+          />
+          Public trader profile
+        </label>
+        <p
+          className={`mt-1 text-xs ${
+            isDark ? "text-white/40" : "text-gray-400"
+          }`}
+        >
+          Share verified stats from your trades at /u/{username || "username"}
+        </p>
+        {publicProfile && (
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            {VISIBILITY_OPTIONS.map((option) => (
+              <label
+                key={option.field}
+                className={`flex items-center gap-2 text-xs ${
+                  isDark ? "text-white/60" : "text-gray-600"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={visibility[option.field]}
+                  onChange={(e) => setVisibility({ ...visibility, [option.field]: e.target.checked })}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        )}
+        {profile.publicProfile && profile.username && (
+          <a
+            href={`/u/${profile.username}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-2 inline-flex items-center gap-1 text-xs text-[#FF6B4A] hover:underline"
+          >
+            View public profile
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+
+      {/* Leaderboards */}
+      <div>
+        <label
+          className={`flex items-center gap-2 text-sm font-medium ${
+            isDark ? "text-white/80" : "text-gray-700"
+          }`}
+        >
+          <input
+            type="checkbox"
+            checked={leaderboardFriendsOptIn}
+            onChange={(e) => setLeaderboardFriendsOptIn(e.target.checked)}
+          />
+          Show my rank to friends
+        </label>
+        <label
+          className={`mt-2 flex items-center gap-2 text-sm font-medium ${
+            isDark ? "text-white/80" : "text-gray-700"
+          }`}
+        >
+          <input
+            type="checkbox"
+            checked={leaderboardOptIn}
+            onChange={(e) => setLeaderboardOptIn(e.target.checked)}
+          />
+          Show me on the global leaderboard
+        </label>
+        <p
+          className={`mt-1 text-xs ${
+            isDark ? "text-white/40" : "text-gray-400"
+          }`}
+        >
+          Friends boards list friends who share their rank; the global board lists opted-in traders, visible to everyone
+        </p>
+      </div>
+
       {/* Error/Success */}
       {error && (
         <p className="text-sm text-red-400 bg-red-500/10 p-3 rounded-lg">
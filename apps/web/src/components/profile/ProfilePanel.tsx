@@ -17,6 +17,15 @@ interface ProfileData {
   bio: string | null;
   image: string | null;
   walletAddress: string | null;
+  publicProfile: boolean;
+  showWinRate: boolean;
+  showRealizedPnl: boolean;
+  showBestTrade: boolean;
+  showRecentPositions: boolean;
+  showTradeActivity: boolean;
+  showTradeLinks: boolean;
+  leaderboardOptIn: boolean;
+  leaderboardFriendsOptIn: boolean;
 }
 
 interface ProfilePanelProps {
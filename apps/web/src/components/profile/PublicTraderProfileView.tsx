@@ -0,0 +1,158 @@
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { User, Share2, ExternalLink, ShieldCheck } from "lucide-react";
+import { Header } from "@/components/layout/Header";
+import { useThemeStore } from "@/stores/themeStore";
+import { useToast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
+import type { PublicTraderProfile } from "@/lib/trader-profile";
+
+interface PublicTraderProfileViewProps {
+  profile: PublicTraderProfile;
+}
+
+function formatSol(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(4)} SOL`;
+}
+
+export function PublicTraderProfileView({ profile }: PublicTraderProfileViewProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const { stats } = profile;
+
+  const cardClass = cn("rounded-xl border p-4", isDark ? "bg-[#111] border-white/10" : "bg-white border-gray-200");
+  const labelClass = cn("text-xs", isDark ? "text-white/40" : "text-gray-500");
+  const valueClass = cn("text-xl font-semibold", isDark ? "text-white" : "text-gray-900");
+  const pnlClass = (value: number) => (value >= 0 ? "text-green-500" : "text-red-500");
+
+  const shareProfile = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showToast("Profile link copied", "success");
+    } catch {
+      showToast("Failed to copy link", "error");
+    }
+  };
+
+  return (
+    <div className={cn("min-h-screen", isDark ? "bg-[#0a0a0a]" : "bg-gray-50")}>
+      <Header />
+      <main className="max-w-3xl mx-auto px-4 pt-24 pb-12">
+        {/* Identity */}
+        <div className="flex items-center gap-4 mb-6">
+          {profile.image ? (
+            <Image src={profile.image} alt={profile.username} width={72} height={72} className="w-[72px] h-[72px] rounded-full object-cover" />
+          ) : (
+            <div className="w-[72px] h-[72px] rounded-full bg-gradient-to-br from-[#FF6B4A] to-[#FF8F6B] flex items-center justify-center">
+              <User className="h-9 w-9 text-white" />
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <h1 className={cn("text-2xl font-bold truncate", isDark ? "text-white" : "text-gray-900")}>
+              {profile.name || `@${profile.username}`}
+            </h1>
+            <p className={labelClass}>
+              @{profile.username} · Member since {new Date(profile.memberSince).toLocaleDateString(undefined, { month: "short", year: "numeric" })}
+            </p>
+            {profile.bio && (
+              <p className={cn("text-sm mt-1", isDark ? "text-white/70" : "text-gray-700")}>{profile.bio}</p>
+            )}
+          </div>
+          <button
+            onClick={shareProfile}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#FF6B4A] hover:bg-[#ff5a35] text-white text-sm font-medium transition-colors"
+          >
+            <Share2 className="h-4 w-4" />
+            Share
+          </button>
+        </div>
+
+        <p className={cn("flex items-center gap-1.5 text-xs mb-3", isDark ? "text-white/40" : "text-gray-500")}>
+          <ShieldCheck className="h-3.5 w-3.5 text-[#00ffa3]" />
+          Verified - computed from confirmed on-chain trades and wallet transfers (FIFO cost basis)
+        </p>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+          {stats.realizedPnlSol !== undefined && (
+            <div className={cardClass}>
+              <p className={labelClass}>Realized PnL</p>
+              <p className={cn("text-xl font-semibold", pnlClass(stats.realizedPnlSol))}>{formatSol(stats.realizedPnlSol)}</p>
+              {stats.realizedPnlUsd !== undefined && (
+                <p className={labelClass}>{stats.realizedPnlUsd >= 0 ? "+" : "-"}${Math.abs(stats.realizedPnlUsd).toFixed(2)}</p>
+              )}
+            </div>
+          )}
+          {stats.winRate !== undefined && (
+            <div className={cardClass}>
+              <p className={labelClass}>Win rate</p>
+              <p className={valueClass}>{(stats.winRate * 100).toFixed(1)}%</p>
+              <p className={labelClass}>{stats.closedTrades} closed trades</p>
+            </div>
+          )}
+          {stats.totalTrades !== undefined && (
+            <div className={cardClass}>
+              <p className={labelClass}>Trades</p>
+              <p className={valueClass}>{stats.totalTrades.toLocaleString()}</p>
+              <p className={labelClass}>{stats.tokensTraded} tokens</p>
+            </div>
+          )}
+          {stats.bestTrade !== undefined && (
+            <div className={cardClass}>
+              <p className={labelClass}>Best trade</p>
+              {stats.bestTrade ? (
+                <>
+                  <p className={cn("text-xl font-semibold", pnlClass(stats.bestTrade.gainSol))}>{formatSol(stats.bestTrade.gainSol)}</p>
+                  <p className={cn(labelClass, "flex items-center gap-1")}>
+                    {stats.bestTrade.tokenSymbol}
+                    {stats.bestTrade.gainPct !== null && ` · +${stats.bestTrade.gainPct.toFixed(0)}%`}
+                    {stats.bestTrade.txSignature && (
+                      <a href={`https://solscan.io/tx/${stats.bestTrade.txSignature}`} target="_blank" rel="noopener noreferrer" title="View on Solscan">
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </p>
+                </>
+              ) : (
+                <p className={valueClass}>-</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Recent positions */}
+        {stats.recentPositions && (
+          <div className={cardClass}>
+            <h2 className={cn("text-sm font-semibold mb-3", isDark ? "text-white" : "text-gray-900")}>Recent positions</h2>
+            {stats.recentPositions.length === 0 ? (
+              <p className={labelClass}>No trades yet</p>
+            ) : (
+              <div className="space-y-2">
+                {stats.recentPositions.map((position) => (
+                  <div key={position.tokenMint} className="flex items-center gap-3">
+                    <div className={cn("w-2 h-2 rounded-full", position.isOpen ? "bg-green-500" : isDark ? "bg-white/20" : "bg-gray-300")} />
+                    <Link
+                      href={`/token/${position.tokenMint}?source=pulse`}
+                      className={cn("flex-1 text-sm font-medium hover:text-[#FF6B4A]", isDark ? "text-white" : "text-gray-900")}
+                    >
+                      {position.tokenSymbol}
+                    </Link>
+                    <span className={labelClass}>{position.isOpen ? "Open" : "Closed"}</span>
+                    <span className={cn("text-sm w-32 text-right", pnlClass(position.realizedPnlSol))}>
+                      {formatSol(position.realizedPnlSol)}
+                    </span>
+                    <span className={cn(labelClass, "w-20 text-right")}>
+                      {new Date(position.lastTradeAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
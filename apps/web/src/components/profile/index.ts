@@ -3,3 +3,4 @@ export { ProfileForm } from "./ProfileForm";
 export { FriendsList } from "./FriendsList";
 export { AddFriendForm } from "./AddFriendForm";
 export { FriendRequests } from "./FriendRequests";
+export { PublicTraderProfileView } from "./PublicTraderProfileView";
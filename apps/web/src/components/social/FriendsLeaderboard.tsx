@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Image from "next/image";
+import { Loader2, User, ArrowUp, ArrowDown } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useSocketStore } from "@/stores/socketStore";
+import { useToast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
+
+type Scope = "friends" | "global";
+type Period = "1d" | "7d" | "30d";
+type Metric = "pnl" | "roi" | "volume";
+
+interface LeaderboardEntry {
+  rank: number;
+  username: string | null;
+  name: string | null;
+  image: string | null;
+  isYou: boolean;
+  realizedPnlSol: number;
+  roiPct: number | null;
+  volumeSol: number;
+  trades: number;
+}
+
+interface RankChange {
+  scope: Scope;
+  period: Period;
+  metric: Metric;
+  rank: number | null;
+  previousRank: number | null;
+}
+
+const SCOPES: { value: Scope; label: string }[] = [
+  { value: "friends", label: "Friends" },
+  { value: "global", label: "Global" },
+];
+const PERIODS: Period[] = ["1d", "7d", "30d"];
+const METRICS: { value: Metric; label: string }[] = [
+  { value: "pnl", label: "PnL" },
+  { value: "roi", label: "ROI" },
+  { value: "volume", label: "Volume" },
+];
+
+function formatValue(entry: LeaderboardEntry, metric: Metric): string {
+  switch (metric) {
+    case "pnl":
+      return `${entry.realizedPnlSol >= 0 ? "+" : ""}${entry.realizedPnlSol.toFixed(3)} SOL`;
+    case "roi":
+      return `${(entry.roiPct ?? 0) >= 0 ? "+" : ""}${(entry.roiPct ?? 0).toFixed(1)}%`;
+    case "volume":
+      return `${entry.volumeSol.toFixed(2)} SOL`;
+  }
+}
+
+export function FriendsLeaderboard() {
+  const { isDark } = useThemeStore();
+  const { socket } = useSocketStore();
+  const { showToast } = useToast();
+  const [scope, setScope] = useState<Scope>("friends");
+  const [period, setPeriod] = useState<Period>("7d");
+  const [metric, setMetric] = useState<Metric>("pnl");
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [yourRank, setYourRank] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  // username -> rank on the previous fetch of the same board, for the movement arrows (users without one get none)
+  const [deltas, setDeltas] = useState<Record<string, number>>({});
+  const lastRanks = useRef<{ board: string; ranks: Record<string, number> } | null>(null);
+
+  const fetchLeaderboard = useCallback(async () => {
+    const board = `${scope}:${period}:${metric}`;
+    try {
+      const res = await fetch(`/api/friends/leaderboard?scope=${scope}&period=${period}&metric=${metric}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      const rows: LeaderboardEntry[] = data.entries;
+
+      const previous = lastRanks.current?.board === board ? lastRanks.current.ranks : null;
+      const nextDeltas: Record<string, number> = {};
+      const ranks: Record<string, number> = {};
+      for (const row of rows) {
+        if (!row.username) continue;
+        ranks[row.username] = row.rank;
+        if (previous?.[row.username] && previous[row.username] !== row.rank) {
+          nextDeltas[row.username] = previous[row.username] - row.rank;
+        }
+      }
+      lastRanks.current = { board, ranks };
+
+      setEntries(rows);
+      setYourRank(data.yourRank);
+      setDeltas(nextDeltas);
+    } catch (error) {
+      console.error("Failed to fetch leaderboard:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, period, metric]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchLeaderboard();
+  }, [fetchLeaderboard]);
+
+  // Live rank changes - refetch, and call out a move on the board being viewed
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdate = (data: { changes: RankChange[] }) => {
+      const change = data.changes.find((c) => c.scope === scope && c.period === period && c.metric === metric);
+      if (change?.rank && change.previousRank && change.rank !== change.previousRank) {
+        const direction = change.rank < change.previousRank ? "up" : "down";
+        showToast(`You moved ${direction} to #${change.rank}`, direction === "up" ? "success" : "info");
+      }
+      fetchLeaderboard();
+    };
+
+    socket.on("leaderboard:update", handleUpdate);
+    return () => {
+      socket.off("leaderboard:update", handleUpdate);
+    };
+  }, [socket, scope, period, metric, fetchLeaderboard, showToast]);
+
+  const toggleClass = (active: boolean) =>
+    cn(
+      "px-2.5 py-1 rounded-md text-xs font-medium transition-colors",
+      active
+        ? "bg-[#FF6B4A] text-white"
+        : isDark
+        ? "text-white/60 hover:text-white hover:bg-white/5"
+        : "text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+    );
+
+  return (
+    <div className="p-4 space-y-3 overflow-y-auto">
+      {/* Board selection */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {SCOPES.map((s) => (
+            <button key={s.value} onClick={() => setScope(s.value)} className={toggleClass(scope === s.value)}>
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {PERIODS.map((p) => (
+            <button key={p} onClick={() => setPeriod(p)} className={toggleClass(period === p)}>
+              {p}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-1">
+        {METRICS.map((m) => (
+          <button key={m.value} onClick={() => setMetric(m.value)} className={toggleClass(metric === m.value)}>
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      <p className={cn("text-xs", isDark ? "text-white/40" : "text-gray-500")}>
+        {yourRank ? `You're #${yourRank}` : "You're not ranked on this board yet"}
+        {scope === "global" ? " · opt in from your profile to appear" : " · friends appear once they share their rank"}
+      </p>
+
+      {/* Rankings */}
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className={cn("h-5 w-5 animate-spin", isDark ? "text-white/40" : "text-gray-400")} />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className={cn("text-sm text-center py-8", isDark ? "text-white/40" : "text-gray-500")}>
+          {scope === "friends" ? "No trades from you or your friends in this period" : "No ranked traders yet"}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map((entry) => {
+            const delta = entry.username ? deltas[entry.username] : undefined;
+            const value = metric === "pnl" ? entry.realizedPnlSol : metric === "roi" ? entry.roiPct ?? 0 : null;
+            return (
+              <div
+                key={entry.rank}
+                className={cn(
+                  "flex items-center gap-2 px-3 py-2 rounded-lg",
+                  entry.isYou
+                    ? "bg-[#FF6B4A]/10 border border-[#FF6B4A]/30"
+                    : isDark
+                    ? "bg-white/5"
+                    : "bg-gray-50"
+                )}
+              >
+                <span className={cn("w-6 text-sm font-semibold", isDark ? "text-white/60" : "text-gray-500")}>
+                  {entry.rank}
+                </span>
+                {entry.image ? (
+                  <Image src={entry.image} alt="" width={24} height={24} className="w-6 h-6 rounded-full object-cover" />
+                ) : (
+                  <div className="w-6 h-6 rounded-full bg-gradient-to-br from-[#FF6B4A] to-[#FF8F6B] flex items-center justify-center">
+                    <User className="h-3 w-3 text-white" />
+                  </div>
+                )}
+                <span className={cn("flex-1 text-sm truncate", isDark ? "text-white" : "text-gray-900")}>
+                  {entry.username ? `@${entry.username}` : entry.name || "Anonymous"}
+                  {entry.isYou && <span className={cn("ml-1 text-xs", isDark ? "text-white/40" : "text-gray-500")}>(you)</span>}
+                </span>
+                {delta !== undefined && (
+                  <span className={cn("flex items-center text-xs", delta > 0 ? "text-green-500" : "text-red-500")}>
+                    {delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                    {Math.abs(delta)}
+                  </span>
+                )}
+                <span
+                  className={cn(
+                    "text-sm font-medium text-right",
+                    value === null
+                      ? isDark
+                        ? "text-white"
+                        : "text-gray-900"
+                      : value >= 0
+                      ? "text-green-500"
+                      : "text-red-500"
+                  )}
+                  title={`${entry.trades} trades`}
+                >
+                  {formatValue(entry, metric)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
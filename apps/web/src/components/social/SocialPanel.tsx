@@ -25,6 +25,7 @@ import {
   BellOff,
   Camera,
   Pencil,
+  Trophy,
 } from "lucide-react";
 import { useThemeStore } from "@/stores/themeStore";
 import {
@@ -40,6 +41,7 @@ import { useSession } from "next-auth/react";
 import Image from "next/image";
 import { useVoiceChat } from "@/hooks/useVoiceChat";
 import { useToast } from "@/components/ui/Toast";
+import { FriendsLeaderboard } from "./FriendsLeaderboard";
 
 interface SocialPanelProps {
   isOpen: boolean;
@@ -54,7 +56,7 @@ interface Friend {
   image: string | null;
 }
 
-type Tab = "profile" | "friends" | "lobby";
+type Tab = "profile" | "friends" | "leaderboard" | "lobby";
 
 export function SocialPanel({ isOpen, onClose }: SocialPanelProps) {
   const { isDark } = useThemeStore();
@@ -1090,6 +1092,21 @@ export function SocialPanel({ isOpen, onClose }: SocialPanelProps) {
             <Users className="h-4 w-4" />
             Friends
           </button>
+          <button
+            onClick={() => setActiveTab("leaderboard")}
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+              activeTab === "leaderboard"
+                ? isDark
+                  ? "text-white border-b-2 border-[#FF6B4A]"
+                  : "text-gray-900 border-b-2 border-[#FF6B4A]"
+                : isDark
+                ? "text-white/60 hover:text-white"
+                : "text-gray-600 hover:text-gray-900"
+            }`}
+          >
+            <Trophy className="h-4 w-4" />
+            Ranks
+          </button>
           <button
             onClick={() => setActiveTab("lobby")}
               className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
@@ -1555,6 +1572,9 @@ export function SocialPanel({ isOpen, onClose }: SocialPanelProps) {
                 )}
               </div>
             </div>
+          ) : activeTab === "leaderboard" ? (
+            // Leaderboard Tab
+            <FriendsLeaderboard />
           ) : activeTab === "friends" ? (
             // Friends Tab
             <div className="p-4 space-y-4 overflow-y-auto">
@@ -0,0 +1,358 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Trash2, X } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useWalletStore } from "@/stores/walletStore";
+import { useToast } from "@/components/ui/Toast";
+import { shortenAddress } from "@/lib/wallet";
+import { cn } from "@/lib/utils";
+
+interface CopyTradeEvent {
+  id: string;
+  side: "BUY" | "SELL";
+  tokenMint: string;
+  leaderSolAmount: number;
+  status: "PENDING" | "OBSERVED" | "MIRRORED" | "SKIPPED" | "FAILED";
+  txSignature: string | null;
+  leaderSignature: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface CopyTradeFollow {
+  id: string;
+  leaderAddress: string;
+  label: string | null;
+  mirror: boolean;
+  copySells: boolean;
+  sizeMode: "FIXED" | "PERCENT";
+  sizeValue: number;
+  maxPerTradeSol: number | null;
+  delaySeconds: number;
+  slippageBps: number;
+  blacklist: string[];
+  events: CopyTradeEvent[];
+}
+
+interface CopyTradingProps {
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<CopyTradeEvent["status"], string> = {
+  PENDING: "text-[#FF6B4A]",
+  OBSERVED: "text-white/40",
+  MIRRORED: "text-green-400",
+  SKIPPED: "text-yellow-400",
+  FAILED: "text-red-400",
+};
+
+function parseAddresses(text: string): string[] {
+  return text.split(/[\s,]+/).map((a) => a.trim()).filter(Boolean);
+}
+
+// Copy settings in one line, e.g. "50% of leader · max 1 SOL · 5s delay · buys only"
+function describeSettings(follow: CopyTradeFollow): string {
+  const parts = [follow.sizeMode === "FIXED" ? `${follow.sizeValue} SOL / buy` : `${follow.sizeValue}% of leader`];
+  if (follow.maxPerTradeSol !== null) parts.push(`max ${follow.maxPerTradeSol} SOL`);
+  if (follow.delaySeconds > 0) parts.push(`${follow.delaySeconds}s delay`);
+  if (!follow.copySells) parts.push("buys only");
+  if (follow.blacklist.length) parts.push(`${follow.blacklist.length} blacklisted`);
+  return parts.join(" · ");
+}
+
+// Follow external wallets and optionally mirror their pump.fun trades into a custodial wallet
+export function CopyTrading({ onClose }: CopyTradingProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const activeWalletId = useWalletStore((state) => state.activeWalletId);
+  const [follows, setFollows] = useState<CopyTradeFollow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  // New follow form
+  const [leaderAddress, setLeaderAddress] = useState("");
+  const [label, setLabel] = useState("");
+  const [sizeMode, setSizeMode] = useState<"FIXED" | "PERCENT">("FIXED");
+  const [sizeValue, setSizeValue] = useState("0.1");
+  const [maxPerTrade, setMaxPerTrade] = useState("");
+  const [delay, setDelay] = useState("0");
+  const [slippagePct, setSlippagePct] = useState("15");
+  const [blacklist, setBlacklist] = useState("");
+  const [copySells, setCopySells] = useState(true);
+  const [mirror, setMirror] = useState(false);
+
+  const fetchFollows = useCallback(async () => {
+    try {
+      const res = await fetch("/api/trading/copy-trading");
+      if (res.ok) {
+        const data = await res.json();
+        setFollows(data.follows || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch followed wallets:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFollows();
+    // Copies happen in the background - refresh the log every 10 seconds
+    const interval = setInterval(fetchFollows, 10000);
+    return () => clearInterval(interval);
+  }, [fetchFollows]);
+
+  const handleCreate = async () => {
+    if (!leaderAddress.trim() || !(parseFloat(sizeValue) > 0)) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/trading/copy-trading", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          leaderAddress: leaderAddress.trim(),
+          label: label.trim() || null,
+          mirror,
+          copySells,
+          sizeMode,
+          sizeValue: parseFloat(sizeValue),
+          maxPerTradeSol: maxPerTrade || null,
+          delaySeconds: parseInt(delay) || 0,
+          slippageBps: Math.round(parseFloat(slippagePct) * 100),
+          blacklist: parseAddresses(blacklist),
+          walletId: activeWalletId,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to follow wallet");
+      }
+      setFollows((prev) => [{ ...data.follow, events: [] }, ...prev]);
+      setShowForm(false);
+      setLeaderAddress("");
+      setLabel("");
+      showToast(`Following ${data.follow.label || shortenAddress(data.follow.leaderAddress)}`, "success");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to follow wallet", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMirror = async (follow: CopyTradeFollow) => {
+    setBusyId(follow.id);
+    try {
+      const res = await fetch(`/api/trading/copy-trading/${follow.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mirror: !follow.mirror }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update followed wallet");
+      }
+      setFollows((prev) => prev.map((f) => (f.id === follow.id ? { ...f, mirror: data.follow.mirror } : f)));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to update followed wallet", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const unfollow = async (id: string) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/trading/copy-trading/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to unfollow wallet");
+      }
+      setFollows((prev) => prev.filter((f) => f.id !== id));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to unfollow wallet", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClass = cn(
+    "w-full px-2 py-1.5 border outline-none text-xs focus:border-[#FF6B4A]/50",
+    isDark ? "bg-black/40 border-white/10 text-white placeholder-white/20" : "bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-300"
+  );
+  const labelClass = cn("text-[10px] uppercase tracking-wide", isDark ? "text-white/40" : "text-gray-400");
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className={cn("absolute inset-0 backdrop-blur-sm", isDark ? "bg-black/80" : "bg-black/50")} onClick={onClose} />
+      <div className={cn(
+        "relative w-full max-w-2xl max-h-[90vh] overflow-y-auto border",
+        isDark ? "bg-[#0d0d0d] border-white/10" : "bg-white border-gray-200"
+      )}>
+        <div className={cn("flex items-center justify-between px-4 py-3 border-b", isDark ? "border-white/10" : "border-gray-200")}>
+          <div>
+            <h2 className={cn("text-sm font-bold", isDark ? "text-white" : "text-gray-900")}>Copy trading</h2>
+            <p className={cn("text-xs", isDark ? "text-white/40" : "text-gray-500")}>
+              Watch wallets and mirror their pump.fun buys and sells
+            </p>
+          </div>
+          <button onClick={onClose} className={isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900"}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {showForm ? (
+            <div className={cn("p-3 border space-y-2", isDark ? "border-white/10" : "border-gray-200")}>
+              <div className="grid grid-cols-3 gap-2">
+                <label className="col-span-2">
+                  <span className={labelClass}>Wallet to follow</span>
+                  <input value={leaderAddress} onChange={(e) => setLeaderAddress(e.target.value)} placeholder="Wallet address" className={cn(inputClass, "font-mono")} />
+                </label>
+                <label>
+                  <span className={labelClass}>Label</span>
+                  <input value={label} onChange={(e) => setLabel(e.target.value)} maxLength={32} placeholder="Optional" className={inputClass} />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                <label>
+                  <span className={labelClass}>Size</span>
+                  <select value={sizeMode} onChange={(e) => setSizeMode(e.target.value as "FIXED" | "PERCENT")} className={inputClass}>
+                    <option value="FIXED">Fixed SOL</option>
+                    <option value="PERCENT">% of leader</option>
+                  </select>
+                </label>
+                <label>
+                  <span className={labelClass}>{sizeMode === "FIXED" ? "SOL / buy" : "% of leader"}</span>
+                  <input type="number" value={sizeValue} onChange={(e) => setSizeValue(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Max / trade (SOL)</span>
+                  <input type="number" value={maxPerTrade} onChange={(e) => setMaxPerTrade(e.target.value)} placeholder="None" className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Delay (s)</span>
+                  <input type="number" value={delay} onChange={(e) => setDelay(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Slippage %</span>
+                  <input type="number" value={slippagePct} onChange={(e) => setSlippagePct(e.target.value)} className={inputClass} />
+                </label>
+              </div>
+              <label className="block">
+                <span className={labelClass}>Never copy tokens</span>
+                <textarea value={blacklist} onChange={(e) => setBlacklist(e.target.value)} rows={2} placeholder="Token mints" className={cn(inputClass, "font-mono resize-none")} />
+              </label>
+              <label className={cn("flex items-center gap-2 text-xs", isDark ? "text-white/60" : "text-gray-600")}>
+                <input type="checkbox" checked={copySells} onChange={(e) => setCopySells(e.target.checked)} />
+                Copy sells (sells the same share of the position the leader sold)
+              </label>
+              <label className={cn("flex items-center gap-2 text-xs", isDark ? "text-white/60" : "text-gray-600")}>
+                <input type="checkbox" checked={mirror} onChange={(e) => setMirror(e.target.checked)} />
+                Mirror trades now (otherwise only watch)
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCreate}
+                  disabled={saving || !leaderAddress.trim() || !(parseFloat(sizeValue) > 0)}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+                  Follow wallet
+                </button>
+                <button
+                  onClick={() => setShowForm(false)}
+                  className={cn("px-3 py-2 text-xs border", isDark ? "border-white/10 text-white/60" : "border-gray-200 text-gray-600")}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="w-full py-2 text-xs font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B]"
+            >
+              Follow a wallet
+            </button>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className={cn("w-5 h-5 animate-spin", isDark ? "text-white/40" : "text-gray-400")} />
+            </div>
+          ) : follows.length === 0 ? (
+            <p className={cn("text-xs text-center py-6", isDark ? "text-white/40" : "text-gray-400")}>Not following any wallets yet</p>
+          ) : (
+            follows.map((follow) => (
+              <div key={follow.id} className={cn("p-3 border", isDark ? "border-white/10" : "border-gray-200")}>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("text-sm font-medium truncate", isDark ? "text-white" : "text-gray-900")}>
+                      {follow.label || shortenAddress(follow.leaderAddress)}
+                      {follow.label && (
+                        <span className={cn("ml-1.5 font-mono text-xs font-normal", isDark ? "text-white/40" : "text-gray-400")}>
+                          {shortenAddress(follow.leaderAddress)}
+                        </span>
+                      )}
+                    </p>
+                    <p className={cn("text-xs truncate", isDark ? "text-white/40" : "text-gray-500")}>{describeSettings(follow)}</p>
+                  </div>
+                  <button
+                    onClick={() => toggleMirror(follow)}
+                    disabled={busyId === follow.id}
+                    title={follow.mirror ? "Mirroring trades - click to only watch" : "Only watching - click to mirror trades"}
+                    className={cn(
+                      "px-2 py-1 text-[10px] font-medium border",
+                      follow.mirror ? "border-green-500/40 text-green-400" : isDark ? "border-white/10 text-white/40" : "border-gray-200 text-gray-400"
+                    )}
+                  >
+                    {follow.mirror ? "MIRROR" : "WATCH"}
+                  </button>
+                  <button
+                    onClick={() => unfollow(follow.id)}
+                    disabled={busyId === follow.id}
+                    className={cn("p-1", isDark ? "text-white/30 hover:text-red-400" : "text-gray-400 hover:text-red-500")}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+
+                {follow.events.length > 0 && (
+                  <div className={cn("mt-2 pt-2 border-t space-y-0.5", isDark ? "border-white/5" : "border-gray-100")}>
+                    {follow.events.map((event) => (
+                      <p key={event.id} className="text-[11px] flex gap-2" title={event.reason || undefined}>
+                        <span className={cn("w-16 flex-shrink-0", STATUS_COLORS[event.status])}>{event.status.toLowerCase()}</span>
+                        <span className={cn("w-8 flex-shrink-0", event.side === "BUY" ? "text-green-400" : "text-red-400")}>
+                          {event.side.toLowerCase()}
+                        </span>
+                        <a
+                          href={`https://solscan.io/tx/${event.txSignature || event.leaderSignature}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={cn("font-mono truncate hover:underline", isDark ? "text-white/70" : "text-gray-700")}
+                        >
+                          {shortenAddress(event.tokenMint)}
+                        </a>
+                        <span className={cn("flex-shrink-0", isDark ? "text-white/50" : "text-gray-500")}>
+                          {+event.leaderSolAmount.toFixed(4)} SOL
+                        </span>
+                        {event.reason && <span className={cn("truncate", isDark ? "text-white/30" : "text-gray-400")}>{event.reason}</span>}
+                        <span className={cn("ml-auto flex-shrink-0", isDark ? "text-white/30" : "text-gray-400")}>
+                          {new Date(event.createdAt).toLocaleTimeString()}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, X } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useToast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
+
+interface LimitOrder {
+  id: string;
+  tokenSymbol: string;
+  side: "BUY" | "SELL";
+  triggerType: "PRICE" | "MARKET_CAP";
+  triggerValue: number;
+  amount: string;
+  status: string;
+  createdAt: string;
+}
+
+interface LimitOrderListProps {
+  tokenMint: string;
+  tokenDecimals?: number;
+  refreshKey?: number; // Bump to reload after placing an order
+}
+
+function formatTrigger(order: LimitOrder): string {
+  const value = order.triggerValue;
+  if (order.triggerType === "MARKET_CAP") {
+    if (value >= 1_000_000_000) return `$${(value / 1_000_000_000).toFixed(2)}B MC`;
+    if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(2)}M MC`;
+    if (value >= 1_000) return `$${(value / 1_000).toFixed(1)}K MC`;
+    return `$${value.toFixed(0)} MC`;
+  }
+  return `$${value < 0.01 ? value.toPrecision(4) : value.toFixed(4)}`;
+}
+
+export function LimitOrderList({ tokenMint, tokenDecimals = 9, refreshKey = 0 }: LimitOrderListProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/trading/orders?tokenMint=${tokenMint}&status=open`);
+      if (res.ok) {
+        const data = await res.json();
+        setOrders(data.orders || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch orders:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenMint]);
+
+  useEffect(() => {
+    fetchOrders();
+    // Filled orders disappear from the open list - refresh every 10 seconds
+    const interval = setInterval(fetchOrders, 10000);
+    return () => clearInterval(interval);
+  }, [fetchOrders, refreshKey]);
+
+  const cancelOrder = async (id: string) => {
+    setCancellingId(id);
+    try {
+      const res = await fetch(`/api/trading/orders/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to cancel order");
+      }
+      setOrders((prev) => prev.filter((o) => o.id !== id));
+      showToast("Order cancelled", "success");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to cancel order", "error");
+      fetchOrders();
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (loading || orders.length === 0) return null;
+
+  return (
+    <div className={cn("mt-4 pt-3 border-t", isDark ? "border-white/5" : "border-black/5")}>
+      <div className={cn("text-[10px] uppercase mb-2", isDark ? "text-white/30" : "text-gray-400")}>
+        Open Orders
+      </div>
+      <div className="space-y-1">
+        {orders.map((order) => {
+          const isBuy = order.side === "BUY";
+          const amount = Number(order.amount) / Math.pow(10, isBuy ? 9 : tokenDecimals);
+          return (
+            <div
+              key={order.id}
+              className={cn(
+                "flex items-center justify-between gap-2 px-2 py-1.5 text-xs border",
+                isDark ? "bg-white/5 border-white/10" : "bg-gray-50 border-gray-200"
+              )}
+            >
+              <span className={cn("font-medium", isBuy ? "text-[#00ffa3]" : "text-red-400")}>
+                {isBuy ? "Buy" : "Sell"}
+              </span>
+              <span className={cn("font-mono truncate", isDark ? "text-white/60" : "text-gray-600")}>
+                {amount.toLocaleString(undefined, { maximumFractionDigits: 4 })} {isBuy ? "SOL" : order.tokenSymbol}
+              </span>
+              <span className={cn("font-mono", isDark ? "text-white/40" : "text-gray-500")}>
+                @ {formatTrigger(order)}
+              </span>
+              <button
+                onClick={() => cancelOrder(order.id)}
+                disabled={cancellingId === order.id}
+                className={cn(
+                  "p-1 transition-colors",
+                  isDark ? "text-white/40 hover:text-white/70" : "text-gray-400 hover:text-gray-600"
+                )}
+                title="Cancel order"
+              >
+                {cancellingId === order.id ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <X className="w-3 h-3" />
+                )}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
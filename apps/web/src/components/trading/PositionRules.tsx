@@ -0,0 +1,232 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, X } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useToast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
+
+type RuleType = "STOP_LOSS" | "TAKE_PROFIT" | "TRAILING_STOP";
+
+interface PositionRule {
+  id: string;
+  type: RuleType;
+  mode: "PERCENT" | "PRICE";
+  value: number;
+  sellPercent: number;
+  triggerPriceUsd: number | null;
+  status: string;
+}
+
+interface PositionRulesProps {
+  tokenMint: string;
+  tokenSymbol: string;
+  hasPosition: boolean; // Rules can only be added while holding the token
+  walletId?: string | null; // Wallet holding the position - primary when omitted
+}
+
+const RULE_LABELS: Record<RuleType, string> = {
+  STOP_LOSS: "SL",
+  TAKE_PROFIT: "TP",
+  TRAILING_STOP: "Trail",
+};
+
+const RULE_OPTIONS: { type: RuleType; param: string }[] = [
+  { type: "STOP_LOSS", param: "stopLoss" },
+  { type: "TAKE_PROFIT", param: "takeProfit" },
+  { type: "TRAILING_STOP", param: "trailingStop" },
+];
+
+export function formatRulePrice(value: number): string {
+  return `$${value < 0.01 ? value.toPrecision(4) : value.toFixed(4)}`;
+}
+
+function formatRuleValue(rule: PositionRule): string {
+  if (rule.mode === "PERCENT") {
+    const sign = rule.type === "TAKE_PROFIT" ? "+" : "-";
+    return `${sign}${rule.value}%`;
+  }
+  return rule.type === "TRAILING_STOP" ? `-${formatRulePrice(rule.value)}` : formatRulePrice(rule.value);
+}
+
+export function PositionRules({ tokenMint, tokenSymbol, hasPosition, walletId }: PositionRulesProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<PositionRule[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [ruleType, setRuleType] = useState<RuleType>("STOP_LOSS");
+  const [mode, setMode] = useState<"percent" | "price">("percent");
+  const [value, setValue] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/trading/position-rules?tokenMint=${tokenMint}&status=active`);
+      if (res.ok) {
+        const data = await res.json();
+        setRules(data.rules || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch position rules:", err);
+    }
+  }, [tokenMint]);
+
+  useEffect(() => {
+    fetchRules();
+    // Trailing triggers move and fired rules disappear - refresh every 10 seconds
+    const interval = setInterval(fetchRules, 10000);
+    return () => clearInterval(interval);
+  }, [fetchRules]);
+
+  const addRule = async () => {
+    const numValue = parseFloat(value);
+    if (!numValue || numValue <= 0) {
+      showToast("Enter a value", "error");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/trading/position-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tokenMint,
+          tokenSymbol,
+          type: RULE_OPTIONS.find((o) => o.type === ruleType)!.param,
+          mode,
+          value: numValue,
+          walletId,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to add rule");
+      }
+      setValue("");
+      setRules((prev) => [data.rule, ...prev]);
+      showToast(`${RULE_LABELS[ruleType]} set`, "success");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to add rule", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelRule = async (id: string) => {
+    setCancellingId(id);
+    try {
+      const res = await fetch(`/api/trading/position-rules/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to cancel rule");
+      }
+      setRules((prev) => prev.filter((r) => r.id !== id));
+      showToast("Rule cancelled", "success");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to cancel rule", "error");
+      fetchRules();
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (!hasPosition && rules.length === 0) return null;
+
+  return (
+    <div className={cn("mt-4 pt-3 border-t", isDark ? "border-white/5" : "border-black/5")}>
+      <div className={cn("text-[10px] uppercase mb-2", isDark ? "text-white/30" : "text-gray-400")}>
+        Exit Rules
+      </div>
+
+      {rules.length > 0 && (
+        <div className="space-y-1 mb-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={cn(
+                "flex items-center justify-between gap-2 px-2 py-1.5 text-xs border",
+                isDark ? "bg-white/5 border-white/10" : "bg-gray-50 border-gray-200"
+              )}
+            >
+              <span className={cn("font-medium", rule.type === "TAKE_PROFIT" ? "text-[#00ffa3]" : "text-red-400")}>
+                {RULE_LABELS[rule.type]}
+              </span>
+              <span className={cn("font-mono", isDark ? "text-white/60" : "text-gray-600")}>
+                {formatRuleValue(rule)}
+                {rule.sellPercent < 100 && ` (${rule.sellPercent}%)`}
+              </span>
+              <span className={cn("font-mono", isDark ? "text-white/40" : "text-gray-500")}>
+                {rule.triggerPriceUsd ? `@ ${formatRulePrice(rule.triggerPriceUsd)}` : "-"}
+              </span>
+              <button
+                onClick={() => cancelRule(rule.id)}
+                disabled={cancellingId === rule.id}
+                className={cn(
+                  "p-1 transition-colors",
+                  isDark ? "text-white/40 hover:text-white/70" : "text-gray-400 hover:text-gray-600"
+                )}
+                title="Cancel rule"
+              >
+                {cancellingId === rule.id ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <X className="w-3 h-3" />
+                )}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasPosition && (
+        <div className="flex items-center gap-1">
+          {RULE_OPTIONS.map((option) => (
+            <button
+              key={option.type}
+              onClick={() => setRuleType(option.type)}
+              className={cn(
+                "px-2 py-1.5 text-[10px] font-medium border transition-colors",
+                ruleType === option.type
+                  ? isDark ? "bg-white/10 border-white/20 text-white" : "bg-gray-100 border-gray-300 text-gray-900"
+                  : isDark ? "border-white/10 text-white/40 hover:text-white/70" : "border-gray-200 text-gray-400 hover:text-gray-600"
+              )}
+            >
+              {RULE_LABELS[option.type]}
+            </button>
+          ))}
+          <input
+            type="number"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={mode === "percent" ? "%" : "$"}
+            className={cn(
+              "flex-1 min-w-0 px-2 py-1.5 text-xs font-mono border outline-none",
+              isDark ? "bg-white/5 border-white/10 text-white" : "bg-white border-gray-200 text-gray-900"
+            )}
+          />
+          <button
+            onClick={() => setMode(mode === "percent" ? "price" : "percent")}
+            className={cn(
+              "px-2 py-1.5 text-[10px] font-medium border",
+              isDark ? "border-white/10 text-white/60" : "border-gray-200 text-gray-600"
+            )}
+            title="Toggle percent / USD price"
+          >
+            {mode === "percent" ? "%" : "$"}
+          </button>
+          <button
+            onClick={addRule}
+            disabled={saving || !value}
+            className={cn(
+              "px-2 py-1.5 text-[10px] font-medium border transition-colors disabled:opacity-50",
+              isDark ? "border-white/20 text-white hover:bg-white/10" : "border-gray-300 text-gray-900 hover:bg-gray-100"
+            )}
+          >
+            {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : "Add"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
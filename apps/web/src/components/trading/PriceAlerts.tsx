@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Trash2, X } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useToast } from "@/components/ui/Toast";
+import { formatNumber, cn } from "@/lib/utils";
+
+type AlertType =
+  | "PRICE_ABOVE"
+  | "PRICE_BELOW"
+  | "MCAP_ABOVE"
+  | "MCAP_BELOW"
+  | "PCT_CHANGE"
+  | "BONDING_PROGRESS"
+  | "MIGRATED";
+
+interface PriceAlert {
+  id: string;
+  tokenMint: string;
+  tokenSymbol: string;
+  type: AlertType;
+  threshold: number | null;
+  windowMinutes: number | null;
+  email: boolean;
+  repeat: boolean;
+  enabled: boolean;
+  triggerCount: number;
+  lastTriggeredAt: string | null;
+}
+
+interface PriceAlertsProps {
+  tokenMint: string;
+  tokenSymbol: string;
+  onClose: () => void;
+}
+
+const TYPE_OPTIONS: { value: AlertType; label: string; unit: string }[] = [
+  { value: "PRICE_ABOVE", label: "Price above", unit: "USD" },
+  { value: "PRICE_BELOW", label: "Price below", unit: "USD" },
+  { value: "MCAP_ABOVE", label: "Market cap above", unit: "USD" },
+  { value: "MCAP_BELOW", label: "Market cap below", unit: "USD" },
+  { value: "PCT_CHANGE", label: "% change within", unit: "%" },
+  { value: "BONDING_PROGRESS", label: "Bonding curve reaches", unit: "%" },
+  { value: "MIGRATED", label: "Migrates to Raydium", unit: "" },
+];
+
+function describeAlert(alert: PriceAlert): string {
+  const option = TYPE_OPTIONS.find((o) => o.value === alert.type);
+  const threshold = alert.threshold ?? 0;
+  switch (alert.type) {
+    case "PRICE_ABOVE":
+    case "PRICE_BELOW":
+      return `${option?.label} $${threshold}`;
+    case "MCAP_ABOVE":
+    case "MCAP_BELOW":
+      return `${option?.label} $${formatNumber(threshold)}`;
+    case "PCT_CHANGE":
+      return `${threshold > 0 ? "+" : ""}${threshold}% within ${alert.windowMinutes} min`;
+    case "BONDING_PROGRESS":
+      return `${option?.label} ${threshold}%`;
+    case "MIGRATED":
+      return option?.label ?? "Migrates";
+  }
+}
+
+// Alerts for one token - delivered as toasts (and optionally email) by the API
+export function PriceAlerts({ tokenMint, tokenSymbol, onClose }: PriceAlertsProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // New alert form
+  const [type, setType] = useState<AlertType>("PRICE_ABOVE");
+  const [threshold, setThreshold] = useState("");
+  const [windowMinutes, setWindowMinutes] = useState("60");
+  const [email, setEmail] = useState(false);
+  const [repeat, setRepeat] = useState(false);
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/alerts?tokenMint=${tokenMint}`);
+      if (res.ok) {
+        const data = await res.json();
+        setAlerts(data.alerts || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch alerts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenMint]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const needsThreshold = type !== "MIGRATED";
+  const unit = TYPE_OPTIONS.find((o) => o.value === type)?.unit;
+
+  const handleCreate = async () => {
+    if (needsThreshold && !threshold) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tokenMint,
+          tokenSymbol,
+          type,
+          threshold: needsThreshold ? parseFloat(threshold) : null,
+          windowMinutes: type === "PCT_CHANGE" ? parseInt(windowMinutes, 10) : null,
+          email,
+          repeat,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to create alert");
+      }
+      setAlerts((prev) => [data.alert, ...prev]);
+      setThreshold("");
+      showToast("Alert created", "success");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to create alert", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateAlert = async (alert: PriceAlert, changes: Partial<Pick<PriceAlert, "enabled" | "email" | "repeat">>) => {
+    setBusyId(alert.id);
+    try {
+      const res = await fetch(`/api/alerts/${alert.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update alert");
+      }
+      setAlerts((prev) => prev.map((a) => (a.id === alert.id ? data.alert : a)));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to update alert", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteAlert = async (alert: PriceAlert) => {
+    setBusyId(alert.id);
+    try {
+      const res = await fetch(`/api/alerts/${alert.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to delete alert");
+      }
+      setAlerts((prev) => prev.filter((a) => a.id !== alert.id));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to delete alert", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClass = cn(
+    "w-full px-2 py-1.5 border outline-none text-xs focus:border-[#FF6B4A]/50",
+    isDark ? "bg-black/40 border-white/10 text-white placeholder-white/20" : "bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-300"
+  );
+  const mutedClass = isDark ? "text-white/40" : "text-gray-400";
+  const toggleClass = (active: boolean) => cn(
+    "px-1.5 py-0.5 text-[10px] border",
+    active ? "border-[#FF6B4A]/50 text-[#FF6B4A]" : isDark ? "border-white/10 text-white/40" : "border-gray-200 text-gray-400"
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className={cn("absolute inset-0 backdrop-blur-sm", isDark ? "bg-black/80" : "bg-black/50")} onClick={onClose} />
+      <div className={cn(
+        "relative w-full max-w-md max-h-[90vh] overflow-y-auto border",
+        isDark ? "bg-[#0d0d0d] border-white/10" : "bg-white border-gray-200"
+      )}>
+        <div className={cn("flex items-center justify-between px-4 py-3 border-b", isDark ? "border-white/10" : "border-gray-200")}>
+          <div>
+            <h2 className={cn("text-sm font-bold", isDark ? "text-white" : "text-gray-900")}>{tokenSymbol} alerts</h2>
+            <p className={cn("text-xs", isDark ? "text-white/40" : "text-gray-500")}>
+              Get notified when price, market cap or bonding progress crosses a level
+            </p>
+          </div>
+          <button onClick={onClose} className={isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900"}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {/* New alert */}
+          <div className="space-y-2">
+            <select value={type} onChange={(e) => setType(e.target.value as AlertType)} className={inputClass}>
+              {TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {needsThreshold && (
+              <div className="flex gap-1.5 items-center">
+                <input
+                  type="number"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  placeholder={type === "PCT_CHANGE" ? "e.g. 50 or -30" : "Threshold"}
+                  className={inputClass}
+                />
+                <span className={cn("text-xs w-8", mutedClass)}>{unit}</span>
+                {type === "PCT_CHANGE" && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      max={1440}
+                      value={windowMinutes}
+                      onChange={(e) => setWindowMinutes(e.target.value)}
+                      className={cn(inputClass, "w-20")}
+                    />
+                    <span className={cn("text-xs", mutedClass)}>min</span>
+                  </>
+                )}
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <label className={cn("flex items-center gap-1.5 text-xs", isDark ? "text-white/60" : "text-gray-600")}>
+                <input type="checkbox" checked={email} onChange={(e) => setEmail(e.target.checked)} />
+                Email me
+              </label>
+              <label className={cn("flex items-center gap-1.5 text-xs", isDark ? "text-white/60" : "text-gray-600")}>
+                <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+                Repeat
+              </label>
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={saving || (needsThreshold && !threshold)}
+              className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+              Create alert
+            </button>
+          </div>
+
+          {/* Existing alerts */}
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className={cn("w-5 h-5 animate-spin", mutedClass)} />
+            </div>
+          ) : alerts.length === 0 ? (
+            <p className={cn("text-xs text-center py-4", mutedClass)}>No alerts for this token yet</p>
+          ) : (
+            <div className="space-y-1">
+              {alerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  className={cn("flex items-center gap-2 px-2 py-1.5 border", isDark ? "border-white/10" : "border-gray-200")}
+                >
+                  <div className={cn("flex-1 min-w-0", !alert.enabled && "opacity-50")}>
+                    <p className={cn("text-xs truncate", isDark ? "text-white" : "text-gray-900")}>{describeAlert(alert)}</p>
+                    <p className={cn("text-[10px]", mutedClass)}>
+                      {alert.triggerCount > 0 && alert.lastTriggeredAt
+                        ? `Fired ${alert.triggerCount}x, last ${new Date(alert.lastTriggeredAt).toLocaleString()}`
+                        : "Not fired yet"}
+                    </p>
+                  </div>
+                  <button onClick={() => updateAlert(alert, { email: !alert.email })} disabled={busyId === alert.id} className={toggleClass(alert.email)}>
+                    Email
+                  </button>
+                  <button onClick={() => updateAlert(alert, { repeat: !alert.repeat })} disabled={busyId === alert.id} className={toggleClass(alert.repeat)}>
+                    Repeat
+                  </button>
+                  <button onClick={() => updateAlert(alert, { enabled: !alert.enabled })} disabled={busyId === alert.id} className={toggleClass(alert.enabled)}>
+                    {alert.enabled ? "On" : "Off"}
+                  </button>
+                  <button
+                    onClick={() => deleteAlert(alert)}
+                    disabled={busyId === alert.id}
+                    className={cn("p-1", isDark ? "text-white/30 hover:text-red-400" : "text-gray-400 hover:text-red-500")}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
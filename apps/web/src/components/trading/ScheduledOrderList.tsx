@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Pause, Play, X } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useToast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
+
+interface ScheduledOrder {
+  id: string;
+  tokenSymbol: string;
+  side: "BUY" | "SELL";
+  totalAmount: string;
+  amountExecuted: string;
+  sliceCount: number;
+  slicesExecuted: number;
+  slicesSkipped: number;
+  slicesFailed: number;
+  intervalSeconds: number;
+  status: "ACTIVE" | "PAUSED" | "COMPLETED" | "CANCELLED" | "FAILED";
+  nextRunAt: string;
+}
+
+interface ScheduledOrderListProps {
+  tokenMint: string;
+  tokenDecimals?: number;
+  refreshKey?: number; // Bump to reload after starting an order
+}
+
+function formatInterval(seconds: number): string {
+  if (seconds >= 3600) return `${+(seconds / 3600).toFixed(1)}h`;
+  if (seconds >= 60) return `${+(seconds / 60).toFixed(1)}m`;
+  return `${seconds}s`;
+}
+
+export function ScheduledOrderList({ tokenMint, tokenDecimals = 9, refreshKey = 0 }: ScheduledOrderListProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const [orders, setOrders] = useState<ScheduledOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/trading/scheduled-orders?tokenMint=${tokenMint}&status=running`);
+      if (res.ok) {
+        const data = await res.json();
+        setOrders(data.orders || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch scheduled orders:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenMint]);
+
+  useEffect(() => {
+    fetchOrders();
+    // Slices run in the background - refresh progress every 10 seconds
+    const interval = setInterval(fetchOrders, 10000);
+    return () => clearInterval(interval);
+  }, [fetchOrders, refreshKey]);
+
+  const updateOrder = async (id: string, action: "pause" | "resume" | "cancel") => {
+    setBusyId(id);
+    try {
+      const res = action === "cancel"
+        ? await fetch(`/api/trading/scheduled-orders/${id}`, { method: "DELETE" })
+        : await fetch(`/api/trading/scheduled-orders/${id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ action }),
+          });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${action} order`);
+      }
+      if (action === "cancel") {
+        setOrders((prev) => prev.filter((o) => o.id !== id));
+        showToast("Order cancelled", "success");
+      } else {
+        setOrders((prev) =>
+          prev.map((o) => (o.id === id ? { ...o, status: action === "pause" ? "PAUSED" : "ACTIVE" } : o))
+        );
+      }
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : `Failed to ${action} order`, "error");
+      fetchOrders();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || orders.length === 0) return null;
+
+  return (
+    <div className={cn("mt-4 pt-3 border-t", isDark ? "border-white/5" : "border-black/5")}>
+      <div className={cn("text-[10px] uppercase mb-2", isDark ? "text-white/30" : "text-gray-400")}>
+        DCA Orders
+      </div>
+      <div className="space-y-1">
+        {orders.map((order) => {
+          const isBuy = order.side === "BUY";
+          const decimals = isBuy ? 9 : tokenDecimals;
+          const total = Number(order.totalAmount) / Math.pow(10, decimals);
+          const done = Number(order.amountExecuted) / Math.pow(10, decimals);
+          const slicesRun = order.slicesExecuted + order.slicesSkipped + order.slicesFailed;
+          const isPaused = order.status === "PAUSED";
+          return (
+            <div
+              key={order.id}
+              className={cn(
+                "flex items-center justify-between gap-2 px-2 py-1.5 text-xs border",
+                isDark ? "bg-white/5 border-white/10" : "bg-gray-50 border-gray-200"
+              )}
+            >
+              <span className={cn("font-medium", isBuy ? "text-[#00ffa3]" : "text-red-400")}>
+                {isBuy ? "Buy" : "Sell"}
+              </span>
+              <span
+                className={cn("font-mono truncate", isDark ? "text-white/60" : "text-gray-600")}
+                title={`${order.slicesExecuted} filled, ${order.slicesSkipped} skipped (price impact), ${order.slicesFailed} failed`}
+              >
+                {done.toLocaleString(undefined, { maximumFractionDigits: 4 })}/
+                {total.toLocaleString(undefined, { maximumFractionDigits: 4 })} {isBuy ? "SOL" : order.tokenSymbol}
+              </span>
+              <span className={cn("font-mono", isDark ? "text-white/40" : "text-gray-500")}>
+                {isPaused ? "paused" : `${slicesRun}/${order.sliceCount} · ${formatInterval(order.intervalSeconds)}`}
+              </span>
+              <div className="flex items-center">
+                {busyId === order.id ? (
+                  <Loader2 className={cn("w-3 h-3 m-1 animate-spin", isDark ? "text-white/40" : "text-gray-400")} />
+                ) : (
+                  <>
+                    <button
+                      onClick={() => updateOrder(order.id, isPaused ? "resume" : "pause")}
+                      className={cn(
+                        "p-1 transition-colors",
+                        isDark ? "text-white/40 hover:text-white/70" : "text-gray-400 hover:text-gray-600"
+                      )}
+                      title={isPaused ? "Resume" : "Pause"}
+                    >
+                      {isPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                    </button>
+                    <button
+                      onClick={() => updateOrder(order.id, "cancel")}
+                      className={cn(
+                        "p-1 transition-colors",
+                        isDark ? "text-white/40 hover:text-white/70" : "text-gray-400 hover:text-gray-600"
+                      )}
+                      title="Cancel order"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Trash2, X } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useWalletStore } from "@/stores/walletStore";
+import { useToast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+interface SnipeEvent {
+  id: string;
+  type: "MATCHED" | "SKIPPED" | "FILLED" | "FAILED";
+  tokenMint: string;
+  tokenSymbol: string;
+  amount: string | null;
+  txSignature: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface SnipeRule {
+  id: string;
+  label: string;
+  enabled: boolean;
+  namePattern: string | null;
+  symbolPattern: string | null;
+  creatorAllowlist: string[];
+  creatorDenylist: string[];
+  minInitialBuySol: number | null;
+  maxInitialBuySol: number | null;
+  requireSocials: boolean;
+  maxDevHoldingPct: number | null;
+  buyAmount: string;
+  budget: string;
+  spent: string;
+  dailyCap: string | null;
+  events: SnipeEvent[];
+}
+
+interface SnipeRulesProps {
+  onClose: () => void;
+}
+
+const EVENT_COLORS: Record<SnipeEvent["type"], string> = {
+  MATCHED: "text-[#FF6B4A]",
+  SKIPPED: "text-yellow-400",
+  FILLED: "text-green-400",
+  FAILED: "text-red-400",
+};
+
+function toSol(lamports: string): string {
+  return `${+(Number(lamports) / LAMPORTS_PER_SOL).toFixed(4)} SOL`;
+}
+
+function toLamports(sol: string): string | null {
+  const num = parseFloat(sol);
+  if (isNaN(num) || num <= 0) return null;
+  return Math.floor(num * LAMPORTS_PER_SOL).toString();
+}
+
+function parseAddresses(text: string): string[] {
+  return text.split(/[\s,]+/).map((a) => a.trim()).filter(Boolean);
+}
+
+// Filters in one line, e.g. "name /cat/ · dev ≤ 5% · socials"
+function describeFilters(rule: SnipeRule): string {
+  const parts: string[] = [];
+  if (rule.namePattern) parts.push(`name /${rule.namePattern}/`);
+  if (rule.symbolPattern) parts.push(`symbol /${rule.symbolPattern}/`);
+  if (rule.creatorAllowlist.length) parts.push(`${rule.creatorAllowlist.length} allowed creators`);
+  if (rule.creatorDenylist.length) parts.push(`${rule.creatorDenylist.length} blocked creators`);
+  if (rule.minInitialBuySol !== null || rule.maxInitialBuySol !== null) {
+    parts.push(`dev buy ${rule.minInitialBuySol ?? 0}-${rule.maxInitialBuySol ?? "∞"} SOL`);
+  }
+  if (rule.maxDevHoldingPct !== null) parts.push(`dev ≤ ${rule.maxDevHoldingPct}%`);
+  if (rule.requireSocials) parts.push("socials");
+  return parts.length ? parts.join(" · ") : "Every new token";
+}
+
+// Auto-snipe rules for new pump.fun tokens - create, toggle, delete and review the audit log
+export function SnipeRules({ onClose }: SnipeRulesProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const activeWalletId = useWalletStore((state) => state.activeWalletId);
+  const [rules, setRules] = useState<SnipeRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  // New rule form
+  const [label, setLabel] = useState("");
+  const [buySol, setBuySol] = useState("0.1");
+  const [budgetSol, setBudgetSol] = useState("1");
+  const [dailyCapSol, setDailyCapSol] = useState("");
+  const [namePattern, setNamePattern] = useState("");
+  const [symbolPattern, setSymbolPattern] = useState("");
+  const [allowlist, setAllowlist] = useState("");
+  const [denylist, setDenylist] = useState("");
+  const [minInitialBuy, setMinInitialBuy] = useState("");
+  const [maxInitialBuy, setMaxInitialBuy] = useState("");
+  const [maxDevHolding, setMaxDevHolding] = useState("");
+  const [requireSocials, setRequireSocials] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const res = await fetch("/api/trading/snipe-rules");
+      if (res.ok) {
+        const data = await res.json();
+        setRules(data.rules || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch snipe rules:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+    // Snipes fire in the background - refresh the log every 10 seconds
+    const interval = setInterval(fetchRules, 10000);
+    return () => clearInterval(interval);
+  }, [fetchRules]);
+
+  const handleCreate = async () => {
+    const buyAmount = toLamports(buySol);
+    const budget = toLamports(budgetSol);
+    if (!label.trim() || !buyAmount || !budget) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/trading/snipe-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: label.trim(),
+          buyAmount,
+          budget,
+          dailyCap: dailyCapSol ? toLamports(dailyCapSol) : null,
+          walletId: activeWalletId,
+          namePattern: namePattern || null,
+          symbolPattern: symbolPattern || null,
+          creatorAllowlist: parseAddresses(allowlist),
+          creatorDenylist: parseAddresses(denylist),
+          minInitialBuySol: minInitialBuy || null,
+          maxInitialBuySol: maxInitialBuy || null,
+          maxDevHoldingPct: maxDevHolding || null,
+          requireSocials,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to create rule");
+      }
+      setRules((prev) => [{ ...data.rule, events: [] }, ...prev]);
+      setShowForm(false);
+      setLabel("");
+      showToast(`Snipe rule "${data.rule.label}" created`, "success");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to create rule", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: SnipeRule) => {
+    setBusyId(rule.id);
+    try {
+      const res = await fetch(`/api/trading/snipe-rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update rule");
+      }
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled: data.rule.enabled } : r)));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to update rule", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/trading/snipe-rules/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to delete rule");
+      }
+      setRules((prev) => prev.filter((r) => r.id !== id));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to delete rule", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClass = cn(
+    "w-full px-2 py-1.5 border outline-none text-xs focus:border-[#FF6B4A]/50",
+    isDark ? "bg-black/40 border-white/10 text-white placeholder-white/20" : "bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-300"
+  );
+  const labelClass = cn("text-[10px] uppercase tracking-wide", isDark ? "text-white/40" : "text-gray-400");
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className={cn("absolute inset-0 backdrop-blur-sm", isDark ? "bg-black/80" : "bg-black/50")} onClick={onClose} />
+      <div className={cn(
+        "relative w-full max-w-2xl max-h-[90vh] overflow-y-auto border",
+        isDark ? "bg-[#0d0d0d] border-white/10" : "bg-white border-gray-200"
+      )}>
+        <div className={cn("flex items-center justify-between px-4 py-3 border-b", isDark ? "border-white/10" : "border-gray-200")}>
+          <div>
+            <h2 className={cn("text-sm font-bold", isDark ? "text-white" : "text-gray-900")}>Auto-snipe</h2>
+            <p className={cn("text-xs", isDark ? "text-white/40" : "text-gray-500")}>
+              Buy new pump.fun tokens the moment they match a rule
+            </p>
+          </div>
+          <button onClick={onClose} className={isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900"}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {showForm ? (
+            <div className={cn("p-3 border space-y-2", isDark ? "border-white/10" : "border-gray-200")}>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <label className="col-span-2 sm:col-span-1">
+                  <span className={labelClass}>Label</span>
+                  <input value={label} onChange={(e) => setLabel(e.target.value)} maxLength={32} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Buy (SOL)</span>
+                  <input type="number" value={buySol} onChange={(e) => setBuySol(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Budget (SOL)</span>
+                  <input type="number" value={budgetSol} onChange={(e) => setBudgetSol(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Daily cap (SOL)</span>
+                  <input type="number" value={dailyCapSol} onChange={(e) => setDailyCapSol(e.target.value)} placeholder="None" className={inputClass} />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label>
+                  <span className={labelClass}>Name regex</span>
+                  <input value={namePattern} onChange={(e) => setNamePattern(e.target.value)} placeholder="e.g. cat|dog" className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Symbol regex</span>
+                  <input value={symbolPattern} onChange={(e) => setSymbolPattern(e.target.value)} placeholder="e.g. ^[A-Z]{3,5}$" className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Only creators</span>
+                  <textarea value={allowlist} onChange={(e) => setAllowlist(e.target.value)} rows={2} placeholder="Wallet addresses" className={cn(inputClass, "font-mono resize-none")} />
+                </label>
+                <label>
+                  <span className={labelClass}>Never creators</span>
+                  <textarea value={denylist} onChange={(e) => setDenylist(e.target.value)} rows={2} placeholder="Wallet addresses" className={cn(inputClass, "font-mono resize-none")} />
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <label>
+                  <span className={labelClass}>Dev buy min (SOL)</span>
+                  <input type="number" value={minInitialBuy} onChange={(e) => setMinInitialBuy(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Dev buy max (SOL)</span>
+                  <input type="number" value={maxInitialBuy} onChange={(e) => setMaxInitialBuy(e.target.value)} className={inputClass} />
+                </label>
+                <label>
+                  <span className={labelClass}>Max dev holding %</span>
+                  <input type="number" value={maxDevHolding} onChange={(e) => setMaxDevHolding(e.target.value)} className={inputClass} />
+                </label>
+              </div>
+              <label className={cn("flex items-center gap-2 text-xs", isDark ? "text-white/60" : "text-gray-600")}>
+                <input type="checkbox" checked={requireSocials} onChange={(e) => setRequireSocials(e.target.checked)} />
+                Require website, X or Telegram (waits for token metadata)
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCreate}
+                  disabled={saving || !label.trim() || !toLamports(buySol) || !toLamports(budgetSol)}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+                  Create rule
+                </button>
+                <button
+                  onClick={() => setShowForm(false)}
+                  className={cn("px-3 py-2 text-xs border", isDark ? "border-white/10 text-white/60" : "border-gray-200 text-gray-600")}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="w-full py-2 text-xs font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B]"
+            >
+              New snipe rule
+            </button>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className={cn("w-5 h-5 animate-spin", isDark ? "text-white/40" : "text-gray-400")} />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className={cn("text-xs text-center py-6", isDark ? "text-white/40" : "text-gray-400")}>No snipe rules yet</p>
+          ) : (
+            rules.map((rule) => (
+              <div key={rule.id} className={cn("p-3 border", isDark ? "border-white/10" : "border-gray-200", !rule.enabled && "opacity-60")}>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("text-sm font-medium truncate", isDark ? "text-white" : "text-gray-900")}>{rule.label}</p>
+                    <p className={cn("text-xs truncate", isDark ? "text-white/40" : "text-gray-500")}>{describeFilters(rule)}</p>
+                  </div>
+                  <div className={cn("text-xs text-right font-mono", isDark ? "text-white/60" : "text-gray-600")}>
+                    <p>{toSol(rule.buyAmount)} / snipe</p>
+                    <p>{toSol(rule.spent)} of {toSol(rule.budget)}{rule.dailyCap ? ` · ${toSol(rule.dailyCap)}/day` : ""}</p>
+                  </div>
+                  <button
+                    onClick={() => toggleRule(rule)}
+                    disabled={busyId === rule.id}
+                    className={cn(
+                      "px-2 py-1 text-[10px] font-medium border",
+                      rule.enabled ? "border-green-500/40 text-green-400" : isDark ? "border-white/10 text-white/40" : "border-gray-200 text-gray-400"
+                    )}
+                  >
+                    {rule.enabled ? "ON" : "OFF"}
+                  </button>
+                  <button
+                    onClick={() => deleteRule(rule.id)}
+                    disabled={busyId === rule.id}
+                    className={cn("p-1", isDark ? "text-white/30 hover:text-red-400" : "text-gray-400 hover:text-red-500")}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+
+                {rule.events.length > 0 && (
+                  <div className={cn("mt-2 pt-2 border-t space-y-0.5", isDark ? "border-white/5" : "border-gray-100")}>
+                    {rule.events.map((event) => (
+                      <p key={event.id} className="text-[11px] flex gap-2" title={event.reason || undefined}>
+                        <span className={cn("w-14 flex-shrink-0", EVENT_COLORS[event.type])}>{event.type.toLowerCase()}</span>
+                        {event.txSignature ? (
+                          <a
+                            href={`https://solscan.io/tx/${event.txSignature}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className={cn("truncate hover:underline", isDark ? "text-white/70" : "text-gray-700")}
+                          >
+                            {event.tokenSymbol}
+                          </a>
+                        ) : (
+                          <span className={cn("truncate", isDark ? "text-white/70" : "text-gray-700")}>{event.tokenSymbol}</span>
+                        )}
+                        {event.reason && <span className={cn("truncate", isDark ? "text-white/30" : "text-gray-400")}>{event.reason}</span>}
+                        <span className={cn("ml-auto flex-shrink-0", isDark ? "text-white/30" : "text-gray-400")}>
+                          {new Date(event.createdAt).toLocaleTimeString()}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
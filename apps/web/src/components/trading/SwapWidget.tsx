@@ -4,8 +4,14 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { useSession } from "next-auth/react";
 import { Loader2, RefreshCw, RotateCcw, Pencil, X } from "lucide-react";
 import { useThemeStore } from "@/stores/themeStore";
+import { useWalletStore } from "@/stores/walletStore";
 import { useToast } from "@/components/ui/Toast";
 import { cn } from "@/lib/utils";
+import { LimitOrderList } from "./LimitOrderList";
+import { PositionRules } from "./PositionRules";
+import { ScheduledOrderList } from "./ScheduledOrderList";
+import { WalletSelector } from "./WalletSelector";
+import { TradingPresetSelector, type TradingPreset } from "./TradingPresetSelector";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 
@@ -97,12 +103,15 @@ export function SwapWidget({
   const { isDark } = useThemeStore();
   const { data: session, status } = useSession();
   const { showToast } = useToast();
+  const activeWalletId = useWalletStore((state) => state.activeWalletId);
   const [inputAmount, setInputAmount] = useState("");
-  const [slippage] = useState(3000); // 30% default slippage for memecoins
+  const [preset, setPreset] = useState<TradingPreset | null>(null);
+  const slippage = preset?.slippageBps ?? 3000; // 30% default slippage for memecoins
   const [quote, setQuote] = useState<QuoteResponse | null>(null);
   const [balance, setBalance] = useState<BalanceResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [swapping, setSwapping] = useState(false);
+  const [simulating, setSimulating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [isBuy, setIsBuy] = useState(true);
@@ -120,6 +129,16 @@ export function SwapWidget({
   const [editingSolAmounts, setEditingSolAmounts] = useState([0.1, 0.25, 0.5, 1]);
   // Token stats (bought/sold/holding/PnL)
   const [tokenStats, setTokenStats] = useState<TokenStats | null>(null);
+  // Limit orders: resting orders filled server-side when the trigger is hit
+  const [orderType, setOrderType] = useState<"market" | "limit" | "dca">("market");
+  const [triggerType, setTriggerType] = useState<"price" | "marketCap">("price");
+  const [triggerValue, setTriggerValue] = useState("");
+  const [placingOrder, setPlacingOrder] = useState(false);
+  const [ordersRefreshKey, setOrdersRefreshKey] = useState(0);
+  // DCA/TWAP: split the amount into slices spread over a window
+  const [dcaSlices, setDcaSlices] = useState("10");
+  const [dcaDuration, setDcaDuration] = useState("60"); // Minutes
+  const [dcaMaxImpact, setDcaMaxImpact] = useState("2"); // %, empty = no guard
 
   const inputMint = isBuy ? SOL_MINT : defaultOutputMint;
   const outputMint = isBuy ? defaultOutputMint : SOL_MINT;
@@ -132,7 +151,8 @@ export function SwapWidget({
   const fetchBalance = useCallback(async () => {
     if (status !== "authenticated" || noWallet) return;
     try {
-      const res = await fetch("/api/trading/balance");
+      const query = activeWalletId ? `?walletId=${activeWalletId}` : "";
+      const res = await fetch(`/api/trading/balance${query}`);
       if (res.ok) {
         const data = await res.json();
         setBalance(data);
@@ -143,12 +163,13 @@ export function SwapWidget({
     } catch (err) {
       console.error("Failed to fetch balance:", err);
     }
-  }, [status, noWallet]);
+  }, [status, noWallet, activeWalletId]);
 
   const fetchTokenStats = useCallback(async () => {
     if (status !== "authenticated" || !defaultOutputMint) return;
     try {
-      const res = await fetch(`/api/trading/pnl?tokenMint=${defaultOutputMint}`);
+      const walletQuery = activeWalletId ? `&walletId=${activeWalletId}` : "";
+      const res = await fetch(`/api/trading/pnl?tokenMint=${defaultOutputMint}${walletQuery}`);
       if (res.ok) {
         const data = await res.json();
         setTokenStats(data);
@@ -156,7 +177,7 @@ export function SwapWidget({
     } catch (err) {
       console.error("Failed to fetch token stats:", err);
     }
-  }, [status, defaultOutputMint]);
+  }, [status, defaultOutputMint, activeWalletId]);
 
   useEffect(() => {
     fetchBalance();
@@ -278,6 +299,8 @@ export function SwapWidget({
           slippageBps: slippage,
           inputSymbol: isBuy ? "SOL" : outputSymbol,
           outputSymbol: isBuy ? outputSymbol : "SOL",
+          walletId: activeWalletId,
+          presetSlot: preset?.slot,
         }),
       });
 
@@ -311,6 +334,156 @@ export function SwapWidget({
     }
   };
 
+  // Dry run: build and simulate the exact swap transaction without sending it
+  const handleSimulate = async () => {
+    if (!quote || !inputMint || !outputMint || !tradingSource) return;
+
+    setSimulating(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const rawAmount = Math.floor(
+        parseFloat(inputAmount) * Math.pow(10, inputDecimals)
+      ).toString();
+
+      const endpoint = tradingSource === "pumpfun"
+        ? "/api/trading/pump-swap"
+        : "/api/trading/swap";
+
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          inputMint,
+          outputMint,
+          amount: rawAmount,
+          slippageBps: slippage,
+          simulate: true,
+          walletId: activeWalletId,
+          presetSlot: preset?.slot,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Simulation failed");
+      }
+
+      const sim = data.simulation;
+      if (!sim.success) {
+        setError(`Would fail: ${sim.error}`);
+        return;
+      }
+
+      const fees = (sim.fees.total / 1e9).toFixed(6);
+      setSuccess(`Simulation OK · ${sim.unitsConsumed?.toLocaleString() ?? "?"} CU · ~${fees} SOL fees`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Simulation failed");
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handlePlaceOrder = async () => {
+    if (!defaultOutputMint) return;
+
+    const amountNum = parseFloat(inputAmount);
+    const trigger = parseFloat(triggerValue);
+    if (isNaN(amountNum) || amountNum <= 0 || isNaN(trigger) || trigger <= 0) return;
+
+    setPlacingOrder(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const rawAmount = Math.floor(amountNum * Math.pow(10, inputDecimals)).toString();
+
+      const res = await fetch("/api/trading/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tokenMint: defaultOutputMint,
+          tokenSymbol: outputSymbol,
+          side: isBuy ? "buy" : "sell",
+          triggerType,
+          triggerValue: trigger,
+          amount: rawAmount,
+          slippageBps: slippage,
+          walletId: activeWalletId,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to place order");
+      }
+
+      showToast(`Limit ${isBuy ? "buy" : "sell"} placed for ${outputSymbol}`, "success");
+      setInputAmount("");
+      setTriggerValue("");
+      setOrdersRefreshKey((k) => k + 1);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to place order";
+      setError(errorMsg);
+      showToast(errorMsg, "error");
+    } finally {
+      setPlacingOrder(false);
+    }
+  };
+
+  const handleScheduleOrder = async () => {
+    if (!defaultOutputMint) return;
+
+    const amountNum = parseFloat(inputAmount);
+    const slices = parseInt(dcaSlices);
+    const duration = parseFloat(dcaDuration);
+    if (isNaN(amountNum) || amountNum <= 0 || isNaN(slices) || isNaN(duration) || duration <= 0) return;
+
+    setPlacingOrder(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const rawAmount = Math.floor(amountNum * Math.pow(10, inputDecimals)).toString();
+      const maxImpact = parseFloat(dcaMaxImpact);
+
+      const res = await fetch("/api/trading/scheduled-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tokenMint: defaultOutputMint,
+          tokenSymbol: outputSymbol,
+          side: isBuy ? "buy" : "sell",
+          amount: rawAmount,
+          slices,
+          durationMinutes: duration,
+          slippageBps: slippage,
+          maxPriceImpactPct: maxImpact > 0 ? maxImpact : null,
+          walletId: activeWalletId,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to start DCA order");
+      }
+
+      showToast(`DCA ${isBuy ? "buy" : "sell"} started for ${outputSymbol}`, "success");
+      setInputAmount("");
+      setOrdersRefreshKey((k) => k + 1);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to start DCA order";
+      setError(errorMsg);
+      showToast(errorMsg, "error");
+    } finally {
+      setPlacingOrder(false);
+    }
+  };
+
   const getInputBalance = () => {
     if (!balance) return 0;
     if (inputMint === SOL_MINT) {
@@ -696,6 +869,30 @@ export function SwapWidget({
       </div>
 
       <div className="p-4">
+        {/* Wallet to trade from (only shown with multiple wallets) */}
+        <WalletSelector className="mb-3" />
+
+        {/* Execution preset (slippage, priority fee, MEV protection) */}
+        <TradingPresetSelector onChange={setPreset} className="mb-3" />
+
+        {/* Order Type Toggle */}
+        <div className={cn("flex gap-1 mb-4 p-0.5", isDark ? "bg-black/40" : "bg-gray-100")}>
+          {(["market", "limit", "dca"] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => setOrderType(type)}
+              className={cn(
+                "flex-1 py-1 text-xs font-medium capitalize transition-colors",
+                orderType === type
+                  ? isDark ? "bg-white/10 text-white" : "bg-white text-gray-900"
+                  : isDark ? "text-white/40 hover:text-white/70" : "text-gray-400 hover:text-gray-600"
+              )}
+            >
+              {type === "dca" ? "DCA" : type}
+            </button>
+          ))}
+        </div>
+
         {/* Amount Input */}
         <div className="mb-4">
           <div className="flex items-center justify-between mb-2">
@@ -960,6 +1157,79 @@ export function SwapWidget({
           )}
         </div>
 
+        {/* Limit Trigger: buys fill at or below, sells at or above */}
+        {orderType === "limit" && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className={cn("text-xs uppercase tracking-wide", isDark ? "text-white/40" : "text-gray-400")}>
+                {isBuy ? "Buy when" : "Sell when"} {triggerType === "price" ? "price" : "market cap"} {isBuy ? "≤" : "≥"}
+              </span>
+              <div className="flex gap-1">
+                {(["price", "marketCap"] as const).map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => setTriggerType(type)}
+                    className={cn(
+                      "px-2 py-0.5 text-[10px] font-medium transition-colors border",
+                      triggerType === type
+                        ? "bg-[#FF6B4A]/20 text-[#FF6B4A] border-[#FF6B4A]/50"
+                        : isDark
+                          ? "text-white/50 bg-white/5 hover:bg-white/10 border-white/10"
+                          : "text-gray-500 bg-gray-50 hover:bg-gray-100 border-gray-200"
+                    )}
+                  >
+                    {type === "price" ? "Price" : "MCap"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className={cn(
+              "flex items-center gap-2 border p-3",
+              isDark ? "bg-black/40 border-white/10" : "bg-gray-50 border-gray-200"
+            )}>
+              <span className={cn("text-sm", isDark ? "text-white/40" : "text-gray-400")}>$</span>
+              <input
+                type="number"
+                value={triggerValue}
+                onChange={(e) => setTriggerValue(e.target.value)}
+                placeholder={triggerType === "price" ? "0.00001" : "100000"}
+                className={cn(
+                  "flex-1 min-w-0 bg-transparent text-lg font-mono outline-none",
+                  isDark ? "text-white placeholder-white/20" : "text-gray-900 placeholder-gray-300"
+                )}
+              />
+              <span className={cn("text-sm font-medium", isDark ? "text-white/60" : "text-gray-500")}>USD</span>
+            </div>
+          </div>
+        )}
+
+        {/* DCA/TWAP: slices spread evenly over the duration, each one skipped above the max impact */}
+        {orderType === "dca" && (
+          <div className="mb-4 grid grid-cols-3 gap-2">
+            {([
+              { label: "Slices", value: dcaSlices, set: setDcaSlices, placeholder: "10" },
+              { label: "Over (min)", value: dcaDuration, set: setDcaDuration, placeholder: "60" },
+              { label: "Max impact %", value: dcaMaxImpact, set: setDcaMaxImpact, placeholder: "off" },
+            ]).map((field) => (
+              <div key={field.label}>
+                <span className={cn("block text-[10px] uppercase tracking-wide mb-1", isDark ? "text-white/40" : "text-gray-400")}>
+                  {field.label}
+                </span>
+                <input
+                  type="number"
+                  value={field.value}
+                  onChange={(e) => field.set(e.target.value)}
+                  placeholder={field.placeholder}
+                  className={cn(
+                    "w-full px-2 py-2 text-sm font-mono border outline-none",
+                    isDark ? "bg-black/40 border-white/10 text-white placeholder-white/20" : "bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-300"
+                  )}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Output Display */}
         <div className={cn(
           "mb-4 p-3 border",
@@ -1023,31 +1293,96 @@ export function SwapWidget({
         )}
 
         {/* Action Button */}
-        <button
-          onClick={handleSwap}
-          disabled={!quote || swapping || loading}
-          className={cn(
-            "w-full py-3 text-sm font-medium transition-colors",
-            !quote || swapping || loading
-              ? isDark ? "bg-white/5 text-white/30 cursor-not-allowed" : "bg-gray-100 text-gray-400 cursor-not-allowed"
-              : isBuy
-              ? "bg-[#00ffa3] text-black hover:bg-[#00dd8a]"
-              : "bg-red-500 text-white hover:bg-red-600"
-          )}
-        >
-          {swapping ? (
-            <span className="flex items-center justify-center gap-2">
-              <Loader2 className="w-4 h-4 animate-spin" />
-              Processing...
-            </span>
-          ) : !quote ? (
-            "Enter Amount"
-          ) : isBuy ? (
-            `Buy ${outputSymbol}`
-          ) : (
-            `Sell ${outputSymbol}`
-          )}
-        </button>
+        {orderType === "dca" ? (
+          <button
+            onClick={handleScheduleOrder}
+            disabled={!inputAmount || !dcaSlices || !dcaDuration || placingOrder}
+            className={cn(
+              "w-full py-3 text-sm font-medium transition-colors",
+              !inputAmount || !dcaSlices || !dcaDuration || placingOrder
+                ? isDark ? "bg-white/5 text-white/30 cursor-not-allowed" : "bg-gray-100 text-gray-400 cursor-not-allowed"
+                : isBuy
+                ? "bg-[#00ffa3] text-black hover:bg-[#00dd8a]"
+                : "bg-red-500 text-white hover:bg-red-600"
+            )}
+          >
+            {placingOrder ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Starting...
+              </span>
+            ) : !inputAmount ? (
+              "Enter Amount"
+            ) : (
+              `Start DCA ${isBuy ? "Buy" : "Sell"}`
+            )}
+          </button>
+        ) : orderType === "limit" ? (
+          <button
+            onClick={handlePlaceOrder}
+            disabled={!inputAmount || !triggerValue || placingOrder}
+            className={cn(
+              "w-full py-3 text-sm font-medium transition-colors",
+              !inputAmount || !triggerValue || placingOrder
+                ? isDark ? "bg-white/5 text-white/30 cursor-not-allowed" : "bg-gray-100 text-gray-400 cursor-not-allowed"
+                : isBuy
+                ? "bg-[#00ffa3] text-black hover:bg-[#00dd8a]"
+                : "bg-red-500 text-white hover:bg-red-600"
+            )}
+          >
+            {placingOrder ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Placing...
+              </span>
+            ) : !inputAmount ? (
+              "Enter Amount"
+            ) : !triggerValue ? (
+              "Enter Trigger"
+            ) : (
+              `Place Limit ${isBuy ? "Buy" : "Sell"}`
+            )}
+          </button>
+        ) : (
+          <button
+            onClick={handleSwap}
+            disabled={!quote || swapping || loading}
+            className={cn(
+              "w-full py-3 text-sm font-medium transition-colors",
+              !quote || swapping || loading
+                ? isDark ? "bg-white/5 text-white/30 cursor-not-allowed" : "bg-gray-100 text-gray-400 cursor-not-allowed"
+                : isBuy
+                ? "bg-[#00ffa3] text-black hover:bg-[#00dd8a]"
+                : "bg-red-500 text-white hover:bg-red-600"
+            )}
+          >
+            {swapping ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Processing...
+              </span>
+            ) : !quote ? (
+              "Enter Amount"
+            ) : isBuy ? (
+              `Buy ${outputSymbol}`
+            ) : (
+              `Sell ${outputSymbol}`
+            )}
+          </button>
+        )}
+
+        {orderType === "market" && quote && (
+          <button
+            onClick={handleSimulate}
+            disabled={simulating || swapping || loading}
+            className={cn(
+              "w-full mt-2 py-1 text-xs transition-colors disabled:opacity-50",
+              isDark ? "text-white/40 hover:text-white/70" : "text-gray-400 hover:text-gray-600"
+            )}
+          >
+            {simulating ? "Simulating..." : "Simulate first"}
+          </button>
+        )}
 
         {/* Stats Row */}
         {balance && (
@@ -1092,6 +1427,34 @@ export function SwapWidget({
             </div>
           </div>
         )}
+
+        {/* Open limit orders for this token */}
+        {defaultOutputMint && (
+          <LimitOrderList
+            tokenMint={defaultOutputMint}
+            tokenDecimals={outputDecimals}
+            refreshKey={ordersRefreshKey}
+          />
+        )}
+
+        {/* Running DCA/TWAP orders for this token */}
+        {defaultOutputMint && (
+          <ScheduledOrderList
+            tokenMint={defaultOutputMint}
+            tokenDecimals={outputDecimals}
+            refreshKey={ordersRefreshKey}
+          />
+        )}
+
+        {/* Stop-loss / take-profit / trailing-stop rules on the held position */}
+        {defaultOutputMint && (
+          <PositionRules
+            tokenMint={defaultOutputMint}
+            tokenSymbol={outputSymbol}
+            hasPosition={!!tokenStats && tokenStats.holding > 0}
+            walletId={activeWalletId}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Loader2, Settings2, Shield } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useToast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
+
+type PriorityFeeLevel = "MEDIUM" | "HIGH" | "VERY_HIGH";
+
+export interface TradingPreset {
+  slot: number;
+  slippageBps: number;
+  priorityFeeLevel: PriorityFeeLevel;
+  maxPriorityFeeSol: number;
+  mevProtection: boolean;
+  jitoTipSol: number;
+}
+
+interface TradingPresetSelectorProps {
+  onChange: (preset: TradingPreset) => void;
+  className?: string;
+}
+
+const LEVEL_LABELS: Record<PriorityFeeLevel, string> = {
+  MEDIUM: "Medium",
+  HIGH: "High",
+  VERY_HIGH: "Very high",
+};
+
+// P1/P2/P3 execution presets (slippage, priority fee, Jito tip, MEV-protected send)
+// Switching saves the active slot, so background orders use it too
+export function TradingPresetSelector({ onChange, className }: TradingPresetSelectorProps) {
+  const { isDark } = useThemeStore();
+  const { status } = useSession();
+  const { showToast } = useToast();
+  const [presets, setPresets] = useState<TradingPreset[]>([]);
+  const [activeSlot, setActiveSlot] = useState(1);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Editor fields (strings while typing)
+  const [slippagePct, setSlippagePct] = useState("");
+  const [priorityFeeLevel, setPriorityFeeLevel] = useState<PriorityFeeLevel>("HIGH");
+  const [maxPriorityFeeSol, setMaxPriorityFeeSol] = useState("");
+  const [mevProtection, setMevProtection] = useState(true);
+  const [jitoTipSol, setJitoTipSol] = useState("");
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (status !== "authenticated") return;
+
+    const fetchPresets = async () => {
+      try {
+        const res = await fetch("/api/trading/presets");
+        if (res.ok) {
+          const data = await res.json();
+          setPresets(data.presets || []);
+          setActiveSlot(data.activeSlot || 1);
+        }
+      } catch (err) {
+        console.error("Failed to fetch trading presets:", err);
+      }
+    };
+    fetchPresets();
+  }, [status]);
+
+  const active = presets.find((p) => p.slot === activeSlot);
+
+  useEffect(() => {
+    if (active) onChangeRef.current(active);
+  }, [active]);
+
+  useEffect(() => {
+    if (!isEditing || !active) return;
+    setSlippagePct(String(active.slippageBps / 100));
+    setPriorityFeeLevel(active.priorityFeeLevel);
+    setMaxPriorityFeeSol(String(active.maxPriorityFeeSol));
+    setMevProtection(active.mevProtection);
+    setJitoTipSol(String(active.jitoTipSol));
+  }, [isEditing, active]);
+
+  const switchPreset = async (slot: number) => {
+    if (slot === activeSlot) return;
+    const previous = activeSlot;
+    setActiveSlot(slot);
+    try {
+      const res = await fetch("/api/trading/presets", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ activeSlot: slot }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to switch preset");
+      }
+    } catch (err) {
+      setActiveSlot(previous);
+      showToast(err instanceof Error ? err.message : "Failed to switch preset", "error");
+    }
+  };
+
+  const savePreset = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/trading/presets/${activeSlot}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          slippageBps: Math.round(parseFloat(slippagePct) * 100),
+          priorityFeeLevel,
+          maxPriorityFeeSol: parseFloat(maxPriorityFeeSol),
+          mevProtection,
+          jitoTipSol: parseFloat(jitoTipSol),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save preset");
+      }
+      setPresets((prev) => prev.map((p) => (p.slot === activeSlot ? data.preset : p)));
+      setIsEditing(false);
+      showToast(`P${activeSlot} saved`, "success");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to save preset", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (status !== "authenticated" || presets.length === 0) return null;
+
+  const inputClass = cn(
+    "w-full px-2 py-1 border outline-none text-xs focus:border-[#FF6B4A]/50",
+    isDark ? "bg-black/40 border-white/10 text-white" : "bg-gray-50 border-gray-200 text-gray-900"
+  );
+  const labelClass = cn("text-[10px] mb-0.5 block", isDark ? "text-white/40" : "text-gray-400");
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-1">
+        {presets.map((preset) => (
+          <button
+            key={preset.slot}
+            onClick={() => switchPreset(preset.slot)}
+            className={cn(
+              "px-2 py-1 text-xs font-medium border transition-colors",
+              preset.slot === activeSlot
+                ? "border-[#FF6B4A]/50 text-[#FF6B4A] bg-[#FF6B4A]/10"
+                : isDark ? "border-white/10 text-white/50 hover:text-white/70" : "border-gray-200 text-gray-400 hover:text-gray-600"
+            )}
+          >
+            P{preset.slot}
+          </button>
+        ))}
+        {active && (
+          <span className={cn("flex items-center gap-1 text-[10px] ml-1 truncate", isDark ? "text-white/40" : "text-gray-400")}>
+            {active.slippageBps / 100}% · {LEVEL_LABELS[active.priorityFeeLevel]}
+            {active.mevProtection && <Shield className="w-3 h-3 text-[#00ffa3]" />}
+          </span>
+        )}
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          title="Edit preset"
+          className={cn("ml-auto p-1", isEditing ? "text-[#FF6B4A]" : isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900")}
+        >
+          <Settings2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className={cn("mt-2 p-2 border space-y-2", isDark ? "border-white/10" : "border-gray-200")}>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Slippage %</label>
+              <input type="number" min={0.01} max={50} step={0.5} value={slippagePct} onChange={(e) => setSlippagePct(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Priority fee</label>
+              <select value={priorityFeeLevel} onChange={(e) => setPriorityFeeLevel(e.target.value as PriorityFeeLevel)} className={inputClass}>
+                {(Object.keys(LEVEL_LABELS) as PriorityFeeLevel[]).map((level) => (
+                  <option key={level} value={level}>{LEVEL_LABELS[level]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Max priority fee (SOL)</label>
+              <input type="number" min={0} step={0.0001} value={maxPriorityFeeSol} onChange={(e) => setMaxPriorityFeeSol(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Jito tip (SOL)</label>
+              <input
+                type="number"
+                min={0.0002}
+                step={0.0001}
+                value={jitoTipSol}
+                onChange={(e) => setJitoTipSol(e.target.value)}
+                disabled={!mevProtection}
+                className={cn(inputClass, !mevProtection && "opacity-50")}
+              />
+            </div>
+          </div>
+          <label className={cn("flex items-center gap-1.5 text-xs", isDark ? "text-white/60" : "text-gray-600")}>
+            <input type="checkbox" checked={mevProtection} onChange={(e) => setMevProtection(e.target.checked)} />
+            MEV protection (send via Jito)
+          </label>
+          <button
+            onClick={savePreset}
+            disabled={saving}
+            className="w-full flex items-center justify-center gap-2 py-1.5 text-xs font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+            Save P{activeSlot}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
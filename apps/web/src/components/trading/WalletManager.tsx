@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Pencil, Check, X, Plus, Download, Archive, ArchiveRestore } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useWalletStore, type UserWallet } from "@/stores/walletStore";
+import { useToast } from "@/components/ui/Toast";
+import { shortenAddress } from "@/lib/wallet";
+import { cn } from "@/lib/utils";
+
+// Create, import, rename, archive and switch between custodial wallets
+export function WalletManager() {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const { wallets, activeWalletId, fetchWallets, setActiveWallet, createWallet, updateWallet } = useWalletStore();
+  const [mode, setMode] = useState<"create" | "import" | null>(null);
+  const [label, setLabel] = useState("");
+  const [secretKey, setSecretKey] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  useEffect(() => {
+    fetchWallets();
+  }, [fetchWallets]);
+
+  const visibleWallets = wallets.filter((w) => showArchived || !w.archivedAt);
+  const archivedCount = wallets.filter((w) => w.archivedAt).length;
+
+  const handleAdd = async () => {
+    if (!label.trim() || (mode === "import" && !secretKey.trim())) return;
+
+    setSaving(true);
+    try {
+      const wallet = await createWallet(label.trim(), mode === "import" ? secretKey.trim() : undefined);
+      showToast(`Wallet "${wallet.label}" ${mode === "import" ? "imported" : "created"}`, "success");
+      setMode(null);
+      setLabel("");
+      setSecretKey("");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to add wallet", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (wallet: UserWallet) => {
+    if (!editingLabel.trim() || editingLabel.trim() === wallet.label) {
+      setEditingId(null);
+      return;
+    }
+    try {
+      await updateWallet(wallet.id, { label: editingLabel.trim() });
+      setEditingId(null);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to rename wallet", "error");
+    }
+  };
+
+  const handleArchive = async (wallet: UserWallet) => {
+    try {
+      await updateWallet(wallet.id, { archived: !wallet.archivedAt });
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to update wallet", "error");
+    }
+  };
+
+  const inputClass = cn(
+    "w-full px-3 py-2 rounded-lg border outline-none focus:border-[#FF6B4A]/50 text-sm",
+    isDark ? "bg-black/30 text-white border-white/10 placeholder:text-white/30" : "bg-white text-gray-900 border-gray-200 placeholder:text-gray-400"
+  );
+
+  return (
+    <div className={cn("p-4 rounded-xl border", isDark ? "bg-white/5 border-white/10" : "bg-gray-50 border-gray-200")}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={cn("text-sm", isDark ? "text-white/60" : "text-gray-600")}>Wallets</p>
+        {archivedCount > 0 && (
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className={cn("text-xs transition-colors", isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900")}
+          >
+            {showArchived ? "Hide archived" : `Show archived (${archivedCount})`}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {visibleWallets.map((wallet) => {
+          const isActive = wallet.id === activeWalletId;
+          return (
+            <div
+              key={wallet.id}
+              className={cn(
+                "flex items-center gap-2 px-2.5 py-2 rounded-lg border",
+                isActive
+                  ? "border-[#FF6B4A]/50 bg-[#FF6B4A]/5"
+                  : isDark ? "border-white/5" : "border-gray-200",
+                wallet.archivedAt && "opacity-50"
+              )}
+            >
+              {editingId === wallet.id ? (
+                <input
+                  autoFocus
+                  value={editingLabel}
+                  onChange={(e) => setEditingLabel(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleRename(wallet);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  maxLength={32}
+                  className={cn(inputClass, "py-1 flex-1")}
+                />
+              ) : (
+                <button
+                  onClick={() => !wallet.archivedAt && setActiveWallet(wallet.id)}
+                  disabled={!!wallet.archivedAt}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className={cn("text-sm truncate", isDark ? "text-white" : "text-gray-900")}>
+                    {wallet.label}
+                    {wallet.isPrimary && <span className="ml-1.5 text-[10px] text-[#FF6B4A]">PRIMARY</span>}
+                    {wallet.imported && <span className={cn("ml-1.5 text-[10px]", isDark ? "text-white/40" : "text-gray-400")}>IMPORTED</span>}
+                  </p>
+                  <p className={cn("font-mono text-xs", isDark ? "text-white/40" : "text-gray-400")}>
+                    {shortenAddress(wallet.address)}
+                  </p>
+                </button>
+              )}
+
+              {editingId === wallet.id ? (
+                <>
+                  <button onClick={() => handleRename(wallet)} className="p-1 text-green-400 hover:text-green-300">
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className={cn("p-1", isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900")}>
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => {
+                      setEditingId(wallet.id);
+                      setEditingLabel(wallet.label);
+                    }}
+                    title="Rename"
+                    className={cn("p-1", isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900")}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  {!wallet.isPrimary && (
+                    <button
+                      onClick={() => handleArchive(wallet)}
+                      title={wallet.archivedAt ? "Unarchive" : "Archive"}
+                      className={cn("p-1", isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900")}
+                    >
+                      {wallet.archivedAt ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {mode ? (
+        <div className="mt-3 space-y-2">
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label (e.g. Sniper)"
+            maxLength={32}
+            className={inputClass}
+          />
+          {mode === "import" && (
+            <input
+              type="password"
+              value={secretKey}
+              onChange={(e) => setSecretKey(e.target.value)}
+              placeholder="Base58 private key"
+              className={cn(inputClass, "font-mono")}
+            />
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={saving || !label.trim() || (mode === "import" && !secretKey.trim())}
+              className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              {mode === "import" ? "Import" : "Create"}
+            </button>
+            <button
+              onClick={() => setMode(null)}
+              className={cn("px-3 py-2 rounded-lg text-sm border", isDark ? "border-white/10 text-white/60 hover:bg-white/5" : "border-gray-200 text-gray-600 hover:bg-gray-100")}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={() => setMode("create")}
+            className={cn("flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs border transition-colors", isDark ? "border-white/10 text-white/60 hover:bg-white/5" : "border-gray-200 text-gray-600 hover:bg-gray-100")}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            New wallet
+          </button>
+          <button
+            onClick={() => setMode("import")}
+            className={cn("flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs border transition-colors", isDark ? "border-white/10 text-white/60 hover:bg-white/5" : "border-gray-200 text-gray-600 hover:bg-gray-100")}
+          >
+            <Download className="h-3.5 w-3.5" />
+            Import
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
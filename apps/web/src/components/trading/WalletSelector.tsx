@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { Wallet } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useWalletStore } from "@/stores/walletStore";
+import { shortenAddress } from "@/lib/wallet";
+import { cn } from "@/lib/utils";
+
+interface WalletSelectorProps {
+  // Defaults to the globally active wallet
+  value?: string | null;
+  onChange?: (walletId: string | null) => void;
+  // Adds an "All wallets" option (value null) - for aggregate views like the portfolio
+  allowAll?: boolean;
+  className?: string;
+}
+
+// Dropdown for picking which custodial wallet to use - hidden for single-wallet users
+export function WalletSelector({ value, onChange, allowAll = false, className }: WalletSelectorProps) {
+  const { isDark } = useThemeStore();
+  const { status } = useSession();
+  const { wallets, activeWalletId, fetchWallets, setActiveWallet } = useWalletStore();
+
+  useEffect(() => {
+    if (status === "authenticated" && wallets.length === 0) {
+      fetchWallets();
+    }
+  }, [status, wallets.length, fetchWallets]);
+
+  const activeWallets = wallets.filter((w) => !w.archivedAt);
+  if (activeWallets.length < 2) return null;
+
+  const selected = value !== undefined ? value : activeWalletId;
+
+  const handleChange = (id: string) => {
+    const walletId = id === "all" ? null : id;
+    if (onChange) {
+      onChange(walletId);
+    } else if (walletId) {
+      setActiveWallet(walletId);
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1.5", className)}>
+      <Wallet className={cn("w-3.5 h-3.5 flex-shrink-0", isDark ? "text-white/40" : "text-gray-400")} />
+      <select
+        value={selected ?? "all"}
+        onChange={(e) => handleChange(e.target.value)}
+        className={cn(
+          "text-xs py-1 px-1.5 border outline-none cursor-pointer min-w-0",
+          isDark ? "bg-black/40 border-white/10 text-white/70" : "bg-gray-50 border-gray-200 text-gray-700"
+        )}
+      >
+        {allowAll && <option value="all">All wallets</option>}
+        {activeWallets.map((wallet) => (
+          <option key={wallet.id} value={wallet.id}>
+            {wallet.label} ({shortenAddress(wallet.address)})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
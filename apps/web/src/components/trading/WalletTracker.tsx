@@ -0,0 +1,281 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Loader2, Trash2, X, Bell, BellOff } from "lucide-react";
+import { useThemeStore } from "@/stores/themeStore";
+import { useToast } from "@/components/ui/Toast";
+import { useTrackerFeed, type TrackedWalletTrade } from "@/hooks/useTrackerFeed";
+import { formatNumber, shortenAddress, cn } from "@/lib/utils";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const MAX_FEED_ITEMS = 100;
+
+interface TrackedWallet {
+  id: string;
+  address: string;
+  label: string;
+  emoji: string | null;
+  notify: boolean;
+}
+
+interface WalletTrackerProps {
+  onClose: () => void;
+}
+
+function tradeKey(trade: TrackedWalletTrade): string {
+  return `${trade.signature}:${trade.address}:${trade.tokenMint}`;
+}
+
+// Tracked wallets and a live feed of their buys and sells
+export function WalletTracker({ onClose }: WalletTrackerProps) {
+  const { isDark } = useThemeStore();
+  const { showToast } = useToast();
+  const [wallets, setWallets] = useState<TrackedWallet[]>([]);
+  const [feed, setFeed] = useState<TrackedWalletTrade[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<string | null>(null); // Tracked wallet address
+
+  // New wallet form
+  const [address, setAddress] = useState("");
+  const [label, setLabel] = useState("");
+  const [emoji, setEmoji] = useState("");
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [walletsRes, activityRes] = await Promise.all([
+        fetch("/api/tracker"),
+        fetch("/api/tracker/activity?limit=50"),
+      ]);
+      if (walletsRes.ok) {
+        const data = await walletsRes.json();
+        setWallets(data.wallets || []);
+      }
+      if (activityRes.ok) {
+        const data = await activityRes.json();
+        setFeed(data.activity || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch tracked wallets:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  useTrackerFeed((trade) => {
+    setFeed((prev) => {
+      if (prev.some((t) => tradeKey(t) === tradeKey(trade))) return prev;
+      return [trade, ...prev].slice(0, MAX_FEED_ITEMS);
+    });
+  });
+
+  const handleAdd = async () => {
+    if (!address.trim() || !label.trim()) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/tracker", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address: address.trim(), label: label.trim(), emoji: emoji.trim() || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to track wallet");
+      }
+      setWallets((prev) => [...prev, data.wallet]);
+      setAddress("");
+      setLabel("");
+      setEmoji("");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to track wallet", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleNotify = async (wallet: TrackedWallet) => {
+    setBusyId(wallet.id);
+    try {
+      const res = await fetch(`/api/tracker/${wallet.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notify: !wallet.notify }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update wallet");
+      }
+      setWallets((prev) => prev.map((w) => (w.id === wallet.id ? data.wallet : w)));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to update wallet", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const untrack = async (wallet: TrackedWallet) => {
+    setBusyId(wallet.id);
+    try {
+      const res = await fetch(`/api/tracker/${wallet.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to untrack wallet");
+      }
+      setWallets((prev) => prev.filter((w) => w.id !== wallet.id));
+      setFeed((prev) => prev.filter((t) => t.address !== wallet.address));
+      if (filter === wallet.address) setFilter(null);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to untrack wallet", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const visibleFeed = filter ? feed.filter((t) => t.address === filter) : feed;
+
+  const inputClass = cn(
+    "w-full px-2 py-1.5 border outline-none text-xs focus:border-[#FF6B4A]/50",
+    isDark ? "bg-black/40 border-white/10 text-white placeholder-white/20" : "bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-300"
+  );
+  const mutedClass = isDark ? "text-white/40" : "text-gray-400";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className={cn("absolute inset-0 backdrop-blur-sm", isDark ? "bg-black/80" : "bg-black/50")} onClick={onClose} />
+      <div className={cn(
+        "relative w-full max-w-3xl max-h-[90vh] overflow-y-auto border",
+        isDark ? "bg-[#0d0d0d] border-white/10" : "bg-white border-gray-200"
+      )}>
+        <div className={cn("flex items-center justify-between px-4 py-3 border-b", isDark ? "border-white/10" : "border-gray-200")}>
+          <div>
+            <h2 className={cn("text-sm font-bold", isDark ? "text-white" : "text-gray-900")}>Wallet tracker</h2>
+            <p className={cn("text-xs", isDark ? "text-white/40" : "text-gray-500")}>
+              Live buys and sells of the wallets you track
+            </p>
+          </div>
+          <button onClick={onClose} className={isDark ? "text-white/40 hover:text-white" : "text-gray-400 hover:text-gray-900"}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4">
+          {/* Tracked wallets */}
+          <div className="space-y-2">
+            <div className="flex gap-1.5">
+              <input value={emoji} onChange={(e) => setEmoji(e.target.value)} maxLength={8} placeholder="🐳" className={cn(inputClass, "w-10 text-center")} />
+              <input value={label} onChange={(e) => setLabel(e.target.value)} maxLength={32} placeholder="Label" className={inputClass} />
+            </div>
+            <input value={address} onChange={(e) => setAddress(e.target.value)} placeholder="Wallet address" className={cn(inputClass, "font-mono")} />
+            <button
+              onClick={handleAdd}
+              disabled={saving || !address.trim() || !label.trim()}
+              className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium bg-[#FF6B4A] text-white hover:bg-[#FF8F6B] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+              Track wallet
+            </button>
+
+            <div className="space-y-1 pt-1">
+              {wallets.map((wallet) => (
+                <div
+                  key={wallet.id}
+                  className={cn(
+                    "flex items-center gap-1.5 px-2 py-1.5 border",
+                    filter === wallet.address ? "border-[#FF6B4A]/50" : isDark ? "border-white/10" : "border-gray-200"
+                  )}
+                >
+                  <button
+                    onClick={() => setFilter(filter === wallet.address ? null : wallet.address)}
+                    className="flex-1 min-w-0 text-left"
+                    title="Show only this wallet"
+                  >
+                    <p className={cn("text-xs truncate", isDark ? "text-white" : "text-gray-900")}>
+                      {wallet.emoji && <span className="mr-1">{wallet.emoji}</span>}
+                      {wallet.label}
+                    </p>
+                    <p className={cn("font-mono text-[10px]", mutedClass)}>{shortenAddress(wallet.address)}</p>
+                  </button>
+                  <button
+                    onClick={() => toggleNotify(wallet)}
+                    disabled={busyId === wallet.id}
+                    title={wallet.notify ? "Notifications on" : "Notifications off"}
+                    className={cn("p-1", wallet.notify ? "text-[#FF6B4A]" : mutedClass)}
+                  >
+                    {wallet.notify ? <Bell className="w-3.5 h-3.5" /> : <BellOff className="w-3.5 h-3.5" />}
+                  </button>
+                  <button
+                    onClick={() => untrack(wallet)}
+                    disabled={busyId === wallet.id}
+                    className={cn("p-1", isDark ? "text-white/30 hover:text-red-400" : "text-gray-400 hover:text-red-500")}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Live feed */}
+          <div className={cn("border min-h-[200px]", isDark ? "border-white/10" : "border-gray-200")}>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className={cn("w-5 h-5 animate-spin", mutedClass)} />
+              </div>
+            ) : visibleFeed.length === 0 ? (
+              <p className={cn("text-xs text-center py-6", mutedClass)}>
+                {wallets.length === 0 ? "Track a wallet to see its trades here" : "No trades yet"}
+              </p>
+            ) : (
+              visibleFeed.map((trade) => {
+                const quote = trade.quoteMint === SOL_MINT ? "SOL" : shortenAddress(trade.quoteMint);
+                return (
+                  <div
+                    key={tradeKey(trade)}
+                    className={cn("flex items-center gap-2 px-2 py-1.5 text-[11px] border-b last:border-b-0", isDark ? "border-white/5" : "border-gray-100")}
+                  >
+                    <span className={cn("w-24 truncate flex-shrink-0", isDark ? "text-white/70" : "text-gray-700")}>
+                      {trade.emoji && <span className="mr-1">{trade.emoji}</span>}
+                      {trade.label}
+                    </span>
+                    <span className={cn("w-8 flex-shrink-0", trade.side === "buy" ? "text-green-400" : "text-red-400")}>
+                      {trade.side}
+                    </span>
+                    <Link
+                      href={`/token/${trade.tokenMint}`}
+                      className={cn("font-mono truncate hover:underline", isDark ? "text-white/70" : "text-gray-700")}
+                    >
+                      {shortenAddress(trade.tokenMint)}
+                    </Link>
+                    <span className={cn("flex-shrink-0 font-mono", isDark ? "text-white/60" : "text-gray-600")}>
+                      {formatNumber(trade.quoteAmount, 3)} {quote}
+                    </span>
+                    {trade.marketCapSol !== null && (
+                      <span className={cn("flex-shrink-0", mutedClass)} title="Market cap">
+                        MC {formatNumber(trade.marketCapSol, 1)} SOL
+                      </span>
+                    )}
+                    <a
+                      href={`https://solscan.io/tx/${trade.signature}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={cn("ml-auto flex-shrink-0 hover:underline", mutedClass)}
+                    >
+                      {new Date(trade.timestamp).toLocaleTimeString()}
+                    </a>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import { Loader2, ExternalLink, Copy, Check } from "lucide-react";
+import { useWalletStore } from "@/stores/walletStore";
+import { WalletSelector } from "./WalletSelector";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 
@@ -24,6 +26,7 @@ interface BalanceResponse {
 
 export function WithdrawWidget() {
   const { data: session, status } = useSession();
+  const activeWalletId = useWalletStore((state) => state.activeWalletId);
   const [balance, setBalance] = useState<BalanceResponse | null>(null);
   const [destinationAddress, setDestinationAddress] = useState("");
   const [amount, setAmount] = useState("");
@@ -38,7 +41,8 @@ export function WithdrawWidget() {
     if (status !== "authenticated") return;
 
     try {
-      const res = await fetch("/api/trading/balance");
+      const query = activeWalletId ? `?walletId=${activeWalletId}` : "";
+      const res = await fetch(`/api/trading/balance${query}`);
       if (res.ok) {
         const data = await res.json();
         setBalance(data);
@@ -46,7 +50,7 @@ export function WithdrawWidget() {
     } catch (err) {
       console.error("Failed to fetch balance:", err);
     }
-  }, [status]);
+  }, [status, activeWalletId]);
 
   useEffect(() => {
     fetchBalance();
@@ -67,6 +71,7 @@ export function WithdrawWidget() {
           destinationAddress,
           amount,
           tokenMint: selectedToken === SOL_MINT ? null : selectedToken,
+          walletId: activeWalletId,
         }),
       });
 
@@ -130,7 +135,10 @@ export function WithdrawWidget() {
 
   return (
     <div className="bg-[#1a1a1a] rounded-xl p-4 border border-white/10">
-      <h3 className="text-lg font-medium text-white mb-4">Withdraw</h3>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-medium text-white">Withdraw</h3>
+        <WalletSelector />
+      </div>
 
       {/* Deposit Address */}
       {balance && (
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useSession } from "next-auth/react";
+import { useSocketStore } from "@/stores/socketStore";
+
+// Fired price alert, as pushed by the API (alert:triggered)
+export interface TriggeredPriceAlert {
+  alertId: string;
+  userId: string;
+  tokenMint: string;
+  tokenSymbol: string;
+  type: string;
+  threshold: number | null;
+  value: number | null;
+  message: string;
+  disabled: boolean;
+  timestamp: number;
+}
+
+// Listen for the user's fired price alerts
+// Like useTrackerFeed, this connects (and authenticates) the shared socket so the API can route by user
+export function useAlertFeed(onAlert: (alert: TriggeredPriceAlert) => void) {
+  const { data: session, status } = useSession();
+  const { socket, isConnected, connect } = useSocketStore();
+  const onAlertRef = useRef(onAlert);
+  onAlertRef.current = onAlert;
+
+  useEffect(() => {
+    if (status === "authenticated" && session?.user?.id && !isConnected) {
+      connect(
+        session.user.id,
+        (session.user as any).username || null,
+        session.user.name || null,
+        session.user.image || null
+      );
+    }
+  }, [status, session?.user?.id, isConnected, connect]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleAlert = (alert: TriggeredPriceAlert) => onAlertRef.current(alert);
+    socket.on("alert:triggered", handleAlert);
+    return () => {
+      socket.off("alert:triggered", handleAlert);
+    };
+  }, [socket]);
+}
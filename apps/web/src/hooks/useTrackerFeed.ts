@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useSession } from "next-auth/react";
+import { useSocketStore } from "@/stores/socketStore";
+
+// Trade by a tracked wallet, as pushed by the API (tracker:trade) and returned by /api/tracker/activity
+export interface TrackedWalletTrade {
+  address: string;
+  signature: string;
+  side: "buy" | "sell";
+  tokenMint: string;
+  tokenAmount: number;
+  quoteMint: string;
+  quoteAmount: number;
+  marketCapSol: number | null;
+  source: "pumpportal" | "grpc";
+  timestamp: number | string;
+  trackedWalletId: string;
+  label: string;
+  emoji: string | null;
+  notify?: boolean;
+}
+
+// Listen for live trades of the user's tracked wallets
+// The API routes tracker:trade by user, so this connects (and authenticates) the shared socket
+export function useTrackerFeed(onTrade: (trade: TrackedWalletTrade) => void) {
+  const { data: session, status } = useSession();
+  const { socket, isConnected, connect } = useSocketStore();
+  const onTradeRef = useRef(onTrade);
+  onTradeRef.current = onTrade;
+
+  useEffect(() => {
+    if (status === "authenticated" && session?.user?.id && !isConnected) {
+      connect(
+        session.user.id,
+        (session.user as any).username || null,
+        session.user.name || null,
+        session.user.image || null
+      );
+    }
+  }, [status, session?.user?.id, isConnected, connect]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleTrade = (trade: TrackedWalletTrade) => onTradeRef.current(trade);
+    socket.on("tracker:trade", handleTrade);
+    return () => {
+      socket.off("tracker:trade", handleTrade);
+    };
+  }, [socket]);
+}
@@ -6,5 +6,29 @@ export async function register() {
   if (process.env.NEXT_RUNTIME === "nodejs") {
     const { startPriceUpdater } = await import("@/lib/price-updater");
     startPriceUpdater();
+
+    const { startLimitOrderEngine } = await import("@/lib/limit-orders");
+    startLimitOrderEngine();
+
+    const { startPositionRuleEngine } = await import("@/lib/position-rules");
+    startPositionRuleEngine();
+
+    const { startScheduledOrderEngine } = await import("@/lib/scheduled-orders");
+    startScheduledOrderEngine();
+
+    const { startSnipeEngine } = await import("@/lib/snipe-rules");
+    startSnipeEngine();
+
+    const { startCopyTradingEngine } = await import("@/lib/copy-trading");
+    startCopyTradingEngine();
+
+    const { startWalletLedgerSync } = await import("@/lib/wallet-ledger");
+    startWalletLedgerSync();
+
+    const { startPortfolioSnapshots } = await import("@/lib/portfolio-snapshots");
+    startPortfolioSnapshots();
+
+    const { startLeaderboard } = await import("@/lib/leaderboard");
+    startLeaderboard();
   }
 }
@@ -0,0 +1,90 @@
+// Price / market-cap alert settings shared by the alert routes
+// Alerts are evaluated and delivered by the API (services/alerts.ts) - the web app only manages them
+import type { AlertType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const ALERT_TYPES: AlertType[] = [
+  "PRICE_ABOVE",
+  "PRICE_BELOW",
+  "MCAP_ABOVE",
+  "MCAP_BELOW",
+  "PCT_CHANGE",
+  "BONDING_PROGRESS",
+  "MIGRATED",
+];
+
+const MAX_WINDOW_MINUTES = 1440; // The API keeps at most 24h of price history
+
+// Threshold rules per type - returns an error message when invalid
+export function validateAlertSettings(
+  type: AlertType,
+  threshold: number | null,
+  windowMinutes: number | null
+): string | null {
+  if (type === "MIGRATED") return null;
+
+  if (threshold === null || !Number.isFinite(threshold)) {
+    return "threshold is required";
+  }
+
+  switch (type) {
+    case "PRICE_ABOVE":
+    case "PRICE_BELOW":
+    case "MCAP_ABOVE":
+    case "MCAP_BELOW":
+      return threshold > 0 ? null : "threshold must be a positive USD amount";
+    case "BONDING_PROGRESS":
+      return threshold > 0 && threshold <= 100 ? null : "threshold must be a percentage between 0 and 100";
+    case "PCT_CHANGE":
+      if (threshold === 0 || threshold < -100) {
+        return "threshold must be a non-zero % change (negative for drops, at least -100)";
+      }
+      if (windowMinutes === null || !Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > MAX_WINDOW_MINUTES) {
+        return `windowMinutes must be a whole number between 1 and ${MAX_WINDOW_MINUTES}`;
+      }
+      return null;
+  }
+}
+
+// Crossing state for a new or edited alert (PriceAlert.armed) from the token's latest DB market data -
+// the same Token / PulseToken rows the API reads. An alert whose condition already holds starts
+// disarmed and only fires after the value crosses back. null = no data yet, the API records it.
+export async function getInitialArmed(
+  tokenMint: string,
+  type: AlertType,
+  threshold: number | null
+): Promise<boolean | null> {
+  // % moves are measured over the alert's own window, starting from when it's set
+  if (type === "PCT_CHANGE") return true;
+
+  const [token, pulseToken] = await Promise.all([
+    prisma.token.findUnique({ where: { address: tokenMint }, select: { price: true, marketCap: true } }),
+    prisma.pulseToken.findUnique({
+      where: { address: tokenMint },
+      select: { price: true, marketCap: true, bondingProgress: true, category: true },
+    }),
+  ]);
+
+  // Pulse rows are synced more often, so they win over dashboard rows
+  const price = pulseToken?.price || token?.price || null;
+  const marketCap = pulseToken?.marketCap || token?.marketCap || null;
+  const migrated = pulseToken ? pulseToken.category === "GRADUATED" : null;
+
+  const level = threshold ?? 0;
+  switch (type) {
+    case "PRICE_ABOVE":
+      return price === null ? null : price < level;
+    case "PRICE_BELOW":
+      return price === null ? null : price > level;
+    case "MCAP_ABOVE":
+      return marketCap === null ? null : marketCap < level;
+    case "MCAP_BELOW":
+      return marketCap === null ? null : marketCap > level;
+    case "BONDING_PROGRESS": {
+      const progress = migrated ? 100 : pulseToken?.bondingProgress ?? null;
+      return progress === null ? null : progress < level;
+    }
+    case "MIGRATED":
+      return migrated === null ? null : !migrated;
+  }
+}
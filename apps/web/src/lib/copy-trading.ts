@@ -0,0 +1,230 @@
+// Background copy-trading engine - mirrors the pump.fun trades of followed wallets
+// - Leader trades arrive on the shared feed (PumpPortal account subscriptions relayed by the API)
+// - Each leader trade is claimed per follow with a unique CopyTradeEvent row, so it's copied at most once
+// - Buys are fixed SOL or a % of the leader's SOL amount, capped per trade
+// - Sells mirror the share of their position the leader sold
+// - Every copy is a normal Trade tagged with the leader's signature
+import { Prisma, type CopyTradeFollow, type CopyTradeStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getJupiterService, SOL_MINT } from "@/lib/jupiter";
+import { executeTrade } from "@/lib/trade-executor";
+import { resolveWallet } from "@/lib/wallets";
+import { watchAccounts, unwatchAccounts, type AccountTrade } from "@/lib/price-feed";
+
+const REFRESH_INTERVAL_MS = 10_000; // Pick up new/edited follows every 10 seconds
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const PUMP_FUN_DECIMALS = 6;
+const BPS = BigInt(10_000);
+
+const FEED_ID = "copy-trading";
+
+let refreshId: NodeJS.Timeout | null = null;
+const followsByLeader = new Map<string, CopyTradeFollow[]>();
+
+function getFollow(followId: string, leader: string): CopyTradeFollow | undefined {
+  return followsByLeader.get(leader)?.find((f) => f.id === followId);
+}
+
+// Lamports to spend copying a buy
+function getBuyAmount(follow: CopyTradeFollow, trade: AccountTrade): bigint {
+  let sol = follow.sizeMode === "FIXED"
+    ? follow.sizeValue
+    : (trade.solAmount * follow.sizeValue) / 100;
+  if (follow.maxPerTradeSol !== null) {
+    sol = Math.min(sol, follow.maxPerTradeSol);
+  }
+  return BigInt(Math.floor(sol * LAMPORTS_PER_SOL));
+}
+
+// Share of their position the leader sold, in basis points
+// The sell has landed, so the leader's current balance is what they kept
+async function getSoldShareBps(trade: AccountTrade): Promise<bigint> {
+  const remaining = await getJupiterService().getTokenBalance(trade.traderPublicKey, trade.mint);
+  const sold = BigInt(Math.floor(trade.tokenAmount * Math.pow(10, PUMP_FUN_DECIMALS)));
+  if (remaining === BigInt(0) || sold === BigInt(0)) return BPS;
+  return (sold * BPS) / (sold + remaining);
+}
+
+async function getTokenSymbol(mint: string): Promise<string> {
+  const token = await prisma.pulseToken.findUnique({ where: { address: mint }, select: { symbol: true } })
+    ?? await prisma.token.findUnique({ where: { address: mint }, select: { symbol: true } });
+  return token?.symbol || "UNKNOWN";
+}
+
+async function finish(
+  eventId: string,
+  status: CopyTradeStatus,
+  details: { amount?: bigint; tradeId?: string | null; txSignature?: string; reason?: string } = {}
+): Promise<void> {
+  await prisma.copyTradeEvent.update({
+    where: { id: eventId },
+    data: {
+      status,
+      amount: details.amount?.toString(),
+      tradeId: details.tradeId ?? undefined,
+      txSignature: details.txSignature,
+      reason: details.reason,
+    },
+  });
+}
+
+async function copyTrade(follow: CopyTradeFollow, trade: AccountTrade): Promise<void> {
+  const isBuy = trade.txType === "buy";
+
+  // Claim the leader trade for this follow - duplicates (reconnects, other instances) stop here
+  let eventId: string;
+  try {
+    const event = await prisma.copyTradeEvent.create({
+      data: {
+        followId: follow.id,
+        userId: follow.userId,
+        leaderAddress: trade.traderPublicKey,
+        leaderSignature: trade.signature,
+        side: isBuy ? "BUY" : "SELL",
+        tokenMint: trade.mint,
+        leaderSolAmount: trade.solAmount,
+        leaderTokenAmount: trade.tokenAmount,
+        status: follow.mirror ? "PENDING" : "OBSERVED",
+      },
+    });
+    eventId = event.id;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") return;
+    throw error;
+  }
+
+  if (!follow.mirror) return;
+
+  try {
+    if (follow.blacklist.includes(trade.mint)) {
+      await finish(eventId, "SKIPPED", { reason: "Token is blacklisted" });
+      return;
+    }
+    if (!isBuy && !follow.copySells) {
+      await finish(eventId, "SKIPPED", { reason: "Sell copying is off" });
+      return;
+    }
+
+    if (follow.delaySeconds > 0) {
+      await new Promise((resolve) => setTimeout(resolve, follow.delaySeconds * 1000));
+
+      // The follow may have been paused or removed while we waited
+      if (!getFollow(follow.id, follow.leaderAddress)?.mirror) {
+        await finish(eventId, "SKIPPED", { reason: "Mirroring turned off during the delay" });
+        return;
+      }
+    }
+
+    const wallet = await resolveWallet(follow.userId, follow.walletId);
+    if (!wallet) {
+      await finish(eventId, "FAILED", { reason: "No wallet found" });
+      return;
+    }
+
+    let amount: bigint;
+    if (isBuy) {
+      amount = getBuyAmount(follow, trade);
+    } else {
+      const balance = await getJupiterService().getTokenBalance(wallet.address, trade.mint);
+      if (balance === BigInt(0)) {
+        await finish(eventId, "SKIPPED", { reason: "No position to sell" });
+        return;
+      }
+      const shareBps = await getSoldShareBps(trade);
+      amount = shareBps >= BPS ? balance : (balance * shareBps) / BPS;
+    }
+
+    if (amount <= BigInt(0)) {
+      await finish(eventId, "SKIPPED", { reason: "Copy size rounds to zero" });
+      return;
+    }
+
+    const symbol = await getTokenSymbol(trade.mint);
+    const result = await executeTrade({
+      userId: follow.userId,
+      walletId: follow.walletId,
+      inputMint: isBuy ? SOL_MINT : trade.mint,
+      outputMint: isBuy ? trade.mint : SOL_MINT,
+      amount: amount.toString(),
+      slippageBps: follow.slippageBps,
+      inputSymbol: isBuy ? "SOL" : symbol,
+      outputSymbol: isBuy ? symbol : "SOL",
+      leaderSignature: trade.signature,
+    });
+
+    if (!result.success) {
+      await finish(eventId, "FAILED", { amount, tradeId: result.tradeId, reason: result.error });
+      console.error(`[copy-trading] Follow ${follow.id} failed to copy ${trade.signature}: ${result.error}`);
+      return;
+    }
+
+    await finish(eventId, "MIRRORED", { amount, tradeId: result.tradeId, txSignature: result.txSignature });
+    console.log(`[copy-trading] Follow ${follow.id} copied ${trade.txType} of ${symbol} via ${result.source}: ${result.txSignature}`);
+  } catch (error) {
+    console.error(`[copy-trading] Error copying ${trade.signature} for follow ${follow.id}:`, error);
+    await finish(eventId, "FAILED", { reason: error instanceof Error ? error.message : "Unknown error" }).catch(() => {});
+  }
+}
+
+function handleLeaderTrade(trade: AccountTrade): void {
+  const follows = followsByLeader.get(trade.traderPublicKey);
+  if (!follows || !trade.signature || !trade.mint) return;
+
+  for (const follow of follows) {
+    copyTrade(follow, trade).catch((error) => {
+      console.error(`[copy-trading] Failed to record ${trade.signature} for follow ${follow.id}:`, error);
+    });
+  }
+}
+
+// Reload follows and watch their leader wallets
+async function refreshFollows(): Promise<void> {
+  try {
+    const follows = await prisma.copyTradeFollow.findMany();
+
+    followsByLeader.clear();
+    for (const follow of follows) {
+      const list = followsByLeader.get(follow.leaderAddress) || [];
+      list.push(follow);
+      followsByLeader.set(follow.leaderAddress, list);
+    }
+
+    watchAccounts(FEED_ID, followsByLeader.keys(), handleLeaderTrade);
+  } catch (error) {
+    console.error("[copy-trading] Failed to refresh follows:", error);
+  }
+}
+
+export async function startCopyTradingEngine(): Promise<void> {
+  if (refreshId) {
+    console.log("[copy-trading] Already running");
+    return;
+  }
+
+  console.log("[copy-trading] Starting copy-trading engine");
+  refreshId = setInterval(refreshFollows, REFRESH_INTERVAL_MS);
+
+  // Copies waiting out their delay don't survive a restart
+  try {
+    const { count } = await prisma.copyTradeEvent.updateMany({
+      where: { status: "PENDING" },
+      data: { status: "FAILED", reason: "Interrupted by a server restart" },
+    });
+    if (count > 0) {
+      console.log(`[copy-trading] Marked ${count} interrupted copies as failed`);
+    }
+  } catch (error) {
+    console.error("[copy-trading] Failed to clean up pending copies:", error);
+  }
+
+  await refreshFollows();
+}
+
+export function stopCopyTradingEngine(): void {
+  if (refreshId) {
+    clearInterval(refreshId);
+    refreshId = null;
+    unwatchAccounts(FEED_ID);
+    console.log("[copy-trading] Stopped");
+  }
+}
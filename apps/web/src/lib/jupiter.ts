@@ -10,6 +10,8 @@ import {
 } from "@solana/web3.js";
 import bs58 from "bs58";
 import { config } from "./config";
+import { simulateSwapTransaction, SwapSimulation } from "./simulation";
+import type { ExecutionSettings } from "./trading-presets";
 
 // Jupiter API endpoints - try multiple if one fails
 const JUPITER_ENDPOINTS = [
@@ -24,7 +26,7 @@ const JUPITER_ENDPOINTS = [
 const HELIUS_SENDER_ENDPOINT = "https://sender.helius-rpc.com/fast";
 
 // Jito tip accounts for MEV protection
-const JITO_TIP_ACCOUNTS = [
+export const JITO_TIP_ACCOUNTS = [
   "4ACfpUFoaSD9bfPdeu6DBt89gB6ENTeHBXCAi87NhDEE",
   "D2L6yPZ2FmmmTKPgzaMKdhu6EWZcTpLy1Vhx8uvZe7NZ",
   "9bnz4RShgq1hAnLnZbP8kbgBg1kEmcJBYQq3gQbmnSta",
@@ -32,6 +34,18 @@ const JITO_TIP_ACCOUNTS = [
   "2nyhqdwKcJZR2vcqCyrYsaPVdAnFoJjiksCXJ7hfEYgD",
 ];
 
+// Execution settings when the caller has no preset - the P1 defaults
+const DEFAULT_EXECUTION: ExecutionSettings = {
+  priorityFeeLevel: "HIGH",
+  maxPriorityFeeLamports: 100000, // 0.0001 SOL
+  mevProtection: true,
+  jitoTipLamports: 0.0002 * LAMPORTS_PER_SOL, // Minimum tip required by Helius Sender
+};
+
+// Priority levels as named by Jupiter's swap API and Helius' getPriorityFeeEstimate
+const JUPITER_PRIORITY_LEVELS = { MEDIUM: "medium", HIGH: "high", VERY_HIGH: "veryHigh" } as const;
+const HELIUS_PRIORITY_LEVELS = { MEDIUM: "Medium", HIGH: "High", VERY_HIGH: "VeryHigh" } as const;
+
 // Current endpoint to use (will fallback on failure)
 let currentEndpointIndex = 0;
 
@@ -119,23 +133,19 @@ export class JupiterService {
   }
 
   /**
-   * Get Jito tip amount - minimum required for Helius Sender
+   * Get priority fee estimate (microLamports per CU) from Helius
+   * Estimates for a built transaction, or for the given program/account keys.
+   * Without a level Helius returns its recommended fee.
    */
-  private async getDynamicTipAmount(): Promise<number> {
-    // Use minimum tip of 0.0002 SOL required by Helius Sender
-    return 0.0002 * LAMPORTS_PER_SOL;
-  }
-
-  /**
-   * Get priority fee estimate from Helius
-   */
-  private async getPriorityFeeEstimate(transaction: VersionedTransaction): Promise<number> {
+  async getPriorityFeeEstimate(
+    target: VersionedTransaction | string[],
+    level?: ExecutionSettings["priorityFeeLevel"]
+  ): Promise<number> {
     if (!this.heliusApiKey) {
       return 50000; // Default 50k microLamports if no Helius
     }
 
     try {
-      const serializedTx = bs58.encode(transaction.serialize());
       const response = await fetch(this.getHeliusRpcUrl(), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -145,8 +155,10 @@ export class JupiterService {
           method: "getPriorityFeeEstimate",
           params: [
             {
-              transaction: serializedTx,
-              options: { recommended: true },
+              ...(Array.isArray(target)
+                ? { accountKeys: target }
+                : { transaction: bs58.encode(target.serialize()) }),
+              options: level ? { priorityLevel: HELIUS_PRIORITY_LEVELS[level] } : { recommended: true },
             },
           ],
         }),
@@ -227,11 +239,12 @@ export class JupiterService {
   }
 
   /**
-   * Get the swap transaction from Jupiter with optimized priority fees
+   * Get the swap transaction from Jupiter with the preset's priority fee level and cap
    */
   async getSwapTransaction(
     quoteResponse: JupiterQuote,
-    userPublicKey: string
+    userPublicKey: string,
+    execution: ExecutionSettings = DEFAULT_EXECUTION
   ): Promise<VersionedTransaction> {
     const errors: string[] = [];
 
@@ -256,11 +269,11 @@ export class JupiterService {
             userPublicKey,
             wrapAndUnwrapSol: true,
             dynamicComputeUnitLimit: true,
-            // Use Jupiter's built-in priority fee - keep it low for small trades
+            // Use Jupiter's built-in priority fee, capped by the preset
             prioritizationFeeLamports: {
               priorityLevelWithMaxLamports: {
-                maxLamports: 100000, // Max 0.0001 SOL for priority (reduced from 0.001)
-                priorityLevel: "high",
+                maxLamports: execution.maxPriorityFeeLamports,
+                priorityLevel: JUPITER_PRIORITY_LEVELS[execution.priorityFeeLevel],
               },
             },
           }),
@@ -291,11 +304,13 @@ export class JupiterService {
 
   /**
    * Add Jito tip to transaction for better landing rate
+   * Returns the signed transaction and the tip actually added (0 if adding it failed)
    */
   private async addJitoTip(
     transaction: VersionedTransaction,
-    signer: Keypair
-  ): Promise<VersionedTransaction> {
+    signer: Keypair,
+    tipAmount: number
+  ): Promise<{ transaction: VersionedTransaction; tipLamports: number }> {
     try {
       // Get ALT accounts to decompile the transaction
       const altAccountResponses = await Promise.all(
@@ -313,8 +328,6 @@ export class JupiterService {
         addressLookupTableAccounts: altAccounts,
       });
 
-      // Get dynamic tip amount
-      const tipAmount = await this.getDynamicTipAmount();
       console.log(`[JupiterService] Adding Jito tip: ${tipAmount / LAMPORTS_PER_SOL} SOL`);
 
       // Add tip instruction to random Jito account
@@ -333,33 +346,74 @@ export class JupiterService {
       );
       newTransaction.sign([signer]);
 
-      return newTransaction;
+      return { transaction: newTransaction, tipLamports: tipAmount };
     } catch (error) {
       console.warn("[JupiterService] Failed to add Jito tip, using original transaction:", error);
       transaction.sign([signer]);
-      return transaction;
+      return { transaction, tipLamports: 0 };
     }
   }
 
   /**
-   * Sign and execute a swap transaction via Helius Sender
+   * Sign the transaction with the preset's Jito tip (when MEV protection is on)
+   * Returns the transaction to send and the tip it carries
+   */
+  private async prepareTransaction(
+    transaction: VersionedTransaction,
+    signer: Keypair,
+    execution: ExecutionSettings
+  ): Promise<{ transaction: VersionedTransaction; tipLamports: number }> {
+    if (execution.mevProtection) {
+      return this.addJitoTip(transaction, signer, execution.jitoTipLamports);
+    }
+    transaction.sign([signer]);
+    return { transaction, tipLamports: 0 };
+  }
+
+  /**
+   * Sign and execute a swap transaction
    */
   async executeSwap(
     transaction: VersionedTransaction,
-    secretKey: Uint8Array
+    secretKey: Uint8Array,
+    execution: ExecutionSettings = DEFAULT_EXECUTION
   ): Promise<string> {
     const signer = Keypair.fromSecretKey(secretKey);
+    const { transaction: finalTransaction } = await this.prepareTransaction(transaction, signer, execution);
 
-    // Add Jito tip for Helius Sender
-    const finalTransaction = await this.addJitoTip(transaction, signer);
+    return this.sendAndConfirm(finalTransaction, execution.mevProtection);
+  }
 
+  /**
+   * Send a signed transaction and wait for confirmation
+   * MEV-protected sends go through Helius Sender (the transaction must carry a Jito tip),
+   * the rest through the regular RPC
+   */
+  async sendAndConfirm(
+    finalTransaction: VersionedTransaction,
+    mevProtection: boolean
+  ): Promise<string> {
     // Use Helius RPC for confirmation
     const rpcUrl = config.solanaRpcUrl || "https://api.mainnet-beta.solana.com";
     const connection = new Connection(rpcUrl, "confirmed");
 
-    console.log("[JupiterService] Sending via Helius Sender...");
+    console.log(`[JupiterService] Sending via ${mevProtection ? "Helius Sender" : "RPC"}...`);
 
     try {
+      if (!mevProtection) {
+        const signature = await connection.sendRawTransaction(finalTransaction.serialize(), {
+          skipPreflight: true,
+          maxRetries: 0,
+        });
+        console.log("[JupiterService] Transaction sent:", signature);
+
+        const confirmed = await this.pollForConfirmation(connection, signature, finalTransaction);
+        if (!confirmed) {
+          throw new Error("Transaction failed to confirm within timeout");
+        }
+        return signature;
+      }
+
       // Send via Helius Sender (no API key needed)
       const response = await fetch(HELIUS_SENDER_ENDPOINT, {
         method: "POST",
@@ -417,6 +471,28 @@ export class JupiterService {
     }
   }
 
+  /**
+   * Build the exact transaction executeSwap would send (Jito tip included) and
+   * simulate it instead of sending. Also returns Helius' recommended priority fee
+   * so it can be compared with the one Jupiter embedded.
+   */
+  async simulateSwap(
+    transaction: VersionedTransaction,
+    secretKey: Uint8Array,
+    tokenMint: string,
+    execution: ExecutionSettings = DEFAULT_EXECUTION
+  ): Promise<SwapSimulation & { recommendedComputeUnitPrice: number }> {
+    const signer = Keypair.fromSecretKey(secretKey);
+    const { transaction: finalTransaction, tipLamports } = await this.prepareTransaction(transaction, signer, execution);
+
+    const [simulation, recommendedComputeUnitPrice] = await Promise.all([
+      simulateSwapTransaction(this.connection, finalTransaction, signer.publicKey, tokenMint, tipLamports),
+      this.getPriorityFeeEstimate(finalTransaction),
+    ]);
+
+    return { ...simulation, recommendedComputeUnitPrice };
+  }
+
   /**
    * Poll for transaction confirmation with rebroadcast (Helius best practice)
    */
@@ -618,12 +694,27 @@ export class JupiterService {
     }
   }
 
+  /**
+   * Raw balance of a single token for a wallet, read from RPC (no indexer lag)
+   */
+  async getTokenBalance(walletAddress: string, mint: string): Promise<bigint> {
+    const accounts = await this.connection.getParsedTokenAccountsByOwner(
+      new PublicKey(walletAddress),
+      { mint: new PublicKey(mint) }
+    );
+    return accounts.value.reduce(
+      (sum, account) => sum + BigInt(account.account.data.parsed.info.tokenAmount.amount),
+      BigInt(0)
+    );
+  }
+
   /**
    * Get token prices in USD from Jupiter Price API
    * @param mints Array of token mint addresses
+   * @param strict Throw when the Price API fails instead of returning the prices fetched so far
    * @returns Map of mint address to price in USD
    */
-  async getTokenPrices(mints: string[]): Promise<Map<string, number>> {
+  async getTokenPrices(mints: string[], strict = false): Promise<Map<string, number>> {
     const prices = new Map<string, number>();
 
     if (mints.length === 0) {
@@ -649,6 +740,7 @@ export class JupiterService {
 
       if (!response.ok) {
         console.error(`[JupiterService] Price API error: ${response.status}`);
+        if (strict) throw new Error(`Price API error: ${response.status}`);
         return prices;
       }
 
@@ -668,6 +760,7 @@ export class JupiterService {
       return prices;
     } catch (error) {
       console.error("[JupiterService] Failed to fetch token prices:", error);
+      if (strict) throw error;
       return prices;
     }
   }
@@ -0,0 +1,352 @@
+// Friends / global leaderboards by realized PnL, ROI or volume over rolling 1d / 7d / 30d periods
+// - Stats come from Trade rows (FIFO lots) and are cached in LeaderboardEntry every few minutes
+// - Each refresh only recomputes users with new trades or trades that slid out of a period since the
+//   last one; everyone is recomputed hourly to catch anything else (e.g. decimals resolved later)
+// - Friends boards are the user plus the friends who share their rank (leaderboardFriendsOptIn, or
+//   leaderboardOptIn since the global board is public anyway); the global board is opted-in users only
+// - After each refresh, users whose own rank moved get a leaderboard:update socket push (via the API)
+import type { LeaderboardEntry, Prisma } from "@prisma/client";
+import { TradeStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { fetchInternalApi } from "@/lib/config";
+import { computeLots, getTokenDecimals, toLotTrades } from "@/lib/lots";
+
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000; // Every 5 minutes
+const FULL_REFRESH_INTERVAL_MS = 60 * 60 * 1000; // Recompute every active trader hourly
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const MIN_ROI_COST_SOL = 0.1; // ROI on a few lamports of cost isn't meaningful - not ranked
+const GLOBAL_LIMIT = 100;
+
+export type LeaderboardPeriod = "1d" | "7d" | "30d";
+export type LeaderboardMetric = "pnl" | "roi" | "volume";
+export type LeaderboardScope = "friends" | "global";
+
+export const LEADERBOARD_PERIODS: Record<LeaderboardPeriod, number> = { "1d": 1, "7d": 7, "30d": 30 };
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ["pnl", "roi", "volume"];
+
+export interface LeaderboardRow {
+  rank: number;
+  username: string | null;
+  name: string | null;
+  image: string | null;
+  isYou: boolean;
+  realizedPnlSol: number;
+  roiPct: number | null;
+  volumeSol: number;
+  trades: number;
+}
+
+interface RankChange {
+  scope: LeaderboardScope;
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  rank: number | null;
+  previousRank: number | null;
+}
+
+let intervalId: NodeJS.Timeout | null = null;
+let isRefreshing = false;
+let lastRefreshAt: Date | null = null;
+let lastFullRefreshAt: Date | null = null;
+// userId -> "scope:period:metric" -> rank, from the previous refresh
+let previousRanks = new Map<string, Map<string, number>>();
+
+export function isLeaderboardPeriod(value: unknown): value is LeaderboardPeriod {
+  return typeof value === "string" && value in LEADERBOARD_PERIODS;
+}
+
+export function isLeaderboardMetric(value: unknown): value is LeaderboardMetric {
+  return typeof value === "string" && (LEADERBOARD_METRICS as string[]).includes(value);
+}
+
+function roiPct(entry: Pick<LeaderboardEntry, "realizedPnlSol" | "costBasisSol">): number | null {
+  return entry.costBasisSol >= MIN_ROI_COST_SOL ? (entry.realizedPnlSol / entry.costBasisSol) * 100 : null;
+}
+
+// Value an entry is ranked by (null = not ranked on this metric)
+function metricValue(entry: LeaderboardEntry, metric: LeaderboardMetric): number | null {
+  switch (metric) {
+    case "pnl":
+      return entry.realizedPnlSol;
+    case "roi":
+      return roiPct(entry);
+    case "volume":
+      return entry.volumeSol;
+  }
+}
+
+// Best first; unranked entries are dropped
+function rankEntries(entries: LeaderboardEntry[], metric: LeaderboardMetric): LeaderboardEntry[] {
+  return entries
+    .filter((e) => metricValue(e, metric) !== null)
+    .sort((a, b) => metricValue(b, metric)! - metricValue(a, metric)!);
+}
+
+// Realized PnL, cost sold, volume and trade count for each period, from the full trade history
+async function computeUserStats(userId: string, now: number) {
+  const trades = await prisma.trade.findMany({
+    where: { userId, status: TradeStatus.SUCCESS },
+    orderBy: { createdAt: "asc" },
+  });
+  const mints = Array.from(new Set(trades.map((t) => (t.inputMint === SOL_MINT ? t.outputMint : t.inputMint))));
+  const lotTrades = toLotTrades(trades, await getTokenDecimals(mints), null);
+  const { disposals } = computeLots(lotTrades, "FIFO");
+
+  return (Object.keys(LEADERBOARD_PERIODS) as LeaderboardPeriod[]).map((period) => {
+    const since = now - LEADERBOARD_PERIODS[period] * DAY_MS;
+    const periodTrades = lotTrades.filter((t) => t.timestamp.getTime() >= since);
+    const periodDisposals = disposals.filter((d) => d.disposedAt.getTime() >= since);
+    return {
+      period,
+      realizedPnlSol: periodDisposals.reduce((sum, d) => sum + d.gainSol, 0),
+      costBasisSol: periodDisposals.reduce((sum, d) => sum + d.costBasisSol, 0),
+      volumeSol: periodTrades.reduce((sum, t) => sum + t.solAmount, 0),
+      trades: periodTrades.length,
+    };
+  });
+}
+
+// Users whose stats may have changed since the last refresh - trades created or confirmed since then,
+// or trades that have since slid out of one of the rolling periods
+async function getChangedTraders(since: Date, now: Date): Promise<Set<string>> {
+  const slidOut = Object.values(LEADERBOARD_PERIODS).flatMap((days) => {
+    const range = { gte: new Date(since.getTime() - days * DAY_MS), lt: new Date(now.getTime() - days * DAY_MS) };
+    return [{ createdAt: range }, { confirmedAt: range }];
+  });
+  const trades = await prisma.trade.findMany({
+    where: {
+      status: TradeStatus.SUCCESS,
+      OR: [{ createdAt: { gte: since } }, { confirmedAt: { gte: since } }, ...slidOut],
+    },
+    distinct: ["userId"],
+    select: { userId: true },
+  });
+  return new Set(trades.map((t) => t.userId));
+}
+
+// Recompute the cached entries of changed users who traded in the last 30 days (and clear the rest)
+async function refreshEntries(now: Date): Promise<void> {
+  const since = new Date(now.getTime() - LEADERBOARD_PERIODS["30d"] * DAY_MS);
+  const [recentTraders, cachedUsers] = await Promise.all([
+    prisma.trade.findMany({
+      where: { status: TradeStatus.SUCCESS, createdAt: { gte: since } },
+      distinct: ["userId"],
+      select: { userId: true },
+    }),
+    prisma.leaderboardEntry.findMany({ distinct: ["userId"], select: { userId: true } }),
+  ]);
+
+  const active = new Set(recentTraders.map((t) => t.userId));
+  const stale = cachedUsers.map((e) => e.userId).filter((id) => !active.has(id));
+  if (stale.length > 0) {
+    await prisma.leaderboardEntry.deleteMany({ where: { userId: { in: stale } } });
+  }
+
+  const full = !lastRefreshAt || !lastFullRefreshAt ||
+    now.getTime() - lastFullRefreshAt.getTime() >= FULL_REFRESH_INTERVAL_MS;
+  let users = active;
+  if (!full) {
+    const changed = await getChangedTraders(lastRefreshAt!, now);
+    users = new Set(Array.from(active).filter((id) => changed.has(id)));
+  }
+
+  for (const userId of users) {
+    try {
+      const stats = await computeUserStats(userId, now.getTime());
+      await prisma.$transaction(
+        stats.map(({ period, ...values }) =>
+          prisma.leaderboardEntry.upsert({
+            where: { userId_period: { userId, period } },
+            create: { userId, period, ...values },
+            update: values,
+          })
+        )
+      );
+    } catch (error) {
+      console.error(`[leaderboard] Failed to compute stats for ${userId}:`, error);
+    }
+  }
+
+  lastRefreshAt = now;
+  if (full) lastFullRefreshAt = now;
+}
+
+// Every user's own rank on each of their boards
+async function computeRanks(): Promise<Map<string, Map<string, number>>> {
+  const [entries, friendships, optedIn] = await Promise.all([
+    prisma.leaderboardEntry.findMany(),
+    prisma.friendship.findMany({ select: { userId: true, friendId: true } }),
+    prisma.user.findMany({
+      where: { OR: [{ leaderboardOptIn: true }, { leaderboardFriendsOptIn: true }] },
+      select: { id: true, leaderboardOptIn: true },
+    }),
+  ]);
+
+  const byPeriod = new Map<string, LeaderboardEntry[]>();
+  for (const entry of entries) {
+    const list = byPeriod.get(entry.period) || [];
+    list.push(entry);
+    byPeriod.set(entry.period, list);
+  }
+
+  // Only friends who share their rank count towards each other's boards
+  const sharedIds = new Set(optedIn.map((u) => u.id));
+  const friendsOf = new Map<string, Set<string>>();
+  for (const f of friendships) {
+    if (!sharedIds.has(f.friendId)) continue;
+    const set = friendsOf.get(f.userId) || new Set<string>();
+    set.add(f.friendId);
+    friendsOf.set(f.userId, set);
+  }
+  const globalIds = new Set(optedIn.filter((u) => u.leaderboardOptIn).map((u) => u.id));
+
+  const ranks = new Map<string, Map<string, number>>();
+  const setRank = (userId: string, key: string, rank: number) => {
+    const userRanks = ranks.get(userId) || new Map<string, number>();
+    userRanks.set(key, rank);
+    ranks.set(userId, userRanks);
+  };
+
+  for (const [period, periodEntries] of byPeriod) {
+    for (const metric of LEADERBOARD_METRICS) {
+      // Global board
+      rankEntries(periodEntries.filter((e) => globalIds.has(e.userId)), metric).forEach((e, i) => {
+        setRank(e.userId, `global:${period}:${metric}`, i + 1);
+      });
+
+      // Each ranked user's friends board - their rank is 1 + the friends placed above them
+      const ranked = rankEntries(periodEntries, metric);
+      const position = new Map(ranked.map((e, i) => [e.userId, i]));
+      ranked.forEach((entry, i) => {
+        const friends = friendsOf.get(entry.userId);
+        if (!friends || friends.size === 0) return;
+        let above = 0;
+        for (const friendId of friends) {
+          const friendPosition = position.get(friendId);
+          if (friendPosition !== undefined && friendPosition < i) above++;
+        }
+        setRank(entry.userId, `friends:${period}:${metric}`, above + 1);
+      });
+    }
+  }
+
+  return ranks;
+}
+
+// Push users whose rank moved since the previous refresh (nothing on the first one)
+async function pushRankChanges(ranks: Map<string, Map<string, number>>): Promise<void> {
+  const hadPrevious = previousRanks.size > 0;
+  const updates: { userId: string; changes: RankChange[] }[] = [];
+
+  if (hadPrevious) {
+    const userIds = new Set([...ranks.keys(), ...previousRanks.keys()]);
+    for (const userId of userIds) {
+      const now = ranks.get(userId) || new Map<string, number>();
+      const before = previousRanks.get(userId) || new Map<string, number>();
+      const changes: RankChange[] = [];
+      for (const key of new Set([...now.keys(), ...before.keys()])) {
+        const rank = now.get(key) ?? null;
+        const previousRank = before.get(key) ?? null;
+        if (rank === previousRank) continue;
+        const [scope, period, metric] = key.split(":") as [LeaderboardScope, LeaderboardPeriod, LeaderboardMetric];
+        changes.push({ scope, period, metric, rank, previousRank });
+      }
+      if (changes.length > 0) updates.push({ userId, changes });
+    }
+  }
+
+  previousRanks = ranks;
+  if (updates.length === 0) return;
+
+  const res = await fetchInternalApi("/api/leaderboard/changes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ updates }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) {
+    console.error(`[leaderboard] Failed to push rank changes: ${res.status}`);
+  }
+}
+
+async function refreshLeaderboard(): Promise<void> {
+  if (isRefreshing) return;
+  isRefreshing = true;
+
+  try {
+    await refreshEntries(new Date());
+    await pushRankChanges(await computeRanks());
+  } catch (error) {
+    console.error("[leaderboard] Refresh error:", error);
+  } finally {
+    isRefreshing = false;
+  }
+}
+
+// One board as the viewer sees it - friends: viewer + sharing friends, global: opted-in users (top 100)
+export async function getLeaderboard(
+  viewerId: string,
+  scope: LeaderboardScope,
+  period: LeaderboardPeriod,
+  metric: LeaderboardMetric
+): Promise<{ rows: LeaderboardRow[]; yourRank: number | null; computedAt: Date | null }> {
+  let userFilter: Prisma.LeaderboardEntryWhereInput;
+  if (scope === "friends") {
+    const friendships = await prisma.friendship.findMany({
+      where: {
+        userId: viewerId,
+        friend: { OR: [{ leaderboardFriendsOptIn: true }, { leaderboardOptIn: true }] },
+      },
+      select: { friendId: true },
+    });
+    userFilter = { userId: { in: [viewerId, ...friendships.map((f) => f.friendId)] } };
+  } else {
+    userFilter = { user: { leaderboardOptIn: true } };
+  }
+
+  const entries = await prisma.leaderboardEntry.findMany({
+    where: { period, ...userFilter },
+    include: { user: { select: { username: true, name: true, image: true } } },
+  });
+
+  const ranked = rankEntries(entries, metric) as typeof entries;
+  const yourIndex = ranked.findIndex((e) => e.userId === viewerId);
+  const rows = ranked.slice(0, scope === "global" ? GLOBAL_LIMIT : ranked.length).map((entry, i) => ({
+    rank: i + 1,
+    username: entry.user.username,
+    name: entry.user.name,
+    image: entry.user.image,
+    isYou: entry.userId === viewerId,
+    realizedPnlSol: entry.realizedPnlSol,
+    roiPct: roiPct(entry),
+    volumeSol: entry.volumeSol,
+    trades: entry.trades,
+  }));
+
+  const computedAt = entries.reduce<Date | null>(
+    (latest, e) => (!latest || e.computedAt > latest ? e.computedAt : latest),
+    null
+  );
+
+  return { rows, yourRank: yourIndex >= 0 ? yourIndex + 1 : null, computedAt };
+}
+
+export function startLeaderboard(): void {
+  if (intervalId) {
+    console.log("[leaderboard] Already running");
+    return;
+  }
+
+  console.log("[leaderboard] Starting leaderboard refresh (5m interval)");
+  refreshLeaderboard();
+  intervalId = setInterval(refreshLeaderboard, REFRESH_INTERVAL_MS);
+}
+
+export function stopLeaderboard(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("[leaderboard] Stopped");
+  }
+}
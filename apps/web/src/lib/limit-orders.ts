@@ -0,0 +1,195 @@
+// Background limit order engine - fills resting orders when their trigger is hit
+// - Live prices come from the API's price:update stream (shared price feed, one mint per open order)
+// - A triggered order is claimed atomically (OPEN -> TRIGGERED) so it is only ever filled once
+// - Fills go through executeTrade and are recorded as normal Trade rows (linked by limitOrderId)
+// - Orders left TRIGGERED by a restart are settled from their linked Trade on start
+import type { LimitOrder } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SOL_MINT } from "@/lib/jupiter";
+import { executeTrade } from "@/lib/trade-executor";
+import { watchPrices, unwatchPrices, type PriceUpdate } from "@/lib/price-feed";
+
+const REFRESH_INTERVAL_MS = 10_000; // Pick up new/cancelled orders every 10 seconds
+
+const FEED_ID = "limit-orders";
+
+let refreshId: NodeJS.Timeout | null = null;
+const ordersByMint = new Map<string, LimitOrder[]>();
+const executing = new Set<string>();
+
+function isTriggered(order: LimitOrder, update: PriceUpdate): number | null {
+  const value = order.triggerType === "MARKET_CAP" ? update.marketCap : update.price;
+  if (!value || value <= 0) return null;
+
+  const hit = order.side === "BUY" ? value <= order.triggerValue : value >= order.triggerValue;
+  return hit ? value : null;
+}
+
+async function fillOrder(order: LimitOrder, triggeredValue: number): Promise<void> {
+  if (executing.has(order.id)) return;
+  executing.add(order.id);
+
+  try {
+    // Claim the order - another instance (or a cancel) may have got there first
+    const claimed = await prisma.limitOrder.updateMany({
+      where: { id: order.id, status: "OPEN" },
+      data: { status: "TRIGGERED", triggeredValue, triggeredAt: new Date() },
+    });
+    if (claimed.count === 0) return;
+
+    const remaining = (ordersByMint.get(order.tokenMint) || []).filter((o) => o.id !== order.id);
+    ordersByMint.set(order.tokenMint, remaining);
+
+    console.log(`[limit-orders] ${order.side} ${order.tokenSymbol} triggered at ${triggeredValue} (target ${order.triggerValue})`);
+
+    const isBuy = order.side === "BUY";
+    const result = await executeTrade({
+      userId: order.userId,
+      walletId: order.walletId,
+      inputMint: isBuy ? SOL_MINT : order.tokenMint,
+      outputMint: isBuy ? order.tokenMint : SOL_MINT,
+      amount: order.amount,
+      slippageBps: order.slippageBps,
+      inputSymbol: isBuy ? "SOL" : order.tokenSymbol,
+      outputSymbol: isBuy ? order.tokenSymbol : "SOL",
+      limitOrderId: order.id,
+    });
+
+    if (result.success) {
+      await prisma.limitOrder.update({
+        where: { id: order.id },
+        data: { status: "FILLED", tradeId: result.tradeId, filledAt: new Date() },
+      });
+      console.log(`[limit-orders] Order ${order.id} filled via ${result.source}: ${result.txSignature}`);
+    } else {
+      await prisma.limitOrder.update({
+        where: { id: order.id },
+        data: { status: "FAILED", tradeId: result.tradeId, errorMessage: result.error },
+      });
+      console.error(`[limit-orders] Order ${order.id} failed: ${result.error}`);
+    }
+  } catch (error) {
+    console.error(`[limit-orders] Error filling order ${order.id}:`, error);
+  } finally {
+    executing.delete(order.id);
+  }
+}
+
+function handlePriceUpdate(update: PriceUpdate): void {
+  const orders = ordersByMint.get(update.address);
+  if (!orders || orders.length === 0) return;
+
+  for (const order of orders) {
+    const triggeredValue = isTriggered(order, update);
+    if (triggeredValue !== null) {
+      fillOrder(order, triggeredValue);
+    }
+  }
+}
+
+// Reload open orders and watch prices for their mints
+async function refreshOrders(): Promise<void> {
+  try {
+    await prisma.limitOrder.updateMany({
+      where: { status: "OPEN", expiresAt: { lte: new Date() } },
+      data: { status: "EXPIRED" },
+    });
+
+    const orders = await prisma.limitOrder.findMany({ where: { status: "OPEN" } });
+
+    ordersByMint.clear();
+    for (const order of orders) {
+      const list = ordersByMint.get(order.tokenMint) || [];
+      list.push(order);
+      ordersByMint.set(order.tokenMint, list);
+    }
+
+    watchPrices(FEED_ID, ordersByMint.keys(), handlePriceUpdate);
+  } catch (error) {
+    console.error("[limit-orders] Failed to refresh orders:", error);
+  }
+}
+
+// Settle orders claimed before a restart from the Trade their fill created (if any)
+// - No trade, or one that never got past PENDING: nothing was sent, so the order rests again
+// - SUBMITTED/CONFIRMING: the swap may have landed - failed rather than risk filling twice
+async function reconcileTriggeredOrders(): Promise<void> {
+  const orders = await prisma.limitOrder.findMany({
+    where: { status: "TRIGGERED" },
+    include: { trades: { orderBy: { createdAt: "desc" }, take: 1 } },
+  });
+
+  for (const order of orders) {
+    const trade = order.trades[0];
+
+    if (!trade || trade.status === "PENDING") {
+      if (trade) {
+        await prisma.trade.update({
+          where: { id: trade.id },
+          data: { status: "FAILED", errorMessage: "Interrupted by a server restart" },
+        });
+      }
+      await prisma.limitOrder.update({
+        where: { id: order.id },
+        data: { status: "OPEN", triggeredValue: null, triggeredAt: null },
+      });
+    } else if (trade.status === "SUCCESS") {
+      await prisma.limitOrder.update({
+        where: { id: order.id },
+        data: { status: "FILLED", tradeId: trade.id, filledAt: trade.confirmedAt ?? trade.createdAt },
+      });
+    } else {
+      await prisma.limitOrder.update({
+        where: { id: order.id },
+        data: {
+          status: "FAILED",
+          tradeId: trade.id,
+          errorMessage:
+            trade.status === "FAILED" || trade.status === "EXPIRED"
+              ? trade.errorMessage ?? "Trade failed"
+              : "Interrupted by a server restart after the swap was submitted - check your wallet",
+        },
+      });
+    }
+    console.log(`[limit-orders] Reconciled interrupted order ${order.id} (trade: ${trade?.status ?? "none"})`);
+  }
+}
+
+// Whether price:update carries a market cap for this mint - the API derives it from a
+// cached market cap, or the fixed pump.fun supply
+export async function hasMarketCapFeed(tokenMint: string): Promise<boolean> {
+  if (tokenMint.endsWith("pump")) return true;
+
+  const [token, pulseToken] = await Promise.all([
+    prisma.token.findUnique({ where: { address: tokenMint }, select: { marketCap: true } }),
+    prisma.pulseToken.findUnique({ where: { address: tokenMint }, select: { marketCap: true } }),
+  ]);
+  return (token?.marketCap ?? 0) > 0 || (pulseToken?.marketCap ?? 0) > 0;
+}
+
+export async function startLimitOrderEngine(): Promise<void> {
+  if (refreshId) {
+    console.log("[limit-orders] Already running");
+    return;
+  }
+
+  console.log("[limit-orders] Starting limit order engine");
+  refreshId = setInterval(refreshOrders, REFRESH_INTERVAL_MS);
+
+  try {
+    await reconcileTriggeredOrders();
+  } catch (error) {
+    console.error("[limit-orders] Failed to reconcile triggered orders:", error);
+  }
+
+  await refreshOrders();
+}
+
+export function stopLimitOrderEngine(): void {
+  if (refreshId) {
+    clearInterval(refreshId);
+    refreshId = null;
+    unwatchPrices(FEED_ID);
+    console.log("[limit-orders] Stopped");
+  }
+}
@@ -0,0 +1,330 @@
+// Lot-based cost accounting for SOL <-> token trades
+// - Buys open lots (cost = SOL spent + fees), sells dispose of them FIFO, LIFO or at average cost
+// - Trade amounts are raw base units (lamports for SOL) - everything here is converted to UI units
+// - Each disposal is valued in SOL and in USD at the SOL price recorded on the trades (Trade.solPriceUsd)
+// - Wallet ledger transfers move tokens without a sale: deposits/airdrops open lots, withdrawals remove them
+import type { Trade, WalletTransfer } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const DEFAULT_TOKEN_DECIMALS = 6; // pump.fun tokens
+const LAMPORTS_PER_SOL = 1e9;
+const LONG_TERM_DAYS = 365;
+const DUST = 1e-9;
+
+export type CostBasisMethod = "FIFO" | "LIFO" | "AVERAGE";
+export const COST_BASIS_METHODS: CostBasisMethod[] = ["FIFO", "LIFO", "AVERAGE"];
+
+// A SOL <-> token trade (or a token transfer) in UI units
+export interface LotTrade {
+  tradeId: string; // WalletTransfer id for transfers
+  tokenMint: string;
+  tokenSymbol: string;
+  side: "buy" | "sell" | "in" | "out"; // in/out: transferred in or out of the wallet
+  timestamp: Date;
+  tokenAmount: number;
+  solAmount: number; // SOL spent (buy) or received (sell), fees excluded - market value for deposits
+  feeSol: number; // platformFee + networkFee
+  solPriceUsd: number;
+  solPriceEstimated: boolean; // No SOL price was recorded on the trade - the current one was used
+}
+
+interface Lot {
+  acquiredAt: Date;
+  quantity: number;
+  costSol: number;
+  costUsd: number;
+}
+
+export interface Disposal {
+  tradeId: string;
+  tokenMint: string;
+  tokenSymbol: string;
+  acquiredAt: Date | null; // Earliest lot for average cost; null when the sale wasn't covered by tracked buys
+  disposedAt: Date;
+  quantity: number;
+  proceedsSol: number; // Net of the sell's fees
+  costBasisSol: number; // Including the buys' fees
+  gainSol: number;
+  proceedsUsd: number;
+  costBasisUsd: number;
+  gainUsd: number;
+  term: "short" | "long";
+  usdEstimated: boolean;
+}
+
+export interface OpenPosition {
+  tokenMint: string;
+  tokenSymbol: string;
+  quantity: number;
+  costBasisSol: number;
+  costBasisUsd: number;
+}
+
+export interface LotAccounting {
+  disposals: Disposal[];
+  openPositions: OpenPosition[];
+}
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return typeof value === "string" && (COST_BASIS_METHODS as string[]).includes(value);
+}
+
+// Decimals per mint from the Token table (pump.fun's 6 when unknown)
+export async function getTokenDecimals(mints: string[]): Promise<Map<string, number>> {
+  const tokens = await prisma.token.findMany({
+    where: { address: { in: mints } },
+    select: { address: true, decimals: true },
+  });
+  const decimals = new Map(tokens.map((t) => [t.address, t.decimals]));
+  for (const mint of mints) {
+    if (!decimals.has(mint)) decimals.set(mint, DEFAULT_TOKEN_DECIMALS);
+  }
+  return decimals;
+}
+
+// Convert successful SOL <-> token trades to LotTrades (token <-> token swaps are skipped)
+export function toLotTrades(
+  trades: Trade[],
+  decimals: Map<string, number>,
+  currentSolPriceUsd: number | null
+): LotTrade[] {
+  const lotTrades: LotTrade[] = [];
+
+  for (const trade of trades) {
+    const isBuy = trade.inputMint === SOL_MINT;
+    if (!isBuy && trade.outputMint !== SOL_MINT) continue;
+
+    const tokenMint = isBuy ? trade.outputMint : trade.inputMint;
+    const tokenDecimals = decimals.get(tokenMint) ?? DEFAULT_TOKEN_DECIMALS;
+    const rawToken = Number(isBuy ? trade.amountOut : trade.amountIn);
+    const lamports = Number(isBuy ? trade.amountIn : trade.amountOut);
+    const feeLamports = Number(trade.platformFee || 0) + Number(trade.networkFee || 0);
+
+    lotTrades.push({
+      tradeId: trade.id,
+      tokenMint,
+      tokenSymbol: isBuy ? trade.outputSymbol : trade.inputSymbol,
+      side: isBuy ? "buy" : "sell",
+      timestamp: trade.confirmedAt || trade.createdAt,
+      tokenAmount: rawToken / Math.pow(10, tokenDecimals),
+      solAmount: lamports / LAMPORTS_PER_SOL,
+      feeSol: feeLamports / LAMPORTS_PER_SOL,
+      solPriceUsd: trade.solPriceUsd ?? currentSolPriceUsd ?? 0,
+      solPriceEstimated: trade.solPriceUsd === null,
+    });
+  }
+
+  return lotTrades.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// Convert ledger transfers of tokens to LotTrades (SOL transfers and swap legs are skipped)
+// DEPOSITs cost their market value when ingested; AIRDROPs and unvalued deposits cost nothing
+// Transfers in a transaction that's also a Trade are skipped - the trade already covers them
+export function toLotTransfers(
+  transfers: WalletTransfer[],
+  currentSolPriceUsd: number | null,
+  trades: Pick<Trade, "txSignature">[] = []
+): LotTrade[] {
+  const tradeSignatures = new Set(trades.map((t) => t.txSignature));
+  const lotTrades: LotTrade[] = [];
+
+  for (const transfer of transfers) {
+    if (transfer.mint === SOL_MINT || transfer.kind === "SWAP") continue;
+    if (tradeSignatures.has(transfer.signature)) continue;
+
+    const solPriceUsd = transfer.solPriceUsd ?? currentSolPriceUsd ?? 0;
+    const costSol = transfer.kind === "DEPOSIT" && transfer.valueUsd !== null && solPriceUsd > 0
+      ? transfer.valueUsd / solPriceUsd
+      : 0;
+
+    lotTrades.push({
+      tradeId: transfer.id,
+      tokenMint: transfer.mint,
+      tokenSymbol: transfer.symbol || transfer.mint.slice(0, 6),
+      side: transfer.kind === "WITHDRAW" ? "out" : "in",
+      timestamp: transfer.timestamp,
+      tokenAmount: Number(transfer.amount) / Math.pow(10, transfer.decimals),
+      solAmount: costSol,
+      feeSol: 0,
+      solPriceUsd,
+      solPriceEstimated: transfer.solPriceUsd === null,
+    });
+  }
+
+  return lotTrades.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// Merge trades and transfers, oldest first
+export function mergeLotTrades(trades: LotTrade[], transfers: LotTrade[]): LotTrade[] {
+  return [...trades, ...transfers].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+function holdingTerm(acquiredAt: Date | null, disposedAt: Date): "short" | "long" {
+  if (!acquiredAt) return "short";
+  const days = (disposedAt.getTime() - acquiredAt.getTime()) / (24 * 60 * 60 * 1000);
+  return days > LONG_TERM_DAYS ? "long" : "short";
+}
+
+// Run the trades (oldest first) through per-token lots
+export function computeLots(trades: LotTrade[], method: CostBasisMethod): LotAccounting {
+  const lotsByMint = new Map<string, Lot[]>();
+  const symbols = new Map<string, string>();
+  const disposals: Disposal[] = [];
+
+  for (const trade of trades) {
+    symbols.set(trade.tokenMint, trade.tokenSymbol);
+    const lots = lotsByMint.get(trade.tokenMint) || [];
+    lotsByMint.set(trade.tokenMint, lots);
+
+    if (trade.side === "buy" || trade.side === "in") {
+      if (trade.tokenAmount <= 0) continue;
+      const costSol = trade.solAmount + trade.feeSol;
+      const lot: Lot = {
+        acquiredAt: trade.timestamp,
+        quantity: trade.tokenAmount,
+        costSol,
+        costUsd: costSol * trade.solPriceUsd,
+      };
+
+      if (method === "AVERAGE" && lots.length > 0) {
+        // Single pooled lot - keeps the first acquisition date for the holding period
+        lots[0].quantity += lot.quantity;
+        lots[0].costSol += lot.costSol;
+        lots[0].costUsd += lot.costUsd;
+      } else {
+        lots.push(lot);
+      }
+      continue;
+    }
+
+    if (trade.tokenAmount <= 0) continue;
+
+    // Transferred out - the lots leave with their cost, nothing is realized
+    if (trade.side === "out") {
+      let remaining = trade.tokenAmount;
+      while (remaining > DUST && lots.length > 0) {
+        const index = method === "LIFO" ? lots.length - 1 : 0;
+        const lot = lots[index];
+        const quantity = Math.min(remaining, lot.quantity);
+        const fraction = quantity / lot.quantity;
+        lot.quantity -= quantity;
+        lot.costSol -= lot.costSol * fraction;
+        lot.costUsd -= lot.costUsd * fraction;
+        remaining -= quantity;
+        if (lot.quantity <= DUST) lots.splice(index, 1);
+      }
+      continue;
+    }
+
+    // Sell - net proceeds are split across the lots it consumes, pro rata by quantity
+    const proceedsSol = trade.solAmount - trade.feeSol;
+    const proceedsUsd = proceedsSol * trade.solPriceUsd;
+    let remaining = trade.tokenAmount;
+
+    const dispose = (quantity: number, acquiredAt: Date | null, costSol: number, costUsd: number) => {
+      const share = quantity / trade.tokenAmount;
+      disposals.push({
+        tradeId: trade.tradeId,
+        tokenMint: trade.tokenMint,
+        tokenSymbol: trade.tokenSymbol,
+        acquiredAt,
+        disposedAt: trade.timestamp,
+        quantity,
+        proceedsSol: proceedsSol * share,
+        costBasisSol: costSol,
+        gainSol: proceedsSol * share - costSol,
+        proceedsUsd: proceedsUsd * share,
+        costBasisUsd: costUsd,
+        gainUsd: proceedsUsd * share - costUsd,
+        term: holdingTerm(acquiredAt, trade.timestamp),
+        usdEstimated: trade.solPriceEstimated,
+      });
+    };
+
+    while (remaining > DUST && lots.length > 0) {
+      const index = method === "LIFO" ? lots.length - 1 : 0;
+      const lot = lots[index];
+      const quantity = Math.min(remaining, lot.quantity);
+      const fraction = quantity / lot.quantity;
+      const costSol = lot.costSol * fraction;
+      const costUsd = lot.costUsd * fraction;
+
+      dispose(quantity, lot.acquiredAt, costSol, costUsd);
+
+      lot.quantity -= quantity;
+      lot.costSol -= costSol;
+      lot.costUsd -= costUsd;
+      remaining -= quantity;
+
+      if (lot.quantity <= DUST) lots.splice(index, 1);
+    }
+
+    // Sold more than the tracked buys and deposits - zero cost basis
+    if (remaining > DUST) {
+      dispose(remaining, null, 0, 0);
+    }
+  }
+
+  const openPositions: OpenPosition[] = [];
+  for (const [tokenMint, lots] of lotsByMint) {
+    const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (quantity <= DUST) continue;
+    openPositions.push({
+      tokenMint,
+      tokenSymbol: symbols.get(tokenMint) || "UNKNOWN",
+      quantity,
+      costBasisSol: lots.reduce((sum, lot) => sum + lot.costSol, 0),
+      costBasisUsd: lots.reduce((sum, lot) => sum + lot.costUsd, 0),
+    });
+  }
+
+  return { disposals, openPositions };
+}
+
+// Quote text fields; ones a spreadsheet would run as a formula (=, +, -, @, tab, CR) get a leading '
+function csvField(value: string): string {
+  if (/^[=+\-@\t\r]/.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Capital-gains CSV - one row per disposal (a sale spanning several lots gets a row per lot)
+export function disposalsToCsv(disposals: Disposal[]): string {
+  const header = [
+    "Date Sold",
+    "Date Acquired",
+    "Token",
+    "Mint",
+    "Quantity",
+    "Proceeds (SOL)",
+    "Cost Basis (SOL)",
+    "Gain (SOL)",
+    "Proceeds (USD)",
+    "Cost Basis (USD)",
+    "Gain (USD)",
+    "Term",
+    "USD Estimated",
+    "Trade ID",
+  ];
+
+  const rows = disposals.map((d) => [
+    d.disposedAt.toISOString(),
+    d.acquiredAt ? d.acquiredAt.toISOString() : "",
+    csvField(d.tokenSymbol),
+    d.tokenMint,
+    d.quantity.toString(),
+    d.proceedsSol.toFixed(9),
+    d.costBasisSol.toFixed(9),
+    d.gainSol.toFixed(9),
+    d.proceedsUsd.toFixed(2),
+    d.costBasisUsd.toFixed(2),
+    d.gainUsd.toFixed(2),
+    d.term,
+    d.usdEstimated ? "yes" : "no",
+    d.tradeId,
+  ].join(","));
+
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
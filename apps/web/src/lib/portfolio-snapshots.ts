@@ -0,0 +1,215 @@
+// Portfolio snapshots - periodic valuation of every wallet for the equity curve
+// - SOL + all SPL tokens at current prices (Jupiter token accounts and prices)
+// - One run values all of a user's wallets with a shared takenAt, so a user's total is the sum of a run
+// - A run is only saved when every wallet (and its token prices) could be valued - a missing wallet
+//   would show up as a drop in the equity curve
+// - Users get their first snapshot on demand (ensureRecentSnapshot) rather than waiting for the next run
+import type { Wallet } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getJupiterService } from "@/lib/jupiter";
+import { getCachedSolPrice } from "@/lib/price-updater";
+
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+export interface EquityPoint {
+  takenAt: Date;
+  totalUsd: number;
+  totalSol: number;
+}
+
+export interface Drawdown {
+  maxDrawdownPct: number; // 0-100, largest peak-to-trough drop
+  peakValue: number;
+  troughValue: number;
+  peakAt: Date | null;
+  troughAt: Date | null;
+}
+
+let intervalId: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+// Value one wallet now - throws when its balances or the price lookup fail
+async function valueWallet(address: string, solPriceUsd: number) {
+  const jupiter = getJupiterService();
+  const [lamports, tokenAccounts] = await Promise.all([
+    jupiter.getSolBalance(address),
+    jupiter.getTokenAccounts(address),
+  ]);
+
+  const held = tokenAccounts.filter((t) => Number(t.balance) > 0);
+  const prices = held.length > 0
+    ? await jupiter.getTokenPrices(held.map((t) => t.mint), true)
+    : new Map<string, number>();
+
+  const tokensUsd = held.reduce((sum, t) => {
+    const price = prices.get(t.mint);
+    return price ? sum + (Number(t.balance) / Math.pow(10, t.decimals)) * price : sum;
+  }, 0);
+
+  const solBalance = lamports / LAMPORTS_PER_SOL;
+  const totalUsd = solBalance * solPriceUsd + tokensUsd;
+
+  return {
+    solBalance,
+    tokensUsd,
+    totalUsd,
+    totalSol: totalUsd / solPriceUsd,
+    solPriceUsd,
+  };
+}
+
+// Snapshot all of one user's active wallets; returns false when there's no SOL price yet
+// Nothing is saved for the user when any wallet fails to value
+export async function snapshotUser(userId: string, wallets?: Wallet[]): Promise<boolean> {
+  const solPriceUsd = await getCachedSolPrice();
+  if (!solPriceUsd) return false;
+
+  const userWallets = wallets ?? await prisma.wallet.findMany({ where: { userId, archivedAt: null } });
+  const takenAt = new Date();
+
+  const rows = [];
+  for (const wallet of userWallets) {
+    try {
+      const value = await valueWallet(wallet.address, solPriceUsd);
+      rows.push({ userId, walletId: wallet.id, takenAt, ...value });
+    } catch (error) {
+      console.error(`[portfolio-snapshots] Failed to value ${wallet.address.slice(0, 8)}... - skipping run:`, error);
+      return true;
+    }
+  }
+
+  try {
+    if (rows.length > 0) {
+      await prisma.portfolioSnapshot.createMany({ data: rows });
+    }
+  } catch (error) {
+    console.error(`[portfolio-snapshots] Failed to save run for ${userId}:`, error);
+  }
+  return true;
+}
+
+// Take a snapshot now if the user has none from the last interval (e.g. before the first run reached them)
+export async function ensureRecentSnapshot(userId: string): Promise<void> {
+  const latest = await prisma.portfolioSnapshot.findFirst({
+    where: { userId },
+    orderBy: { takenAt: "desc" },
+    select: { takenAt: true },
+  });
+  if (!latest || Date.now() - latest.takenAt.getTime() > SNAPSHOT_INTERVAL_MS) {
+    await snapshotUser(userId);
+  }
+}
+
+async function snapshotAllUsers(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const wallets = await prisma.wallet.findMany({ where: { archivedAt: null } });
+    const byUser = new Map<string, Wallet[]>();
+    for (const wallet of wallets) {
+      const list = byUser.get(wallet.userId) || [];
+      list.push(wallet);
+      byUser.set(wallet.userId, list);
+    }
+
+    for (const [userId, userWallets] of byUser) {
+      const ok = await snapshotUser(userId, userWallets);
+      if (!ok) {
+        console.warn("[portfolio-snapshots] No SOL price yet - skipping run");
+        return;
+      }
+    }
+    console.log(`[portfolio-snapshots] Valued ${wallets.length} wallets for ${byUser.size} users`);
+  } catch (error) {
+    console.error("[portfolio-snapshots] Error:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+// Equity curve - wallet rows of a run summed into one point (a single wallet when walletId is given)
+export async function getEquityCurve(
+  userId: string,
+  options: { walletId?: string | null; since?: Date; until?: Date } = {}
+): Promise<EquityPoint[]> {
+  const snapshots = await prisma.portfolioSnapshot.findMany({
+    where: {
+      userId,
+      ...(options.walletId ? { walletId: options.walletId } : {}),
+      takenAt: { gte: options.since, lte: options.until },
+    },
+    orderBy: { takenAt: "asc" },
+    select: { takenAt: true, totalUsd: true, totalSol: true },
+  });
+
+  const points: EquityPoint[] = [];
+  for (const snapshot of snapshots) {
+    const last = points[points.length - 1];
+    if (last && last.takenAt.getTime() === snapshot.takenAt.getTime()) {
+      last.totalUsd += snapshot.totalUsd;
+      last.totalSol += snapshot.totalSol;
+    } else {
+      points.push({ ...snapshot });
+    }
+  }
+  return points;
+}
+
+// Portfolio value on a past date - the last run at or before it (null before the first snapshot)
+export async function getValueAt(userId: string, at: Date, walletId?: string | null): Promise<EquityPoint | null> {
+  const where = { userId, ...(walletId ? { walletId } : {}) };
+  const run = await prisma.portfolioSnapshot.findFirst({
+    where: { ...where, takenAt: { lte: at } },
+    orderBy: { takenAt: "desc" },
+    select: { takenAt: true },
+  });
+  if (!run) return null;
+
+  const [point] = await getEquityCurve(userId, { walletId, since: run.takenAt, until: run.takenAt });
+  return point ?? null;
+}
+
+// Largest peak-to-trough drop along the curve
+export function computeMaxDrawdown(points: EquityPoint[], currency: "usd" | "sol"): Drawdown {
+  const valueOf = (p: EquityPoint) => (currency === "usd" ? p.totalUsd : p.totalSol);
+  const result: Drawdown = { maxDrawdownPct: 0, peakValue: 0, troughValue: 0, peakAt: null, troughAt: null };
+
+  let peak: EquityPoint | null = null;
+  for (const point of points) {
+    if (!peak || valueOf(point) > valueOf(peak)) {
+      peak = point;
+      continue;
+    }
+    if (valueOf(peak) <= 0) continue;
+    const drawdownPct = ((valueOf(peak) - valueOf(point)) / valueOf(peak)) * 100;
+    if (drawdownPct > result.maxDrawdownPct) {
+      result.maxDrawdownPct = drawdownPct;
+      result.peakValue = valueOf(peak);
+      result.troughValue = valueOf(point);
+      result.peakAt = peak.takenAt;
+      result.troughAt = point.takenAt;
+    }
+  }
+  return result;
+}
+
+export function startPortfolioSnapshots(): void {
+  if (intervalId) {
+    console.log("[portfolio-snapshots] Already running");
+    return;
+  }
+
+  console.log("[portfolio-snapshots] Starting portfolio snapshots (hourly)");
+  snapshotAllUsers();
+  intervalId = setInterval(snapshotAllUsers, SNAPSHOT_INTERVAL_MS);
+}
+
+export function stopPortfolioSnapshots(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("[portfolio-snapshots] Stopped");
+  }
+}
@@ -0,0 +1,313 @@
+// Background stop-loss / take-profit / trailing-stop engine for held positions
+// - Live prices come from the shared price feed, one mint per active rule
+// - Mints the feed doesn't price (no cached price, no gRPC pool) are polled from Jupiter instead
+// - Trailing stops ratchet their high-water mark up as the price rises
+// - A triggered rule is claimed atomically (ACTIVE -> TRIGGERED) and sells through executeTrade
+// - Rules left TRIGGERED by a restart are settled on start from the sell trade linked to them
+import type { PositionRule, PositionRuleMode, PositionRuleType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getJupiterService, SOL_MINT } from "@/lib/jupiter";
+import { executeTrade } from "@/lib/trade-executor";
+import { resolveWallet } from "@/lib/wallets";
+import { watchPrices, unwatchPrices, type PriceUpdate } from "@/lib/price-feed";
+
+const REFRESH_INTERVAL_MS = 10_000; // Pick up new/cancelled rules every 10 seconds
+const HIGH_WATER_SAVE_MS = 5_000; // Persist trailing-stop highs at most every 5 seconds per rule
+const PRICE_POLL_MS = 30_000; // Poll Jupiter for mints the feed hasn't priced in 30 seconds
+
+const FEED_ID = "position-rules";
+
+let refreshId: NodeJS.Timeout | null = null;
+const rulesByMint = new Map<string, PositionRule[]>();
+const executing = new Set<string>();
+const lastHighSave = new Map<string, number>();
+const lastPriceAt = new Map<string, number>();
+let lastPollAt = 0;
+
+interface TriggerInput {
+  type: PositionRuleType;
+  mode: PositionRuleMode;
+  value: number;
+  entryPriceUsd: number | null;
+  highestPriceUsd: number | null;
+}
+
+// USD price at which the rule fires, or null if it can't be computed yet
+export function getTriggerPrice(rule: TriggerInput): number | null {
+  if (rule.type === "TRAILING_STOP") {
+    if (!rule.highestPriceUsd) return null;
+    const trigger = rule.mode === "PERCENT"
+      ? rule.highestPriceUsd * (1 - rule.value / 100)
+      : rule.highestPriceUsd - rule.value;
+    return trigger > 0 ? trigger : null;
+  }
+
+  if (rule.mode === "PRICE") return rule.value;
+  if (!rule.entryPriceUsd) return null;
+
+  return rule.type === "STOP_LOSS"
+    ? rule.entryPriceUsd * (1 - rule.value / 100)
+    : rule.entryPriceUsd * (1 + rule.value / 100);
+}
+
+function isTriggered(rule: PositionRule, price: number): boolean {
+  const trigger = getTriggerPrice(rule);
+  if (trigger === null) return false;
+  return rule.type === "TAKE_PROFIT" ? price >= trigger : price <= trigger;
+}
+
+// Raw balance as an integer string - Moralis may report UI amounts
+function toRawAmount(balance: string, decimals: number): bigint {
+  if (/^\d+$/.test(balance)) return BigInt(balance);
+  const uiAmount = Number(balance);
+  if (!Number.isFinite(uiAmount) || uiAmount <= 0) return BigInt(0);
+  return BigInt(Math.floor(uiAmount * Math.pow(10, decimals)));
+}
+
+async function updateHighWater(rule: PositionRule, price: number): Promise<void> {
+  rule.highestPriceUsd = price;
+  rule.triggerPriceUsd = getTriggerPrice(rule);
+
+  const now = Date.now();
+  if (now - (lastHighSave.get(rule.id) || 0) < HIGH_WATER_SAVE_MS) return;
+  lastHighSave.set(rule.id, now);
+
+  try {
+    await prisma.positionRule.updateMany({
+      where: { id: rule.id, status: "ACTIVE" },
+      data: { highestPriceUsd: rule.highestPriceUsd, triggerPriceUsd: rule.triggerPriceUsd },
+    });
+  } catch (error) {
+    console.error(`[position-rules] Failed to save high for ${rule.id}:`, error);
+  }
+}
+
+async function fireRule(rule: PositionRule, price: number): Promise<void> {
+  if (executing.has(rule.id)) return;
+  executing.add(rule.id);
+
+  try {
+    // Claim the rule - a cancel or a sibling rule may have got there first
+    const claimed = await prisma.positionRule.updateMany({
+      where: { id: rule.id, status: "ACTIVE" },
+      data: { status: "TRIGGERED", triggeredPrice: price, triggeredAt: new Date() },
+    });
+    if (claimed.count === 0) return;
+
+    const remaining = (rulesByMint.get(rule.tokenMint) || []).filter((r) => r.id !== rule.id);
+    rulesByMint.set(rule.tokenMint, remaining);
+
+    console.log(`[position-rules] ${rule.type} ${rule.tokenSymbol} triggered at $${price} (trigger $${getTriggerPrice(rule)})`);
+
+    const wallet = await resolveWallet(rule.userId, rule.walletId);
+    if (!wallet) {
+      await markFailed(rule, null, "No wallet found");
+      return;
+    }
+
+    // Sell against the current on-chain balance, not the balance when the rule was set
+    const accounts = await getJupiterService().getTokenAccounts(wallet.address);
+    const account = accounts.find((a) => a.mint === rule.tokenMint);
+    const balance = account ? toRawAmount(account.balance, account.decimals) : BigInt(0);
+    const sellAmount = (balance * BigInt(Math.round(rule.sellPercent * 100))) / BigInt(10000);
+
+    if (sellAmount <= BigInt(0)) {
+      await markFailed(rule, null, "No balance to sell");
+      return;
+    }
+
+    const result = await executeTrade({
+      userId: rule.userId,
+      walletId: rule.walletId,
+      inputMint: rule.tokenMint,
+      outputMint: SOL_MINT,
+      amount: sellAmount.toString(),
+      slippageBps: rule.slippageBps,
+      inputSymbol: rule.tokenSymbol,
+      outputSymbol: "SOL",
+      positionRuleId: rule.id,
+    });
+
+    if (!result.success) {
+      await markFailed(rule, result.tradeId, result.error);
+      return;
+    }
+
+    await prisma.positionRule.update({
+      where: { id: rule.id },
+      data: { status: "FILLED", tradeId: result.tradeId, filledAt: new Date() },
+    });
+    console.log(`[position-rules] Rule ${rule.id} filled via ${result.source}: ${result.txSignature}`);
+
+    // Position closed - the other rules on it have nothing left to protect
+    if (sellAmount === balance) {
+      const { count } = await prisma.positionRule.updateMany({
+        where: { userId: rule.userId, walletId: rule.walletId, tokenMint: rule.tokenMint, status: "ACTIVE" },
+        data: { status: "CANCELLED" },
+      });
+      if (count > 0) {
+        rulesByMint.set(
+          rule.tokenMint,
+          (rulesByMint.get(rule.tokenMint) || []).filter(
+            (r) => r.userId !== rule.userId || r.walletId !== rule.walletId
+          )
+        );
+      }
+    }
+  } catch (error) {
+    console.error(`[position-rules] Error firing rule ${rule.id}:`, error);
+    await markFailed(rule, null, error instanceof Error ? error.message : "Unknown error").catch(() => {});
+  } finally {
+    executing.delete(rule.id);
+    lastHighSave.delete(rule.id);
+  }
+}
+
+async function markFailed(rule: PositionRule, tradeId: string | null, error: string): Promise<void> {
+  await prisma.positionRule.updateMany({
+    where: { id: rule.id, status: "TRIGGERED" },
+    data: { status: "FAILED", tradeId, errorMessage: error },
+  });
+  console.error(`[position-rules] Rule ${rule.id} failed: ${error}`);
+}
+
+function handlePriceUpdate(update: PriceUpdate): void {
+  const rules = rulesByMint.get(update.address);
+  if (!rules || rules.length === 0 || !update.price || update.price <= 0) return;
+  lastPriceAt.set(update.address, Date.now());
+
+  for (const rule of rules) {
+    if (rule.type === "TRAILING_STOP" && update.price > (rule.highestPriceUsd || 0)) {
+      updateHighWater(rule, update.price);
+      continue;
+    }
+    if (isTriggered(rule, update.price)) {
+      fireRule(rule, update.price);
+    }
+  }
+}
+
+// Reload active rules and watch prices for their mints
+async function refreshRules(): Promise<void> {
+  try {
+    const rules = await prisma.positionRule.findMany({ where: { status: "ACTIVE" } });
+
+    // Keep in-memory highs that haven't been persisted yet
+    const highs = new Map<string, number>();
+    for (const list of rulesByMint.values()) {
+      for (const rule of list) {
+        if (rule.highestPriceUsd) highs.set(rule.id, rule.highestPriceUsd);
+      }
+    }
+
+    rulesByMint.clear();
+    for (const rule of rules) {
+      const high = highs.get(rule.id);
+      if (high && high > (rule.highestPriceUsd || 0)) {
+        rule.highestPriceUsd = high;
+        rule.triggerPriceUsd = getTriggerPrice(rule);
+      }
+      const list = rulesByMint.get(rule.tokenMint) || [];
+      list.push(rule);
+      rulesByMint.set(rule.tokenMint, list);
+    }
+
+    watchPrices(FEED_ID, rulesByMint.keys(), handlePriceUpdate);
+
+    for (const mint of lastPriceAt.keys()) {
+      if (!rulesByMint.has(mint)) lastPriceAt.delete(mint);
+    }
+    await pollStalePrices();
+  } catch (error) {
+    console.error("[position-rules] Failed to refresh rules:", error);
+  }
+}
+
+// Fallback for mints without recent price:update ticks - a rule would otherwise never fire
+async function pollStalePrices(): Promise<void> {
+  const now = Date.now();
+  if (now - lastPollAt < PRICE_POLL_MS) return;
+
+  const stale = Array.from(rulesByMint.keys()).filter(
+    (mint) => now - (lastPriceAt.get(mint) ?? 0) >= PRICE_POLL_MS
+  );
+  if (stale.length === 0) return;
+  lastPollAt = now;
+
+  const prices = await getJupiterService().getTokenPrices(stale);
+  for (const [address, price] of prices) {
+    handlePriceUpdate({ address, price, marketCap: null, timestamp: now });
+  }
+}
+
+// Settle rules claimed before a restart from the sell trade they created (if any)
+// - No trade, or one that never got past PENDING: nothing was sent, so the rule watches again
+// - SUBMITTED/CONFIRMING: the sell may have landed - failed rather than risk selling twice
+async function reconcileTriggeredRules(): Promise<void> {
+  const rules = await prisma.positionRule.findMany({
+    where: { status: "TRIGGERED" },
+    include: { trades: { orderBy: { createdAt: "desc" }, take: 1 } },
+  });
+
+  for (const rule of rules) {
+    const trade = rule.trades[0];
+
+    if (!trade || trade.status === "PENDING") {
+      if (trade) {
+        await prisma.trade.update({
+          where: { id: trade.id },
+          data: { status: "FAILED", errorMessage: "Interrupted by a server restart" },
+        });
+      }
+      await prisma.positionRule.update({
+        where: { id: rule.id },
+        data: { status: "ACTIVE", triggeredPrice: null, triggeredAt: null },
+      });
+    } else if (trade.status === "SUCCESS") {
+      await prisma.positionRule.update({
+        where: { id: rule.id },
+        data: { status: "FILLED", tradeId: trade.id, filledAt: trade.confirmedAt ?? trade.createdAt },
+      });
+    } else {
+      await prisma.positionRule.update({
+        where: { id: rule.id },
+        data: {
+          status: "FAILED",
+          tradeId: trade.id,
+          errorMessage:
+            trade.status === "FAILED" || trade.status === "EXPIRED"
+              ? trade.errorMessage ?? "Trade failed"
+              : "Interrupted by a server restart after the sell was submitted - check your wallet",
+        },
+      });
+    }
+    console.log(`[position-rules] Reconciled interrupted rule ${rule.id} (trade: ${trade?.status ?? "none"})`);
+  }
+}
+
+export async function startPositionRuleEngine(): Promise<void> {
+  if (refreshId) {
+    console.log("[position-rules] Already running");
+    return;
+  }
+
+  console.log("[position-rules] Starting position rule engine");
+  refreshId = setInterval(refreshRules, REFRESH_INTERVAL_MS);
+
+  try {
+    await reconcileTriggeredRules();
+  } catch (error) {
+    console.error("[position-rules] Failed to reconcile triggered rules:", error);
+  }
+
+  await refreshRules();
+}
+
+export function stopPositionRuleEngine(): void {
+  if (refreshId) {
+    clearInterval(refreshId);
+    refreshId = null;
+    unwatchPrices(FEED_ID);
+    console.log("[position-rules] Stopped");
+  }
+}
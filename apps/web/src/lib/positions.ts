@@ -0,0 +1,167 @@
+// Per-mint positions from a user's SOL <-> token trades and wallet ledger transfers
+// - Shared by the PnL page (every mint) and exit rules (one mint's entry price)
+// - Entry price is the open lots' USD cost per token, so sells and withdrawals leave it where lot accounting puts it
+import { TradeStatus, type Prisma, type Wallet } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { walletTradeFilter } from "@/lib/wallets";
+import { getCachedSolPrice } from "@/lib/price-updater";
+import {
+  computeLots,
+  getTokenDecimals,
+  mergeLotTrades,
+  toLotTrades,
+  toLotTransfers,
+  type CostBasisMethod,
+  type LotAccounting,
+  type LotTrade,
+} from "@/lib/lots";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export interface Position {
+  mint: string;
+  symbol: string;
+  name: string; // Token name
+  image: string | null; // Token logo URL
+  totalBought: number; // Total tokens bought
+  totalSold: number; // Total tokens sold
+  avgBuyPrice: number; // Average buy price in SOL
+  avgSellPrice: number; // Average sell price in SOL
+  totalBuyCost: number; // Total SOL spent buying
+  totalSellRevenue: number; // Total SOL received from selling
+  transferredIn: number; // Tokens deposited or airdropped into the wallet
+  transferredOut: number; // Tokens withdrawn from the wallet
+  currentBalance: number; // Current token balance
+  entryPriceUsd: number | null; // USD cost per token of the open lots (null when closed or cost-free)
+  realizedPnl: number; // PnL from disposals (sells), in SOL
+  realizedPnlUsd: number; // Same, valued at the SOL price of each trade
+  unrealizedPnl: number; // PnL from open positions (needs current price)
+  trades: number;
+  lastTradeAt: Date | null;
+}
+
+// Ledger transfers that feed the lots (swap legs are covered by Trade rows)
+export function getLedgerTransfers(where: Prisma.WalletTransferWhereInput) {
+  return prisma.walletTransfer.findMany({
+    where: { ...where, kind: { not: "SWAP" } },
+    orderBy: { timestamp: "asc" },
+  });
+}
+
+// Positions keyed by mint from trades, transfers and their lot accounting
+export function buildPositions(
+  lotTrades: LotTrade[],
+  lotTransfers: LotTrade[],
+  accounting: LotAccounting
+): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const getPosition = (trade: LotTrade): Position => {
+    if (!positions.has(trade.tokenMint)) {
+      positions.set(trade.tokenMint, {
+        mint: trade.tokenMint,
+        symbol: trade.tokenSymbol,
+        name: "",
+        image: null,
+        totalBought: 0,
+        totalSold: 0,
+        avgBuyPrice: 0,
+        avgSellPrice: 0,
+        totalBuyCost: 0,
+        totalSellRevenue: 0,
+        transferredIn: 0,
+        transferredOut: 0,
+        currentBalance: 0,
+        entryPriceUsd: null,
+        realizedPnl: 0,
+        realizedPnlUsd: 0,
+        unrealizedPnl: 0,
+        trades: 0,
+        lastTradeAt: null,
+      });
+    }
+    return positions.get(trade.tokenMint)!;
+  };
+
+  for (const trade of lotTrades) {
+    const pos = getPosition(trade);
+    pos.trades++;
+    pos.lastTradeAt = trade.timestamp;
+
+    if (trade.side === "buy") {
+      pos.totalBought += trade.tokenAmount;
+      pos.totalBuyCost += trade.solAmount + trade.feeSol;
+      pos.currentBalance += trade.tokenAmount;
+    } else {
+      pos.totalSold += trade.tokenAmount;
+      pos.totalSellRevenue += trade.solAmount - trade.feeSol;
+      pos.currentBalance = Math.max(0, pos.currentBalance - trade.tokenAmount);
+    }
+
+    pos.avgBuyPrice = pos.totalBought > 0 ? pos.totalBuyCost / pos.totalBought : 0;
+    pos.avgSellPrice = pos.totalSold > 0 ? pos.totalSellRevenue / pos.totalSold : 0;
+  }
+
+  // Deposits, airdrops and withdrawals move the balance without being trades
+  for (const transfer of lotTransfers) {
+    const pos = getPosition(transfer);
+    if (!pos.lastTradeAt || transfer.timestamp > pos.lastTradeAt) {
+      pos.lastTradeAt = transfer.timestamp;
+    }
+    if (transfer.side === "in") {
+      pos.transferredIn += transfer.tokenAmount;
+      pos.currentBalance += transfer.tokenAmount;
+    } else {
+      pos.transferredOut += transfer.tokenAmount;
+      pos.currentBalance = Math.max(0, pos.currentBalance - transfer.tokenAmount);
+    }
+  }
+
+  for (const disposal of accounting.disposals) {
+    const pos = positions.get(disposal.tokenMint);
+    if (pos) {
+      pos.realizedPnl += disposal.gainSol;
+      pos.realizedPnlUsd += disposal.gainUsd;
+    }
+  }
+
+  for (const open of accounting.openPositions) {
+    const pos = positions.get(open.tokenMint);
+    if (pos && open.costBasisUsd > 0) {
+      pos.entryPriceUsd = open.costBasisUsd / open.quantity;
+    }
+  }
+
+  return positions;
+}
+
+// One wallet's position in a token, or null if it never traded or received it
+export async function getWalletPosition(
+  userId: string,
+  wallet: Pick<Wallet, "id" | "isPrimary">,
+  tokenMint: string,
+  method: CostBasisMethod = "AVERAGE"
+): Promise<Position | null> {
+  const [trades, transfers, decimals, solPriceUsd] = await Promise.all([
+    prisma.trade.findMany({
+      where: {
+        userId,
+        status: TradeStatus.SUCCESS,
+        AND: [walletTradeFilter(wallet)],
+        OR: [
+          { inputMint: SOL_MINT, outputMint: tokenMint },
+          { inputMint: tokenMint, outputMint: SOL_MINT },
+        ],
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    getLedgerTransfers({ userId, walletId: wallet.id, mint: tokenMint }),
+    getTokenDecimals([tokenMint]),
+    getCachedSolPrice(),
+  ]);
+
+  const lotTrades = toLotTrades(trades, decimals, solPriceUsd);
+  const lotTransfers = toLotTransfers(transfers, solPriceUsd, trades);
+  const accounting = computeLots(mergeLotTrades(lotTrades, lotTransfers), method);
+
+  return buildPositions(lotTrades, lotTransfers, accounting).get(tokenMint) ?? null;
+}
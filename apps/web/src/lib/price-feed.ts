@@ -0,0 +1,184 @@
+// Shared server-side connection to the API's price:update, snipe:newToken and account:trade streams
+// Background workers register the mints (or wallets) they watch; the feed keeps one room
+// subscription per mint or wallet no matter how many workers watch it
+import { io, Socket } from "socket.io-client";
+import { config } from "@/lib/config";
+
+export interface PriceUpdate {
+  address: string;
+  price: number;
+  marketCap: number | null;
+  timestamp: number;
+}
+
+// Raw PumpPortal create event relayed by the API
+export interface NewTokenEvent {
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  traderPublicKey: string; // Creator
+  initialBuy: number; // Tokens bought by the creator at launch
+  solAmount?: number; // SOL spent on the initial buy
+  marketCapSol: number;
+  timestamp?: number;
+}
+
+// pump.fun trade by a watched wallet, relayed from PumpPortal
+export interface AccountTrade {
+  mint: string;
+  traderPublicKey: string;
+  txType: "buy" | "sell";
+  tokenAmount: number; // UI amount
+  solAmount: number;
+  marketCapSol: number;
+  signature: string;
+  timestamp?: number;
+}
+
+type PriceListener = (update: PriceUpdate) => void;
+type NewTokenListener = (token: NewTokenEvent) => void;
+type AccountTradeListener = (trade: AccountTrade) => void;
+
+interface Watcher {
+  mints: Set<string>;
+  listener: PriceListener;
+}
+
+interface AccountWatcher {
+  accounts: Set<string>;
+  listener: AccountTradeListener;
+}
+
+let socket: Socket | null = null;
+const watchers = new Map<string, Watcher>();
+const subscribedMints = new Set<string>();
+const newTokenListeners = new Map<string, NewTokenListener>();
+const accountWatchers = new Map<string, AccountWatcher>();
+const subscribedAccounts = new Set<string>();
+
+function getSocket(): Socket {
+  if (socket) return socket;
+
+  socket = io(config.apiUrl, { transports: ["websocket"] });
+
+  socket.on("connect", () => {
+    // Rooms are per connection - resubscribe everything after a reconnect
+    subscribedMints.clear();
+    subscribedAccounts.clear();
+    syncSubscriptions();
+    if (newTokenListeners.size > 0) {
+      socket?.emit("subscribe:snipe");
+    }
+  });
+
+  socket.on("price:update", (update: PriceUpdate) => {
+    for (const watcher of watchers.values()) {
+      if (watcher.mints.has(update.address)) {
+        watcher.listener(update);
+      }
+    }
+  });
+
+  socket.on("snipe:newToken", (token: NewTokenEvent) => {
+    for (const listener of newTokenListeners.values()) {
+      listener(token);
+    }
+  });
+
+  socket.on("account:trade", (trade: AccountTrade) => {
+    for (const watcher of accountWatchers.values()) {
+      if (watcher.accounts.has(trade.traderPublicKey)) {
+        watcher.listener(trade);
+      }
+    }
+  });
+
+  return socket;
+}
+
+// Drop the connection once no worker needs it
+function releaseSocket(): void {
+  if (watchers.size === 0 && newTokenListeners.size === 0 && accountWatchers.size === 0 && socket) {
+    socket.disconnect();
+    socket = null;
+    subscribedMints.clear();
+    subscribedAccounts.clear();
+  }
+}
+
+// Join rooms that are wanted and leave the ones that aren't - room is "token" or "account"
+function syncRooms(room: string, wanted: Set<string>, subscribed: Set<string>): void {
+  if (!socket?.connected) return;
+
+  for (const address of wanted) {
+    if (!subscribed.has(address)) {
+      socket.emit(`subscribe:${room}`, { address });
+      subscribed.add(address);
+    }
+  }
+  for (const address of subscribed) {
+    if (!wanted.has(address)) {
+      socket.emit(`unsubscribe:${room}`, { address });
+      subscribed.delete(address);
+    }
+  }
+}
+
+function syncSubscriptions(): void {
+  const wantedMints = new Set<string>();
+  for (const watcher of watchers.values()) {
+    for (const mint of watcher.mints) wantedMints.add(mint);
+  }
+  syncRooms("token", wantedMints, subscribedMints);
+
+  const wantedAccounts = new Set<string>();
+  for (const watcher of accountWatchers.values()) {
+    for (const account of watcher.accounts) wantedAccounts.add(account);
+  }
+  syncRooms("account", wantedAccounts, subscribedAccounts);
+}
+
+// Replace the set of mints a worker watches (id identifies the worker)
+export function watchPrices(id: string, mints: Iterable<string>, listener: PriceListener): void {
+  getSocket();
+  watchers.set(id, { mints: new Set(mints), listener });
+  syncSubscriptions();
+}
+
+export function unwatchPrices(id: string): void {
+  watchers.delete(id);
+  syncSubscriptions();
+  releaseSocket();
+}
+
+// Receive every new pump.fun token as soon as the API sees it
+export function watchNewTokens(id: string, listener: NewTokenListener): void {
+  const s = getSocket();
+  const first = newTokenListeners.size === 0;
+  newTokenListeners.set(id, listener);
+  if (first && s.connected) {
+    s.emit("subscribe:snipe");
+  }
+}
+
+export function unwatchNewTokens(id: string): void {
+  newTokenListeners.delete(id);
+  if (newTokenListeners.size === 0) {
+    socket?.emit("unsubscribe:snipe");
+  }
+  releaseSocket();
+}
+
+// Replace the set of wallets a worker follows - every pump.fun trade they make is delivered
+export function watchAccounts(id: string, accounts: Iterable<string>, listener: AccountTradeListener): void {
+  getSocket();
+  accountWatchers.set(id, { accounts: new Set(accounts), listener });
+  syncSubscriptions();
+}
+
+export function unwatchAccounts(id: string): void {
+  accountWatchers.delete(id);
+  syncSubscriptions();
+  releaseSocket();
+}
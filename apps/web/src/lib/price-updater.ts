@@ -85,3 +85,9 @@ export function stopPriceUpdater(): void {
     console.log("[price-updater] Stopped");
   }
 }
+
+// Latest SOL/USD price kept by the updater (null until the first successful update)
+export async function getCachedSolPrice(): Promise<number | null> {
+  const cache = await prisma.priceCache.findUnique({ where: { symbol: "SOL" } });
+  return cache?.priceUsd ?? null;
+}
@@ -6,6 +6,9 @@ import {
   Keypair,
   SystemProgram,
   SYSVAR_RENT_PUBKEY,
+  TransactionMessage,
+  VersionedTransaction,
+  ComputeBudgetProgram,
   sendAndConfirmTransaction,
 } from "@solana/web3.js";
 import {
@@ -15,6 +18,10 @@ import {
   createAssociatedTokenAccountInstruction,
 } from "@solana/spl-token";
 import { config } from "./config";
+import { simulateSwapTransaction, SwapSimulation } from "./simulation";
+import { getJupiterService, JITO_TIP_ACCOUNTS } from "./jupiter";
+import type { PriorityFeeLevel } from "@prisma/client";
+import type { ExecutionSettings } from "./trading-presets";
 
 // Pump.fun Program Constants
 const PUMP_FUN_PROGRAM_ID = new PublicKey("6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P");
@@ -26,9 +33,40 @@ const PUMP_EVENT_AUTHORITY = new PublicKey("Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr
 const BUY_DISCRIMINATOR = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]);
 const SELL_DISCRIMINATOR = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]);
 
+// Compute budget for a buy/sell (incl. creating the token account) - priority fees are priced per CU
+const PUMP_COMPUTE_UNIT_LIMIT = 120_000;
+
+// Helius fee estimates are reused this long - snipes shouldn't wait on a lookup per buy
+const PRIORITY_FEE_CACHE_MS = 15_000;
+
 // SOL mint for reference
 const SOL_MINT = new PublicKey("So11111111111111111111111111111111111111112");
 
+const priorityFeeCache = new Map<PriorityFeeLevel, { microLamports: number; fetchedAt: number }>();
+
+async function fetchPriorityFee(level: PriorityFeeLevel): Promise<number> {
+  const microLamports = await getJupiterService().getPriorityFeeEstimate([PUMP_FUN_PROGRAM_ID.toBase58()], level);
+  priorityFeeCache.set(level, { microLamports, fetchedAt: Date.now() });
+  return microLamports;
+}
+
+// Priority fee estimate (microLamports per CU) for pump.fun trades, cached per level
+async function getPriorityFee(level: PriorityFeeLevel): Promise<number> {
+  const cached = priorityFeeCache.get(level);
+  if (cached && Date.now() - cached.fetchedAt < PRIORITY_FEE_CACHE_MS) {
+    return cached.microLamports;
+  }
+  return fetchPriorityFee(level);
+}
+
+/**
+ * Refresh the cached fee estimates ahead of time - the snipe engine keeps the levels its
+ * rules' presets use warm, so a buy never waits on Helius
+ */
+export async function warmPriorityFees(levels: Iterable<PriorityFeeLevel>): Promise<void> {
+  await Promise.all(Array.from(new Set(levels), (level) => fetchPriorityFee(level)));
+}
+
 export interface BondingCurveData {
   virtualTokenReserves: bigint;
   virtualSolReserves: bigint;
@@ -348,16 +386,16 @@ export class PumpFunService {
   }
 
   /**
-   * Execute a buy transaction
+   * Build an unsigned buy transaction (creates the buyer's token account if needed)
    */
-  async executeBuy(
+  private async buildBuyTransaction(
     mintAddress: string,
-    buyerKeypair: Keypair,
+    buyer: PublicKey,
     solAmount: bigint,
-    slippageBps: number = 100 // 1% default
-  ): Promise<string> {
+    slippageBps: number,
+    execution?: ExecutionSettings
+  ): Promise<Transaction> {
     const mint = new PublicKey(mintAddress);
-    const buyer = buyerKeypair.publicKey;
 
     // Get quote first
     const quote = await this.getBuyQuote(mintAddress, solAmount);
@@ -396,33 +434,50 @@ export class PumpFunService {
     );
     transaction.add(buyIx);
 
+    if (execution) {
+      await this.addExecutionInstructions(transaction, buyer, execution);
+    }
+
     // Get recent blockhash
     const { blockhash } = await this.connection.getLatestBlockhash();
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = buyer;
 
-    // Sign and send using dedicated send connection
-    const signature = await sendAndConfirmTransaction(
-      this.sendConnection,
-      transaction,
-      [buyerKeypair],
-      { commitment: "confirmed" }
+    return transaction;
+  }
+
+  /**
+   * Execute a buy transaction
+   */
+  async executeBuy(
+    mintAddress: string,
+    buyerKeypair: Keypair,
+    solAmount: bigint,
+    slippageBps: number = 100, // 1% default
+    execution?: ExecutionSettings
+  ): Promise<string> {
+    const transaction = await this.buildBuyTransaction(
+      mintAddress,
+      buyerKeypair.publicKey,
+      solAmount,
+      slippageBps,
+      execution
     );
 
-    return signature;
+    return this.send(transaction, buyerKeypair, execution);
   }
 
   /**
-   * Execute a sell transaction
+   * Build an unsigned sell transaction
    */
-  async executeSell(
+  private async buildSellTransaction(
     mintAddress: string,
-    sellerKeypair: Keypair,
+    seller: PublicKey,
     tokenAmount: bigint,
-    slippageBps: number = 100 // 1% default
-  ): Promise<string> {
+    slippageBps: number,
+    execution?: ExecutionSettings
+  ): Promise<Transaction> {
     const mint = new PublicKey(mintAddress);
-    const seller = sellerKeypair.publicKey;
 
     // Get quote first
     const quote = await this.getSellQuote(mintAddress, tokenAmount);
@@ -444,20 +499,123 @@ export class PumpFunService {
 
     const transaction = new Transaction().add(sellIx);
 
+    if (execution) {
+      await this.addExecutionInstructions(transaction, seller, execution);
+    }
+
     // Get recent blockhash
     const { blockhash } = await this.sendConnection.getLatestBlockhash();
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = seller;
 
-    // Sign and send using dedicated send connection
-    const signature = await sendAndConfirmTransaction(
+    return transaction;
+  }
+
+  /**
+   * Execute a sell transaction
+   */
+  async executeSell(
+    mintAddress: string,
+    sellerKeypair: Keypair,
+    tokenAmount: bigint,
+    slippageBps: number = 100, // 1% default
+    execution?: ExecutionSettings
+  ): Promise<string> {
+    const transaction = await this.buildSellTransaction(
+      mintAddress,
+      sellerKeypair.publicKey,
+      tokenAmount,
+      slippageBps,
+      execution
+    );
+
+    return this.send(transaction, sellerKeypair, execution);
+  }
+
+  /**
+   * Add the preset's compute budget / priority fee, and the Jito tip when MEV protection is on
+   */
+  private async addExecutionInstructions(
+    transaction: Transaction,
+    payer: PublicKey,
+    execution: ExecutionSettings
+  ): Promise<void> {
+    const estimate = await getPriorityFee(execution.priorityFeeLevel);
+    // Cap the total priority fee (microLamports per CU * CU limit) at the preset's max
+    const maxMicroLamports = Math.floor((execution.maxPriorityFeeLamports * 1_000_000) / PUMP_COMPUTE_UNIT_LIMIT);
+    const microLamports = Math.min(Math.ceil(estimate), maxMicroLamports);
+
+    transaction.instructions.unshift(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: PUMP_COMPUTE_UNIT_LIMIT }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports })
+    );
+
+    if (execution.mevProtection) {
+      const tipAccount = JITO_TIP_ACCOUNTS[Math.floor(Math.random() * JITO_TIP_ACCOUNTS.length)];
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: payer,
+          toPubkey: new PublicKey(tipAccount),
+          lamports: execution.jitoTipLamports,
+        })
+      );
+    }
+  }
+
+  /**
+   * Sign and send - MEV-protected trades go through Helius Sender like Jupiter swaps,
+   * the rest through the dedicated send connection
+   */
+  private async send(
+    transaction: Transaction,
+    keypair: Keypair,
+    execution?: ExecutionSettings
+  ): Promise<string> {
+    if (execution?.mevProtection) {
+      const versioned = this.toVersionedTransaction(transaction, keypair);
+      return getJupiterService().sendAndConfirm(versioned, true);
+    }
+
+    return sendAndConfirmTransaction(
       this.sendConnection,
       transaction,
-      [sellerKeypair],
+      [keypair],
       { commitment: "confirmed" }
     );
+  }
 
-    return signature;
+  private toVersionedTransaction(legacy: Transaction, keypair: Keypair): VersionedTransaction {
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: keypair.publicKey,
+        recentBlockhash: legacy.recentBlockhash!,
+        instructions: legacy.instructions,
+      }).compileToV0Message()
+    );
+    transaction.sign([keypair]);
+    return transaction;
+  }
+
+  /**
+   * Build the exact buy/sell transaction executeBuy/executeSell would send and
+   * simulate it instead of sending.
+   */
+  async simulateSwap(
+    mintAddress: string,
+    keypair: Keypair,
+    amount: bigint,
+    isBuy: boolean,
+    slippageBps: number = 100,
+    execution?: ExecutionSettings
+  ): Promise<SwapSimulation> {
+    const legacy = isBuy
+      ? await this.buildBuyTransaction(mintAddress, keypair.publicKey, amount, slippageBps, execution)
+      : await this.buildSellTransaction(mintAddress, keypair.publicKey, amount, slippageBps, execution);
+
+    const transaction = this.toVersionedTransaction(legacy, keypair);
+    const tipLamports = execution?.mevProtection ? execution.jitoTipLamports : 0;
+
+    return simulateSwapTransaction(this.connection, transaction, keypair.publicKey, mintAddress, tipLamports);
   }
 }
 
@@ -0,0 +1,210 @@
+// Background DCA/TWAP scheduler - runs due slices of scheduled orders every 5 seconds
+// - Each slice is leased by moving nextRunAt forward before it executes, so it only runs once
+// - Slices go through executeTrade with the order's price impact guard and are linked to the parent order
+// - A slice over the impact limit is skipped, not retried - later slices keep their original size
+// - Filled slices and the amount swapped come from the order's SUCCESS trades, not counters written
+//   after the swap, so a restart between a fill and its bookkeeping can't run the slice twice
+import type { ScheduledOrder } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SOL_MINT } from "@/lib/jupiter";
+import { executeTrade } from "@/lib/trade-executor";
+
+const POLL_INTERVAL_MS = 5_000;
+const MAX_FAILED_SLICES = 3; // Stop the order after this many failed (not skipped) slices
+
+let intervalId: NodeJS.Timeout | null = null;
+const executing = new Set<string>();
+
+// Raw input amount for slice `index` - the last slice also takes the rounding remainder
+function getSliceAmount(order: Pick<ScheduledOrder, "totalAmount" | "sliceCount">, index: number): bigint {
+  const total = BigInt(order.totalAmount);
+  const count = BigInt(order.sliceCount);
+  const base = total / count;
+  return index === order.sliceCount - 1 ? base + (total % count) : base;
+}
+
+// Filled slices and raw input amount swapped so far, from the order's successful trades
+async function getExecutedProgress(orderId: string): Promise<{ slicesExecuted: number; amountExecuted: string }> {
+  const trades = await prisma.trade.findMany({
+    where: { scheduledOrderId: orderId, status: "SUCCESS" },
+    select: { amountIn: true },
+  });
+  return {
+    slicesExecuted: trades.length,
+    amountExecuted: trades.reduce((sum, t) => sum + BigInt(t.amountIn), BigInt(0)).toString(),
+  };
+}
+
+async function runSlice(order: ScheduledOrder): Promise<void> {
+  if (executing.has(order.id)) return;
+  executing.add(order.id);
+
+  try {
+    // Lease the slice - a pause/cancel or another instance may have got there first
+    const leased = await prisma.scheduledOrder.updateMany({
+      where: { id: order.id, status: "ACTIVE", nextRunAt: order.nextRunAt },
+      data: { nextRunAt: new Date(Date.now() + order.intervalSeconds * 1000) },
+    });
+    if (leased.count === 0) return;
+
+    const { slicesExecuted } = await getExecutedProgress(order.id);
+    const index = slicesExecuted + order.slicesSkipped + order.slicesFailed;
+    const amount = getSliceAmount(order, index);
+    const isBuy = order.side === "BUY";
+
+    console.log(`[scheduled-orders] ${order.side} ${order.tokenSymbol} slice ${index + 1}/${order.sliceCount}: ${amount}`);
+
+    const result = amount > BigInt(0)
+      ? await executeTrade({
+          userId: order.userId,
+          walletId: order.walletId,
+          inputMint: isBuy ? SOL_MINT : order.tokenMint,
+          outputMint: isBuy ? order.tokenMint : SOL_MINT,
+          amount: amount.toString(),
+          slippageBps: order.slippageBps,
+          inputSymbol: isBuy ? "SOL" : order.tokenSymbol,
+          outputSymbol: isBuy ? order.tokenSymbol : "SOL",
+          maxPriceImpactPct: order.maxPriceImpactPct ?? undefined,
+          scheduledOrderId: order.id,
+        })
+      : { success: false as const, tradeId: null, error: "Slice amount is zero" };
+
+    let updated: ScheduledOrder;
+    if (result.success) {
+      updated = await prisma.scheduledOrder.update({
+        where: { id: order.id },
+        data: await getExecutedProgress(order.id),
+      });
+      console.log(`[scheduled-orders] Order ${order.id} slice filled via ${result.source}: ${result.txSignature}`);
+    } else if (result.priceImpactExceeded) {
+      updated = await prisma.scheduledOrder.update({
+        where: { id: order.id },
+        data: { slicesSkipped: { increment: 1 } },
+      });
+      console.warn(`[scheduled-orders] Order ${order.id} slice skipped: ${result.error}`);
+    } else {
+      updated = await prisma.scheduledOrder.update({
+        where: { id: order.id },
+        data: { slicesFailed: { increment: 1 }, errorMessage: result.error },
+      });
+      console.error(`[scheduled-orders] Order ${order.id} slice failed: ${result.error}`);
+    }
+
+    await finishIfDone(updated);
+  } catch (error) {
+    console.error(`[scheduled-orders] Error running slice for ${order.id}:`, error);
+  } finally {
+    executing.delete(order.id);
+  }
+}
+
+async function finishIfDone(order: ScheduledOrder): Promise<void> {
+  const slicesRun = order.slicesExecuted + order.slicesSkipped + order.slicesFailed;
+
+  if (slicesRun >= order.sliceCount) {
+    await prisma.scheduledOrder.updateMany({
+      where: { id: order.id, status: { in: ["ACTIVE", "PAUSED"] } },
+      data: { status: "COMPLETED", completedAt: new Date() },
+    });
+    console.log(`[scheduled-orders] Order ${order.id} completed (${order.slicesExecuted}/${order.sliceCount} slices filled)`);
+  } else if (order.slicesFailed >= MAX_FAILED_SLICES) {
+    await prisma.scheduledOrder.updateMany({
+      where: { id: order.id, status: { in: ["ACTIVE", "PAUSED"] } },
+      data: { status: "FAILED", completedAt: new Date() },
+    });
+    console.error(`[scheduled-orders] Order ${order.id} stopped after ${order.slicesFailed} failed slices`);
+  }
+}
+
+// Settle slices interrupted by a restart from the Trade each one created
+// - PENDING: nothing was sent, so the slice runs again
+// - SUBMITTED/CONFIRMING: the swap may have landed - counted as a failed slice rather than risk running it twice
+// - Filled slices and amount swapped are recomputed from the SUCCESS trades
+async function reconcileScheduledOrders(): Promise<void> {
+  const orders = await prisma.scheduledOrder.findMany({
+    where: { status: { in: ["ACTIVE", "PAUSED"] } },
+    include: { trades: { where: { status: { in: ["PENDING", "SUBMITTED", "CONFIRMING"] } } } },
+  });
+
+  for (const order of orders) {
+    const pending = order.trades.filter((t) => t.status === "PENDING");
+    const submitted = order.trades.filter((t) => t.status !== "PENDING");
+
+    if (pending.length > 0) {
+      await prisma.trade.updateMany({
+        where: { id: { in: pending.map((t) => t.id) } },
+        data: { status: "FAILED", errorMessage: "Interrupted by a server restart" },
+      });
+    }
+    if (submitted.length > 0) {
+      await prisma.trade.updateMany({
+        where: { id: { in: submitted.map((t) => t.id) } },
+        data: {
+          status: "FAILED",
+          errorMessage: "Interrupted by a server restart after the swap was submitted - check your wallet",
+        },
+      });
+    }
+
+    const updated = await prisma.scheduledOrder.update({
+      where: { id: order.id },
+      data: {
+        ...(await getExecutedProgress(order.id)),
+        ...(submitted.length > 0
+          ? {
+              slicesFailed: { increment: submitted.length },
+              errorMessage: "Interrupted by a server restart after the swap was submitted - check your wallet",
+            }
+          : {}),
+      },
+    });
+
+    if (updated.slicesExecuted !== order.slicesExecuted || order.trades.length > 0) {
+      console.log(`[scheduled-orders] Reconciled order ${order.id} (${updated.slicesExecuted} slices filled, ${submitted.length} interrupted)`);
+    }
+    await finishIfDone(updated);
+  }
+}
+
+async function runDueSlices(): Promise<void> {
+  try {
+    const due = await prisma.scheduledOrder.findMany({
+      where: { status: "ACTIVE", nextRunAt: { lte: new Date() } },
+      orderBy: { nextRunAt: "asc" },
+    });
+
+    // One slice at a time keeps quote/RPC load flat when many orders come due together
+    for (const order of due) {
+      await runSlice(order);
+    }
+  } catch (error) {
+    console.error("[scheduled-orders] Failed to load due orders:", error);
+  }
+}
+
+export async function startScheduledOrderEngine(): Promise<void> {
+  if (intervalId) {
+    console.log("[scheduled-orders] Already running");
+    return;
+  }
+
+  console.log("[scheduled-orders] Starting DCA/TWAP scheduler");
+
+  // Before the first run, so no slice starts while a restart's interrupted ones are unsettled
+  try {
+    await reconcileScheduledOrders();
+  } catch (error) {
+    console.error("[scheduled-orders] Failed to reconcile scheduled orders:", error);
+  }
+
+  await runDueSlices();
+  intervalId = setInterval(runDueSlices, POLL_INTERVAL_MS);
+}
+
+export function stopScheduledOrderEngine(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("[scheduled-orders] Stopped");
+  }
+}
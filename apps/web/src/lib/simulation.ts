@@ -0,0 +1,120 @@
+import {
+  Connection,
+  ComputeBudgetProgram,
+  PublicKey,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+
+const BASE_FEE_PER_SIGNATURE = 5000; // Lamports
+const DEFAULT_COMPUTE_UNIT_LIMIT = 200_000; // Per instruction, when no SetComputeUnitLimit is present
+const TOKEN_AMOUNT_OFFSET = 64; // SPL token account layout: mint (32) + owner (32) + amount (u64)
+
+export interface SwapSimulation {
+  success: boolean;
+  error: string | null; // Program error from the simulation, if any
+  logs: string[];
+  unitsConsumed: number | null;
+  computeUnitLimit: number;
+  fees: {
+    baseFee: number; // Lamports
+    priorityFee: number; // Lamports - compute unit price x limit
+    computeUnitPrice: number; // MicroLamports per CU
+    jitoTip: number; // Lamports
+    total: number; // Lamports
+  };
+  balanceChanges: {
+    sol: string; // Signed lamports delta of the wallet (post-state from the simulation)
+    token: string; // Signed raw delta of the wallet's token account
+  };
+}
+
+// Compute budget settings embedded in the transaction (Jupiter adds these itself)
+function getComputeBudget(transaction: VersionedTransaction): { limit: number; price: number } {
+  const message = transaction.message;
+  const keys = message.staticAccountKeys;
+  let limit: number | null = null;
+  let price = 0;
+
+  for (const ix of message.compiledInstructions) {
+    if (!keys[ix.programIdIndex]?.equals(ComputeBudgetProgram.programId)) continue;
+    const data = Buffer.from(ix.data);
+    if (data[0] === 2) limit = data.readUInt32LE(1); // SetComputeUnitLimit
+    if (data[0] === 3) price = Number(data.readBigUInt64LE(1)); // SetComputeUnitPrice
+  }
+
+  return {
+    limit: limit ?? DEFAULT_COMPUTE_UNIT_LIMIT * message.compiledInstructions.length,
+    price,
+  };
+}
+
+function readTokenAmount(data: Buffer | null | undefined): bigint {
+  if (!data || data.length < TOKEN_AMOUNT_OFFSET + 8) return BigInt(0);
+  return data.readBigUInt64LE(TOKEN_AMOUNT_OFFSET);
+}
+
+/**
+ * Run simulateTransaction on a fully built swap and report what it would do.
+ * The transaction is not sent. Balance deltas compare the current account
+ * state with the simulated post-state of the wallet and its token account.
+ */
+export async function simulateSwapTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  owner: PublicKey,
+  tokenMint: string,
+  jitoTip: number
+): Promise<SwapSimulation> {
+  const mint = new PublicKey(tokenMint);
+
+  // Token-2022 mints use a different ATA program id
+  const mintInfo = await connection.getAccountInfo(mint);
+  const tokenAccount = getAssociatedTokenAddressSync(mint, owner, true, mintInfo?.owner);
+
+  const [walletBefore, tokenBefore] = await connection.getMultipleAccountsInfo([owner, tokenAccount]);
+
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: "confirmed",
+    accounts: {
+      encoding: "base64",
+      addresses: [owner.toBase58(), tokenAccount.toBase58()],
+    },
+  });
+
+  // A failed simulation has no post-state; a missing account afterwards was closed
+  let solDelta = BigInt(0);
+  let tokenDelta = BigInt(0);
+  if (!value.err && value.accounts) {
+    const [walletAfter, tokenAfter] = value.accounts;
+    solDelta = BigInt(walletAfter?.lamports ?? 0) - BigInt(walletBefore?.lamports ?? 0);
+    tokenDelta =
+      readTokenAmount(tokenAfter ? Buffer.from(tokenAfter.data[0], "base64") : null) -
+      readTokenAmount(tokenBefore?.data);
+  }
+
+  const budget = getComputeBudget(transaction);
+  const baseFee = BASE_FEE_PER_SIGNATURE * transaction.message.header.numRequiredSignatures;
+  const priorityFee = Math.ceil((budget.price * budget.limit) / 1_000_000);
+
+  return {
+    success: value.err === null,
+    error: value.err ? JSON.stringify(value.err) : null,
+    logs: value.logs || [],
+    unitsConsumed: value.unitsConsumed ?? null,
+    computeUnitLimit: budget.limit,
+    fees: {
+      baseFee,
+      priorityFee,
+      computeUnitPrice: budget.price,
+      jitoTip,
+      total: baseFee + priorityFee + jitoTip,
+    },
+    balanceChanges: {
+      sol: solDelta.toString(),
+      token: tokenDelta.toString(),
+    },
+  };
+}
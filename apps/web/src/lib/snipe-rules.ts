@@ -0,0 +1,388 @@
+// Background auto-snipe engine for newly created pump.fun tokens
+// - New tokens arrive on the shared feed straight from PumpPortal (via the API's snipe room)
+// - Rules are matched from memory and the buy starts in the same tick - no DB reads first
+// - Priority fee estimates for the owners' saved presets are kept warm, so buys don't wait on Helius
+// - Budgets and daily caps are reserved in memory before the buy and released if it fails
+// - Rules that require socials wait for the token's metadata before buying - fetched only through our IPFS
+//   gateway, since the URI is chosen by the token's creator (other URIs count as no socials)
+// - Name/symbol filters are case-insensitive regexes, limited to patterns that can't backtrack badly
+//   (no backreferences, lookarounds or nested repetition, few quantifiers) and run on at most 64 characters
+// - Every match, skip, fill and failure is written to SnipeEvent
+import type { SnipeEventType, SnipeRule } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SOL_MINT } from "@/lib/jupiter";
+import { executeTrade } from "@/lib/trade-executor";
+import { warmPriorityFees } from "@/lib/pumpfun";
+import { watchNewTokens, unwatchNewTokens, type NewTokenEvent } from "@/lib/price-feed";
+
+const REFRESH_INTERVAL_MS = 10_000; // Pick up new/edited rules every 10 seconds
+const METADATA_TIMEOUT_MS = 3_000;
+const PUMP_FUN_SUPPLY = 1_000_000_000; // Every pump.fun token mints 1B
+const MAX_SEEN_MINTS = 5_000;
+const IPFS_GATEWAY = "https://pump.mypinata.cloud/ipfs/";
+const IPFS_PATH_REGEX = /^(?:ipfs:\/\/|https:\/\/[^/?#]+\/ipfs\/)([A-Za-z0-9]{46,64})(?:[/?#]|$)/;
+
+const MAX_PATTERN_QUANTIFIERS = 3; // Repetitions (*, +, {n,m}) per pattern - each one multiplies backtracking
+const MAX_MATCH_LENGTH = 64; // Characters of the name/symbol a pattern runs on (pump.fun names are 32 at most)
+
+const FEED_ID = "snipe-rules";
+
+interface LoadedRule {
+  rule: SnipeRule;
+  nameRegex: RegExp | null;
+  symbolRegex: RegExp | null;
+}
+
+let refreshId: NodeJS.Timeout | null = null;
+let rules: LoadedRule[] = [];
+// Lamports spent per rule (filled + in flight) - the engine is the only writer
+const spentTotal = new Map<string, bigint>();
+const spentToday = new Map<string, bigint>();
+let currentDay = utcDay(new Date());
+const seenMints = new Set<string>();
+const socialsCache = new Map<string, Promise<boolean>>();
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function rollDay(): void {
+  const today = utcDay(new Date());
+  if (today !== currentDay) {
+    currentDay = today;
+    spentToday.clear();
+    for (const { rule } of rules) spentToday.set(rule.id, BigInt(0));
+  }
+}
+
+// Why a name/symbol regex can't be used, or null - rejects invalid patterns and the constructs that
+// make a backtracking engine slow: backreferences, lookarounds and a repeated group that itself
+// repeats or alternates, e.g. (a+)+ or (a|aa)*
+export function getPatternError(pattern: string): string | null {
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return "is not a valid regular expression";
+  }
+
+  // Per open group: whether it contains a quantifier or |
+  const groups: boolean[] = [];
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  let quantifiers = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+
+    if (c === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return "can't use backreferences";
+      i++;
+    } else if (c === "[") {
+      // Skip the class - quantifier characters inside it are literals
+      i++;
+      if (pattern[i] === "^") i++;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+    } else if (c === "(") {
+      if (/^\(\?<?[=!]/.test(pattern.slice(i, i + 4))) return "can't use lookaheads or lookbehinds";
+      if (pattern[i + 1] === "?") {
+        i = pattern[i + 2] === "<" ? pattern.indexOf(">", i) : i + 2; // (?<name> or (?:
+      }
+      groups.push(false);
+    } else if (c === ")") {
+      const risky = groups.pop() ?? false;
+      const repeated = /[*+?{]/.test(pattern[i + 1] ?? "");
+      if (risky && repeated) return "can't repeat a group that contains a quantifier or |";
+      if (risky || repeated) markGroup();
+    } else if (c === "|") {
+      markGroup();
+    } else if (c === "*" || c === "+" || c === "{") {
+      quantifiers++;
+      markGroup();
+    } else if (c === "?") {
+      markGroup();
+    }
+  }
+
+  if (quantifiers > MAX_PATTERN_QUANTIFIERS) {
+    return `can use at most ${MAX_PATTERN_QUANTIFIERS} repetitions (*, +, {n,m})`;
+  }
+  return null;
+}
+
+function matchesPattern(regex: RegExp, value: string): boolean {
+  return regex.test(value.slice(0, MAX_MATCH_LENGTH));
+}
+
+function matchesFilters({ rule, nameRegex, symbolRegex }: LoadedRule, token: NewTokenEvent): boolean {
+  if (nameRegex && !matchesPattern(nameRegex, token.name || "")) return false;
+  if (symbolRegex && !matchesPattern(symbolRegex, token.symbol || "")) return false;
+
+  const creator = token.traderPublicKey;
+  if (rule.creatorAllowlist.length > 0 && !rule.creatorAllowlist.includes(creator)) return false;
+  if (rule.creatorDenylist.includes(creator)) return false;
+
+  const initialBuySol = token.solAmount ?? 0;
+  if (rule.minInitialBuySol !== null && initialBuySol < rule.minInitialBuySol) return false;
+  if (rule.maxInitialBuySol !== null && initialBuySol > rule.maxInitialBuySol) return false;
+
+  if (rule.maxDevHoldingPct !== null) {
+    const devHoldingPct = ((token.initialBuy || 0) / PUMP_FUN_SUPPLY) * 100;
+    if (devHoldingPct > rule.maxDevHoldingPct) return false;
+  }
+
+  return true;
+}
+
+// Does the token's metadata link a website, X or Telegram? Shared by every rule that asks
+function hasSocials(token: NewTokenEvent): Promise<boolean> {
+  let cached = socialsCache.get(token.mint);
+  if (cached) return cached;
+
+  cached = (async () => {
+    // Only the CID is taken from the URI - never fetch a creator-chosen host
+    const cid = token.uri?.match(IPFS_PATH_REGEX)?.[1];
+    if (!cid) return false;
+    try {
+      const res = await fetch(IPFS_GATEWAY + cid, {
+        signal: AbortSignal.timeout(METADATA_TIMEOUT_MS),
+        redirect: "error",
+      });
+      if (!res.ok) return false;
+      const metadata = await res.json();
+      return [metadata.website, metadata.twitter, metadata.telegram].some(
+        (link) => typeof link === "string" && link.trim() !== ""
+      );
+    } catch {
+      return false;
+    }
+  })();
+
+  socialsCache.set(token.mint, cached);
+  return cached;
+}
+
+async function recordEvent(
+  rule: SnipeRule,
+  token: NewTokenEvent,
+  type: SnipeEventType,
+  details: { amount?: bigint; tradeId?: string | null; txSignature?: string; reason?: string } = {}
+): Promise<void> {
+  try {
+    await prisma.snipeEvent.create({
+      data: {
+        ruleId: rule.id,
+        userId: rule.userId,
+        type,
+        tokenMint: token.mint,
+        tokenSymbol: token.symbol || "???",
+        creator: token.traderPublicKey,
+        amount: details.amount?.toString(),
+        tradeId: details.tradeId ?? undefined,
+        txSignature: details.txSignature,
+        reason: details.reason,
+      },
+    });
+  } catch (error) {
+    console.error(`[snipe-rules] Failed to record ${type} for rule ${rule.id}:`, error);
+  }
+}
+
+// Reason the rule can't afford another buy, or null
+function getBudgetBlock(rule: SnipeRule, amount: bigint): string | null {
+  if ((spentTotal.get(rule.id) || BigInt(0)) + amount > BigInt(rule.budget)) {
+    return "Budget used up";
+  }
+  if (rule.dailyCap !== null && (spentToday.get(rule.id) || BigInt(0)) + amount > BigInt(rule.dailyCap)) {
+    return "Daily cap reached";
+  }
+  return null;
+}
+
+function adjustSpent(ruleId: string, day: string, delta: bigint): void {
+  spentTotal.set(ruleId, (spentTotal.get(ruleId) || BigInt(0)) + delta);
+  // A buy reserved before midnight doesn't count against the new day
+  if (day === currentDay) {
+    spentToday.set(ruleId, (spentToday.get(ruleId) || BigInt(0)) + delta);
+  }
+}
+
+// Reserve the budget and start the buy - synchronous up to executeTrade
+function snipe(rule: SnipeRule, token: NewTokenEvent): void {
+  const amount = BigInt(rule.buyAmount);
+  const blocked = getBudgetBlock(rule, amount);
+
+  if (blocked) {
+    recordEvent(rule, token, "MATCHED", { amount })
+      .then(() => recordEvent(rule, token, "SKIPPED", { amount, reason: blocked }));
+    return;
+  }
+
+  const day = currentDay;
+  adjustSpent(rule.id, day, amount);
+  console.log(`[snipe-rules] Rule ${rule.id} sniping ${token.symbol} (${token.mint}) for ${amount} lamports`);
+
+  const matched = recordEvent(rule, token, "MATCHED", { amount });
+  executeTrade({
+    userId: rule.userId,
+    walletId: rule.walletId,
+    inputMint: SOL_MINT,
+    outputMint: token.mint,
+    amount: amount.toString(),
+    slippageBps: rule.slippageBps,
+    inputSymbol: "SOL",
+    outputSymbol: token.symbol || "???",
+    source: "pumpfun",
+  })
+    .then(async (result) => {
+      await matched;
+
+      if (!result.success) {
+        adjustSpent(rule.id, day, -amount);
+        await recordEvent(rule, token, "FAILED", { amount, tradeId: result.tradeId, reason: result.error });
+        console.error(`[snipe-rules] Rule ${rule.id} snipe of ${token.symbol} failed: ${result.error}`);
+        return;
+      }
+
+      await recordEvent(rule, token, "FILLED", { amount, tradeId: result.tradeId, txSignature: result.txSignature });
+      await persistSpent(rule.id);
+      console.log(`[snipe-rules] Rule ${rule.id} sniped ${token.symbol}: ${result.txSignature}`);
+    })
+    .catch((error) => {
+      adjustSpent(rule.id, day, -amount);
+      console.error(`[snipe-rules] Error sniping ${token.symbol} for rule ${rule.id}:`, error);
+    });
+}
+
+// SnipeRule.spent is the sum of filled snipes - recomputed so concurrent fills can't lose an update
+async function persistSpent(ruleId: string): Promise<void> {
+  try {
+    const fills = await prisma.snipeEvent.findMany({
+      where: { ruleId, type: "FILLED" },
+      select: { amount: true },
+    });
+    const spent = fills.reduce((sum, fill) => sum + BigInt(fill.amount || "0"), BigInt(0));
+    await prisma.snipeRule.update({ where: { id: ruleId }, data: { spent: spent.toString() } });
+  } catch (error) {
+    console.error(`[snipe-rules] Failed to save spent for rule ${ruleId}:`, error);
+  }
+}
+
+function handleNewToken(token: NewTokenEvent): void {
+  if (!token?.mint || seenMints.has(token.mint)) return;
+  if (seenMints.size >= MAX_SEEN_MINTS) {
+    seenMints.clear();
+    socialsCache.clear();
+  }
+  seenMints.add(token.mint);
+  rollDay();
+
+  for (const loaded of rules) {
+    if (!matchesFilters(loaded, token)) continue;
+
+    const { rule } = loaded;
+    if (!rule.requireSocials) {
+      snipe(rule, token);
+      continue;
+    }
+
+    hasSocials(token).then((ok) => {
+      // The rule may have been disabled or deleted while the metadata loaded
+      if (ok && rules.some((r) => r.rule.id === rule.id)) {
+        snipe(rule, token);
+      }
+    });
+  }
+}
+
+function compilePattern(pattern: string | null, ruleId: string): RegExp | null | undefined {
+  if (!pattern) return null;
+  const error = getPatternError(pattern);
+  if (error) {
+    console.warn(`[snipe-rules] Rule ${ruleId} has an unusable pattern (${error}): ${pattern}`);
+    return undefined;
+  }
+  return new RegExp(pattern, "i");
+}
+
+// Reload enabled rules and seed spend for rules seen for the first time
+async function refreshRules(): Promise<void> {
+  try {
+    rollDay();
+    const enabled = await prisma.snipeRule.findMany({ where: { enabled: true } });
+
+    const unseen = enabled.filter((rule) => !spentTotal.has(rule.id));
+    if (unseen.length > 0) {
+      const todaysFills = await prisma.snipeEvent.findMany({
+        where: {
+          ruleId: { in: unseen.map((rule) => rule.id) },
+          type: "FILLED",
+          createdAt: { gte: startOfUtcDay() },
+        },
+        select: { ruleId: true, amount: true },
+      });
+      for (const rule of unseen) {
+        spentTotal.set(rule.id, BigInt(rule.spent));
+        spentToday.set(
+          rule.id,
+          todaysFills
+            .filter((fill) => fill.ruleId === rule.id)
+            .reduce((sum, fill) => sum + BigInt(fill.amount || "0"), BigInt(0))
+        );
+      }
+    }
+
+    const loaded: LoadedRule[] = [];
+    for (const rule of enabled) {
+      const nameRegex = compilePattern(rule.namePattern, rule.id);
+      const symbolRegex = compilePattern(rule.symbolPattern, rule.id);
+      if (nameRegex === undefined || symbolRegex === undefined) continue;
+      loaded.push({ rule, nameRegex, symbolRegex });
+    }
+    rules = loaded;
+
+    if (enabled.length > 0) {
+      const presets = await prisma.tradingPreset.findMany({
+        where: { userId: { in: enabled.map((rule) => rule.userId) } },
+        select: { priorityFeeLevel: true },
+        distinct: ["priorityFeeLevel"],
+      });
+      warmPriorityFees(presets.map((p) => p.priorityFeeLevel)).catch((error) => {
+        console.error("[snipe-rules] Failed to warm priority fees:", error);
+      });
+    }
+  } catch (error) {
+    console.error("[snipe-rules] Failed to refresh rules:", error);
+  }
+}
+
+export function startSnipeEngine(): void {
+  if (refreshId) {
+    console.log("[snipe-rules] Already running");
+    return;
+  }
+
+  console.log("[snipe-rules] Starting snipe engine");
+
+  refreshRules();
+  refreshId = setInterval(refreshRules, REFRESH_INTERVAL_MS);
+  watchNewTokens(FEED_ID, handleNewToken);
+}
+
+export function stopSnipeEngine(): void {
+  if (refreshId) {
+    clearInterval(refreshId);
+    refreshId = null;
+    unwatchNewTokens(FEED_ID);
+    console.log("[snipe-rules] Stopped");
+  }
+}
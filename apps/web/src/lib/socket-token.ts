@@ -0,0 +1,20 @@
+import crypto from "crypto";
+import { config } from "@/lib/config";
+
+// Socket tokens let the API tie a websocket to a signed-in user without a shared session store.
+// Format: "<userId>.<expiresAtMs>.<base64url HMAC-SHA256 of both>", signed with INTERNAL_API_KEY.
+// The API checks them on connect (apps/api/src/websocket/auth.ts) before delivering private events.
+const SOCKET_TOKEN_TTL_MS = 5 * 60 * 1000; // Only needs to outlive the handshake
+
+/**
+ * Sign a short-lived token identifying the user to the websocket server
+ */
+export function createSocketToken(userId: string): string {
+  if (!config.internalApiKey) {
+    throw new Error("INTERNAL_API_KEY is not configured");
+  }
+
+  const payload = `${userId}.${Date.now() + SOCKET_TOKEN_TTL_MS}`;
+  const signature = crypto.createHmac("sha256", config.internalApiKey).update(payload).digest("base64url");
+  return `${payload}.${signature}`;
+}
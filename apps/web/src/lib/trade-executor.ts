@@ -0,0 +1,193 @@
+// Server-side trade execution against a user's custodial wallet
+// Same flow as /api/trading/swap and /api/trading/pump-swap, for trades placed by
+// background workers (limit orders, exit rules, DCA/TWAP slices, snipes, copy trades) instead of a request from the browser.
+// Every attempt is recorded as a normal Trade row.
+// Priority fee, Jito tip and send route follow the user's active trading preset (pump.fun: only a saved one); slippage stays per-caller.
+import { prisma } from "@/lib/prisma";
+import { getJupiterService, SOL_MINT } from "@/lib/jupiter";
+import { getPumpFunService } from "@/lib/pumpfun";
+import { decryptPrivateKey } from "@/lib/wallet";
+import { config } from "@/lib/config";
+import { resolveWallet } from "@/lib/wallets";
+import { getCachedSolPrice } from "@/lib/price-updater";
+import { getTradingPreset, toExecutionSettings, toPumpFunExecutionSettings } from "@/lib/trading-presets";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+
+export interface ExecuteTradeParams {
+  userId: string;
+  walletId?: string | null; // Wallet to trade from (primary when not set)
+  inputMint: string;
+  outputMint: string;
+  amount: string; // Raw input amount
+  slippageBps: number;
+  inputSymbol: string;
+  outputSymbol: string;
+  maxPriceImpactPct?: number; // Abort before submitting if the quote's impact (%) is higher
+  scheduledOrderId?: string; // Parent DCA/TWAP order of this swap
+  limitOrderId?: string; // Limit order this swap fills
+  positionRuleId?: string; // Position rule this swap sells for
+  leaderSignature?: string; // Followed wallet's transaction this swap copies
+  source?: "jupiter" | "pumpfun"; // Skip venue detection - snipes know the token is on the bonding curve
+}
+
+export type ExecuteTradeResult =
+  | {
+      success: true;
+      tradeId: string;
+      txSignature: string;
+      outputAmount: string;
+      source: "jupiter" | "pumpfun";
+    }
+  | {
+      success: false;
+      tradeId: string | null;
+      error: string;
+      priceImpactExceeded?: boolean; // Nothing was submitted - the quote failed the impact guard
+    };
+
+class PriceImpactError extends Error {
+  constructor(impact: number, max: number) {
+    super(`Price impact ${impact.toFixed(2)}% exceeds max ${max}%`);
+    this.name = "PriceImpactError";
+  }
+}
+
+function checkPriceImpact(impact: number, max: number | undefined): void {
+  if (max !== undefined && impact > max) {
+    throw new PriceImpactError(impact, max);
+  }
+}
+
+export async function executeTrade(params: ExecuteTradeParams): Promise<ExecuteTradeResult> {
+  const { userId, walletId, inputMint, outputMint, amount, slippageBps, inputSymbol, outputSymbol, maxPriceImpactPct, scheduledOrderId, limitOrderId, positionRuleId, leaderSignature } = params;
+  let secretKey: Uint8Array | null = null;
+  let tradeId: string | null = null;
+
+  try {
+    const wallet = await resolveWallet(userId, walletId);
+
+    if (!wallet) {
+      return { success: false, tradeId: null, error: "No wallet found" };
+    }
+
+    const preset = await getTradingPreset(userId);
+
+    const isBuy = inputMint === SOL_MINT;
+    const tokenMint = isBuy ? outputMint : inputMint;
+
+    // Tokens still on the bonding curve can only be traded through pump.fun
+    const pumpFun = getPumpFunService();
+    const source = params.source ?? ((await pumpFun.isOnBondingCurve(tokenMint)) ? "pumpfun" : "jupiter");
+    const execution = source === "pumpfun" ? toPumpFunExecutionSettings(preset) : toExecutionSettings(preset);
+
+    const trade = await prisma.trade.create({
+      data: {
+        userId,
+        walletId: wallet.id,
+        inputMint,
+        inputSymbol,
+        outputMint,
+        outputSymbol,
+        amountIn: amount,
+        amountOut: "0",
+        amountOutMin: "0",
+        status: "PENDING",
+        solPriceUsd: await getCachedSolPrice(), // For USD cost basis / tax reporting
+        scheduledOrderId,
+        limitOrderId,
+        positionRuleId,
+        leaderSignature,
+      },
+    });
+    tradeId = trade.id;
+
+    // Decrypt private key
+    const privateKeyBase58 = decryptPrivateKey(wallet.encryptedKey, config.authSecret);
+    secretKey = bs58.decode(privateKeyBase58);
+
+    let signature: string;
+    let outputAmount: string;
+
+    if (source === "pumpfun") {
+      const quote = isBuy
+        ? await pumpFun.getBuyQuote(tokenMint, BigInt(amount))
+        : await pumpFun.getSellQuote(tokenMint, BigInt(amount));
+      if (!quote) {
+        throw new Error("Failed to get quote");
+      }
+      checkPriceImpact(quote.priceImpactPct, maxPriceImpactPct);
+
+      await prisma.trade.update({
+        where: { id: trade.id },
+        data: {
+          amountOut: quote.outAmount,
+          amountOutMin: quote.outAmountMin,
+          priceImpact: quote.priceImpactPct,
+          status: "SUBMITTED",
+        },
+      });
+
+      const keypair = Keypair.fromSecretKey(secretKey);
+      signature = isBuy
+        ? await pumpFun.executeBuy(tokenMint, keypair, BigInt(amount), slippageBps, execution)
+        : await pumpFun.executeSell(tokenMint, keypair, BigInt(amount), slippageBps, execution);
+      outputAmount = quote.outAmount;
+    } else {
+      const jupiter = getJupiterService();
+      const quote = await jupiter.getQuote({ inputMint, outputMint, amount, slippageBps });
+      checkPriceImpact(parseFloat(quote.priceImpactPct), maxPriceImpactPct);
+
+      await prisma.trade.update({
+        where: { id: trade.id },
+        data: {
+          amountOut: quote.outAmount,
+          amountOutMin: quote.otherAmountThreshold,
+          priceImpact: parseFloat(quote.priceImpactPct),
+        },
+      });
+
+      const transaction = await jupiter.getSwapTransaction(quote, wallet.address, execution);
+
+      await prisma.trade.update({
+        where: { id: trade.id },
+        data: { status: "SUBMITTED" },
+      });
+
+      signature = await jupiter.executeSwap(transaction, secretKey, execution);
+      outputAmount = quote.outAmount;
+    }
+
+    await prisma.trade.update({
+      where: { id: trade.id },
+      data: {
+        status: "SUCCESS",
+        txSignature: signature,
+        confirmedAt: new Date(),
+      },
+    });
+
+    return { success: true, tradeId: trade.id, txSignature: signature, outputAmount, source };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    if (tradeId) {
+      await prisma.trade.update({
+        where: { id: tradeId },
+        data: { status: "FAILED", errorMessage: message },
+      }).catch((e) => console.error("[trade-executor] Failed to mark trade as failed:", e));
+    }
+
+    return {
+      success: false,
+      tradeId,
+      error: message,
+      priceImpactExceeded: error instanceof PriceImpactError,
+    };
+  } finally {
+    // CRITICAL: Clear secret key from memory
+    if (secretKey) {
+      secretKey.fill(0);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+// Public trader profiles (/u/[username]) - opt-in via User.publicProfile
+// Stats are computed from the user's confirmed Trade rows (FIFO lots), so they can't be self-reported
+// - Ledger transfers feed the lots too, so tokens deposited or airdropped and then sold don't read as
+//   zero-cost gains; sells beyond the tracked buys and transfers are left out of the stats
+// Each stat can be hidden with its User.show* toggle - hidden stats are left out, not just not rendered
+import { cache } from "react";
+import { TradeStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCachedSolPrice } from "@/lib/price-updater";
+import { computeLots, getTokenDecimals, mergeLotTrades, toLotTrades, toLotTransfers } from "@/lib/lots";
+import { getLedgerTransfers } from "@/lib/positions";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const RECENT_POSITIONS = 5;
+
+export const PROFILE_VISIBILITY_FIELDS = [
+  "showWinRate",
+  "showRealizedPnl",
+  "showBestTrade",
+  "showRecentPositions",
+  "showTradeActivity",
+  "showTradeLinks",
+] as const;
+
+export type ProfileVisibilityField = (typeof PROFILE_VISIBILITY_FIELDS)[number];
+
+export interface BestTrade {
+  tokenMint: string;
+  tokenSymbol: string;
+  gainSol: number;
+  gainPct: number | null; // null when the sale had no tracked cost basis
+  soldAt: string;
+  txSignature: string | null; // Only with showTradeLinks
+}
+
+export interface RecentPosition {
+  tokenMint: string;
+  tokenSymbol: string;
+  isOpen: boolean;
+  realizedPnlSol: number;
+  lastTradeAt: string;
+}
+
+interface Sale {
+  tradeId: string;
+  tokenMint: string;
+  tokenSymbol: string;
+  gainSol: number;
+  costSol: number;
+  soldAt: Date;
+}
+
+export interface PublicTraderProfile {
+  username: string;
+  name: string | null;
+  bio: string | null;
+  image: string | null;
+  memberSince: string;
+  stats: {
+    totalTrades?: number;
+    tokensTraded?: number;
+    firstTradeAt?: string | null;
+    winRate?: number; // 0-1, share of sells that closed at a gain
+    closedTrades?: number;
+    realizedPnlSol?: number;
+    realizedPnlUsd?: number;
+    bestTrade?: BestTrade | null;
+    recentPositions?: RecentPosition[];
+  };
+}
+
+// Cached per request, so the page, its metadata and the OG image share one computation
+export const getPublicTraderProfile = cache(async (username: string): Promise<PublicTraderProfile | null> => {
+  const user = await prisma.user.findFirst({
+    where: { username: { equals: username, mode: "insensitive" }, publicProfile: true },
+  });
+  if (!user?.username) return null;
+
+  const [trades, transfers] = await Promise.all([
+    prisma.trade.findMany({
+      where: { userId: user.id, status: TradeStatus.SUCCESS },
+      orderBy: { createdAt: "asc" },
+    }),
+    getLedgerTransfers({ userId: user.id }),
+  ]);
+
+  const mints = Array.from(new Set(trades.map((t) => (t.inputMint === SOL_MINT ? t.outputMint : t.inputMint))));
+  const [decimals, solPriceUsd] = await Promise.all([getTokenDecimals(mints), getCachedSolPrice()]);
+  const lotTrades = toLotTrades(trades, decimals, solPriceUsd);
+  const lotTransfers = toLotTransfers(transfers, solPriceUsd, trades);
+  const accounting = computeLots(mergeLotTrades(lotTrades, lotTransfers), "FIFO");
+  const { openPositions } = accounting;
+  // A sale with no tracked buy or transfer behind it has no known cost - not a verifiable gain
+  const disposals = accounting.disposals.filter((d) => d.acquiredAt !== null);
+
+  // A sell spanning several lots has a disposal per lot - sum them back into one sale
+  const sales = new Map<string, Sale>();
+  for (const d of disposals) {
+    const sale = sales.get(d.tradeId) ||
+      { tradeId: d.tradeId, tokenMint: d.tokenMint, tokenSymbol: d.tokenSymbol, gainSol: 0, costSol: 0, soldAt: d.disposedAt };
+    sale.gainSol += d.gainSol;
+    sale.costSol += d.costBasisSol;
+    sales.set(d.tradeId, sale);
+  }
+
+  const stats: PublicTraderProfile["stats"] = {};
+
+  if (user.showTradeActivity) {
+    stats.totalTrades = lotTrades.length;
+    stats.tokensTraded = new Set(lotTrades.map((t) => t.tokenMint)).size;
+    stats.firstTradeAt = lotTrades[0]?.timestamp.toISOString() ?? null;
+  }
+
+  if (user.showWinRate) {
+    const wins = Array.from(sales.values()).filter((s) => s.gainSol > 0).length;
+    stats.closedTrades = sales.size;
+    stats.winRate = sales.size > 0 ? wins / sales.size : 0;
+  }
+
+  if (user.showRealizedPnl) {
+    stats.realizedPnlSol = disposals.reduce((sum, d) => sum + d.gainSol, 0);
+    stats.realizedPnlUsd = disposals.reduce((sum, d) => sum + d.gainUsd, 0);
+  }
+
+  if (user.showBestTrade) {
+    const best = Array.from(sales.values()).reduce<Sale | null>(
+      (top, sale) => (!top || sale.gainSol > top.gainSol ? sale : top),
+      null
+    );
+    stats.bestTrade = best && best.gainSol > 0
+      ? {
+          tokenMint: best.tokenMint,
+          tokenSymbol: best.tokenSymbol,
+          gainSol: best.gainSol,
+          gainPct: best.costSol > 0 ? (best.gainSol / best.costSol) * 100 : null,
+          soldAt: best.soldAt.toISOString(),
+          txSignature: user.showTradeLinks ? trades.find((t) => t.id === best.tradeId)?.txSignature ?? null : null,
+        }
+      : null;
+  }
+
+  if (user.showRecentPositions) {
+    const openMints = new Set(openPositions.map((p) => p.tokenMint));
+    const positions = new Map<string, RecentPosition>();
+    for (const trade of lotTrades) {
+      positions.set(trade.tokenMint, {
+        tokenMint: trade.tokenMint,
+        tokenSymbol: trade.tokenSymbol,
+        isOpen: openMints.has(trade.tokenMint),
+        realizedPnlSol: positions.get(trade.tokenMint)?.realizedPnlSol ?? 0,
+        lastTradeAt: trade.timestamp.toISOString(),
+      });
+    }
+    for (const d of disposals) {
+      const position = positions.get(d.tokenMint);
+      if (position) position.realizedPnlSol += d.gainSol;
+    }
+    stats.recentPositions = Array.from(positions.values())
+      .sort((a, b) => b.lastTradeAt.localeCompare(a.lastTradeAt))
+      .slice(0, RECENT_POSITIONS);
+  }
+
+  return {
+    username: user.username,
+    name: user.name,
+    bio: user.bio,
+    image: user.image,
+    memberSince: user.createdAt.toISOString(),
+    stats,
+  };
+});
@@ -0,0 +1,97 @@
+// Per-user execution presets (P1/P2/P3): slippage, priority fee, Jito tip and MEV-protected send
+// Slots the user never saved fall back to DEFAULT_PRESETS - except on pump.fun, where unsaved
+// presets keep the plain send (no fee lookup, compute budget, tip or Sender) used before presets
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import type { PriorityFeeLevel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const PRESET_SLOTS = [1, 2, 3] as const;
+export const PRIORITY_FEE_LEVELS: PriorityFeeLevel[] = ["MEDIUM", "HIGH", "VERY_HIGH"];
+export const MIN_JITO_TIP_SOL = 0.0002; // Helius Sender rejects smaller tips
+export const MAX_PRIORITY_FEE_SOL = 0.1;
+export const MAX_JITO_TIP_SOL = 0.1;
+
+export interface TradingPresetSettings {
+  slot: number;
+  slippageBps: number;
+  priorityFeeLevel: PriorityFeeLevel;
+  maxPriorityFeeSol: number;
+  mevProtection: boolean;
+  jitoTipSol: number;
+}
+
+// A slot as resolved for a user - saved: false means it's the DEFAULT_PRESETS fallback
+export interface ResolvedTradingPreset extends TradingPresetSettings {
+  saved: boolean;
+}
+
+// What the execution paths need from a preset (slippage is passed separately, as before)
+export interface ExecutionSettings {
+  priorityFeeLevel: PriorityFeeLevel;
+  maxPriorityFeeLamports: number;
+  mevProtection: boolean;
+  jitoTipLamports: number;
+}
+
+export const DEFAULT_PRESETS: Record<number, TradingPresetSettings> = {
+  // Matches the previous hard-coded Jupiter behaviour
+  1: { slot: 1, slippageBps: 3000, priorityFeeLevel: "HIGH", maxPriorityFeeSol: 0.0001, mevProtection: true, jitoTipSol: 0.0002 },
+  // Fast: pay up to land in contested blocks
+  2: { slot: 2, slippageBps: 3000, priorityFeeLevel: "VERY_HIGH", maxPriorityFeeSol: 0.005, mevProtection: true, jitoTipSol: 0.001 },
+  // Cheap: tighter slippage, no tip
+  3: { slot: 3, slippageBps: 1500, priorityFeeLevel: "MEDIUM", maxPriorityFeeSol: 0.00005, mevProtection: false, jitoTipSol: MIN_JITO_TIP_SOL },
+};
+
+export function isPresetSlot(slot: unknown): slot is number {
+  return typeof slot === "number" && (PRESET_SLOTS as readonly number[]).includes(slot);
+}
+
+export function toExecutionSettings(preset: TradingPresetSettings): ExecutionSettings {
+  return {
+    priorityFeeLevel: preset.priorityFeeLevel,
+    maxPriorityFeeLamports: Math.round(preset.maxPriorityFeeSol * LAMPORTS_PER_SOL),
+    mevProtection: preset.mevProtection,
+    jitoTipLamports: Math.round(Math.max(preset.jitoTipSol, MIN_JITO_TIP_SOL) * LAMPORTS_PER_SOL),
+  };
+}
+
+// pump.fun only follows presets the user saved - undefined sends the trade plainly,
+// so snipes and copy trades don't pick up a fee lookup and tip from the defaults
+export function toPumpFunExecutionSettings(preset: ResolvedTradingPreset): ExecutionSettings | undefined {
+  return preset.saved ? toExecutionSettings(preset) : undefined;
+}
+
+// All three slots (saved values or defaults) plus the active one
+export async function getTradingPresets(
+  userId: string
+): Promise<{ presets: ResolvedTradingPreset[]; activeSlot: number }> {
+  const [rows, user] = await Promise.all([
+    prisma.tradingPreset.findMany({ where: { userId } }),
+    prisma.user.findUnique({ where: { id: userId }, select: { tradingPresetSlot: true } }),
+  ]);
+
+  const presets = PRESET_SLOTS.map((slot): ResolvedTradingPreset => {
+    const row = rows.find((r) => r.slot === slot);
+    return row
+      ? {
+          slot,
+          slippageBps: row.slippageBps,
+          priorityFeeLevel: row.priorityFeeLevel,
+          maxPriorityFeeSol: row.maxPriorityFeeSol,
+          mevProtection: row.mevProtection,
+          jitoTipSol: row.jitoTipSol,
+          saved: true,
+        }
+      : { ...DEFAULT_PRESETS[slot], saved: false };
+  });
+
+  const activeSlot = isPresetSlot(user?.tradingPresetSlot) ? user.tradingPresetSlot : 1;
+  return { presets, activeSlot };
+}
+
+// One preset - the user's active one unless a slot is given
+export async function getTradingPreset(userId: string, slot?: number | null): Promise<ResolvedTradingPreset> {
+  const { presets, activeSlot } = await getTradingPresets(userId);
+  const wanted = isPresetSlot(slot) ? slot : activeSlot;
+  return presets.find((p) => p.slot === wanted) ?? { ...DEFAULT_PRESETS[1], saved: false };
+}
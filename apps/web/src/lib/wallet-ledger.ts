@@ -0,0 +1,348 @@
+// Wallet ledger - every SOL / SPL transfer in or out of the custodial wallets
+// - Parsed from Helius enhanced transaction history, classified as DEPOSIT / WITHDRAW / AIRDROP / SWAP
+// - Wallet.ledgerCursor keeps the newest ingested signature, so each sync only pages back to it
+// - The cursor only moves once paging reached it (or the start of history); a sync cut short by
+//   a Helius error or the page limit saves where it stopped (ledgerResumeBefore) and the next run
+//   finishes that stretch before adopting the newer cursor (ledgerPendingCursor)
+// - DEPOSITs are valued at market when ingested (their cost basis); older ones get zero cost, like AIRDROPs
+import { Prisma, type TransferKind, type Wallet } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { config } from "@/lib/config";
+import { getJupiterService, SOL_MINT } from "@/lib/jupiter";
+import { getCachedSolPrice } from "@/lib/price-updater";
+
+const SYNC_INTERVAL_MS = 10 * 60 * 1000; // Sync every wallet every 10 minutes
+const MAX_PAGES = 20; // Up to 2000 transactions per sync
+const MARKET_VALUE_MAX_AGE_MS = 24 * 60 * 60 * 1000; // Only current prices are known - don't value older deposits
+const MIN_SOL_LAMPORTS = 10_000; // Ignore dust (rent refunds, spam)
+
+// Known DEX program IDs for swap detection
+const DEX_PROGRAMS = new Set([
+  "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4", // Jupiter v6
+  "JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB", // Jupiter v4
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8", // Raydium AMM
+  "27haf8L6oxUeXrHrgEgsexjSY5hbVUWEmvv9Nyxg8vQv", // Raydium CLMM
+  "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK", // Raydium Concentrated
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P", // PumpFun
+  "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA", // PumpSwap
+  "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo", // Meteora DLMM
+  "Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB", // Meteora Pools
+]);
+
+export interface ParsedTransfer {
+  signature: string;
+  kind: TransferKind;
+  mint: string;
+  symbol: string | null;
+  amount: bigint;
+  decimals: number;
+  counterparty: string | null;
+  timestamp: Date;
+}
+
+let syncId: NodeJS.Timeout | null = null;
+let isSyncing = false;
+
+// Helius API key from the RPC URL (null when not on Helius)
+export function getHeliusApiKey(): string | null {
+  const match = (config.solanaRpcUrl || "").match(/api-key=([a-f0-9-]+)/i);
+  return match ? match[1] : null;
+}
+
+// DEX program in the transaction, or Helius typed it as a swap
+export function isSwapTransaction(tx: any): boolean {
+  return tx.accountData?.some((acc: any) => DEX_PROGRAMS.has(acc.account)) ||
+    tx.instructions?.some((ix: any) => DEX_PROGRAMS.has(ix.programId)) ||
+    tx.type === "SWAP" || tx.type === "SWAP_WSOL";
+}
+
+// Fetch transaction history from Helius, newest first
+// Stops at untilSignature (exclusive) when given, and starts below beforeSignature when given
+// complete: paging reached untilSignature or the oldest transaction (false after an error or MAX_PAGES)
+export async function fetchTransactionHistory(
+  walletAddress: string,
+  apiKey: string,
+  untilSignature?: string | null,
+  beforeSignature?: string | null
+): Promise<{ transactions: any[]; complete: boolean }> {
+  const allTransactions: any[] = [];
+  let before = beforeSignature || undefined;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    let url = `https://api.helius.xyz/v0/addresses/${walletAddress}/transactions?api-key=${apiKey}`;
+    if (before) url += `&before=${before}`;
+    if (untilSignature) url += `&until=${untilSignature}`;
+
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(30000) });
+
+      if (!response.ok) {
+        console.error(`[wallet-ledger] Helius API error: ${response.status}`);
+        return { transactions: allTransactions, complete: false };
+      }
+
+      const transactions = await response.json();
+      if (!Array.isArray(transactions) || transactions.length === 0) {
+        return { transactions: allTransactions, complete: true };
+      }
+
+      allTransactions.push(...transactions);
+      before = transactions[transactions.length - 1].signature;
+
+      // Stop if we got less than limit (no more pages)
+      if (transactions.length < 100) {
+        return { transactions: allTransactions, complete: true };
+      }
+    } catch (e) {
+      console.error(`[wallet-ledger] Error fetching page ${page}:`, e);
+      return { transactions: allTransactions, complete: false };
+    }
+  }
+
+  return { transactions: allTransactions, complete: false };
+}
+
+// Net SOL / SPL flows of the wallet per transaction, classified
+export function parseTransfers(transactions: any[], walletAddress: string): ParsedTransfer[] {
+  const transfers: ParsedTransfer[] = [];
+
+  for (const tx of transactions) {
+    if (tx.transactionError) continue;
+
+    const isSwap = isSwapTransaction(tx);
+    const timestamp = new Date(tx.timestamp * 1000);
+
+    // mint -> net raw amount, decimals and the accounts on the other side
+    const flows = new Map<string, { net: bigint; decimals: number; symbol: string | null; from: Set<string>; to: Set<string> }>();
+    const flowFor = (mint: string, decimals: number, symbol: string | null) => {
+      let flow = flows.get(mint);
+      if (!flow) {
+        flow = { net: BigInt(0), decimals, symbol, from: new Set(), to: new Set() };
+        flows.set(mint, flow);
+      }
+      return flow;
+    };
+
+    // Native SOL (the fee isn't a native transfer, so it's excluded)
+    for (const transfer of tx.nativeTransfers || []) {
+      const lamports = BigInt(Math.floor(transfer.amount || 0));
+      if (transfer.toUserAccount === walletAddress && transfer.fromUserAccount !== walletAddress) {
+        const flow = flowFor(SOL_MINT, 9, "SOL");
+        flow.net += lamports;
+        if (transfer.fromUserAccount) flow.from.add(transfer.fromUserAccount);
+      } else if (transfer.fromUserAccount === walletAddress && transfer.toUserAccount !== walletAddress) {
+        const flow = flowFor(SOL_MINT, 9, "SOL");
+        flow.net -= lamports;
+        if (transfer.toUserAccount) flow.to.add(transfer.toUserAccount);
+      }
+    }
+
+    // SPL tokens - wrapped SOL is covered by the native side
+    for (const transfer of tx.tokenTransfers || []) {
+      if (transfer.mint === SOL_MINT) continue;
+      const decimals = transfer.decimals ?? 6;
+      const raw = BigInt(Math.round((transfer.tokenAmount || 0) * Math.pow(10, decimals)));
+      const flow = flowFor(transfer.mint, decimals, transfer.symbol || null);
+      if (transfer.toUserAccount === walletAddress && transfer.fromUserAccount !== walletAddress) {
+        flow.net += raw;
+        if (transfer.fromUserAccount) flow.from.add(transfer.fromUserAccount);
+      } else if (transfer.fromUserAccount === walletAddress && transfer.toUserAccount !== walletAddress) {
+        flow.net -= raw;
+        if (transfer.toUserAccount) flow.to.add(transfer.toUserAccount);
+      }
+    }
+
+    for (const [mint, flow] of flows) {
+      if (flow.net === BigInt(0)) continue;
+      const incoming = flow.net > BigInt(0);
+      const amount = incoming ? flow.net : -flow.net;
+      if (mint === SOL_MINT && amount < BigInt(MIN_SOL_LAMPORTS)) continue;
+
+      const others = incoming ? flow.from : flow.to;
+      const counterparty = others.size === 1 ? [...others][0] : null;
+
+      let kind: TransferKind;
+      if (isSwap) {
+        kind = "SWAP";
+      } else if (!incoming) {
+        kind = "WITHDRAW";
+      } else if (mint !== SOL_MINT && tx.feePayer !== walletAddress && tx.feePayer !== counterparty) {
+        kind = "AIRDROP";
+      } else {
+        kind = "DEPOSIT";
+      }
+
+      transfers.push({
+        signature: tx.signature,
+        kind,
+        mint,
+        symbol: flow.symbol,
+        amount,
+        decimals: flow.decimals,
+        counterparty,
+        timestamp,
+      });
+    }
+  }
+
+  return transfers;
+}
+
+// Store parsed transfers (duplicates are skipped), valuing recent deposits at market
+async function storeTransfers(wallet: Wallet, transfers: ParsedTransfer[]): Promise<number> {
+  if (transfers.length === 0) return 0;
+
+  const solPriceUsd = await getCachedSolPrice();
+  const now = Date.now();
+  const isRecentDeposit = (t: ParsedTransfer) =>
+    t.kind === "DEPOSIT" && now - t.timestamp.getTime() <= MARKET_VALUE_MAX_AGE_MS;
+
+  const tokenMints = [...new Set(transfers.filter((t) => isRecentDeposit(t) && t.mint !== SOL_MINT).map((t) => t.mint))];
+  const prices = tokenMints.length > 0
+    ? await getJupiterService().getTokenPrices(tokenMints).catch(() => new Map<string, number>())
+    : new Map<string, number>();
+
+  const data: Prisma.WalletTransferCreateManyInput[] = transfers.map((t) => {
+    let valueUsd: number | null = null;
+    if (isRecentDeposit(t)) {
+      const price = t.mint === SOL_MINT ? solPriceUsd : prices.get(t.mint);
+      if (price) valueUsd = (Number(t.amount) / Math.pow(10, t.decimals)) * price;
+    }
+    return {
+      userId: wallet.userId,
+      walletId: wallet.id,
+      signature: t.signature,
+      kind: t.kind,
+      mint: t.mint,
+      symbol: t.symbol,
+      amount: t.amount.toString(),
+      decimals: t.decimals,
+      counterparty: t.counterparty,
+      valueUsd,
+      solPriceUsd,
+      timestamp: t.timestamp,
+    };
+  });
+
+  const result = await prisma.walletTransfer.createMany({ data, skipDuplicates: true });
+  return result.count;
+}
+
+// Ingest the wallet's new transactions since the last sync; returns the number of transfers stored
+export async function syncWalletLedger(wallet: Wallet, apiKey = getHeliusApiKey()): Promise<number> {
+  if (!apiKey) return 0;
+
+  let stored = 0;
+  let cursor = wallet.ledgerCursor;
+
+  // Finish the stretch an earlier sync didn't get through before looking at newer transactions
+  if (wallet.ledgerResumeBefore) {
+    const { transactions, complete } = await fetchTransactionHistory(
+      wallet.address,
+      apiKey,
+      cursor,
+      wallet.ledgerResumeBefore
+    );
+    stored += await storeTransfers(wallet, parseTransfers(transactions, wallet.address));
+
+    if (!complete) {
+      if (transactions.length > 0) {
+        await prisma.wallet.update({
+          where: { id: wallet.id },
+          data: { ledgerResumeBefore: transactions[transactions.length - 1].signature },
+        });
+      }
+      logStored(wallet, stored);
+      return stored;
+    }
+
+    cursor = wallet.ledgerPendingCursor;
+    await prisma.wallet.update({
+      where: { id: wallet.id },
+      data: { ledgerCursor: cursor, ledgerPendingCursor: null, ledgerResumeBefore: null },
+    });
+  }
+
+  const { transactions, complete } = await fetchTransactionHistory(wallet.address, apiKey, cursor);
+  if (transactions.length > 0) {
+    stored += await storeTransfers(wallet, parseTransfers(transactions, wallet.address));
+
+    await prisma.wallet.update({
+      where: { id: wallet.id },
+      data: complete
+        ? { ledgerCursor: transactions[0].signature }
+        : {
+            // Cut short - keep the old cursor and pick up below the oldest transaction fetched
+            ledgerPendingCursor: transactions[0].signature,
+            ledgerResumeBefore: transactions[transactions.length - 1].signature,
+          },
+    });
+  }
+
+  logStored(wallet, stored);
+  return stored;
+}
+
+function logStored(wallet: Wallet, stored: number): void {
+  if (stored > 0) {
+    console.log(`[wallet-ledger] ${wallet.address.slice(0, 8)}... +${stored} transfers`);
+  }
+}
+
+// Record a withdrawal we sent ourselves right away, without waiting for the next sync
+export async function recordWithdrawal(
+  wallet: Wallet,
+  transfer: { signature: string; mint: string; amount: bigint; decimals: number; destination: string }
+): Promise<void> {
+  await storeTransfers(wallet, [{
+    signature: transfer.signature,
+    kind: "WITHDRAW",
+    mint: transfer.mint,
+    symbol: transfer.mint === SOL_MINT ? "SOL" : null,
+    amount: transfer.amount,
+    decimals: transfer.decimals,
+    counterparty: transfer.destination,
+    timestamp: new Date(),
+  }]);
+}
+
+async function syncAllWallets(): Promise<void> {
+  if (isSyncing) return;
+  const apiKey = getHeliusApiKey();
+  if (!apiKey) return;
+
+  isSyncing = true;
+  try {
+    const wallets = await prisma.wallet.findMany({ where: { archivedAt: null } });
+    for (const wallet of wallets) {
+      try {
+        await syncWalletLedger(wallet, apiKey);
+      } catch (error) {
+        console.error(`[wallet-ledger] Sync failed for ${wallet.address.slice(0, 8)}...:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[wallet-ledger] Sync error:", error);
+  } finally {
+    isSyncing = false;
+  }
+}
+
+export function startWalletLedgerSync(): void {
+  if (syncId) return;
+  if (!getHeliusApiKey()) {
+    console.log("[wallet-ledger] No Helius API key - ledger sync disabled");
+    return;
+  }
+  console.log("[wallet-ledger] Starting ledger sync");
+  syncAllWallets();
+  syncId = setInterval(syncAllWallets, SYNC_INTERVAL_MS);
+}
+
+export function stopWalletLedgerSync(): void {
+  if (syncId) {
+    clearInterval(syncId);
+    syncId = null;
+    console.log("[wallet-ledger] Stopped");
+  }
+}
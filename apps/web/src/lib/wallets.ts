@@ -0,0 +1,87 @@
+// Multi-wallet helpers - resolve which custodial wallet a request trades from
+import type { Wallet } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const MAX_WALLETS_PER_USER = 10;
+
+/**
+ * Make sure the user's original wallet (User.walletAddress) has a Wallet row.
+ * Accounts created before multi-wallet only have the User columns.
+ */
+export async function ensurePrimaryWallet(userId: string): Promise<Wallet | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { walletAddress: true, walletEncrypted: true },
+  });
+
+  if (!user?.walletAddress || !user?.walletEncrypted) {
+    return null;
+  }
+
+  return prisma.wallet.upsert({
+    where: { address: user.walletAddress },
+    update: {},
+    create: {
+      userId,
+      label: "Main",
+      address: user.walletAddress,
+      encryptedKey: user.walletEncrypted,
+      isPrimary: true,
+    },
+  });
+}
+
+/**
+ * List the user's wallets (primary first), optionally including archived ones
+ */
+export async function getUserWallets(userId: string, includeArchived = false): Promise<Wallet[]> {
+  await ensurePrimaryWallet(userId);
+
+  return prisma.wallet.findMany({
+    where: { userId, ...(includeArchived ? {} : { archivedAt: null }) },
+    orderBy: [{ isPrimary: "desc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Resolve the wallet to trade from: the given wallet if it belongs to the
+ * user and isn't archived, otherwise the primary wallet when no id is given.
+ */
+export async function resolveWallet(userId: string, walletId?: string | null): Promise<Wallet | null> {
+  if (walletId) {
+    return prisma.wallet.findFirst({
+      where: { id: walletId, userId, archivedAt: null },
+    });
+  }
+
+  const primary = await prisma.wallet.findFirst({
+    where: { userId, isPrimary: true },
+  });
+  return primary ?? ensurePrimaryWallet(userId);
+}
+
+/**
+ * Trade filter for one wallet - trades recorded before multi-wallet have no
+ * walletId and belong to the primary wallet
+ */
+export function walletTradeFilter(wallet: Pick<Wallet, "id" | "isPrimary">) {
+  return wallet.isPrimary
+    ? { OR: [{ walletId: wallet.id }, { walletId: null }] }
+    : { walletId: wallet.id };
+}
+
+/**
+ * Active orders and rules that trade from a wallet - an archived wallet can't
+ * trade, so these have to be cancelled before it's archived
+ */
+export async function getWalletDependents(walletId: string) {
+  const [limitOrders, positionRules, scheduledOrders, snipeRules, copyFollows] = await Promise.all([
+    prisma.limitOrder.count({ where: { walletId, status: { in: ["OPEN", "TRIGGERED"] } } }),
+    prisma.positionRule.count({ where: { walletId, status: { in: ["ACTIVE", "TRIGGERED"] } } }),
+    prisma.scheduledOrder.count({ where: { walletId, status: { in: ["ACTIVE", "PAUSED"] } } }),
+    prisma.snipeRule.count({ where: { walletId, enabled: true } }),
+    prisma.copyTradeFollow.count({ where: { walletId, mirror: true } }),
+  ]);
+
+  return { limitOrders, positionRules, scheduledOrders, snipeRules, copyFollows };
+}
@@ -9,7 +9,7 @@ export const runtime = "nodejs";
 const protectedRoutes = ["/dashboard", "/pulse", "/markets", "/token"];
 
 // Routes that are always public
-const publicRoutes = ["/", "/solutions", "/tos", "/privacy", "/embed", "/api"];
+const publicRoutes = ["/", "/solutions", "/tos", "/privacy", "/embed", "/u", "/api"];
 
 export default auth((request) => {
   const { pathname } = request.nextUrl;
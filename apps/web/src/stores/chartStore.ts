@@ -34,12 +34,16 @@ const LINE_PERIOD_CONFIG: Record<LinePeriod, { interval: string; seconds: number
 // CANDLESTICK CHART: Period = CANDLE INTERVAL (size of each candle)
 // User selects "1H" = show 1-hour candles (each candle = 1 hour of data)
 // ============================================================================
-export type CandlePeriod = "1s" | "1m" | "5m" | "15m" | "1h" | "4h" | "1d" | "1w" | "1M";
+export type CandlePeriod = "1s" | "1t" | "10t" | "100t" | "1m" | "5m" | "15m" | "1h" | "4h" | "1d" | "1w" | "1M";
 
 // Candlestick config - period IS the interval, we fetch enough data to show ~100-200 candles
 // 1s is special: per-trade candles for Pulse tokens (pump.fun style)
+// 1t/10t/100t are tick candles: each candle = N trades from the full swap history (Pulse only)
 const CANDLE_PERIOD_CONFIG: Record<CandlePeriod, { interval: string; seconds: number; isPulse?: boolean }> = {
   "1s": { interval: "1s", seconds: 0, isPulse: true },      // Per-trade candles, fetch ALL history (pump.fun style)
+  "1t": { interval: "1t", seconds: 0, isPulse: true },      // 1 trade per candle
+  "10t": { interval: "10t", seconds: 0, isPulse: true },    // 10 trades per candle
+  "100t": { interval: "100t", seconds: 0, isPulse: true },  // 100 trades per candle
   "1m": { interval: "1min", seconds: 7200 },                // 1 min candles, 2 hours of data (~120 candles)
   "5m": { interval: "5min", seconds: 36000 },               // 5 min candles, 10 hours of data (~120 candles)
   "15m": { interval: "15m", seconds: 86400 },               // 15 min candles, 24 hours of data (~96 candles)
@@ -56,6 +60,9 @@ export type Period = LinePeriod;
 // Helper to get config based on chart type
 export type ChartType = "line" | "candle";
 
+// Y-axis series: "mcap" candles are price scaled by token supply (API series=mcap)
+export type ChartSeries = "price" | "mcap";
+
 function getPeriodConfig(period: string, chartType: ChartType) {
   if (chartType === "candle" && period in CANDLE_PERIOD_CONFIG) {
     return CANDLE_PERIOD_CONFIG[period as CandlePeriod];
@@ -208,7 +215,10 @@ export const useChartStore = create<ChartStore>((set, get) => ({
       // Pulse tokens are new pump.fun tokens that only have PumpPortal data
       if (isPulseToken) {
         // Use Next.js proxy route (protects internal API key)
-        const response = await fetch(`/api/pulse/ohlcv/${tokenAddress}`);
+        // Only tick candles pick a timeframe; everything else keeps the proxy's default
+        const isTick = TICK_PERIODS.some((p) => p.value === period);
+        const query = isTick ? `?timeframe=${encodeURIComponent(config.interval)}` : "";
+        const response = await fetch(`/api/pulse/ohlcv/${tokenAddress}${query}`);
         if (!response.ok) {
           throw new Error(`API error: ${response.status}`);
         }
@@ -275,3 +285,10 @@ export const CANDLE_PERIODS: { value: CandlePeriod; label: string }[] = [
 
 // 1s option is ONLY for candlestick chart on Pulse tokens (per-trade candles)
 export const PULSE_PERIOD = { value: "1s" as const, label: "1s" };
+
+// Tick options are ONLY for candlestick chart on Pulse tokens (N trades per candle)
+export const TICK_PERIODS: { value: CandlePeriod; label: string }[] = [
+  { value: "1t", label: "1T" },     // 1 trade per candle
+  { value: "10t", label: "10T" },   // 10 trades per candle
+  { value: "100t", label: "100T" }, // 100 trades per candle
+];
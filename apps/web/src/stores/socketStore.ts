@@ -26,7 +26,16 @@ export const useSocketStore = create<SocketState>((set, get) => ({
     }
 
     const wsUrl = process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:3001";
-    const socket = io(wsUrl, { transports: ["websocket"] });
+    const socket = io(wsUrl, {
+      transports: ["websocket"],
+      // Signed token for private events (tracker trades, alerts, rank changes) - fetched on every (re)connect
+      auth: (cb) => {
+        fetch("/api/socket/token")
+          .then((res) => (res.ok ? res.json() : {}))
+          .then((data: { token?: string }) => cb({ token: data.token }))
+          .catch(() => cb({}));
+      },
+    });
 
     socket.on("connect", () => {
       console.log("🔌 Socket connected:", socket.id);
@@ -0,0 +1,97 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+export interface UserWallet {
+  id: string;
+  label: string;
+  address: string;
+  isPrimary: boolean;
+  imported: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+}
+
+interface WalletState {
+  wallets: UserWallet[];
+  activeWalletId: string | null;
+  loading: boolean;
+
+  fetchWallets: () => Promise<void>;
+  setActiveWallet: (walletId: string) => void;
+  createWallet: (label: string, secretKey?: string) => Promise<UserWallet>;
+  updateWallet: (walletId: string, changes: { label?: string; archived?: boolean }) => Promise<UserWallet>;
+}
+
+export const useWalletStore = create<WalletState>()(
+  persist(
+    (set, get) => ({
+      wallets: [],
+      activeWalletId: null,
+      loading: false,
+
+      fetchWallets: async () => {
+        set({ loading: true });
+        try {
+          const res = await fetch("/api/wallet?archived=true");
+          if (!res.ok) return;
+          const data = await res.json();
+          const wallets: UserWallet[] = data.wallets || [];
+
+          // Fall back to the primary wallet if the active one was archived or removed
+          const { activeWalletId } = get();
+          const active = wallets.find((w) => w.id === activeWalletId && !w.archivedAt);
+          const primary = wallets.find((w) => w.isPrimary);
+          set({ wallets, activeWalletId: active?.id ?? primary?.id ?? null });
+        } catch (err) {
+          console.error("Failed to fetch wallets:", err);
+        } finally {
+          set({ loading: false });
+        }
+      },
+
+      setActiveWallet: (walletId: string) => {
+        set({ activeWalletId: walletId });
+      },
+
+      createWallet: async (label: string, secretKey?: string) => {
+        const res = await fetch("/api/wallet", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ label, secretKey }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to create wallet");
+        }
+        set({ wallets: [...get().wallets, data.wallet] });
+        return data.wallet;
+      },
+
+      updateWallet: async (walletId: string, changes: { label?: string; archived?: boolean }) => {
+        const res = await fetch(`/api/wallet/${walletId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to update wallet");
+        }
+
+        const wallets = get().wallets.map((w) => (w.id === walletId ? data.wallet : w));
+        const { activeWalletId } = get();
+        // Archiving the active wallet switches back to the primary one
+        const nextActive = data.wallet.archivedAt && activeWalletId === walletId
+          ? wallets.find((w) => w.isPrimary)?.id ?? null
+          : activeWalletId;
+        set({ wallets, activeWalletId: nextActive });
+        return data.wallet;
+      },
+    }),
+    {
+      name: "polyx-wallet",
+      // Only the selection is persisted - the wallet list is always refetched
+      partialize: (state) => ({ activeWalletId: state.activeWalletId }),
+    }
+  )
+);